@@ -1,15 +1,25 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import GameEngine from './components/GameEngine';
-import { generateStarSystem, generateSectorName } from './services/planetGenerator';
-import { GameStatus, PlanetData, PlayerUpgrades } from './types';
-import { playSound, initAudio } from './services/audioService';
-
-const INITIAL_UPGRADES: PlayerUpgrades = {
-  hull: 1,
-  weapon: 1,
-  thrusters: 1,
-  speed: 1
-};
+import ControlsSettings from './components/ControlsSettings';
+import AudioSettingsPanel from './components/AudioSettingsPanel';
+import LanguageSelector from './components/LanguageSelector';
+import ArmoryPanel from './components/ArmoryPanel';
+import GalaxyMap from './components/GalaxyMap';
+import Starmap from './components/Starmap';
+import { BIOME_LABELS, CLIMATE_LABELS, describePlanet } from './services/planetGenerator';
+import { PLANET_PROVIDER_IDS, generateSystem } from './services/planetProvider';
+import { formatSeed } from './services/rng';
+import { ArmoryData, ControlSettings, GalaxyData, GameSettings, GameStatus, HazardType, MissionSalvage, PlanetData, PlayerUpgrades, ReplayData, SaveData, SaveSlotSummary, VisitedPlanet, WeaponModId } from './types';
+import { playSound, initAudio, applyAudioSettings } from './services/audioService';
+import { setMusicContext } from './services/musicService';
+import { SAVE_VERSION, createNewSave, deleteSave, getLastSlot, listSaveSlots, loadGame, saveGame } from './services/saveService';
+import { getReplayFileName, parseReplay, serializeReplay } from './services/replayService';
+import { loadSettings, saveSettings } from './services/settingsService';
+import { addModToStorage, addSalvage, createArmory, getLoadout } from './services/armoryService';
+import { DeepScanReport, ScanReport, deepScanPlanet, isProbed, launchProbe, scanPlanet } from './services/scanService';
+import { arriveAtSector, findRoute, getCurrentSector, getJumpCost, getNeighbours } from './services/galaxyService';
+import { setLanguage, t } from './services/i18n';
+import { CORE_RECOVERY_RATE, INITIAL_UPGRADES, SCAN, STARTING_CORES, WEAPON_MODS } from './constants';
 
 const UPGRADE_COSTS = {
   hull: 5,
@@ -19,47 +29,113 @@ const UPGRADE_COSTS = {
 };
 
 // New Sub-States for Hangar
-type HangarMode = 'BRIDGE' | 'ENGINEERING' | 'NAVIGATION';
+type HangarMode = 'BRIDGE' | 'ENGINEERING' | 'ARMORY' | 'NAVIGATION';
+type NavView = 'SYSTEM' | 'GALAXY';
+type ScannedHazard = Exclude<HazardType, 'none'>; // Never reported: 'none' is not placed
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const UNSCANNED: PlanetData[] = []; // Planets of a sector not scanned yet (stable reference for effect deps)
 
 const App: React.FC = () => {
   const [status, setStatus] = useState<GameStatus>(GameStatus.MENU);
   const [planet, setPlanet] = useState<PlanetData | null>(null); // Selected Planet
-  const [starSystem, setStarSystem] = useState<PlanetData[]>([]); // Current System
-  const [currentSector, setCurrentSector] = useState<string>("Unknown Sector");
+  const [galaxy, setGalaxy] = useState<GalaxyData>(() => createNewSave().galaxy);
+  const starSystem = getCurrentSector(galaxy).planets || UNSCANNED; // Current System
+  const currentSector = getCurrentSector(galaxy).name;
   const [finalScore, setFinalScore] = useState(0);
   const [endMessage, setEndMessage] = useState("");
   
   // Progression State
-  const [totalCores, setTotalCores] = useState(5); // Increased to 5 for better early game balance
+  const [totalCores, setTotalCores] = useState(STARTING_CORES);
   const [upgrades, setUpgrades] = useState<PlayerUpgrades>(INITIAL_UPGRADES);
+  const [visitedPlanets, setVisitedPlanets] = useState<VisitedPlanet[]>([]);
+  const [armory, setArmory] = useState<ArmoryData>(createArmory);
+  const [probedPlanets, setProbedPlanets] = useState<number[]>([]);
+  const loadout = useMemo(() => getLoadout(armory), [armory]); // Stable between renders: a new loadout restarts the mission
+
+  // Save Slots
+  const [activeSlot, setActiveSlot] = useState<number | null>(null);
+  const [saveSlots, setSaveSlots] = useState<(SaveSlotSummary | null)[]>(() => listSaveSlots());
+  const [lastSlot, setLastSlot] = useState<number | null>(() => getLastSlot());
+
+  // Replays
+  const [lastReplay, setLastReplay] = useState<ReplayData | null>(null); // Recording of the most recent landing
+  const [activeReplay, setActiveReplay] = useState<ReplayData | null>(null);
+  const [replayReturnStatus, setReplayReturnStatus] = useState<GameStatus>(GameStatus.MENU);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const replayFileRef = useRef<HTMLInputElement>(null);
+
+  // Device settings (persisted on every change)
+  const [settings, setSettings] = useState<GameSettings>(() => { const loaded = loadSettings(); setLanguage(loaded.language); return loaded; });
+  const [showControls, setShowControls] = useState(false);
+  const [showAudio, setShowAudio] = useState(false);
   
   // Ship State
   const [hangarMode, setHangarMode] = useState<HangarMode>('BRIDGE');
   const [selectedPlanetIndex, setSelectedPlanetIndex] = useState<number | null>(null);
   const [isWarping, setIsWarping] = useState(false);
+  const [navView, setNavView] = useState<NavView>('SYSTEM');
+  const [selectedSector, setSelectedSector] = useState<number | null>(null);
+  const route = useMemo(() => (selectedSector === null ? null : findRoute(galaxy, galaxy.current, selectedSector)), [galaxy, selectedSector]);
+  const nextJumpCost = route && route.path.length > 1 ? getJumpCost(galaxy, route.path[0], route.path[1]) : null;
+  const cheapestJump = Math.min(...getNeighbours(galaxy, galaxy.current).map(id => getJumpCost(galaxy, galaxy.current, id)));
 
+  // Jumps one lane along the planned route; a sector scanned before keeps its planets
   const handleHyperspaceJump = async () => {
-    if (totalCores < 1) {
+    if (!route || nextJumpCost === null) return;
+    if (totalCores < nextJumpCost) {
         playSound('ui'); // Should ideally be an error sound
         return;
     }
+    const target = galaxy.sectors[route.path[1]];
     
-    setTotalCores(prev => prev - 1);
+    setTotalCores(prev => prev - nextJumpCost);
     setIsWarping(true);
+    setNavView('SYSTEM'); // The warp plays on the system view
     setSelectedPlanetIndex(null);
     setPlanet(null);
     playSound('thrust'); // Warp sound
     
-    // Warp Animation Delay
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    
-    const data = await generateStarSystem();
-    const newSector = generateSectorName();
-    
-    setStarSystem(data);
-    setCurrentSector(newSector);
-    setIsWarping(false);
-    playSound('sensor');
+    try {
+        // Warp Animation Delay
+        await new Promise(resolve => setTimeout(resolve, 2000));
+        
+        const data = target.planets || await generateSystem(settings.planetProvider, target.seed);
+        
+        setGalaxy(prev => arriveAtSector(prev, target.id, data));
+        if (target.id === selectedSector) setSelectedSector(null); else setNavView('GALAXY'); // More jumps to go
+        playSound('sensor');
+    } catch (error) {
+        // No planets for the target: the ship stays where it was and the fuel is refunded
+        console.error("Hyperspace jump failed:", error);
+        setTotalCores(prev => prev + nextJumpCost);
+    } finally {
+        setIsWarping(false);
+    }
+  };
+
+  // Scan of the selected planet; the deep scan builds the whole level, so it only runs once a probe was paid for
+  const scan: ScanReport | null = useMemo(() => (planet ? scanPlanet(planet) : null), [planet]);
+  const probed = !!planet && isProbed(probedPlanets, planet);
+  const deepScan: DeepScanReport | null = useMemo(() => (planet && probed ? deepScanPlanet(planet) : null), [planet, probed]);
+
+  const handleLaunchProbe = () => {
+    if (!planet || probed) return;
+    if (totalCores >= SCAN.PROBE_COST) {
+      playSound('sensor');
+      setTotalCores(prev => prev - SCAN.PROBE_COST);
+      setProbedPlanets(prev => launchProbe(prev, planet));
+    } else {
+        playSound('ui');
+    }
+  };
+
+  const handleSelectPlanet = (index: number) => {
+      if (index === selectedPlanetIndex) return;
+      playSound('ui');
+      setSelectedPlanetIndex(index);
+      setPlanet(starSystem[index]);
   };
 
   const handleStartMission = () => {
@@ -68,19 +144,36 @@ const App: React.FC = () => {
       setStatus(GameStatus.PLAYING);
   };
 
+  const recordVisit = (outcome: VisitedPlanet['outcome'], score: number) => {
+    if (!planet) return;
+    setVisitedPlanets(prev => [...prev, { seed: planet.seed, name: planet.name, sector: currentSector, outcome, score, visitedAt: Date.now() }]);
+  };
+
   const handleGameOver = (score: number, coresCollected: number, reason: string) => {
-    const savedCores = Math.floor(coresCollected * 0.5);
+    const savedCores = Math.floor(coresCollected * CORE_RECOVERY_RATE);
+    recordVisit('failed', score);
     setTotalCores(prev => prev + savedCores);
     setFinalScore(score);
-    setEndMessage(`${reason} ${savedCores > 0 ? `Recupero: ${savedCores} Cores.` : `Nessun nucleo salvato.`}`);
+    setEndMessage(`${reason} ${savedCores > 0 ? t('end.recovered', { count: savedCores }) : t('end.noneSaved')}`);
     setStatus(GameStatus.GAME_OVER);
   };
 
-  const handleVictory = (score: number, collectedCores: number) => {
+  // Aborting from the pause menu counts as a failed landing (same core recovery) but goes straight back to orbit
+  const handleAbortMission = (score: number, coresCollected: number) => {
+    const savedCores = Math.floor(coresCollected * CORE_RECOVERY_RATE);
+    recordVisit('failed', score);
+    setTotalCores(prev => prev + savedCores);
+    setStatus(GameStatus.HANGAR);
+    setHangarMode('BRIDGE');
+  };
+
+  const handleVictory = (score: number, collectedCores: number, salvage: MissionSalvage) => {
     const victoryBonus = 3;
+    setArmory(prev => addSalvage(prev, salvage));
+    recordVisit('victory', score + 1000);
     setFinalScore(score + 1000);
     setTotalCores(prev => prev + collectedCores + victoryBonus);
-    setEndMessage(`Missione Compiuta. +${victoryBonus} Bonus Cores.`);
+    setEndMessage(t('end.victory', { bonus: victoryBonus }));
     setStatus(GameStatus.VICTORY);
   };
 
@@ -95,168 +188,133 @@ const App: React.FC = () => {
     }
   };
 
-  const handleEnterShip = () => {
+  const buyMod = (id: WeaponModId) => {
+    const cost = WEAPON_MODS[id].cost;
+    if (totalCores >= cost) {
+      playSound('powerup');
+      setTotalCores(prev => prev - cost);
+      setArmory(prev => addModToStorage(prev, id));
+    } else {
+        playSound('ui');
+    }
+  };
+
+  const handleEnterShip = (galaxyToUse: GalaxyData) => {
       initAudio();
       playSound('ui');
       setStatus(GameStatus.HANGAR);
       setHangarMode('BRIDGE');
-      // Auto-scan a system if none exists (First load)
-      if (starSystem.length === 0) {
-          generateStarSystem().then(data => {
-              setStarSystem(data);
-              setCurrentSector(generateSectorName());
-          });
+      // Auto-scan the current sector if it never was (First load)
+      const sector = getCurrentSector(galaxyToUse);
+      if (!sector.planets) {
+          generateSystem(settings.planetProvider, sector.seed)
+              .then(data => setGalaxy(prev => arriveAtSector(prev, sector.id, data)))
+              .catch(error => console.error("Sector scan failed:", error)); // Left unscanned: loading the slot again retries
       }
   };
 
-  // --- Starmap Canvas Rendering ---
-  const mapCanvasRef = useRef<HTMLCanvasElement>(null);
-  useEffect(() => {
-      if (status === GameStatus.HANGAR && hangarMode === 'NAVIGATION' && mapCanvasRef.current) {
-          const canvas = mapCanvasRef.current;
-          const ctx = canvas.getContext('2d');
-          if (!ctx) return;
-          
-          let animId: number;
-          const renderMap = () => {
-              const w = canvas.width;
-              const h = canvas.height;
-              const cx = w / 2;
-              const cy = h / 2;
-              const time = Date.now();
-
-              ctx.clearRect(0, 0, w, h);
-              
-              if (isWarping) {
-                  // WARP EFFECT
-                  ctx.fillStyle = 'rgba(0, 0, 0, 0.1)'; 
-                  ctx.fillRect(0,0,w,h);
-                  ctx.strokeStyle = '#00ffff';
-                  ctx.lineWidth = 2;
-                  for(let i=0; i<50; i++) {
-                      const x = Math.random() * w;
-                      const y = Math.random() * h;
-                      const len = Math.random() * 100 + 50;
-                      ctx.beginPath();
-                      ctx.moveTo(cx + (x-cx)*0.1, cy + (y-cy)*0.1);
-                      ctx.lineTo(x, y);
-                      ctx.stroke();
-                  }
-              } else {
-                  // Grid
-                  ctx.strokeStyle = 'rgba(0, 255, 255, 0.1)';
-                  ctx.lineWidth = 1;
-                  const gridSize = 40;
-                  for(let x=0; x<w; x+=gridSize) { ctx.beginPath(); ctx.moveTo(x,0); ctx.lineTo(x,h); ctx.stroke(); }
-                  for(let y=0; y<h; y+=gridSize) { ctx.beginPath(); ctx.moveTo(0,y); ctx.lineTo(w,y); ctx.stroke(); }
-
-                  // Sun
-                  ctx.fillStyle = '#ffaa00';
-                  ctx.shadowColor = '#ffaa00'; ctx.shadowBlur = 20;
-                  ctx.beginPath(); ctx.arc(cx, cy, 15, 0, Math.PI*2); ctx.fill();
-                  ctx.shadowBlur = 0;
-
-                  // Planets
-                  starSystem.forEach((p, idx) => {
-                      const r = p.orbitRadius || 50;
-                      const speed = p.orbitSpeed || 0.001;
-                      const angle = time * speed + (idx * 2); // Spread them out
-                      const px = cx + Math.cos(angle) * r;
-                      const py = cy + Math.sin(angle) * r;
-
-                      // Orbit Line
-                      ctx.strokeStyle = 'rgba(255, 255, 255, 0.1)';
-                      ctx.beginPath(); ctx.arc(cx, cy, r, 0, Math.PI*2); ctx.stroke();
-
-                      // Planet Body
-                      ctx.fillStyle = p.atmosphereColor;
-                      
-                      // Pulse Effect if selected
-                      if (idx === selectedPlanetIndex) {
-                          ctx.shadowColor = '#ffffff'; 
-                          ctx.shadowBlur = 15; 
-                          ctx.strokeStyle = '#fff'; 
-                          ctx.lineWidth = 2;
-                      } else {
-                          ctx.shadowBlur = 0;
-                      }
-                      
-                      ctx.beginPath(); ctx.arc(px, py, (p.size || 10) / 2, 0, Math.PI*2); ctx.fill();
-                      if (idx === selectedPlanetIndex) ctx.stroke();
-
-                      // Selection Target (Reticle)
-                      if (idx === selectedPlanetIndex) {
-                          const size = (p.size || 10) + 10;
-                          const rot = time * 0.002;
-                          ctx.strokeStyle = '#00ff00';
-                          ctx.lineWidth = 2;
-                          
-                          ctx.save();
-                          ctx.translate(px, py);
-                          ctx.rotate(rot);
-                          ctx.beginPath();
-                          ctx.arc(0, 0, size, 0, Math.PI * 0.5); ctx.stroke();
-                          ctx.beginPath();
-                          ctx.arc(0, 0, size, Math.PI, Math.PI * 1.5); ctx.stroke();
-                          ctx.restore();
-
-                          // Name Tag
-                          ctx.fillStyle = '#00ff00';
-                          ctx.font = '14px monospace'; // Larger font
-                          ctx.fillText(p.name, px + 22, py - 25);
-                          
-                          // Line to Name
-                          ctx.strokeStyle = '#00ff00';
-                          ctx.lineWidth = 1;
-                          ctx.beginPath(); 
-                          ctx.moveTo(px + 10, py - 10); 
-                          ctx.lineTo(px + 20, py - 20); 
-                          ctx.lineTo(px + 60, py - 20);
-                          ctx.stroke();
-                      }
-                  });
-              }
-
-              animId = requestAnimationFrame(renderMap);
-          };
-          renderMap();
-          return () => cancelAnimationFrame(animId);
+  // --- Campaign Save Slots ---
+  const applySave = (data: SaveData) => {
+      setTotalCores(data.totalCores);
+      setUpgrades(data.upgrades);
+      setGalaxy(data.galaxy);
+      setSelectedSector(null);
+      setNavView('SYSTEM');
+      setVisitedPlanets(data.visitedPlanets);
+      setArmory(data.armory);
+      setProbedPlanets(data.probedPlanets);
+      setPlanet(null);
+      setSelectedPlanetIndex(null);
+  };
+
+  const handleNewGame = (slot: number) => {
+      const data = createNewSave();
+      applySave(data);
+      setActiveSlot(slot);
+      saveGame(slot, data);
+      handleEnterShip(data.galaxy);
+  };
+
+  const handleLoadGame = (slot: number) => {
+      const data = loadGame(slot);
+      if (!data) { playSound('ui'); setSaveSlots(listSaveSlots()); return; }
+      applySave(data);
+      setActiveSlot(slot);
+      handleEnterShip(data.galaxy);
+  };
+
+  const handleDeleteSave = (slot: number) => {
+      playSound('ui');
+      deleteSave(slot);
+      setSaveSlots(listSaveSlots());
+      setLastSlot(getLastSlot());
+  };
+
+  // --- Replays ---
+  const handleWatchReplay = (replay: ReplayData) => {
+      playSound('ui');
+      setReplayError(null);
+      setReplayReturnStatus(status);
+      setActiveReplay(replay);
+      setStatus(GameStatus.REPLAY);
+  };
+
+  const handleExitReplay = () => {
+      playSound('ui');
+      setActiveReplay(null);
+      setStatus(replayReturnStatus);
+  };
+
+  const handleExportReplay = (replay: ReplayData) => {
+      playSound('ui');
+      const url = URL.createObjectURL(new Blob([serializeReplay(replay)], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url; link.download = getReplayFileName(replay);
+      link.click();
+      URL.revokeObjectURL(url);
+  };
+
+  const handleImportReplay = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = ''; // Allow re-importing the same file
+      if (!file) return;
+      try {
+          handleWatchReplay(parseReplay(await file.text()));
+      } catch (error) {
+          console.error("Replay import failed:", error);
+          setReplayError(t('menu.replayError', { reason: error instanceof Error ? error.message : String(error) }));
       }
-  }, [status, hangarMode, starSystem, selectedPlanetIndex, isWarping]);
-
-  const handleMapClick = (e: React.MouseEvent) => {
-      if (!mapCanvasRef.current || isWarping) return;
-      const rect = mapCanvasRef.current.getBoundingClientRect();
-      
-      const scaleX = mapCanvasRef.current.width / rect.width;
-      const scaleY = mapCanvasRef.current.height / rect.height;
-
-      const clickX = (e.clientX - rect.left) * scaleX;
-      const clickY = (e.clientY - rect.top) * scaleY;
-      
-      const w = mapCanvasRef.current.width;
-      const h = mapCanvasRef.current.height;
-      const cx = w/2; const cy = h/2;
-      const time = Date.now();
-
-      let clicked = false;
-      starSystem.forEach((p, idx) => {
-          const r = p.orbitRadius || 50;
-          const speed = p.orbitSpeed || 0.001;
-          const angle = time * speed + (idx * 2);
-          const px = cx + Math.cos(angle) * r;
-          const py = cy + Math.sin(angle) * r;
-          
-          const dist = Math.hypot(clickX - px, clickY - py);
-          if (dist < 40) {
-              playSound('ui');
-              setSelectedPlanetIndex(idx);
-              setPlanet(p);
-              clicked = true;
-          }
-      });
   };
 
+  const handleSettingsChange = (next: GameSettings) => {
+      setLanguage(next.language); // Before the re-render, so every t() call sees the new language
+      setSettings(next);
+      saveSettings(next);
+  };
+
+  const handleControlsChange = (controls: ControlSettings) => handleSettingsChange({ ...settings, controls });
+
+  useEffect(() => {
+      applyAudioSettings(settings.audio);
+  }, [settings.audio]);
+
+  // Music outside missions; in a mission (or replay) GameEngine picks it from the world state
+  useEffect(() => {
+      if (status === GameStatus.MENU || status === GameStatus.HANGAR) setMusicContext('hangar');
+      else if (status === GameStatus.GAME_OVER || status === GameStatus.VICTORY) setMusicContext('silence');
+  }, [status]);
+
+  // Auto-save whenever we are back in orbit (after a mission, an upgrade or a completed jump)
+  useEffect(() => {
+      if (status !== GameStatus.HANGAR || activeSlot === null || isWarping) return;
+      saveGame(activeSlot, { version: SAVE_VERSION, savedAt: Date.now(), totalCores, upgrades, galaxy, visitedPlanets, armory, probedPlanets });
+  }, [status, activeSlot, isWarping, totalCores, upgrades, galaxy, visitedPlanets, armory, probedPlanets]);
+
+  // Refresh slot summaries when coming back to the title screen
+  useEffect(() => {
+      if (status === GameStatus.MENU) { setSaveSlots(listSaveSlots()); setLastSlot(getLastSlot()); }
+  }, [status]);
+
   const renderHangar = () => {
       return (
           <div className="relative w-full h-full flex flex-col items-center justify-center p-4">
@@ -268,7 +326,7 @@ const App: React.FC = () => {
                   <div className="absolute inset-0 border-[40px] border-gray-800 rounded-[50px] shadow-[inset_0_0_100px_black]"></div>
                   <div className="absolute bottom-0 w-full h-32 bg-gray-800 border-t-4 border-gray-600 flex justify-center items-center">
                       <div className={`text-gray-500 font-mono text-base ${isWarping ? 'text-red-500 animate-bounce' : 'animate-pulse'}`}>
-                          {isWarping ? 'WARNING: HYPERSPACE JUMP IN PROGRESS' : `SYSTEMS ONLINE // ${currentSector}`}
+                          {isWarping ? t('hangar.warping') : t('hangar.online', { sector: currentSector })}
                       </div>
                   </div>
               </div>
@@ -278,12 +336,13 @@ const App: React.FC = () => {
                   
                   {/* Left: Menu/Status */}
                   <div className="w-full md:w-1/4 bg-black/80 border-2 border-cyan-700 p-6 flex flex-col gap-6">
-                      <div className="text-cyan-400 font-retro text-2xl border-b border-cyan-800 pb-2">SHIP COMMAND</div>
-                      <button onClick={() => setHangarMode('BRIDGE')} disabled={isWarping} className={`p-4 text-left font-retro text-lg border ${hangarMode === 'BRIDGE' ? 'bg-cyan-900 border-cyan-400 text-white' : 'border-gray-700 text-gray-400 hover:text-white'}`}>BRIDGE</button>
-                      <button onClick={() => setHangarMode('NAVIGATION')} disabled={isWarping} className={`p-4 text-left font-retro text-lg border ${hangarMode === 'NAVIGATION' ? 'bg-cyan-900 border-cyan-400 text-white' : 'border-gray-700 text-gray-400 hover:text-white'}`}>NAVIGATION</button>
-                      <button onClick={() => setHangarMode('ENGINEERING')} disabled={isWarping} className={`p-4 text-left font-retro text-lg border ${hangarMode === 'ENGINEERING' ? 'bg-cyan-900 border-cyan-400 text-white' : 'border-gray-700 text-gray-400 hover:text-white'}`}>ENGINEERING</button>
+                      <div className="text-cyan-400 font-retro text-2xl border-b border-cyan-800 pb-2">{t('hangar.command')}</div>
+                      <button onClick={() => setHangarMode('BRIDGE')} disabled={isWarping} className={`p-4 text-left font-retro text-lg border ${hangarMode === 'BRIDGE' ? 'bg-cyan-900 border-cyan-400 text-white' : 'border-gray-700 text-gray-400 hover:text-white'}`}>{t('hangar.bridge')}</button>
+                      <button onClick={() => setHangarMode('NAVIGATION')} disabled={isWarping} className={`p-4 text-left font-retro text-lg border ${hangarMode === 'NAVIGATION' ? 'bg-cyan-900 border-cyan-400 text-white' : 'border-gray-700 text-gray-400 hover:text-white'}`}>{t('hangar.navigation')}</button>
+                      <button onClick={() => setHangarMode('ENGINEERING')} disabled={isWarping} className={`p-4 text-left font-retro text-lg border ${hangarMode === 'ENGINEERING' ? 'bg-cyan-900 border-cyan-400 text-white' : 'border-gray-700 text-gray-400 hover:text-white'}`}>{t('hangar.engineering')}</button>
+                      <button onClick={() => setHangarMode('ARMORY')} disabled={isWarping} className={`p-4 text-left font-retro text-lg border ${hangarMode === 'ARMORY' ? 'bg-cyan-900 border-cyan-400 text-white' : 'border-gray-700 text-gray-400 hover:text-white'}`}>{t('hangar.armory')}</button>
                       <div className="mt-auto pt-6 border-t border-gray-700">
-                          <div className="text-gray-500 text-sm">CORES</div>
+                          <div className="text-gray-500 text-sm">{t('hangar.cores')}</div>
                           <div className="text-yellow-400 font-retro text-4xl">{totalCores}</div>
                       </div>
                   </div>
@@ -294,24 +353,24 @@ const App: React.FC = () => {
                       {/* BRIDGE MODE */}
                       {hangarMode === 'BRIDGE' && (
                           <div className="p-8 flex flex-col items-center justify-center h-full text-center space-y-8">
-                              <h2 className="text-4xl font-retro text-cyan-200">CAPTAIN ON DECK</h2>
+                              <h2 className="text-4xl font-retro text-cyan-200">{t('bridge.title')}</h2>
                               <p className="text-gray-400 font-mono max-w-lg text-lg leading-relaxed">
-                                  Settore corrente: <span className="text-white">{currentSector}</span>.
+                                  {t('bridge.sector')} <span className="text-white">{currentSector}</span>.
                                   <br/>
-                                  La nave è in attesa di ordini. 
+                                  {t('bridge.awaiting')}
                                   <br/><br/>
-                                  Vai su <b>NAVIGATION</b> per scegliere un pianeta.
+                                  {t('bridge.navigationHint')}
                                   <br/>
-                                  Vai su <b>ENGINEERING</b> per potenziare la nave.
+                                  {t('bridge.engineeringHint')}
                               </p>
                               <div className="grid grid-cols-2 gap-10 text-left mt-8 w-full max-w-lg">
                                   <div className="p-6 border border-green-900 bg-green-900/20">
-                                      <div className="text-green-500 text-sm mb-2">STATUS</div>
-                                      <div className="text-white font-retro text-2xl">GREEN</div>
+                                      <div className="text-green-500 text-sm mb-2">{t('bridge.status')}</div>
+                                      <div className="text-white font-retro text-2xl">{t('bridge.green')}</div>
                                   </div>
                                   <div className="p-6 border border-yellow-900 bg-yellow-900/20">
-                                      <div className="text-yellow-500 text-sm mb-2">JUMP DRIVE</div>
-                                      <div className={`${totalCores > 0 ? 'text-white' : 'text-red-500'} font-retro text-2xl`}>{totalCores > 0 ? 'READY' : 'NO FUEL'}</div>
+                                      <div className="text-yellow-500 text-sm mb-2">{t('bridge.jumpDrive')}</div>
+                                      <div className={`${totalCores >= cheapestJump ? 'text-white' : 'text-red-500'} font-retro text-2xl`}>{totalCores >= cheapestJump ? t('bridge.ready') : t('bridge.noFuel')}</div>
                                   </div>
                               </div>
                           </div>
@@ -322,94 +381,147 @@ const App: React.FC = () => {
                           <div className="flex flex-col h-full">
                               <div className="bg-cyan-950/50 p-4 border-b border-cyan-800 flex justify-between items-center">
                                   <div className="flex items-center gap-6">
-                                      <span className="text-cyan-400 font-retro text-xl pl-2">STAR MAP</span>
+                                      <span className="text-cyan-400 font-retro text-xl pl-2">{navView === 'SYSTEM' ? t('nav.starMap') : t('nav.galaxyMap')}</span>
                                       <span className="text-gray-400 font-mono text-lg">{currentSector}</span>
                                   </div>
                                   
-                                  <button 
-                                    onClick={handleHyperspaceJump} 
-                                    disabled={totalCores < 1 || isWarping}
-                                    className={`px-6 py-3 text-sm font-mono border transition-all ${totalCores > 0 ? 'bg-orange-900 hover:bg-orange-700 text-orange-100 border-orange-500 shadow-[0_0_10px_rgba(255,165,0,0.3)]' : 'bg-gray-800 text-gray-500 border-gray-600 cursor-not-allowed'}`}
-                                  >
-                                    {isWarping ? 'WARP ENGAGED' : `FTL JUMP (-1 CORE)`}
-                                  </button>
+                                  {isWarping ? <span className="px-4 py-3 text-sm font-mono text-orange-300 animate-pulse">{t('nav.warpEngaged')}</span> : (
+                                  <div className="flex gap-2">
+                                      {(['SYSTEM', 'GALAXY'] as const).map(view => (
+                                          <button key={view} onClick={() => { playSound('ui'); setNavView(view); }} className={`px-4 py-3 text-sm font-mono border ${navView === view ? 'bg-cyan-900 border-cyan-400 text-white' : 'border-gray-700 text-gray-400 hover:text-white'}`}>
+                                              {view === 'SYSTEM' ? t('nav.systemView') : t('nav.galaxyView')}
+                                          </button>
+                                      ))}
+                                  </div>
+                                  )}
                               </div>
-                              <div className="flex-1 relative bg-black">
-                                  <canvas 
-                                      ref={mapCanvasRef} 
-                                      width={600} 
-                                      height={400} 
-                                      className="w-full h-full cursor-crosshair"
-                                      onClick={handleMapClick}
-                                  />
-                                  
-                                  {!planet && !isWarping && (
-                                      <div className="absolute inset-0 pointer-events-none flex items-center justify-center">
-                                          <div className="bg-black/50 p-6 border border-cyan-500/30 text-cyan-500 font-retro text-sm animate-pulse">
-                                              [ SELECT A PLANET TO SCAN ]
+                              {navView === 'GALAXY' && (
+                                  <div className="flex-1 relative bg-black">
+                                      <GalaxyMap galaxy={galaxy} selected={selectedSector} route={route?.path || null} onSelect={id => { playSound('ui'); setSelectedSector(id === galaxy.current ? null : id); }} />
+
+                                      {selectedSector === null && (
+                                          <div className="absolute inset-0 pointer-events-none flex items-center justify-center">
+                                              <div className="bg-black/50 p-6 border border-cyan-500/30 text-cyan-500 font-retro text-sm animate-pulse">
+                                                  {t('nav.selectSector')}
+                                              </div>
                                           </div>
-                                      </div>
-                                  )}
+                                      )}
+
+                                      {selectedSector !== null && route && nextJumpCost !== null && (
+                                          <div className="absolute bottom-6 right-6 w-80 bg-gray-900/95 border-2 border-orange-500/50 text-left shadow-2xl">
+                                              <div className="bg-orange-900/30 p-3 border-b border-orange-500/30 flex justify-between items-center">
+                                                  <h3 className="text-orange-300 font-retro text-sm">{galaxy.sectors[selectedSector].name}</h3>
+                                                  <span className="text-xs text-orange-200 font-mono">{galaxy.sectors[selectedSector].visited ? t('nav.visited') : t('nav.unexplored')}</span>
+                                              </div>
+                                              <div className="p-4 space-y-3 font-mono text-sm text-gray-300">
+                                                  <div className="flex justify-between"><span className="text-gray-500 text-xs">{t('nav.jumps')}</span><span>{route.path.length - 1}</span></div>
+                                                  <div className="flex justify-between"><span className="text-gray-500 text-xs">{t('nav.routeCost')}</span><span className="text-yellow-400">{t('nav.cores', { count: route.cost })}</span></div>
+                                                  <div className="text-gray-500 text-xs">{route.path.map(id => galaxy.sectors[id].name).join(' > ')}</div>
+                                                  <button 
+                                                    onClick={handleHyperspaceJump} 
+                                                    disabled={totalCores < nextJumpCost}
+                                                    className={`w-full px-4 py-3 text-sm font-mono border transition-all ${totalCores >= nextJumpCost ? 'bg-orange-900 hover:bg-orange-700 text-orange-100 border-orange-500 shadow-[0_0_10px_rgba(255,165,0,0.3)]' : 'bg-gray-800 text-gray-500 border-gray-600 cursor-not-allowed'}`}
+                                                  >
+                                                    {t('nav.ftlJump', { sector: galaxy.sectors[route.path[1]].name, cost: nextJumpCost })}
+                                                  </button>
+                                              </div>
+                                          </div>
+                                      )}
+                                  </div>
+                              )}
+                              {navView === 'SYSTEM' && (
+                                  <div className="flex-1 relative bg-black">
+                                      <Starmap planets={starSystem} selected={selectedPlanetIndex} isWarping={isWarping} controls={settings.controls} onSelect={handleSelectPlanet} />
                                   
-                                  {selectedPlanetIndex !== null && planet && !isWarping && (
-                                      <div className="absolute bottom-6 right-6 w-96 bg-gray-900/95 border-2 border-green-500/50 p-0 text-left shadow-2xl animate-in fade-in slide-in-from-right-10 overflow-hidden">
-                                          <div className="bg-green-900/30 p-3 border-b border-green-500/30 flex justify-between items-center">
-                                              <h3 className="text-green-400 font-retro text-lg">{planet.name}</h3>
-                                              <span className="text-xs text-green-300 animate-pulse">ONLINE</span>
+                                      {!planet && !isWarping && (
+                                          <div className="absolute inset-0 pointer-events-none flex items-center justify-center">
+                                              <div className="bg-black/50 p-6 border border-cyan-500/30 text-cyan-500 font-retro text-sm animate-pulse">
+                                                  {t('nav.selectPlanet')}
+                                              </div>
                                           </div>
-                                          
-                                          <div className="p-5 space-y-4">
-                                              <div className="grid grid-cols-2 gap-4 text-sm font-mono text-gray-300">
-                                                  <div className="flex flex-col"><span className="text-gray-500 text-xs">GRAVITY</span> <span>{planet.gravity}G</span></div>
-                                                  <div className="flex flex-col"><span className="text-gray-500 text-xs">THREAT</span> <span className="text-red-400 font-bold">LVL {planet.enemyDensity}</span></div>
-                                                  <div className="flex flex-col"><span className="text-gray-500 text-xs">ATMOSPHERE</span> <span className="text-white" style={{color: planet.atmosphereColor}}>DENSE</span></div>
-                                                  <div className="flex flex-col"><span className="text-gray-500 text-xs">BIOME</span> <span className="text-yellow-300 uppercase">{planet.allowedBiomes[0]}</span></div>
+                                      )}
+                                  
+                                      {selectedPlanetIndex !== null && planet && scan && !isWarping && (
+                                          <div className="absolute bottom-6 right-6 w-96 max-h-[calc(100%-3rem)] overflow-y-auto bg-gray-900/95 border-2 border-green-500/50 p-0 text-left shadow-2xl animate-in fade-in slide-in-from-right-10">
+                                              <div className="bg-green-900/30 p-3 border-b border-green-500/30 flex justify-between items-center">
+                                                  <h3 className="text-green-400 font-retro text-lg">{planet.name}</h3>
+                                                  <span className="text-xs text-green-300 font-mono" title={t('planet.seed')}>#{formatSeed(planet.seed)}</span>
                                               </div>
+                                          
+                                              <div className="p-5 space-y-4">
+                                                  <div className="grid grid-cols-2 gap-4 text-sm font-mono text-gray-300">
+                                                      <div className="flex flex-col"><span className="text-gray-500 text-xs">{t('planet.gravity')}</span> <span>{planet.gravity}G</span></div>
+                                                      <div className="flex flex-col"><span className="text-gray-500 text-xs">{t('planet.threat')}</span> <span className="text-red-400 font-bold">{t('planet.threatLevel', { level: planet.enemyDensity })}</span></div>
+                                                      <div className="flex flex-col"><span className="text-gray-500 text-xs">{t('planet.climate')}</span> <span className="text-orange-300">{t(CLIMATE_LABELS[planet.climate])}</span></div>
+                                                      <div className="flex flex-col"><span className="text-gray-500 text-xs">{t('planet.cores')}</span> <span className="text-yellow-400">{scan.coreCount}</span></div>
+                                                      <div className="flex flex-col col-span-2"><span className="text-gray-500 text-xs">{t('planet.biome')}</span> <span className="text-yellow-300 uppercase">{deepScan ? deepScan.biomes.map(b => `${t(BIOME_LABELS[b.biome])} x${b.chunks}`).join(', ') : scan.biomes.map(b => t(BIOME_LABELS[b])).join(', ')}</span></div>
+                                                      <div className="flex flex-col col-span-2"><span className="text-gray-500 text-xs">{t('planet.weather')}</span> <span style={{ color: planet.atmosphereColor }}>{scan.weatherTraits.map(w => t(`weather.${w}`)).join(', ')}</span></div>
+                                                      <div className="flex flex-col"><span className="text-gray-500 text-xs">{t('planet.volatility')}</span> <span>{deepScan ? formatPercent(deepScan.weatherVolatility) : t(`scan.${scan.volatility}`)}</span></div>
+                                                      <div className="flex flex-col"><span className="text-gray-500 text-xs">{t('planet.vegetation')}</span> <span className="text-green-300">{deepScan ? formatPercent(deepScan.vegetationDensity) : t(`scan.${scan.vegetation}`)}</span></div>
+                                                      <div className="flex flex-col"><span className="text-gray-500 text-xs">{t('planet.rareLoot')}</span> <span className="text-purple-300">{deepScan ? formatPercent(deepScan.rareLootChance) : t(`scan.${scan.rareLoot}`)}</span></div>
+                                                      {deepScan && <div className="flex flex-col"><span className="text-gray-500 text-xs">{t('scan.caches')}</span> <span className="text-yellow-300">{deepScan.caches}</span></div>}
+                                                      <div className="flex flex-col col-span-2"><span className="text-gray-500 text-xs">{t('planet.hazards')}</span> <span className="text-red-300">{(deepScan ? deepScan.hazards.map(h => `${t(`hazardType.${h.type as ScannedHazard}`)} x${h.count}`) : scan.hazards.map(h => t(`hazardType.${h as ScannedHazard}`))).join(', ') || t('scan.none')}</span></div>
+                                                  </div>
+
+                                                  {/* Probe: paid once per planet, then its intel stays on file */}
+                                                  {deepScan ? (
+                                                      <div className="p-3 border border-cyan-800 bg-cyan-950/30 text-sm font-mono text-gray-300 space-y-2">
+                                                          <div className="text-cyan-400 font-retro text-xs">{t('scan.deepTitle')}</div>
+                                                          <div><span className="text-gray-500 text-xs">{t('scan.elites')} </span>{deepScan.elites.map(e => `${t(`enemy.${e.archetype}`)} x${e.count}`).join(', ') || t('scan.none')}</div>
+                                                          <div><span className="text-gray-500 text-xs">{t('scan.guardian')} </span><span style={{ color: deepScan.guardian.variant.color }}>{t(deepScan.guardian.variant.nameKey)}</span> <span className="text-gray-500">{t('scan.guardianStats', { hp: deepScan.guardian.hp, phases: deepScan.guardian.phases })}</span></div>
+                                                          <div><span className="text-gray-500 text-xs">{t('scan.attacks')} </span>{deepScan.guardian.attacks.map(a => t(`attack.${a}`)).join(', ')}</div>
+                                                      </div>
+                                                  ) : (
+                                                      <button 
+                                                          onClick={handleLaunchProbe}
+                                                          disabled={totalCores < SCAN.PROBE_COST}
+                                                          title={t('scan.probeHint')}
+                                                          className={`w-full py-2 text-xs font-mono border ${totalCores >= SCAN.PROBE_COST ? 'bg-cyan-900/50 hover:bg-cyan-800 text-cyan-200 border-cyan-500' : 'bg-gray-800 text-gray-500 border-gray-600 cursor-not-allowed'}`}
+                                                      >
+                                                          {t('scan.probe', { cost: SCAN.PROBE_COST })}
+                                                      </button>
+                                                  )}
                                               
-                                              <div className="mt-2 p-3 bg-black border border-gray-700 text-xs text-gray-400 italic leading-relaxed h-24 overflow-y-auto">
-                                                  {planet.description}
+                                                  <div className="mt-2 p-3 bg-black border border-gray-700 text-xs text-gray-400 italic leading-relaxed h-24 overflow-y-auto">
+                                                      {describePlanet(planet)}
+                                                  </div>
+
+                                                  <button 
+                                                      onClick={handleStartMission}
+                                                      className="mt-2 w-full py-4 bg-green-700 hover:bg-green-600 text-white font-retro text-lg border border-green-400 shadow-[0_0_15px_rgba(0,255,0,0.3)] transition-all hover:scale-[1.02]"
+                                                  >
+                                                      {t('planet.launch')}
+                                                  </button>
                                               </div>
-
-                                              <button 
-                                                  onClick={handleStartMission}
-                                                  className="mt-2 w-full py-4 bg-green-700 hover:bg-green-600 text-white font-retro text-lg border border-green-400 shadow-[0_0_15px_rgba(0,255,0,0.3)] transition-all hover:scale-[1.02]"
-                                              >
-                                                  LAUNCH DROPSHIP [ &gt;&gt;&gt; ]
-                                              </button>
                                           </div>
-                                      </div>
-                                  )}
-                              </div>
+                                      )}
+                                  </div>
+                              )}
                           </div>
                       )}
 
                       {/* ENGINEERING MODE */}
                       {hangarMode === 'ENGINEERING' && (
                           <div className="p-8 h-full overflow-y-auto">
-                              <h2 className="text-3xl font-retro text-orange-400 mb-8 border-b border-orange-900/50 pb-4">WORKBENCH</h2>
+                              <h2 className="text-3xl font-retro text-orange-400 mb-8 border-b border-orange-900/50 pb-4">{t('engineering.title')}</h2>
                               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                                  {[
-                                      { id: 'hull', name: 'TITANIUM PLATING', desc: 'Increases Max HP', stat: '+25 HP' },
-                                      { id: 'weapon', name: 'PLASMA COIL', desc: 'Increases Damage Output', stat: '+20% DMG' },
-                                      { id: 'thrusters', name: 'ION JETS', desc: 'Boosts Jump Height', stat: '+JUMP' },
-                                      { id: 'speed', name: 'SERVO MOTORS', desc: 'Increases Movement Speed', stat: '+SPEED' },
-                                  ].map((item) => {
-                                      const key = item.id as keyof PlayerUpgrades;
+                                  {(['hull', 'weapon', 'thrusters', 'speed'] as const).map((key) => {
                                       const level = upgrades[key];
                                       const cost = UPGRADE_COSTS[key] * level;
                                       const canAfford = totalCores >= cost;
                                       return (
-                                          <div key={item.id} className="bg-gray-900 border border-gray-700 p-5 flex justify-between items-center">
+                                          <div key={key} className="bg-gray-900 border border-gray-700 p-5 flex justify-between items-center">
                                               <div>
-                                                  <div className="text-orange-300 font-mono text-lg mb-1">{item.name} <span className="text-gray-500 text-sm ml-2">LV {level}</span></div>
-                                                  <div className="text-green-600 text-sm font-bold">{item.stat}</div>
+                                                  <div className="text-orange-300 font-mono text-lg mb-1">{t(`upgrade.${key}.name`)} <span className="text-gray-500 text-sm ml-2">{t('engineering.level', { level })}</span></div>
+                                                  <div className="text-gray-500 text-xs mb-1">{t(`upgrade.${key}.desc`)}</div>
+                                                  <div className="text-green-600 text-sm font-bold">{t(`upgrade.${key}.stat`)}</div>
                                               </div>
                                               <button 
                                                   onClick={() => buyUpgrade(key)}
                                                   disabled={!canAfford}
                                                   className={`px-4 py-2 font-retro text-sm border ${canAfford ? 'border-yellow-600 text-yellow-500 hover:bg-yellow-900' : 'border-gray-800 text-gray-700'}`}
                                               >
-                                                  UPGRADE ({cost}C)
+                                                  {t('engineering.buy', { cost })}
                                               </button>
                                           </div>
                                       );
@@ -417,6 +529,11 @@ const App: React.FC = () => {
                               </div>
                           </div>
                       )}
+
+                      {/* ARMORY MODE */}
+                      {hangarMode === 'ARMORY' && (
+                          <ArmoryPanel armory={armory} totalCores={totalCores} onChange={setArmory} onBuyMod={buyMod} />
+                      )}
                   </div>
               </div>
           </div>
@@ -431,17 +548,59 @@ const App: React.FC = () => {
             <h1 className="text-5xl md:text-7xl font-retro text-transparent bg-clip-text bg-gradient-to-b from-cyan-300 to-blue-600 mb-6 animate-pulse">
               COSMIC DRIFTER
             </h1>
-            <p className="text-gray-400 font-mono text-2xl tracking-widest">PROTOCOL: GENESIS</p>
+            <p className="text-gray-400 font-mono text-2xl tracking-widest">{t('menu.subtitle')}</p>
             <div className="text-lg text-gray-500 max-w-lg mx-auto leading-relaxed">
-              La tua nave è in orbita. Usa la console di navigazione per scansionare i settori vicini e atterrare sui pianeti per recuperare risorse.
+              {t('menu.intro')}
             </div>
             
-            <button 
-              onClick={handleEnterShip}
-              className="px-10 py-5 bg-cyan-900 hover:bg-cyan-700 text-cyan-100 font-retro text-2xl border-2 border-cyan-500 transition-all hover:scale-105 hover:shadow-[0_0_30px_rgba(0,255,255,0.4)] w-full md:w-auto mt-8"
-            >
-              BOARD SHIP
-            </button>
+            {lastSlot !== null && saveSlots[lastSlot] && (
+              <button 
+                onClick={() => handleLoadGame(lastSlot)}
+                className="px-10 py-5 bg-cyan-900 hover:bg-cyan-700 text-cyan-100 font-retro text-2xl border-2 border-cyan-500 transition-all hover:scale-105 hover:shadow-[0_0_30px_rgba(0,255,255,0.4)] w-full md:w-auto mt-8"
+              >
+                {t('menu.continue')}
+              </button>
+            )}
+
+            <div className="flex flex-col gap-3 text-left">
+              {saveSlots.map((summary, slot) => (
+                <div key={slot} className="flex items-center gap-4 p-4 border border-cyan-800 bg-gray-900/80 font-mono">
+                  <div className="text-cyan-400 font-retro text-sm w-16">{t('menu.slot', { slot: slot + 1 })}</div>
+                  {summary ? (
+                    <>
+                      <div className="flex-1 text-gray-300 text-sm">
+                        <div className="text-white">{summary.currentSector}</div>
+                        <div className="text-gray-500">{t('menu.slotSummary', { cores: summary.totalCores, landings: summary.planetsVisited, date: new Date(summary.savedAt).toLocaleString(settings.language) })}</div>
+                      </div>
+                      <button onClick={() => handleLoadGame(slot)} className="px-4 py-2 font-retro text-xs border border-cyan-500 text-cyan-300 hover:bg-cyan-900">{t('menu.load')}</button>
+                      <button onClick={() => handleDeleteSave(slot)} className="px-4 py-2 font-retro text-xs border border-red-800 text-red-500 hover:bg-red-900">{t('menu.delete')}</button>
+                    </>
+                  ) : (
+                    <>
+                      <div className="flex-1 text-gray-600 text-sm">{t('menu.empty')}</div>
+                      <button onClick={() => handleNewGame(slot)} className="px-4 py-2 font-retro text-xs border border-cyan-500 text-cyan-300 hover:bg-cyan-900">{t('menu.boardShip')}</button>
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div className="flex flex-col items-center gap-2">
+              <div className="flex gap-3">
+                <button onClick={() => { playSound('ui'); setShowControls(true); }} className="px-6 py-2 font-retro text-xs border border-gray-600 text-gray-400 hover:bg-gray-800">{t('menu.controls')}</button>
+                <button onClick={() => { initAudio(); playSound('ui'); setShowAudio(true); }} className="px-6 py-2 font-retro text-xs border border-gray-600 text-gray-400 hover:bg-gray-800">{t('menu.audio')}</button>
+                <button onClick={() => replayFileRef.current?.click()} className="px-6 py-2 font-retro text-xs border border-gray-600 text-gray-400 hover:bg-gray-800">{t('menu.loadReplay')}</button>
+              </div>
+              <LanguageSelector language={settings.language} onChange={language => handleSettingsChange({ ...settings, language })} />
+              <div className="flex items-center justify-center gap-2 font-mono">
+                <span className="text-gray-500 text-xs mr-2">{t('menu.planetSource')}</span>
+                {PLANET_PROVIDER_IDS.map(id => (
+                  <button key={id} onClick={() => { if (id === settings.planetProvider) return; playSound('ui'); handleSettingsChange({ ...settings, planetProvider: id }); }} className={`px-3 py-1 text-xs font-retro border ${id === settings.planetProvider ? 'border-cyan-400 text-cyan-300 bg-cyan-900/50' : 'border-gray-700 text-gray-500 hover:bg-gray-800'}`}>{t(`provider.${id}`)}</button>
+                ))}
+              </div>
+              <input ref={replayFileRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImportReplay} />
+              {replayError && <div className="text-red-500 font-mono text-sm">{replayError}</div>}
+            </div>
           </div>
         );
 
@@ -453,8 +612,26 @@ const App: React.FC = () => {
           <GameEngine 
             planet={planet} 
             upgrades={upgrades}
+            loadout={loadout}
             onGameOver={handleGameOver}
             onVictory={handleVictory}
+            onReplayRecorded={setLastReplay}
+            settings={settings}
+            onSettingsChange={handleSettingsChange}
+            onAbort={handleAbortMission}
+          />
+        ) : null;
+
+      case GameStatus.REPLAY:
+        return activeReplay ? (
+          <GameEngine
+            planet={activeReplay.planet}
+            upgrades={activeReplay.upgrades}
+            onGameOver={() => {}}
+            onVictory={() => {}}
+            replay={activeReplay}
+            onExitReplay={handleExitReplay}
+            settings={settings}
           />
         ) : null;
 
@@ -463,26 +640,33 @@ const App: React.FC = () => {
         return (
           <div className="text-center z-10 bg-black/90 p-12 border-4 border-red-500 rounded-xl max-w-2xl mx-4">
             <h2 className={`text-3xl md:text-5xl font-retro mb-6 ${status === GameStatus.VICTORY ? 'text-green-500' : 'text-red-600'}`}>
-              {status === GameStatus.VICTORY ? 'MISSIONE COMPIUTA' : 'SEGNALE PERSO'}
+              {status === GameStatus.VICTORY ? t('end.titleVictory') : t('end.titleFailed')}
             </h2>
             <p className="text-xl md:text-2xl text-gray-300 font-mono mb-8">{endMessage}</p>
             
             <div className="flex justify-around mb-10 gap-8">
                <div className="text-center">
-                  <div className="text-sm text-gray-500 mb-1">PUNTEGGIO</div>
+                  <div className="text-sm text-gray-500 mb-1">{t('end.score')}</div>
                   <div className="text-2xl md:text-3xl text-white font-retro">{finalScore}</div>
                </div>
                <div className="text-center">
-                  <div className="text-sm text-gray-500 mb-1">NUCLEI TOTALI</div>
+                  <div className="text-sm text-gray-500 mb-1">{t('end.totalCores')}</div>
                   <div className="text-2xl md:text-3xl text-yellow-400 font-retro">{totalCores}</div>
                </div>
             </div>
 
+            {lastReplay && (
+              <div className="flex gap-4 mb-4">
+                <button onClick={() => handleWatchReplay(lastReplay)} className="flex-1 px-4 py-3 bg-gray-900 hover:bg-gray-800 text-cyan-300 font-retro text-sm border border-cyan-700">{t('end.watchReplay')}</button>
+                <button onClick={() => handleExportReplay(lastReplay)} className="flex-1 px-4 py-3 bg-gray-900 hover:bg-gray-800 text-cyan-300 font-retro text-sm border border-cyan-700">{t('end.exportReplay')}</button>
+              </div>
+            )}
+
             <button 
               onClick={() => { playSound('ui'); setStatus(GameStatus.HANGAR); setHangarMode('BRIDGE'); }}
               className="px-8 py-4 bg-gray-800 hover:bg-gray-700 text-white font-retro text-xl border border-gray-500 w-full"
             >
-              RITORNA IN ORBITA
+              {t('end.returnToOrbit')}
             </button>
           </div>
         );
@@ -495,6 +679,16 @@ const App: React.FC = () => {
       {/* CRT Scanlines Effect */}
       <div className="scanlines"></div>
       {renderContent()}
+      {showControls && <ControlsSettings controls={settings.controls} onChange={handleControlsChange} onClose={() => setShowControls(false)} />}
+      {showAudio && (
+        <div className="absolute inset-0 z-50 bg-black/90 flex items-center justify-center p-4">
+          <div className="w-full max-w-lg bg-gray-950 border-2 border-cyan-700 p-6 flex flex-col gap-4">
+            <h2 className="text-cyan-400 font-retro text-xl border-b border-cyan-800 pb-2">{t('menu.audio')}</h2>
+            <AudioSettingsPanel audio={settings.audio} onChange={audio => handleSettingsChange({ ...settings, audio })} />
+            <button onClick={() => { playSound('ui'); setShowAudio(false); }} className="px-4 py-2 font-retro text-xs border border-cyan-500 text-cyan-300 hover:bg-cyan-900">{t('common.close')}</button>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { ArmoryData, ModdableStat, WeaponModDef, WeaponModId, WeaponModSlots, WeaponType } from '../types';
+import { MOD_SLOTS, WEAPONS, WEAPON_MODS } from '../constants';
+import { applyWeaponMods } from '../engine/weapons';
+import { equipWeapon, installMod, removeMod } from '../services/armoryService';
+import { playSound } from '../services/audioService';
+import { t } from '../services/i18n';
+
+interface ArmoryPanelProps {
+  armory: ArmoryData;
+  totalCores: number;
+  onChange: (armory: ArmoryData) => void;
+  onBuyMod: (id: WeaponModId) => void;
+}
+
+const WEAPON_TYPES = Object.keys(WEAPONS) as WeaponType[];
+const MOD_IDS = Object.keys(WEAPON_MODS) as WeaponModId[];
+const SHOWN_STATS: ModdableStat[] = ['damageMult', 'fireRate', 'count', 'spread', 'pierce', 'knockback'];
+
+const formatStat = (value: number | undefined) => String(Math.round((value || 0) * 100) / 100);
+
+// "SPREAD x0.4, VELOCITY x1.15"
+const describeMod = (mod: WeaponModDef) => [
+  ...Object.entries(mod.mult || {}).map(([stat, value]) => `${t(`stat.${stat as ModdableStat}`)} x${value}`),
+  ...Object.entries(mod.add || {}).map(([stat, value]) => `${t(`stat.${stat as ModdableStat}`)} +${value}`),
+  ...(mod.set?.isExplosive ? [t('armory.explosive')] : []),
+  ...(mod.set?.gravity ? [t('armory.arcing')] : []),
+  ...(mod.set?.statusEffect ? [t('armory.inflicts', { chance: Math.round((mod.set.statusChance ?? 1) * 100), status: { key: `status.${mod.set.statusEffect}` } })] : []),
+].join(', ');
+
+const ArmoryPanel: React.FC<ArmoryPanelProps> = ({ armory, totalCores, onChange, onBuyMod }) => {
+  const [selected, setSelected] = useState<WeaponType>(armory.equipped);
+  const slots: WeaponModSlots = armory.installed[selected] || {};
+  const base = WEAPONS[selected]; const modded = applyWeaponMods(base, slots);
+  const update = (next: ArmoryData) => { playSound('ui'); onChange(next); };
+
+  return (
+    <div className="p-8 h-full overflow-y-auto font-mono">
+      <h2 className="text-3xl font-retro text-orange-400 mb-2 border-b border-orange-900/50 pb-4">{t('armory.title')}</h2>
+      <div className="text-gray-500 text-xs mb-6">{t('armory.hint')}</div>
+
+      {/* Gun rack */}
+      <div className="flex flex-wrap gap-3 mb-6">
+        {WEAPON_TYPES.map(type => {
+          const owned = armory.weapons.includes(type);
+          return (
+            <button key={type} disabled={!owned} onClick={() => { playSound('ui'); setSelected(type); }} className={`px-4 py-3 border text-left ${type === selected ? 'bg-gray-800 border-orange-400' : 'border-gray-700'} ${owned ? 'hover:bg-gray-800' : 'opacity-40 cursor-not-allowed'}`}>
+              <div className="font-retro text-sm" style={{ color: owned ? WEAPONS[type].color : undefined }}>{WEAPONS[type].name}</div>
+              <div className="text-[10px] text-gray-500 mt-1">{!owned ? t('armory.locked') : type === armory.equipped ? t('armory.equipped') : ' '}</div>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
+        {/* Stats of the selected gun, modded values highlighted */}
+        <div className="bg-gray-900 border border-gray-700 p-5">
+          <div className="flex justify-between items-center mb-4">
+            <span className="font-retro text-lg" style={{ color: base.color }}>{base.name}</span>
+            {selected === armory.equipped
+              ? <span className="text-green-500 text-xs font-retro">{t('armory.equipped')}</span>
+              : <button onClick={() => update(equipWeapon(armory, selected))} className="px-3 py-1 font-retro text-xs border border-cyan-500 text-cyan-300 hover:bg-cyan-900">{t('armory.equip')}</button>}
+          </div>
+          {SHOWN_STATS.map(stat => {
+            const changed = formatStat(base[stat]) !== formatStat(modded[stat]);
+            return (
+              <div key={stat} className="flex justify-between text-sm py-1 border-b border-gray-800">
+                <span className="text-gray-500">{t(`stat.${stat}`)}</span>
+                <span className={changed ? 'text-orange-300' : 'text-gray-300'}>{formatStat(modded[stat])}{changed && <span className="text-gray-600 ml-2">({formatStat(base[stat])})</span>}</span>
+              </div>
+            );
+          })}
+          {(modded.isExplosive || modded.gravity || modded.statusEffect) && <div className="text-green-600 text-xs mt-2">{[modded.isExplosive && t('armory.explosive'), modded.gravity && t('armory.arcing'), modded.statusEffect && t('armory.inflicts', { chance: Math.round((modded.statusChance ?? 1) * 100), status: { key: `status.${modded.statusEffect}` } })].filter(Boolean).join(' / ')}</div>}
+        </div>
+
+        {/* Mod slots: installed mod plus the spares that fit */}
+        <div className="flex flex-col gap-3">
+          {MOD_SLOTS.map(slot => {
+            const installed = slots[slot];
+            const spares = MOD_IDS.filter(id => WEAPON_MODS[id].slot === slot && (armory.mods[id] || 0) > 0);
+            return (
+              <div key={slot} className="bg-gray-900 border border-gray-700 p-3">
+                <div className="flex justify-between items-center">
+                  <span className="text-gray-500 text-xs">{t(`modSlot.${slot}`)}</span>
+                  {installed && <button onClick={() => update(removeMod(armory, selected, slot))} className="px-2 py-1 text-[10px] font-retro border border-red-800 text-red-500 hover:bg-red-900">{t('armory.remove')}</button>}
+                </div>
+                <div className="text-sm mt-1" style={{ color: installed ? WEAPON_MODS[installed].color : undefined }}>{installed ? t(`mod.${installed}`) : <span className="text-gray-600">{t('armory.emptySlot')}</span>}</div>
+                {spares.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    {spares.map(id => <button key={id} title={describeMod(WEAPON_MODS[id])} onClick={() => update(installMod(armory, selected, id))} className="px-2 py-1 text-[10px] border border-gray-600 text-gray-300 hover:bg-gray-800">{t('armory.install')} {t(`mod.${id}`)} x{armory.mods[id]}</button>)}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Shop */}
+      <h3 className="text-xl font-retro text-orange-300 mb-4">{t('armory.shop')}</h3>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {MOD_IDS.map(id => {
+          const mod = WEAPON_MODS[id]; const canAfford = totalCores >= mod.cost;
+          return (
+            <div key={id} className="bg-gray-900 border border-gray-700 p-4 flex flex-col gap-2">
+              <div className="flex justify-between items-baseline">
+                <span className="text-sm" style={{ color: mod.color }}>{t(`mod.${id}`)}</span>
+                <span className="text-gray-600 text-[10px]">{t(`modSlot.${mod.slot}`)}</span>
+              </div>
+              <div className="text-gray-500 text-xs flex-1">{describeMod(mod)}</div>
+              <div className="flex justify-between items-center">
+                <span className="text-gray-600 text-[10px]">{t('armory.inStorage', { count: armory.mods[id] || 0 })}</span>
+                <button onClick={() => onBuyMod(id)} disabled={!canAfford} className={`px-3 py-1 font-retro text-xs border ${canAfford ? 'border-yellow-600 text-yellow-500 hover:bg-yellow-900' : 'border-gray-800 text-gray-700'}`}>{t('armory.buy', { cost: mod.cost })}</button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ArmoryPanel;
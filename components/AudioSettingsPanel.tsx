@@ -0,0 +1,39 @@
+import React from 'react';
+import { AudioBus, AudioChannelSettings, AudioSettings } from '../types';
+import { AUDIO_BUSES } from '../services/audioService';
+import { t } from '../services/i18n';
+import { StringKey } from '../services/locales/en';
+
+interface AudioSettingsPanelProps {
+  audio: AudioSettings;
+  onChange: (audio: AudioSettings) => void;
+}
+
+const BUS_LABELS: Record<AudioBus, StringKey> = {
+  sfx: "audio.bus.sfx",
+  ui: "audio.bus.ui",
+  ambience: "audio.bus.ambience",
+  music: "audio.bus.music",
+};
+
+// One row per mixer channel: volume slider plus mute toggle
+const ChannelRow: React.FC<{ label: string, channel: AudioChannelSettings, disabled?: boolean, onChange: (channel: AudioChannelSettings) => void }> = ({ label, channel, disabled, onChange }) => (
+  <div className={`flex items-center gap-3 ${disabled ? 'opacity-40' : ''}`}>
+    <label className="text-gray-300 text-sm w-40">{label}</label>
+    <input type="range" min={0} max={1} step={0.05} value={channel.volume} disabled={disabled || channel.muted} onChange={e => onChange({ ...channel, volume: Number(e.target.value) })} className="flex-1 accent-cyan-400" />
+    <span className="text-cyan-200 text-sm w-10 text-right">{Math.round(channel.volume * 100)}%</span>
+    <button onClick={() => onChange({ ...channel, muted: !channel.muted })} disabled={disabled} className={`w-14 py-1 text-[10px] font-retro border ${channel.muted ? 'border-red-700 text-red-400' : 'border-gray-600 text-gray-400 hover:bg-gray-800'}`}>{channel.muted ? t('common.muted') : t('common.on')}</button>
+  </div>
+);
+
+const AudioSettingsPanel: React.FC<AudioSettingsPanelProps> = ({ audio, onChange }) => (
+  <div className="flex flex-col gap-3 font-mono">
+    <ChannelRow label={t('audio.master')} channel={{ volume: audio.master, muted: audio.muted }} onChange={({ volume, muted }) => onChange({ ...audio, master: volume, muted })} />
+    <div className="border-t border-gray-800" />
+    {AUDIO_BUSES.map(bus => (
+      <ChannelRow key={bus} label={t(BUS_LABELS[bus])} channel={audio.buses[bus]} disabled={audio.muted} onChange={channel => onChange({ ...audio, buses: { ...audio.buses, [bus]: channel } })} />
+    ))}
+  </div>
+);
+
+export default AudioSettingsPanel;
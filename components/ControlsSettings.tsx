@@ -0,0 +1,112 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DEFAULT_CONTROLS } from '../constants';
+import { ControlSettings, InputAction } from '../types';
+import { ACTION_LABELS, INPUT_ACTIONS, findNewlyPressedButton, formatGamepadButton, formatKeyCode, mouseButtonCode, readGamepad, rebindButton, rebindKey } from '../services/inputService';
+import { cloneControls } from '../services/settingsService';
+import { playSound } from '../services/audioService';
+import { t } from '../services/i18n';
+
+interface ControlsSettingsProps {
+  controls: ControlSettings;
+  onChange: (controls: ControlSettings) => void;
+  onClose: () => void;
+}
+
+type Device = 'keyboard' | 'gamepad';
+
+const SLOTS = 2; // Bindings shown per action and device
+
+const ControlsSettings: React.FC<ControlsSettingsProps> = ({ controls, onChange, onClose }) => {
+  const [listening, setListening] = useState<{ device: Device, action: InputAction, slot: number } | null>(null);
+  const [padName, setPadName] = useState<string | null>(null);
+  const controlsRef = useRef(controls);
+  controlsRef.current = controls;
+
+  // Capture the next key / mouse button / pad button for the slot being remapped. ESC cancels.
+  useEffect(() => {
+    if (!listening) return;
+    const { device, action, slot } = listening;
+    const bind = (code: string | number) => {
+      const current = controlsRef.current;
+      onChange(typeof code === 'string' ? { ...current, keyboard: rebindKey(current.keyboard, action, code, slot) } : { ...current, gamepad: rebindButton(current.gamepad, action, code, slot) });
+      setListening(null); playSound('ui');
+    };
+    const handleKeyDown = (e: KeyboardEvent) => { e.preventDefault(); e.stopPropagation(); if (e.code === 'Escape') { setListening(null); return; } if (device === 'keyboard') bind(e.code); };
+    const handleMouseDown = (e: MouseEvent) => { if (device !== 'keyboard') return; e.preventDefault(); bind(mouseButtonCode(e.button)); };
+    const handleContextMenu = (e: MouseEvent) => e.preventDefault();
+    // Ignore buttons already held when listening started (e.g. the one used to open the slot)
+    let previous = readGamepad(0).buttons; let animId = 0;
+    const pollPad = () => { const pad = readGamepad(0); const pressed = findNewlyPressedButton(pad, previous); previous = pad.buttons; if (pressed >= 0) { bind(pressed); return; } animId = requestAnimationFrame(pollPad); };
+    if (device === 'gamepad') animId = requestAnimationFrame(pollPad);
+    // Registered on the next tick so the click that opened the slot is not captured as a binding
+    const timer = setTimeout(() => { window.addEventListener('keydown', handleKeyDown, true); window.addEventListener('mousedown', handleMouseDown, true); window.addEventListener('contextmenu', handleContextMenu, true); }, 0);
+    return () => { clearTimeout(timer); cancelAnimationFrame(animId); window.removeEventListener('keydown', handleKeyDown, true); window.removeEventListener('mousedown', handleMouseDown, true); window.removeEventListener('contextmenu', handleContextMenu, true); };
+  }, [listening, onChange]);
+
+  // Connected pad indicator
+  useEffect(() => {
+    const update = () => { const pad = typeof navigator !== 'undefined' && navigator.getGamepads ? Array.from(navigator.getGamepads()).find(p => p && p.connected) : null; setPadName(pad ? pad.id : null); };
+    update(); window.addEventListener('gamepadconnected', update); window.addEventListener('gamepaddisconnected', update);
+    return () => { window.removeEventListener('gamepadconnected', update); window.removeEventListener('gamepaddisconnected', update); };
+  }, []);
+
+  const clearSlot = (device: Device, action: InputAction, slot: number) => {
+    playSound('ui');
+    if (device === 'keyboard') onChange({ ...controls, keyboard: { ...controls.keyboard, [action]: controls.keyboard[action].filter((_, i) => i !== slot) } });
+    else onChange({ ...controls, gamepad: { ...controls.gamepad, [action]: controls.gamepad[action].filter((_, i) => i !== slot) } });
+  };
+
+  const renderSlot = (device: Device, action: InputAction, slot: number) => {
+    const isListening = listening?.device === device && listening.action === action && listening.slot === slot;
+    const bound = device === 'keyboard' ? controls.keyboard[action][slot] : controls.gamepad[action][slot];
+    const label = isListening ? '...' : bound === undefined ? '—' : device === 'keyboard' ? formatKeyCode(bound as string) : formatGamepadButton(bound as number);
+    return (
+      <div key={`${device}-${slot}`} className="flex items-stretch">
+        <button onClick={() => { playSound('ui'); setListening({ device, action, slot }); }} className={`w-28 px-2 py-1 font-mono text-xs border truncate ${isListening ? 'border-yellow-400 text-yellow-300 animate-pulse' : 'border-cyan-800 text-cyan-200 hover:bg-cyan-900'}`}>{label}</button>
+        {bound !== undefined && !isListening && <button onClick={() => clearSlot(device, action, slot)} className="px-1 text-gray-600 hover:text-red-400 text-xs" title={t('common.remove')}>✕</button>}
+      </div>
+    );
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 bg-black/90 flex items-center justify-center p-4">
+      <div className="w-full max-w-3xl max-h-full overflow-y-auto bg-gray-950 border-2 border-cyan-700 p-6 flex flex-col gap-4">
+        <div className="flex justify-between items-center border-b border-cyan-800 pb-2">
+          <h2 className="text-cyan-400 font-retro text-xl">{t('controls.title')}</h2>
+          <span className={`font-mono text-xs ${padName ? 'text-green-400' : 'text-gray-600'}`}>{padName ? t('controls.gamepadConnected', { name: padName }) : t('controls.noGamepad')}</span>
+        </div>
+
+        <div className="grid grid-cols-[1fr_auto_auto] gap-x-6 gap-y-2 items-center">
+          <div></div>
+          <div className="text-gray-500 font-retro text-[10px]">{t('controls.keyboardMouse')}</div>
+          <div className="text-gray-500 font-retro text-[10px]">{t('controls.gamepad')}</div>
+          {INPUT_ACTIONS.map(action => (
+            <React.Fragment key={action}>
+              <div className="text-gray-300 font-mono text-sm">{t(ACTION_LABELS[action])}</div>
+              <div className="flex gap-1">{Array.from({ length: SLOTS }, (_, slot) => renderSlot('keyboard', action, slot))}</div>
+              <div className="flex gap-1">{Array.from({ length: SLOTS }, (_, slot) => renderSlot('gamepad', action, slot))}</div>
+            </React.Fragment>
+          ))}
+          <div className="text-gray-300 font-mono text-sm">{t('controls.aim')}</div>
+          <div className="text-gray-500 font-mono text-xs">{t('controls.aimMouse')}</div>
+          <div className="text-gray-500 font-mono text-xs">{t('controls.aimStick')}</div>
+        </div>
+
+        <div className="flex items-center gap-4 border-t border-gray-800 pt-4">
+          <label className="text-gray-300 font-mono text-sm w-40">{t('controls.deadZone')}</label>
+          <input type="range" min={0} max={0.5} step={0.05} value={controls.deadZone} onChange={e => onChange({ ...controls, deadZone: Number(e.target.value) })} className="flex-1 accent-cyan-400" />
+          <span className="text-cyan-200 font-mono text-sm w-12 text-right">{Math.round(controls.deadZone * 100)}%</span>
+        </div>
+
+        <div className="text-gray-600 font-mono text-xs">{listening ? (listening.device === 'keyboard' ? t('controls.listenKey') : t('controls.listenButton')) : t('controls.hint')}</div>
+
+        <div className="flex gap-4">
+          <button onClick={() => { playSound('ui'); setListening(null); onChange(cloneControls(DEFAULT_CONTROLS)); }} className="flex-1 px-4 py-2 font-retro text-xs border border-gray-600 text-gray-400 hover:bg-gray-800">{t('controls.defaults')}</button>
+          <button onClick={() => { playSound('ui'); onClose(); }} className="flex-1 px-4 py-2 font-retro text-xs border border-cyan-500 text-cyan-300 hover:bg-cyan-900">{t('common.close')}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ControlsSettings;
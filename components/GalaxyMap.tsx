@@ -0,0 +1,77 @@
+import React, { useEffect, useRef } from 'react';
+import { GALAXY } from '../constants';
+import { GalaxyData } from '../types';
+import { getJumpCost } from '../services/galaxyService';
+
+interface GalaxyMapProps {
+  galaxy: GalaxyData;
+  selected: number | null;
+  route: number[] | null; // Planned jumps, highlighted
+  onSelect: (id: number) => void;
+}
+
+const PICK_RADIUS = 20;
+
+// Sectors and jump lanes, drawn in galaxy map units (the canvas is GALAXY.WIDTH x GALAXY.HEIGHT)
+const GalaxyMap: React.FC<GalaxyMapProps> = ({ galaxy, selected, route, onSelect }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current; const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const onRoute = (a: number, b: number) => !!route && route.some((id, i) => i > 0 && ((route[i - 1] === a && id === b) || (route[i - 1] === b && id === a)));
+
+    let animId: number;
+    const render = () => {
+      const time = Date.now();
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+      // Grid
+      ctx.strokeStyle = 'rgba(0, 255, 255, 0.1)'; ctx.lineWidth = 1;
+      for (let x = 0; x < canvas.width; x += 40) { ctx.beginPath(); ctx.moveTo(x, 0); ctx.lineTo(x, canvas.height); ctx.stroke(); }
+      for (let y = 0; y < canvas.height; y += 40) { ctx.beginPath(); ctx.moveTo(0, y); ctx.lineTo(canvas.width, y); ctx.stroke(); }
+
+      // Lanes, with their core cost when part of the planned route
+      galaxy.lanes.forEach(lane => {
+        const a = galaxy.sectors[lane.from]; const b = galaxy.sectors[lane.to]; const planned = onRoute(lane.from, lane.to);
+        ctx.strokeStyle = planned ? '#ffaa00' : 'rgba(0, 255, 255, 0.25)'; ctx.lineWidth = planned ? 2 : 1; ctx.setLineDash(planned ? [] : [4, 4]);
+        ctx.beginPath(); ctx.moveTo(a.x, a.y); ctx.lineTo(b.x, b.y); ctx.stroke();
+        if (planned) { ctx.fillStyle = '#ffaa00'; ctx.font = '10px monospace'; ctx.fillText(`${getJumpCost(galaxy, lane.from, lane.to)}`, (a.x + b.x) / 2 + 4, (a.y + b.y) / 2 - 4); }
+      });
+      ctx.setLineDash([]);
+
+      // Sectors: visited ones filled, unexplored ones hollow, the ship's sector pulsing
+      galaxy.sectors.forEach(s => {
+        const isCurrent = s.id === galaxy.current;
+        ctx.fillStyle = isCurrent ? '#00ffff' : s.visited ? '#ffffff' : '#000000'; ctx.strokeStyle = s.visited ? '#ffffff' : '#667788'; ctx.lineWidth = 1;
+        ctx.beginPath(); ctx.arc(s.x, s.y, isCurrent ? 7 : 5, 0, Math.PI * 2); ctx.fill(); ctx.stroke();
+        if (isCurrent) { ctx.strokeStyle = `rgba(0, 255, 255, ${0.5 + Math.sin(time * 0.005) * 0.3})`; ctx.beginPath(); ctx.arc(s.x, s.y, 14, 0, Math.PI * 2); ctx.stroke(); }
+        if (s.visited || s.id === selected) { ctx.fillStyle = s.id === selected ? '#00ff00' : 'rgba(255, 255, 255, 0.6)'; ctx.font = '10px monospace'; ctx.fillText(s.name, s.x + 10, s.y - 8); }
+      });
+
+      // Selection reticle
+      if (selected !== null) {
+        const s = galaxy.sectors[selected];
+        ctx.save(); ctx.translate(s.x, s.y); ctx.rotate(time * 0.002); ctx.strokeStyle = '#00ff00'; ctx.lineWidth = 2;
+        ctx.beginPath(); ctx.arc(0, 0, 12, 0, Math.PI * 0.5); ctx.stroke(); ctx.beginPath(); ctx.arc(0, 0, 12, Math.PI, Math.PI * 1.5); ctx.stroke();
+        ctx.restore();
+      }
+
+      animId = requestAnimationFrame(render);
+    };
+    render();
+    return () => cancelAnimationFrame(animId);
+  }, [galaxy, selected, route]);
+
+  const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current; if (!canvas) return;
+    const rect = canvas.getBoundingClientRect();
+    const x = (e.clientX - rect.left) * (canvas.width / rect.width); const y = (e.clientY - rect.top) * (canvas.height / rect.height);
+    const nearest = galaxy.sectors.reduce((best, s) => (Math.hypot(s.x - x, s.y - y) < Math.hypot(best.x - x, best.y - y) ? s : best));
+    if (Math.hypot(nearest.x - x, nearest.y - y) < PICK_RADIUS) onSelect(nearest.id);
+  };
+
+  return <canvas ref={canvasRef} width={GALAXY.WIDTH} height={GALAXY.HEIGHT} className="w-full h-full cursor-crosshair" onClick={handleClick} />;
+};
+
+export default GalaxyMap;
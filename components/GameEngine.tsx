@@ -1,21 +1,48 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { PHYSICS, ENTITY_SIZE, ENEMY_STATS, WEAPONS } from '../constants';
-import { Entity, PlanetData, Particle, BiomeStyle, Vegetation, EnemyArchetype, FloatingText, PlayerUpgrades, WeaponType, Hazard, StemType, FoliageType, WeatherType, CelestialBody, HazardType } from '../types';
-import { playSound, initAudio } from '../services/audioService';
+import { QUALITY_PRESETS, SIMULATION, STATUS_EFFECTS, WEAPONS } from '../constants';
+import { Entity, StatusEffect, PlanetData, BiomeStyle, Vegetation, PlayerUpgrades, InputSnapshot, SimEvent, ReplayData, GameSettings, InputAction, TextRef, MissionSalvage, WeaponLoadout } from '../types';
+import { SoundPosition, getSpatialMix, playSound, initAudio } from '../services/audioService';
+import { AmbientHazard, HazardMix, stopAmbience, updateAmbience } from '../services/ambienceService';
+import { Rng, createRng, deriveSeed } from '../services/rng';
+import { formatKeyCode, isActionPressed, isGamepadActionPressed, mouseButtonCode, readGamepad } from '../services/inputService';
+import { createDefaultSettings } from '../services/settingsService';
+import { setMusicContext } from '../services/musicService';
+import { t, translate } from '../services/i18n';
+import { StringKey } from '../services/locales/en';
+import { ReplayRecorder, createReplayRecorder, expandReplayInputs, getReplayViewport } from '../services/replayService';
+import { World, createWorld, getPlayerStats, setQuality, setViewport } from '../engine/world';
+import { getPoolStats } from '../engine/pool';
+import { stepWorld } from '../engine/simulation';
+import { getGroundHeightAt } from '../engine/physics';
+import { isGeyserErupting } from '../engine/hazards';
+import { getArchetype } from '../engine/archetypes';
+import { GUARDIAN_PHASES, guardianPhase } from '../engine/archetypes/guardian';
+import { getGuardianVariant } from '../engine/boss/variants';
+import { DEFAULT_LOADOUT } from '../engine/weapons';
+import { getAmmo } from '../engine/inventory';
+import { applyInterpolation, capturePreviousPositions } from '../engine/interpolation';
+import PauseMenu, { PausePanel } from './PauseMenu';
 
 interface GameEngineProps {
   planet: PlanetData;
   upgrades: PlayerUpgrades;
+  loadout?: WeaponLoadout; // Starting gun and armory mods (plain blaster when omitted)
   onGameOver: (score: number, coresCollected: number, reason: string) => void;
-  onVictory: (score: number, collectedCores: number) => void;
+  onVictory: (score: number, collectedCores: number, salvage: MissionSalvage) => void;
+  replay?: ReplayData; // Playback mode: inputs come from the recording, outcome callbacks are not fired
+  onReplayRecorded?: (replay: ReplayData) => void; // Receives the recording of a live run when it ends
+  onExitReplay?: () => void;
+  settings?: GameSettings; // Controls, audio and accessibility; defaults when omitted
+  onSettingsChange?: (settings: GameSettings) => void; // Edits made from the pause menu
+  onAbort?: (score: number, coresCollected: number) => void; // Player left the mission from the pause menu
 }
 
-interface BackgroundLayer {
-  distance: number; // 0 to 1 (1 is far away)
-  speed: number;    // Parallax factor
-  color: string;
-  points: { x: number; y: number }[];
-}
+const DEFAULT_SETTINGS = createDefaultSettings();
+
+const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4];
+const REPLAY_SEEK_STEPS = SIMULATION.TICK_RATE * 5;
+
+const formatReplayTime = (step: number) => { const seconds = Math.floor(step / SIMULATION.TICK_RATE); return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`; };
 
 interface RadioMessage {
   id: string;
@@ -25,173 +52,91 @@ interface RadioMessage {
   typewriter: string;
 }
 
+type HudWeaponSlot = { name: string; color: string; ammo: number | undefined } | null; // null = empty slot
+
 // LOGICAL HEIGHT for Scaling Calculations (we want roughly 600px of visible height)
 const LOGICAL_HEIGHT = 600;
 
-const GameEngine: React.FC<GameEngineProps> = ({ planet, upgrades, onGameOver, onVictory }) => {
+const GameEngine: React.FC<GameEngineProps> = ({ planet, upgrades, loadout = DEFAULT_LOADOUT, onGameOver, onVictory, replay, onReplayRecorded, onExitReplay, settings = DEFAULT_SETTINGS, onSettingsChange, onAbort }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
-  const [hudStats, setHudStats] = useState({ health: 100, maxHealth: 100, fuel: 100, maxFuel: 100, score: 0, cores: 0, weapon: 'BLASTER', objective: 'INITIALIZING...' });
-  const [bossStats, setBossStats] = useState<{ active: boolean, hp: number, maxHp: number, name: string }>({ active: false, hp: 0, maxHp: 0, name: '' });
+  const [hudStats, setHudStats] = useState({ health: 100, maxHealth: 100, fuel: 100, maxFuel: 100, score: 0, cores: 0, totalCores: 0, slots: [] as HudWeaponSlot[], activeSlot: 0, offer: null as string | null, statuses: [] as StatusEffect[], objective: 'objective.initializing' as StringKey });
+  const [bossStats, setBossStats] = useState<{ active: boolean, hp: number, maxHp: number, name: StringKey | null, phase: number }>({ active: false, hp: 0, maxHp: 0, name: null, phase: 0 });
   const [radioMsg, setRadioMsg] = useState<RadioMessage | null>(null); // UI State for radio
   const patternRef = useRef<CanvasPattern | null>(null);
 
-  // Derived Stats
-  const maxHealth = 100 + (upgrades.hull - 1) * 25;
-  const moveSpeedMult = 1 + (upgrades.speed - 1) * 0.15;
-  const fuelCapacityMult = 1 + (upgrades.thrusters - 1) * 0.2; 
-  const damageMult = 1 + (upgrades.weapon - 1) * 0.2;
+  // Replay: live runs are recorded, playback runs expose pause/speed/scrub
+  const recorderRef = useRef<ReplayRecorder | null>(null);
+  const playbackRef = useRef({ paused: false, speed: 1, step: 0, ended: false });
+  const [playback, setPlayback] = useState(playbackRef.current);
+  const seekRef = useRef<(step: number) => void>(() => {});
 
-  const maxFuelBase = 100 * fuelCapacityMult;
+  const { maxHealth } = getPlayerStats(upgrades);
+
+  // Settings can change between renders (pause menu) without restarting the mission
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+
+  // Pause (live runs only): freezes the simulation and the radio, the last frame stays on screen
+  const pausedRef = useRef(false);
+  const [paused, setPaused] = useState(false);
+  const [pausePanel, setPausePanel] = useState<PausePanel>('main');
+  const pausePanelRef = useRef(pausePanel);
+  pausePanelRef.current = pausePanel;
 
   // Visual Touch State (Only for rendering UI)
   const [visualTouchState, setVisualTouchState] = useState<{
       leftJoystick: { active: boolean, originX: number, originY: number, currX: number, currY: number },
       rightJoystick: { active: boolean, originX: number, originY: number, currX: number, currY: number },
-      jumpBtn: boolean
+      jumpBtn: boolean,
+      swapBtn: boolean
   }>({
       leftJoystick: { active: false, originX: 0, originY: 0, currX: 0, currY: 0 },
       rightJoystick: { active: false, originX: 0, originY: 0, currX: 0, currY: 0 },
-      jumpBtn: false
+      jumpBtn: false,
+      swapBtn: false
   });
 
-  // Game State Refs
-  const gameState = useRef<{
-    player: Entity;
-    currentWeapon: WeaponType;
-    weaponCooldown: number;
-    enemies: Entity[];
-    projectiles: Entity[];
-    loot: Entity[];
-    particles: Particle[];
-    weatherParticles: Particle[]; // Separate list for weather
-    texts: FloatingText[];
-    vegetation: Vegetation[];
-    backgroundLayers: BackgroundLayer[];
-    celestialBodies: CelestialBody[]; // NEW: Background planets/suns
-    camera: { x: number; y: number; shake: number; lookOffset: number }; // Added lookOffset for smoother cam
-    stars: { x: number; y: number; size: number; speed: number; alpha: number }[];
-    decorations: { x: number; y: number; type: number; size: number }[];
-    hazards: Hazard[];
+  // Headless simulation state (engine/), created on mount
+  const worldRef = useRef<World | null>(null);
+
+  // View-only state: input devices, viewport scale and the radio queue
+  const viewState = useRef<{
     keys: { [key: string]: boolean };
     touchInput: {
         left: { active: boolean, touchId: number | null, vectorX: number, vectorY: number, originX: number, originY: number },
         right: { active: boolean, touchId: number | null, vectorX: number, vectorY: number, originX: number, originY: number },
-        jump: boolean
+        jump: boolean,
+        swap: boolean
     };
-    mouse: { x: number; y: number; isDown: boolean }; // x,y are now SCREEN coordinates
-    aimAngle: number;
-    score: number;
-    coresCollected: number;
-    totalCoresNeeded: number;
-    frameCount: number;
+    mouse: { x: number; y: number }; // SCREEN coordinates; buttons live in `keys` as 'Mouse0', 'Mouse1', ...
+    aimSource: 'mouse' | 'stick'; // Last device that aimed, so an idle stick does not snap aim back to the cursor
     lastTime: number;
-    terrain: number[];
-    isPlaying: boolean;
-    bossActive: boolean;
-    jumpLock: boolean;
-    introTimer: number; 
-    lookDownTimer: number;
+    accumulator: number; // Real time (ms) not yet simulated
+    step: number; // Simulation steps taken (the replay timeline index)
     scaleRatio: number;
-    logicalWidth: number;
-    logicalHeight: number;
-    messageQueue: string[];
+    messageQueue: TextRef[]; // Translated when shown, so a language switch applies to queued messages
     currentMessage: RadioMessage | null;
-    nextSquadSpawnX: number;
-    // Weather & DayNight Systems
-    timeOfDay: number; // 0.0 to 1.0 (0=Dawn, 0.2=Day, 0.5=Dusk, 0.8=Night)
-    weatherState: 'clear' | 'buildup' | 'active' | 'fading';
-    currentWeather: WeatherType;
-    weatherIntensity: number; // 0 to 1
-    weatherTimer: number; // Duration of current state
-    
-    // JUICE
-    hitStop: number; // Frames to freeze the game
   }>({
-    player: {
-      id: 'player',
-      pos: { x: 100, y: 100 },
-      vel: { x: 0, y: 0 },
-      size: ENTITY_SIZE.PLAYER,
-      color: '#ffffff',
-      type: 'player',
-      health: maxHealth,
-      maxHealth: maxHealth,
-      fuel: maxFuelBase,
-      maxFuel: maxFuelBase,
-      isGrounded: false,
-      markedForDeletion: false,
-      facingRight: true,
-      variant: 0,
-      animOffset: 0,
-      hitTimer: 0,
-      coyoteTimer: 0
-    },
-    currentWeapon: 'blaster',
-    weaponCooldown: 0,
-    enemies: [],
-    projectiles: [],
-    loot: [],
-    particles: [],
-    weatherParticles: [],
-    texts: [],
-    vegetation: [],
-    backgroundLayers: [],
-    celestialBodies: [],
-    camera: { x: 0, y: 0, shake: 0, lookOffset: 0 },
-    stars: [],
-    decorations: [],
-    hazards: [],
     keys: {},
     touchInput: {
         left: { active: false, touchId: null, vectorX: 0, vectorY: 0, originX: 0, originY: 0 },
         right: { active: false, touchId: null, vectorX: 0, vectorY: 0, originX: 0, originY: 0 },
-        jump: false
+        jump: false,
+        swap: false
     },
-    mouse: { x: 400, y: 300, isDown: false },
-    aimAngle: 0,
-    score: 0,
-    coresCollected: 0,
-    totalCoresNeeded: 5,
-    frameCount: 0,
+    mouse: { x: 400, y: 300 },
+    aimSource: 'mouse',
     lastTime: 0,
-    terrain: [],
-    isPlaying: true,
-    bossActive: false,
-    jumpLock: false,
-    introTimer: 200, 
-    lookDownTimer: 0,
+    accumulator: 0,
+    step: 0,
     scaleRatio: 1,
-    logicalWidth: 800,
-    logicalHeight: 600,
     messageQueue: [],
-    currentMessage: null,
-    nextSquadSpawnX: 800,
-    timeOfDay: 0.1, // Start at dawn/morning
-    weatherState: 'clear',
-    currentWeather: 'clear',
-    weatherIntensity: 0,
-    weatherTimer: 600,
-    hitStop: 0
+    currentMessage: null
   });
 
-  // --- Helper: Color Blending ---
-  const lerpColor = (a: string, b: string, amount: number) => {
-    const ah = parseInt(a.replace(/#/g, ''), 16),
-          bh = parseInt(b.replace(/#/g, ''), 16),
-          ar = ah >> 16, ag = ah >> 8 & 0xff, ab = ah & 0xff,
-          br = bh >> 16, bg = bh >> 8 & 0xff, bb = bh & 0xff,
-          rr = ar + amount * (br - ar),
-          rg = ag + amount * (bg - ag),
-          rb = ab + amount * (bb - ab);
-    return '#' + ((1 << 24) + (rr << 16) + (rg << 8) + rb | 0).toString(16).slice(1);
-  };
-  
-  const darkenColor = (color: string, percent: number) => { return lerpColor(color, '#000000', percent); };
-  const lightenColor = (color: string, percent: number) => { return lerpColor(color, '#ffffff', percent); };
-
   // --- Pattern Generation ---
-  const createBiomePattern = (ctx: CanvasRenderingContext2D, color: string, styles: BiomeStyle[]) => {
+  const createBiomePattern = (ctx: CanvasRenderingContext2D, color: string, styles: BiomeStyle[], rng: Rng) => {
     const pCanvas = document.createElement('canvas'); 
     pCanvas.width = 64; 
     pCanvas.height = 64; 
@@ -204,8 +149,8 @@ const GameEngine: React.FC<GameEngineProps> = ({ planet, upgrades, onGameOver, o
 
     // 2. Add Noise (Texture)
     for(let i=0; i<400; i++) {
-        pCtx.fillStyle = Math.random() > 0.5 ? 'rgba(255,255,255,0.05)' : 'rgba(0,0,0,0.05)';
-        pCtx.fillRect(Math.random() * 64, Math.random() * 64, 2, 2);
+        pCtx.fillStyle = rng.next() > 0.5 ? 'rgba(255,255,255,0.05)' : 'rgba(0,0,0,0.05)';
+        pCtx.fillRect(rng.next() * 64, rng.next() * 64, 2, 2);
     }
 
     // 3. Biome Specific Details
@@ -220,8 +165,8 @@ const GameEngine: React.FC<GameEngineProps> = ({ planet, upgrades, onGameOver, o
     }
     if (styles.includes('crags') || styles.includes('spire')) { 
         for(let i=0; i<5; i++) {
-             const x = Math.random() * 64;
-             const y = Math.random() * 64;
+             const x = rng.next() * 64;
+             const y = rng.next() * 64;
              pCtx.beginPath();
              pCtx.moveTo(x, y);
              pCtx.lineTo(x + 10, y + 5);
@@ -240,23 +185,47 @@ const GameEngine: React.FC<GameEngineProps> = ({ planet, upgrades, onGameOver, o
     return ctx.createPattern(pCanvas, 'repeat');
   };
 
-  const queueMessage = (text: string) => { gameState.current.messageQueue.push(text); };
+  const queueMessage = (text: TextRef) => { viewState.current.messageQueue.push(text); };
+
+  const setPause = (value: boolean) => {
+    if (replay || pausedRef.current === value || (value && !worldRef.current?.isPlaying)) return;
+    pausedRef.current = value; setPaused(value); setPausePanel('main');
+    viewState.current.keys = {}; // Keys released while the overlay was up never reach the game
+  };
+
+  // Pause key/button: opens the menu, steps back out of a sub-panel, or resumes
+  const handlePauseAction = () => {
+    if (!pausedRef.current) { playSound('ui'); setPause(true); }
+    else if (pausePanelRef.current !== 'main') setPausePanel('main');
+    else setPause(false);
+  };
+
+  const handleAbort = () => {
+    const world = worldRef.current; if (!world || !world.isPlaying) return;
+    world.isPlaying = false; pausedRef.current = false;
+    if (recorderRef.current) onReplayRecorded?.(recorderRef.current.finish(null, world.score));
+    onAbort?.(world.score, world.coresCollected);
+  };
+
+  // Camera shake as rendered, scaled by the accessibility setting
+  const getShakeOffset = (state: World) => (Math.random() - 0.5) * state.camera.shake * settingsRef.current.accessibility.screenShake;
 
   // --- Radio Update Loop ---
   useEffect(() => {
     const timer = setInterval(() => {
-      const state = gameState.current;
+      if (pausedRef.current) return;
+      const state = viewState.current;
       if (state.currentMessage) {
         state.currentMessage.life -= 0.05;
         if (state.currentMessage.typewriter.length < state.currentMessage.text.length) {
             state.currentMessage.typewriter = state.currentMessage.text.substring(0, state.currentMessage.typewriter.length + 1);
-            if (Math.random() > 0.5) playSound('ui');
+            if (Math.random() > 0.5) playSound('radio');
         }
         if (state.currentMessage.life <= 0) state.currentMessage = null;
       } else if (state.messageQueue.length > 0) {
         const next = state.messageQueue.shift();
         if (next) {
-            state.currentMessage = { id: Math.random().toString(), text: next, sender: "GENESIS AI", life: 6, typewriter: "" };
+            state.currentMessage = { id: Math.random().toString(), text: translate(next), sender: "GENESIS AI", life: 6, typewriter: "" };
             playSound('sensor');
         }
       }
@@ -265,334 +234,84 @@ const GameEngine: React.FC<GameEngineProps> = ({ planet, upgrades, onGameOver, o
     return () => clearInterval(timer);
   }, []);
 
-  // --- Physics Helper Functions ---
-  const getGroundHeightAt = (x: number) => {
-    const state = gameState.current;
-    if (state.terrain.length === 0) return LOGICAL_HEIGHT;
-    const segmentWidth = 50;
-    const index = Math.floor(x / segmentWidth);
-    const t = (x % segmentWidth) / segmentWidth;
-    
-    // Clamp index
-    const i1 = Math.max(0, Math.min(index, state.terrain.length - 1));
-    const i2 = Math.max(0, Math.min(index + 1, state.terrain.length - 1));
-    
-    const h1 = state.terrain[i1];
-    const h2 = state.terrain[i2];
-    
-    return h1 + (h2 - h1) * t;
-  };
-
-  const checkCollision = (r1: {pos: {x:number, y:number}, size: {x:number, y:number}}, r2: {pos: {x:number, y:number}, size: {x:number, y:number}}) => {
-    return (r1.pos.x < r2.pos.x + r2.size.x &&
-            r1.pos.x + r1.size.x > r2.pos.x &&
-            r1.pos.y < r2.pos.y + r2.size.y &&
-            r1.pos.y + r1.size.y > r2.pos.y);
-  };
-
-  const checkCollisionInflated = (proj: Entity, target: Entity, padding: number) => { 
-      return (proj.pos.x - padding < target.pos.x + target.size.x && proj.pos.x + proj.size.x + padding > target.pos.x && proj.pos.y - padding < target.pos.y + target.size.y && proj.pos.y + proj.size.y + padding > target.pos.y); 
-  };
-
-  const spawnPlayerProjectile = (x: number, y: number, angle: number, weapon: WeaponType) => { 
-      const stats = WEAPONS[weapon]; 
-      const baseSpeed = stats.speed * (1 + (upgrades.weapon-1)*0.05); 
-      playSound('shoot', weapon); 
-      const caseAngle = angle + Math.PI + (Math.random() - 0.5);
-      gameState.current.particles.push({ id: `case-${Math.random()}`, pos: { x: x, y: y }, vel: { x: Math.cos(caseAngle) * (Math.random() * 2 + 1), y: -Math.random() * 3 - 2 }, life: 2.0, maxLife: 2.0, color: '#ffd700', size: 2, type: 'casing', rotation: Math.random() * Math.PI * 2, rotSpeed: (Math.random() - 0.5) * 0.5 });
-      for (let i = 0; i < stats.count; i++) { 
-          const spreadAngle = angle + (Math.random() - 0.5) * stats.spread; 
-          gameState.current.projectiles.push({ id: `proj-${Math.random()}`, pos: { x, y }, vel: { x: Math.cos(spreadAngle) * baseSpeed, y: Math.sin(spreadAngle) * baseSpeed }, size: ENTITY_SIZE.PROJECTILE, color: stats.color, type: 'projectile', health: 1, maxHealth: 1, isGrounded: false, markedForDeletion: false, facingRight: Math.abs(spreadAngle) < Math.PI / 2, variant: 0, animOffset: 0, hitTimer: 0, weaponType: weapon, pierceCount: stats.pierce || 0, isExplosive: stats.isExplosive || false }); 
-      } 
-      return stats.recoil; 
-  };
-  const spawnEnemyProjectile = (x: number, y: number, angle: number) => { const speed = PHYSICS.PROJECTILE_SPEED * 0.6; playSound('shoot', 'rapid'); gameState.current.projectiles.push({ id: `eproj-${Math.random()}`, pos: {x, y}, vel: {x: Math.cos(angle)*speed, y: Math.sin(angle)*speed}, size: ENTITY_SIZE.ENEMY_PROJECTILE, color: '#ff00ff', type: 'enemy_projectile', health: 1, maxHealth: 1, isGrounded: false, markedForDeletion: false, facingRight: true, variant: 0, animOffset: 0, hitTimer: 0 }); };
-  const spawnParticles = (x: number, y: number, color: string, count: number, speed: number = 6) => { for (let i = 0; i < count; i++) { gameState.current.particles.push({ id: `part-${Math.random()}`, pos: { x, y }, vel: { x: (Math.random() - 0.5) * speed, y: (Math.random() - 0.5) * speed }, life: 1.0, maxLife: 1.0, color: color, size: Math.random() * 3 + 1 }); } };
-  const spawnExplosion = (x: number, y: number) => { addScreenshake(15); playSound('explosion'); spawnParticles(x, y, '#ffaa00', 20, 10); spawnParticles(x, y, '#ffffff', 10, 5); gameState.current.enemies.forEach(e => { const dist = Math.hypot(e.pos.x - x, e.pos.y - y); if (dist < 100) { e.health -= 50 * (1 + (upgrades.weapon-1)*0.2); e.hitTimer = 10; spawnFloatingText(e.pos.x, e.pos.y, "BOOM!", "#ffaa00"); const angle = Math.atan2(e.pos.y - y, e.pos.x - x); e.vel.x += Math.cos(angle) * 10; e.vel.y += Math.sin(angle) * 10; } }); };
-  const spawnFloatingText = (x: number, y: number, text: string, color: string) => { gameState.current.texts.push({ id: `txt-${Math.random()}`, x, y, text, color, life: 1.0, velY: -2 }); };
-  const addScreenshake = (amount: number) => { gameState.current.camera.shake = amount; };
-
-  const spawnBoss = () => { const state = gameState.current; if (state.bossActive) return; state.bossActive = true; addScreenshake(30); playSound('explosion'); queueMessage("ATTENZIONE: SEGNALE SISMICO MASSICCIO."); queueMessage("GUARDIANO PLANETARIO RILEVATO. ELIMINARE."); const spawnX = state.player.pos.x + 400; const spawnY = state.player.pos.y - 200; const stats = ENEMY_STATS.GUARDIAN; state.enemies.push({ id: 'guardian-boss', pos: { x: spawnX, y: spawnY }, vel: { x: 0, y: 0 }, size: ENTITY_SIZE.GUARDIAN, color: '#ff0000', type: 'enemy', archetype: 'guardian', health: stats.hp, maxHealth: stats.hp, isGrounded: false, markedForDeletion: false, facingRight: false, variant: 0, animOffset: 0, hitTimer: 0, aiState: 'phase1', attackTimer: 100 }); };
-  const spawnEnemy = (x: number, groundY: number, forcedArch?: EnemyArchetype, forcedRarity?: 'common' | 'elite') => { 
-      const rand = Math.random(); 
-      let arch: EnemyArchetype = 'crawler'; 
-      if (forcedArch) { arch = forcedArch; } 
-      else { 
-          if (rand > 0.94) arch = 'neutral'; else if (rand > 0.84) arch = 'dasher'; else if (rand > 0.72) arch = 'sentinel'; else if (rand > 0.58) arch = 'hornet'; else if (rand > 0.48) arch = 'shielder'; else if (rand > 0.42) arch = 'sandworm'; else if (rand > 0.30) arch = 'spore'; else arch = 'crawler'; 
-      } 
-      let baseSize = ENTITY_SIZE.CRAWLER; let stats = ENEMY_STATS.CRAWLER; 
-      if (arch === 'neutral') { baseSize = ENTITY_SIZE.NEUTRAL; stats = ENEMY_STATS.NEUTRAL; } else if (arch === 'dasher') { baseSize = ENTITY_SIZE.DASHER; stats = ENEMY_STATS.DASHER; } else if (arch === 'sentinel') { baseSize = ENTITY_SIZE.SENTINEL; stats = ENEMY_STATS.SENTINEL; } else if (arch === 'hornet') { baseSize = ENTITY_SIZE.HORNET; stats = ENEMY_STATS.HORNET; } else if (arch === 'sandworm') { baseSize = ENTITY_SIZE.SANDWORM; stats = ENEMY_STATS.SANDWORM; } else if (arch === 'shielder') { baseSize = ENTITY_SIZE.SHIELDER; stats = ENEMY_STATS.SHIELDER; } else if (arch === 'spore') { baseSize = ENTITY_SIZE.SPORE; stats = ENEMY_STATS.SPORE; }
-      let y = groundY - baseSize.y; if (arch === 'hornet' || arch === 'spore') y = groundY - 100 - Math.random() * 50; 
-      const difficultyMult = 1 + (planet.enemyDensity * 0.05); let scaledHP = Math.floor(stats.hp * difficultyMult); let rarity: 'common' | 'elite' = forcedRarity || 'common'; 
-      if (!forcedRarity && arch !== 'neutral' && Math.random() > 0.85) { rarity = 'elite'; } 
-      let color = arch === 'neutral' ? '#88cc88' : planet.enemyColor; if (rarity === 'elite') { color = '#ffd700'; scaledHP = Math.floor(scaledHP * 2); } 
-      const sizeVariation = 0.85 + Math.random() * 0.3; const finalSize = { x: baseSize.x * (rarity === 'elite' ? 1.3 : 1) * sizeVariation, y: baseSize.y * (rarity === 'elite' ? 1.3 : 1) * sizeVariation }; if (arch !== 'hornet' && arch !== 'spore') { y = groundY - finalSize.y; } 
-      let isBurrowed = false; if (arch === 'sandworm') { isBurrowed = true; rarity = 'elite'; scaledHP = Math.floor(scaledHP * 1.5); }
-      gameState.current.enemies.push({ id: `enemy-${Math.random()}`, pos: { x, y }, vel: { x: 0, y: 0 }, size: finalSize, color: color, type: 'enemy', health: scaledHP, maxHealth: scaledHP, isGrounded: false, markedForDeletion: false, facingRight: false, variant: Math.floor(Math.random() * 3), animOffset: Math.random() * 100, archetype: arch, rarity: rarity, aiState: arch === 'shielder' ? 'chase' : 'idle', attackTimer: arch === 'shielder' ? 300 : Math.random() * 100, alertTimer: 0, hitTimer: 0, isBurrowed: isBurrowed, shieldHp: arch === 'shielder' ? 50 : 0 }); 
-  };
-  const spawnSquad = (startX: number) => { 
-      const themes: {id: string, weight: number}[] = [ { id: 'mixed', weight: 3 }, { id: 'air_raid', weight: 2 }, { id: 'heavy_ground', weight: 2 }, { id: 'sniper_nest', weight: 1 }, { id: 'swarm', weight: 2 }, { id: 'minefield', weight: 2 }, { id: 'phalanx', weight: 2 } ]; 
-      let totalWeight = themes.reduce((a, b) => a + b.weight, 0); let rand = Math.random() * totalWeight; let selectedTheme = 'mixed'; for (const t of themes) { if (rand < t.weight) { selectedTheme = t.id; break; } rand -= t.weight; } 
-      let squadMembers: { arch: EnemyArchetype, offsetX: number, offsetY: number, isLeader: boolean }[] = []; const densityBonus = Math.floor(planet.enemyDensity / 3); 
-      if (selectedTheme === 'air_raid') { const count = 3 + densityBonus; for(let i=0; i<count; i++) { squadMembers.push({ arch: 'hornet', offsetX: i * 40, offsetY: -(i % 2) * 50 - 50, isLeader: false }); } } else if (selectedTheme === 'heavy_ground') { squadMembers.push({ arch: 'dasher', offsetX: 0, offsetY: 0, isLeader: true }); const crawlers = 2 + densityBonus; for(let i=0; i<crawlers; i++) { squadMembers.push({ arch: 'crawler', offsetX: 80 + (i*40), offsetY: 0, isLeader: false }); } } else if (selectedTheme === 'sniper_nest') { squadMembers.push({ arch: 'sentinel', offsetX: 0, offsetY: 0, isLeader: true }); squadMembers.push({ arch: 'sentinel', offsetX: 150, offsetY: 0, isLeader: false }); squadMembers.push({ arch: 'crawler', offsetX: 75, offsetY: 0, isLeader: false }); } else if (selectedTheme === 'swarm') { const type: EnemyArchetype = Math.random() > 0.5 ? 'crawler' : 'neutral'; const count = 5 + densityBonus * 2; for(let i=0; i<count; i++) { squadMembers.push({ arch: type, offsetX: i * 30 + (Math.random()*20), offsetY: 0, isLeader: false }); } } else if (selectedTheme === 'minefield') { squadMembers.push({ arch: 'spore', offsetX: 0, offsetY: -100, isLeader: false }); squadMembers.push({ arch: 'spore', offsetX: 60, offsetY: -50, isLeader: false }); squadMembers.push({ arch: 'spore', offsetX: 120, offsetY: -80, isLeader: false }); squadMembers.push({ arch: 'sandworm', offsetX: 60, offsetY: 0, isLeader: true }); } else if (selectedTheme === 'phalanx') { squadMembers.push({ arch: 'shielder', offsetX: 0, offsetY: 0, isLeader: true }); squadMembers.push({ arch: 'sentinel', offsetX: 50, offsetY: 0, isLeader: false }); squadMembers.push({ arch: 'sentinel', offsetX: 100, offsetY: 0, isLeader: false }); } else { squadMembers.push({ arch: 'sentinel', offsetX: 0, offsetY: 0, isLeader: false }); squadMembers.push({ arch: 'crawler', offsetX: 60, offsetY: 0, isLeader: false }); squadMembers.push({ arch: 'crawler', offsetX: 120, offsetY: 0, isLeader: false }); } 
-      const alphaChance = 0.15 + (planet.enemyDensity * 0.03); if (Math.random() < alphaChance && squadMembers.length > 0) { const dasherIdx = squadMembers.findIndex(m => m.arch === 'dasher'); const sentinelIdx = squadMembers.findIndex(m => m.arch === 'sentinel'); let leaderIdx = 0; if (dasherIdx !== -1) leaderIdx = dasherIdx; else if (sentinelIdx !== -1) leaderIdx = sentinelIdx; squadMembers[leaderIdx].isLeader = true; } squadMembers.forEach(mem => { const x = startX + mem.offsetX; const gY = getGroundHeightAt(x); let spawnY = gY; if (mem.offsetY !== 0) { spawnY = gY + mem.offsetY; } spawnEnemy(x, spawnY, mem.arch, mem.isLeader ? 'elite' : 'common'); }); 
+  // --- Simulation Bridge ---
+  // Keyboard/mouse actions, touch joysticks and the gamepad all merge into one snapshot.
+  // The left stick mirrors the left touch joystick; the right stick aims and fires like the right one.
+  const readInput = (world: World): InputSnapshot => {
+    const state = viewState.current; const { keys, mouse, touchInput } = state; const { player, camera } = world; const { keyboard, gamepad, deadZone } = settingsRef.current.controls;
+    const pad = readGamepad(deadZone); const pressed = (action: InputAction) => isActionPressed(keys, keyboard, action) || isGamepadActionPressed(pad, gamepad, action);
+    const stickAiming = pad.aimX !== 0 || pad.aimY !== 0; if (stickAiming) state.aimSource = 'stick';
+    let aimAngle: number;
+    if (touchInput.right.active) { aimAngle = Math.atan2(touchInput.right.vectorY, touchInput.right.vectorX); }
+    else if (stickAiming) { aimAngle = Math.atan2(pad.aimY, pad.aimX); }
+    else if (state.aimSource === 'stick') { aimAngle = world.aimAngle; }
+    else { const playerScreenX = (player.pos.x + player.size.x/2) - camera.x; const playerScreenY = (player.pos.y + player.size.y/2) - camera.y; aimAngle = Math.atan2(mouse.y - playerScreenY, mouse.x - playerScreenX); }
+    const stickY = touchInput.left.active ? touchInput.left.vectorY : pad.moveY;
+    return {
+      moveX: pressed('moveRight') ? 1 : pressed('moveLeft') ? -1 : (touchInput.left.active ? touchInput.left.vectorX : pad.moveX),
+      jump: pressed('jump') || touchInput.jump,
+      jetpack: pressed('jetpack'),
+      jumpTriggersJetpack: touchInput.jump,
+      fire: pressed('fire') || touchInput.right.active || stickAiming,
+      swap: pressed('swapWeapon') || touchInput.swap,
+      aimAngle,
+      lookDown: pressed('lookDown') || stickY > 0.7,
+      lookY: (stickY > 0.5) ? 200 : state.aimSource === 'stick' ? pad.aimY * 150 : (mouse.y - world.logicalHeight/2) * 0.3
+    };
   };
-  const spawnLoot = (x: number, y: number, type: 'weapon' | 'health') => { if (type === 'weapon') { const weaponTypes: WeaponType[] = ['scatter', 'rapid', 'sniper', 'launcher']; const weapon = weaponTypes[Math.floor(Math.random() * weaponTypes.length)]; gameState.current.loot.push({ id: `loot-${Math.random()}`, pos: { x, y }, vel: { x: (Math.random()-0.5)*4, y: -5 }, size: ENTITY_SIZE.WEAPON_DROP, color: WEAPONS[weapon].color, type: 'loot', lootType: 'weapon', weaponType: weapon, health: 1, maxHealth: 1, isGrounded: false, markedForDeletion: false, facingRight: true, variant: 0, animOffset: 0, hitTimer: 0 }); } else { gameState.current.loot.push({ id: `loot-${Math.random()}`, pos: { x, y }, vel: { x: (Math.random()-0.5)*4, y: -5 }, size: ENTITY_SIZE.HEALTH_DROP, color: '#00ff00', type: 'loot', lootType: 'health', health: 1, maxHealth: 1, isGrounded: false, markedForDeletion: false, facingRight: true, variant: 0, animOffset: 0, hitTimer: 0 }); } };
 
-  // --- WEATHER SYSTEM LOGIC ---
-  const updateWeather = (dt: number) => {
-      const state = gameState.current;
-      
-      // 1. Time of Day Cycle
-      state.timeOfDay += dt * 0.0001;
-      if (state.timeOfDay > 1) state.timeOfDay = 0;
-
-      // 2. Weather State Machine
-      if (planet.weatherVolatility > 0) {
-        state.weatherTimer -= dt;
-        if (state.weatherTimer <= 0) {
-            if (state.weatherState === 'clear') {
-                const triggerChance = 0.5 * planet.weatherVolatility; 
-                if (Math.random() < triggerChance && planet.weatherTraits.length > 0) {
-                    state.weatherState = 'buildup';
-                    const badWeather = planet.weatherTraits.filter(t => t !== 'clear');
-                    if (badWeather.length > 0) {
-                        state.currentWeather = badWeather[Math.floor(Math.random() * badWeather.length)];
-                        state.weatherTimer = 300;
-                        queueMessage(`RILEVATA PERTURBAZIONE ATMOSFERICA: ${state.currentWeather.toUpperCase()}`);
-                    } else {
-                        state.weatherTimer = 500; 
-                    }
-                } else {
-                    state.weatherTimer = 500 + Math.random() * 500;
-                }
-            } else if (state.weatherState === 'buildup') {
-                state.weatherState = 'active';
-                state.weatherTimer = 600 + Math.random() * 1000 * planet.weatherVolatility;
-            } else if (state.weatherState === 'active') {
-                state.weatherState = 'fading';
-                state.weatherTimer = 300;
-            } else if (state.weatherState === 'fading') {
-                state.weatherState = 'clear';
-                state.currentWeather = 'clear';
-                state.weatherTimer = 500;
-            }
-        }
-      } else {
-        state.weatherState = 'clear';
-        state.currentWeather = 'clear';
+  // Sim events -> audio, radio and mission callbacks
+  const handleSimEvents = (world: World, events: SimEvent[]) => {
+    // The player is the listener: world sounds fade and pan with their distance from the suit
+    const listener = { x: world.player.pos.x + world.player.size.x / 2, y: world.player.pos.y + world.player.size.y / 2 };
+    const at = (x: number, y: number): SoundPosition => ({ source: { x, y }, listener });
+    events.forEach(ev => {
+      switch (ev.type) {
+        case 'shoot': playSound('shoot', ev.weapon, at(ev.x, ev.y)); break;
+        case 'enemyShoot': playSound('shoot', 'rapid', at(ev.x, ev.y)); break;
+        case 'jump': playSound('jump', undefined, at(ev.x, ev.y)); break;
+        case 'thrust': playSound('thrust', undefined, at(ev.x, ev.y)); break;
+        case 'touchdown': playSound('impact', undefined, at(ev.x, ev.y)); break;
+        case 'damage': if (ev.target === 'player') playSound('hurt'); break;
+        case 'block': case 'shieldToggle': playSound('ui', undefined, at(ev.x, ev.y)); break;
+        case 'explosion': case 'bossSpawn': playSound('explosion', undefined, at(ev.x, ev.y)); break;
+        case 'bossPhase': playSound('powerup', undefined, at(ev.x, ev.y)); break;
+        case 'bossTelegraph': playSound('sensor', undefined, at(ev.x, ev.y)); break;
+        case 'slam': playSound('impact', undefined, at(ev.x, ev.y)); break;
+        case 'weaponSwap': playSound('ui'); break;
+        case 'death': if (ev.target === 'enemy') playSound('explosion', undefined, at(ev.x, ev.y)); break;
+        case 'pickup': playSound(ev.lootType === 'weapon' || ev.lootType === 'mod' ? 'powerup' : 'pickup', undefined, at(ev.x, ev.y)); break;
+        case 'coreProximity': playSound('sensor'); break;
+        case 'radio': queueMessage(ev.text); break;
+        case 'gameOver': if (replay) break; if (recorderRef.current) onReplayRecorded?.(recorderRef.current.finish('failed', world.score)); onGameOver(world.score, world.coresCollected, translate(ev.reason)); break;
+        case 'victory': if (replay) break; if (recorderRef.current) onReplayRecorded?.(recorderRef.current.finish('victory', world.score)); onVictory(world.score, world.coresCollected, world.salvage); break;
       }
-
-      if (state.weatherState === 'buildup') state.weatherIntensity += 0.002 * dt;
-      else if (state.weatherState === 'active') state.weatherIntensity = Math.min(1, state.weatherIntensity + 0.001 * dt);
-      else if (state.weatherState === 'fading') state.weatherIntensity -= 0.002 * dt;
-      else state.weatherIntensity = Math.max(0, state.weatherIntensity - 0.005 * dt);
-      
-      state.weatherIntensity = Math.max(0, Math.min(1, state.weatherIntensity));
-
-      if (state.weatherIntensity > 0.05) {
-          const spawnRate = Math.floor(20 / Math.max(0.1, state.weatherIntensity));
-          if (state.frameCount % spawnRate === 0) {
-              const camX = state.camera.x;
-              const camY = state.camera.y;
-              for(let i=0; i<4; i++) {
-                  const x = camX - 100 + Math.random() * (state.logicalWidth + 200);
-                  const y = camY - 100;
-                  if (state.currentWeather !== 'clear') {
-                      state.weatherParticles.push({ id: `w-${Math.random()}`, pos: { x, y }, vel: { x: 0, y: 0 }, life: 1.0, maxLife: 1.0, color: '#fff', size: 1, type: 'weather' });
-                  }
-              }
-          }
-      }
-
-      const wType = state.currentWeather;
-      state.weatherParticles.forEach(p => {
-          let gY = getGroundHeightAt(p.pos.x);
-          if (wType === 'rain' || wType === 'acid_rain') { p.vel.y = 15; p.vel.x = -2; if (p.pos.y >= gY) { p.life = 0; if (wType === 'acid_rain' && Math.random() < 0.2) spawnParticles(p.pos.x, p.pos.y, '#00ff00', 1, 1); else if (wType === 'rain' && Math.random() < 0.1) spawnParticles(p.pos.x, p.pos.y, '#5555ff', 1, 1); } } 
-          else if (wType === 'snow') { p.vel.y = 2; p.vel.x = Math.sin(state.frameCount * 0.05 + p.pos.x) * 2 - 1; if (p.pos.y >= gY) p.life = 0; } 
-          else if (wType === 'ash') { p.vel.y = 1; p.vel.x = Math.sin(state.frameCount * 0.02 + p.pos.y) * 0.5; if (p.pos.y >= gY) p.life = 0; } 
-          else if (wType === 'sandstorm') { p.vel.x = 20; p.vel.y = Math.random() - 0.5; if (p.pos.x > state.camera.x + state.logicalWidth + 100) p.life = 0; }
-          p.pos.x += p.vel.x * dt; p.pos.y += p.vel.y * dt; if (p.pos.y > state.camera.y + state.logicalHeight + 100) p.life = 0;
-      });
-      state.weatherParticles = state.weatherParticles.filter(p => p.life > 0);
-  };
-  
-  const updateVegetationPhysics = () => {
-     const state = gameState.current; const playerRect = state.player; const visibleVeg = state.vegetation.filter(v => v.x > state.camera.x - 100 && v.x < state.camera.x + state.logicalWidth + 100);
-     visibleVeg.forEach(v => { const distX = (playerRect.pos.x + playerRect.size.x/2) - v.x; const distY = Math.abs((playerRect.pos.y + playerRect.size.y) - getGroundHeightAt(v.x)); if (Math.abs(distX) < 20 && distY < v.height) { const force = distX > 0 ? -2 : 2; v.currentBend += force; } state.enemies.forEach(e => { const eDistX = (e.pos.x + e.size.x/2) - v.x; if (Math.abs(eDistX) < 20 && Math.abs((e.pos.y + e.size.y) - getGroundHeightAt(v.x)) < v.height) { const force = eDistX > 0 ? -1 : 1; v.currentBend += force; } }); v.currentBend *= 0.85; if (v.currentBend > 40) v.currentBend = 40; if (v.currentBend < -40) v.currentBend = -40; if (Math.abs(v.currentBend) < 0.1) v.currentBend = 0; });
-  };
-
-  const update = (dt: number) => {
-    const state = gameState.current; const { player, keys, mouse, camera } = state;
-    if (state.hitStop > 0) { state.hitStop -= 1; return; }
-    if (state.introTimer > 0) { state.introTimer -= dt; player.vel.y += PHYSICS.GRAVITY * planet.gravity * dt * 2; player.pos.y += player.vel.y * dt; const groundY = getGroundHeightAt(player.pos.x + 16); if (player.pos.y + player.size.y >= groundY) { player.pos.y = groundY - player.size.y; player.vel.y = 0; player.vel.x = 0; if (state.introTimer > 60) { state.introTimer = 60; addScreenshake(20); playSound('impact'); spawnParticles(player.pos.x, player.pos.y + 16, '#cccccc', 20, 10); } } state.camera.x = (player.pos.x + player.size.x/2) - (state.logicalWidth / 2); state.camera.y = (player.pos.y + player.size.y/2) - (state.logicalHeight * 0.6); return; }
-
-    updateWeather(dt);
-    updateVegetationPhysics();
-
-    if (camera.shake > 0) camera.shake *= 0.9; if (camera.shake < 0.5) camera.shake = 0;
-    if (player.hitTimer > 0) player.hitTimer -= dt; if (state.weaponCooldown > 0) state.weaponCooldown -= dt;
-
-    if (state.touchInput.right.active) { state.aimAngle = Math.atan2(state.touchInput.right.vectorY, state.touchInput.right.vectorX); } else { const playerScreenX = (player.pos.x + player.size.x/2) - camera.x; const playerScreenY = (player.pos.y + player.size.y/2) - camera.y; state.aimAngle = Math.atan2(mouse.y - playerScreenY, mouse.x - playerScreenX); }
-    player.facingRight = Math.abs(state.aimAngle) < Math.PI / 2;
-
-    const currentSpeed = PHYSICS.PLAYER_SPEED * moveSpeedMult; const maxSpeed = PHYSICS.MAX_SPEED * moveSpeedMult;
-    let friction = player.isGrounded ? PHYSICS.FRICTION : PHYSICS.AIR_FRICTION;
-    const currentGroundIndex = Math.floor((player.pos.x + 16) / 50); const hazard = state.hazards.find(h => currentGroundIndex * 50 >= h.x && currentGroundIndex * 50 < h.x + h.width);
-    if (hazard && hazard.type === 'ice') friction = 0.98;
-
-    let windPush = 0; if (state.currentWeather === 'sandstorm') windPush = 0.2 * state.weatherIntensity; if (!player.isGrounded) player.vel.x += windPush;
-
-    const inputX = (keys['ArrowRight'] || keys['KeyD']) ? 1 : (keys['ArrowLeft'] || keys['KeyA']) ? -1 : state.touchInput.left.vectorX;
-    if (Math.abs(inputX) > 0.1) { player.vel.x += inputX * currentSpeed * dt; } else { player.vel.x *= friction; }
-    if (Math.abs(player.vel.x) < 0.1) player.vel.x = 0;
-    player.vel.x = Math.max(Math.min(player.vel.x, maxSpeed), -maxSpeed);
-
-    if (player.isGrounded) { player.coyoteTimer = PHYSICS.COYOTE_FRAMES; } else if (player.coyoteTimer && player.coyoteTimer > 0) { player.coyoteTimer -= dt; }
-    const isJumpPressed = (keys['ArrowUp'] || keys['Space'] || keys['KeyW'] || state.touchInput.jump);
-    const isJetpackPressed = keys['ShiftLeft'] || (state.touchInput.jump && !player.isGrounded && player.vel.y > -5); 
-    const canJump = (player.isGrounded || (player.coyoteTimer && player.coyoteTimer > 0)) && !state.jumpLock;
-    
-    if (isJumpPressed && canJump) { player.vel.y = -PHYSICS.JUMP_FORCE * (1 / planet.gravity); player.isGrounded = false; player.coyoteTimer = 0; playSound('jump'); state.jumpLock = true; }
-    if (!isJumpPressed) { state.jumpLock = false; }
-    if (player.isGrounded && player.fuel !== undefined && player.maxFuel !== undefined && !isJetpackPressed) { if (player.fuel < player.maxFuel) { player.fuel = Math.min(player.maxFuel, player.fuel + PHYSICS.JETPACK_FUEL_RECHARGE * dt); } }
-    if (isJetpackPressed && player.fuel !== undefined && player.fuel > 0) { player.vel.y -= PHYSICS.JETPACK_FORCE * (1 / planet.gravity) * dt; player.fuel -= PHYSICS.JETPACK_FUEL_CONSUMPTION * dt; player.isGrounded = false; if (state.frameCount % 4 === 0) playSound('thrust'); const flameColor = Math.random() > 0.5 ? '#00ffff' : '#ffffff'; spawnParticles(player.pos.x + 16, player.pos.y + 32, flameColor, 1, 4); }
-
-    const isShooting = mouse.isDown || keys['KeyX'] || keys['KeyJ'] || (state.touchInput.right.active);
-    if (isShooting && state.weaponCooldown <= 0) { 
-        const weapon = WEAPONS[state.currentWeapon]; 
-        const gunLen = 25; 
-        const spawnX = (player.pos.x + player.size.x/2) + Math.cos(state.aimAngle) * gunLen; 
-        const spawnY = (player.pos.y + player.size.y/2) + Math.sin(state.aimAngle) * gunLen; 
-        const recoilAmount = spawnPlayerProjectile(spawnX, spawnY, state.aimAngle, state.currentWeapon); 
-        player.vel.x -= Math.cos(state.aimAngle) * recoilAmount; player.vel.y -= Math.sin(state.aimAngle) * recoilAmount; 
-        addScreenshake(recoilAmount * 0.8); 
-        state.camera.x += Math.cos(state.aimAngle) * recoilAmount * 0.5; state.camera.y += Math.sin(state.aimAngle) * recoilAmount * 0.5;
-        state.weaponCooldown = weapon.fireRate; 
-    }
-
-    player.vel.y += PHYSICS.GRAVITY * planet.gravity * dt; player.pos.x += player.vel.x * dt; player.pos.y += player.vel.y * dt;
-    const groundY = getGroundHeightAt(player.pos.x + 16);
-    
-    // --- HAZARD COLLISION LOGIC ---
-    if (hazard) {
-        if (hazard.type === 'lava' && player.pos.y + player.size.y >= groundY - 10) { 
-            if (state.frameCount % 20 === 0 && player.hitTimer <= 0) { 
-                player.health -= 5; player.hitTimer = PHYSICS.INVULNERABILITY_FRAMES; state.hitStop = 4; playSound('hurt'); spawnFloatingText(player.pos.x, player.pos.y, "-5 HEAT", "#ff4400"); 
-            } 
-            player.vel.x *= 0.5; player.vel.y *= 0.8; // High viscosity
-        } 
-        else if (hazard.type === 'acid' && player.pos.y + player.size.y >= groundY - 10) { 
-            if (state.frameCount % 30 === 0 && player.hitTimer <= 0) { 
-                player.health -= 2; player.hitTimer = PHYSICS.INVULNERABILITY_FRAMES; playSound('hurt'); spawnFloatingText(player.pos.x, player.pos.y, "-2 ACID", "#00ff00"); 
-            } 
-        } 
-        else if (hazard.type === 'spikes' && player.pos.y + player.size.y >= groundY - 20) { // Taller hitbox
-            if (player.hitTimer <= 0) { 
-                player.health -= 15; player.vel.y = -8; player.hitTimer = PHYSICS.INVULNERABILITY_FRAMES; state.hitStop = 5; playSound('hurt'); spawnFloatingText(player.pos.x, player.pos.y, "-15 SPIKE", "#ffffff"); 
-            } 
-        }
-        else if (hazard.type === 'geyser') {
-            const isErupting = (state.frameCount + hazard.x) % 300 < 100;
-            if (isErupting && player.pos.y + player.size.y >= groundY - 150) {
-                // Check X alignment
-                if (player.pos.x + player.size.x > hazard.x && player.pos.x < hazard.x + hazard.width) {
-                    player.vel.y -= 1.5; // Upward push
-                    if (state.frameCount % 30 === 0 && player.hitTimer <= 0) {
-                        player.health -= 5; player.hitTimer = PHYSICS.INVULNERABILITY_FRAMES; playSound('hurt'); spawnFloatingText(player.pos.x, player.pos.y, "-5 STEAM", "#ffffff");
-                    }
-                }
-            }
-        }
-        else if (hazard.type === 'electric') {
-             if (player.pos.y + player.size.y >= groundY - 40) {
-                 player.vel.x *= 0.6; // Slowdown
-                 if (state.frameCount % 40 === 0 && player.hitTimer <= 0) {
-                     player.health -= 8; player.hitTimer = PHYSICS.INVULNERABILITY_FRAMES; playSound('hurt'); spawnFloatingText(player.pos.x, player.pos.y, "-8 SHOCK", "#00ffff");
-                 }
-             }
-        }
-    }
-
-    if (player.pos.y + player.size.y >= groundY) { player.pos.y = groundY - player.size.y; player.vel.y = 0; player.isGrounded = true; } else { player.isGrounded = false; }
-    if (player.pos.x < 0) player.pos.x = 0; if (player.pos.y > state.logicalHeight + 400) player.health = 0;
-
-    const lookTarget = (state.touchInput.left.active ? state.touchInput.left.vectorX : (keys['ArrowRight'] || keys['KeyD']) ? 1 : (keys['ArrowLeft'] || keys['KeyA']) ? -1 : 0) * 150;
-    state.camera.lookOffset += (lookTarget - state.camera.lookOffset) * 0.05;
-    const lookVertical = (state.touchInput.left.vectorY > 0.5) ? 200 : (mouse.y - state.logicalHeight/2) * 0.3; 
-    if (keys['ArrowDown'] || keys['KeyS'] || state.touchInput.left.vectorY > 0.7) { state.lookDownTimer++; } else { state.lookDownTimer = 0; }
-    const lookDownOffset = state.lookDownTimer > 30 ? 200 : 0; 
-    const targetCamX = (player.pos.x + player.size.x/2) - (state.logicalWidth / 2) + state.camera.lookOffset; 
-    let targetCamY = (player.pos.y + player.size.y/2) - (state.logicalHeight * 0.6) + lookVertical + lookDownOffset; if (targetCamY > 100) targetCamY = 100;
-    state.camera.x += (targetCamX - state.camera.x) * 0.08; state.camera.y += (targetCamY - state.camera.y) * 0.08; 
-    if (state.camera.x < 0) state.camera.x = 0;
-
-    if (!state.bossActive) { if (state.player.pos.x > state.nextSquadSpawnX) { const spawnX = state.camera.x + state.logicalWidth + 200; spawnSquad(spawnX); const gap = 2500 - (planet.enemyDensity * 200) + (Math.random() * 800); state.nextSquadSpawnX = state.player.pos.x + Math.max(800, gap); } }
-
-    state.enemies.forEach((ent, index) => {
-      const distToPlayer = Math.hypot(player.pos.x - ent.pos.x, player.pos.y - ent.pos.y); const isPlayerLeft = player.pos.x < ent.pos.x; const gY = getGroundHeightAt(ent.pos.x + ent.size.x/2);
-      ent.vel.x *= 0.95; 
-      if (ent.archetype !== 'guardian') { state.enemies.forEach((other, otherIdx) => { if (index === otherIdx || other.archetype === 'guardian') return; const dist = Math.hypot(ent.pos.x - other.pos.x, ent.pos.y - other.pos.y); const minSpace = ent.size.x * 0.8; if (dist < minSpace) { const pushX = (ent.pos.x - other.pos.x) / (dist + 0.1); ent.vel.x += pushX * 0.5 * dt; } }); }
-      if (ent.hitTimer > 0) ent.hitTimer -= dt;
-      const stats = ENEMY_STATS[ent.archetype?.toUpperCase() as keyof typeof ENEMY_STATS] || ENEMY_STATS.CRAWLER; const aggroRange = stats.aggroRange || 300; const dropRange = aggroRange * 1.5;
-      if (ent.archetype !== 'neutral' && ent.archetype !== 'guardian') { if (ent.aiState === 'idle') { if (Math.abs(ent.vel.x) < 0.5 && Math.random() < 0.05) { ent.vel.x = (Math.random() - 0.5) * 2; } if (distToPlayer < aggroRange) { ent.aiState = 'alert'; ent.alertTimer = 40; spawnFloatingText(ent.pos.x, ent.pos.y - 20, "!", "#ff0000"); } } else if (ent.aiState === 'alert') { ent.vel.x *= 0.8; if (ent.alertTimer !== undefined) { ent.alertTimer -= dt; if (ent.alertTimer <= 0) ent.aiState = 'chase'; } else { ent.aiState = 'chase'; } } else if (ent.aiState === 'chase' || ent.aiState === 'charge') { if (distToPlayer > dropRange) { ent.aiState = 'idle'; } } }
-      if (ent.archetype === 'neutral') { if (Math.random() < 0.02) { ent.vel.x = (Math.random() - 0.5) * 1.5; if (ent.isGrounded) ent.vel.y = -2; } if (ent.pos.y + ent.size.y >= gY) { ent.pos.y = gY - ent.size.y; ent.vel.y = 0; ent.isGrounded = true; } }
-      else if (ent.archetype === 'crawler') { if (ent.aiState === 'chase') { if (Math.abs(ent.vel.x) < 2) ent.vel.x += (isPlayerLeft ? -1 : 1) * (0.2 * dt); } if (ent.isGrounded && Math.abs(gY - (ent.pos.y + ent.size.y)) > 20) ent.vel.y = -8; } 
-      else if (ent.archetype === 'hornet') { const hoverY = player.pos.y - 100 + Math.sin(state.frameCount * 0.05 + ent.animOffset) * 50; let targetY = hoverY; if (ent.aiState === 'chase') { targetY = player.pos.y; if (Math.abs(ent.vel.x) < 2) ent.vel.x += (isPlayerLeft ? -1 : 1) * (0.1 * dt); } else { ent.vel.x += Math.cos(state.frameCount * 0.05) * 0.05; } ent.vel.y += (targetY - ent.pos.y) * 0.02 * dt; ent.vel.y *= 0.95; } 
-      else if (ent.archetype === 'sentinel') { if (ent.aiState === 'chase') { const idealRange = (stats as any).range || 300; if (distToPlayer < idealRange - 50) ent.vel.x += (isPlayerLeft ? 1 : -1) * (0.15 * dt); else if (distToPlayer > idealRange + 50) ent.vel.x += (isPlayerLeft ? -1 : 1) * (0.15 * dt); if (ent.attackTimer && ent.attackTimer > 0) ent.attackTimer--; if (distToPlayer < 500 && (!ent.attackTimer || ent.attackTimer <= 0)) { const angle = Math.atan2((player.pos.y + 16) - ent.pos.y, (player.pos.x + 16) - ent.pos.x); spawnEnemyProjectile(ent.pos.x + ent.size.x/2, ent.pos.y, angle); ent.attackTimer = 140; } } else { ent.vel.x *= 0.9; } }
-      else if (ent.archetype === 'dasher') { if (ent.aiState === 'chase') { if (distToPlayer < 300) { ent.aiState = 'charge'; ent.attackTimer = 30; spawnParticles(ent.pos.x, ent.pos.y, '#ffffff', 5); } else { if (Math.abs(ent.vel.x) < 2) ent.vel.x += (isPlayerLeft ? -1 : 1) * (0.1 * dt); } } else if (ent.aiState === 'charge') { if (ent.attackTimer && ent.attackTimer > 0) { ent.attackTimer--; ent.pos.x += Math.random() * 2 - 1; } else { ent.vel.x = (isPlayerLeft ? -1 : 1) * ENEMY_STATS.DASHER.dashSpeed; if (Math.abs(ent.vel.x) < 1 || distToPlayer > 450) ent.aiState = 'chase'; } } }
-      else if (ent.archetype === 'guardian') { const hoverY = player.pos.y - 150 + Math.sin(state.frameCount * 0.03) * 50; ent.vel.y += (hoverY - ent.pos.y) * 0.01 * dt; ent.vel.x += (isPlayerLeft ? -1 : 1) * (0.05 * dt); ent.vel.y *= 0.95; ent.vel.x *= 0.95; if (ent.attackTimer && ent.attackTimer > 0) ent.attackTimer--; if (ent.health < ent.maxHealth * 0.5) ent.color = '#ff0000'; if (!ent.attackTimer || ent.attackTimer <= 0) { const randAttack = Math.random(); if (randAttack < 0.6) { for(let i=0; i<5; i++) { const angle = Math.atan2((player.pos.y+16) - ent.pos.y, (player.pos.x+16) - ent.pos.x); spawnEnemyProjectile(ent.pos.x + ent.size.x/2, ent.pos.y + ent.size.y/2, angle + (i-2)*0.2); } ent.attackTimer = 120; } else { for(let i=0; i<2; i++) { spawnEnemy(ent.pos.x + (Math.random()-0.5)*100, getGroundHeightAt(ent.pos.x)); } spawnFloatingText(ent.pos.x, ent.pos.y, "SUMMONING", "#ff00ff"); ent.attackTimer = 240; } } }
-      else if (ent.archetype === 'shielder') { if (ent.attackTimer === undefined) ent.attackTimer = 0; ent.attackTimer -= dt; if (ent.attackTimer <= 0) { if (ent.aiState === 'chase') { ent.aiState = 'idle'; ent.attackTimer = 180; playSound('ui'); spawnFloatingText(ent.pos.x, ent.pos.y - 20, "SHIELD DOWN", "#ffff00"); } else { ent.aiState = 'chase'; ent.attackTimer = 300; playSound('ui'); spawnFloatingText(ent.pos.x, ent.pos.y - 20, "SHIELD UP", "#00ffff"); } } if (ent.aiState === 'chase') { const dist = Math.abs(ent.pos.x - state.player.pos.x); if (dist < 600) { if (Math.abs(ent.vel.x) < 0.5) ent.vel.x += (ent.pos.x < state.player.pos.x ? 1 : -1) * (0.05 * dt); } } else { ent.vel.x *= 0.8; } } else if (ent.archetype === 'spore') { ent.vel.x = 0; } else if (ent.archetype === 'sandworm') { if (!ent.isBurrowed) { if (ent.attackTimer && ent.attackTimer > 0) ent.attackTimer -= dt; else { ent.attackTimer = 100; const angle = Math.atan2(player.pos.y - ent.pos.y, player.pos.x - ent.pos.x); spawnEnemyProjectile(ent.pos.x, ent.pos.y, angle); } } }
-
-      if (ent.archetype !== 'hornet' && ent.archetype !== 'guardian') ent.vel.y += PHYSICS.GRAVITY * planet.gravity * dt;
-      const maxSpd = ent.archetype === 'dasher' && ent.aiState === 'charge' ? 8 : (ENEMY_STATS[ent.archetype?.toUpperCase() as keyof typeof ENEMY_STATS]?.speed || 2);
-      if (Math.abs(ent.vel.x) > maxSpd && Math.abs(ent.vel.x) < 15) { } else { ent.vel.x = Math.max(Math.min(ent.vel.x, maxSpd), -maxSpd); }
-      ent.pos.x += ent.vel.x * dt; ent.pos.y += ent.vel.y * dt; ent.facingRight = ent.vel.x > 0;
-      if (ent.archetype !== 'hornet' && ent.archetype !== 'guardian') { if (ent.pos.y + ent.size.y >= gY) { ent.pos.y = gY - ent.size.y; ent.vel.y = 0; ent.isGrounded = true; } else ent.isGrounded = false; }
-
-      if (checkCollision(player, ent) && ent.archetype !== 'neutral') { if (player.hitTimer <= 0) { player.health -= 15; player.hitTimer = PHYSICS.INVULNERABILITY_FRAMES; player.vel.x = (player.pos.x < ent.pos.x ? -1 : 1) * 10; player.vel.y = -5; state.hitStop = 5; addScreenshake(10); playSound('hurt'); spawnParticles(player.pos.x, player.pos.y, '#ff0000', 3); spawnFloatingText(player.pos.x, player.pos.y, '-15 HP', '#ff0000'); } }
-      if (ent.pos.y > LOGICAL_HEIGHT + 300 || ent.health <= 0) { ent.markedForDeletion = true; if(ent.health <= 0) { const baseScore = ENEMY_STATS[ent.archetype?.toUpperCase() as keyof typeof ENEMY_STATS]?.score || 50; const score = ent.rarity === 'elite' ? baseScore * 2 : baseScore; state.score += score; playSound('explosion'); spawnParticles(ent.pos.x, ent.pos.y, ent.color, 10); addScreenshake(5); spawnFloatingText(ent.pos.x, ent.pos.y - 20, `+${score}`, ent.rarity === 'elite' ? '#ffd700' : '#ffff00'); const rand = Math.random(); const dropChanceWeapon = ent.rarity === 'elite' ? 0.4 : 0.1; const dropChanceHealth = ent.rarity === 'elite' ? 0.5 : 0.25; if (rand < dropChanceWeapon) { spawnLoot(ent.pos.x, ent.pos.y, 'weapon'); } else if (rand < dropChanceHealth) { spawnLoot(ent.pos.x, ent.pos.y, 'health'); } if (ent.archetype === 'guardian') { onVictory(state.score, state.coresCollected); } state.hitStop = 3; } }
-    });
-
-    state.projectiles.forEach(proj => {
-      if (proj.weaponType && WEAPONS[proj.weaponType]?.gravity) { proj.vel.y += WEAPONS[proj.weaponType].gravity! * dt; }
-      proj.pos.x += proj.vel.x * dt; proj.pos.y += proj.vel.y * dt;
-      if (proj.type === 'projectile') { state.enemies.forEach(enemy => { if (!enemy.markedForDeletion && !proj.markedForDeletion && checkCollisionInflated(proj, enemy, 8)) { 
-          let damageBlocked = false; if (enemy.archetype === 'shielder') { if (enemy.aiState === 'chase') { const hitFromFront = (enemy.facingRight && proj.vel.x < 0) || (!enemy.facingRight && proj.vel.x > 0); if (hitFromFront) { damageBlocked = true; spawnParticles(proj.pos.x, proj.pos.y, '#00ffff', 3); playSound('ui'); } } } if (enemy.archetype === 'sandworm' && enemy.isBurrowed) damageBlocked = true;
-          if (damageBlocked) { proj.markedForDeletion = true; spawnFloatingText(enemy.pos.x, enemy.pos.y - 10, "BLOCK", "#00ffff"); } else { const wStats = WEAPONS[proj.weaponType || 'blaster']; const baseDmg = 10 * wStats.damageMult; const finalDmg = Math.ceil(baseDmg * damageMult); if (proj.isExplosive) { spawnExplosion(proj.pos.x, proj.pos.y); proj.markedForDeletion = true; } else { enemy.health -= finalDmg; enemy.hitTimer = 5; if (enemy.aiState === 'idle') enemy.aiState = 'chase'; spawnParticles(proj.pos.x, proj.pos.y, '#ffff00', 2); spawnFloatingText(enemy.pos.x, enemy.pos.y, `${finalDmg}`, '#ffffff'); const kbStrength = wStats.knockback || 2; const angle = Math.atan2(proj.vel.y, proj.vel.x); enemy.vel.x += Math.cos(angle) * kbStrength; enemy.vel.y += Math.sin(angle) * (kbStrength * 0.5); enemy.isGrounded = false; if (proj.pierceCount && proj.pierceCount > 0) { proj.pierceCount--; } else { proj.markedForDeletion = true; } } } } }); } 
-      else if (proj.type === 'enemy_projectile') { if (checkCollision(proj, player)) { if (player.hitTimer <= 0) { player.health -= 10; player.hitTimer = PHYSICS.INVULNERABILITY_FRAMES; state.hitStop = 4; addScreenshake(5); playSound('hurt'); spawnParticles(player.pos.x, player.pos.y, '#ff0000', 5); spawnFloatingText(player.pos.x, player.pos.y, '-10 HP', '#ff0000'); } proj.markedForDeletion = true; } }
-      if (Math.abs(proj.pos.x - player.pos.x) > state.logicalWidth) proj.markedForDeletion = true; const groundY = getGroundHeightAt(proj.pos.x); if (proj.pos.y > groundY) { proj.markedForDeletion = true; if (proj.isExplosive) { spawnExplosion(proj.pos.x, groundY); } else { spawnParticles(proj.pos.x, proj.pos.y, planet.groundColor, 2); } }
     });
+  };
 
-    state.loot.forEach(item => {
-      item.vel.y += PHYSICS.GRAVITY * planet.gravity * dt; item.pos.x += item.vel.x * dt; item.pos.y += item.vel.y * dt; const gY = getGroundHeightAt(item.pos.x + item.size.x/2);
-      if (item.lootType === 'core') { const distToPlayer = Math.hypot(player.pos.x - item.pos.x, player.pos.y - item.pos.y); if (distToPlayer < 400) { const rate = Math.floor(distToPlayer / 50) * 10 + 20; if (state.frameCount % rate === 0) { playSound('sensor'); } } }
-      if (state.hazards.some(h => h.type === 'lava' && item.pos.x > h.x && item.pos.x < h.x+h.width && item.pos.y > gY - 10)) { item.markedForDeletion = true; spawnParticles(item.pos.x, item.pos.y, '#ff0000', 5); }
-      if (item.pos.y + item.size.y >= gY) { item.pos.y = gY - item.size.y; item.vel.y = 0; }
-      if (checkCollision(player, item)) {
-        item.markedForDeletion = true;
-        if (item.lootType === 'core') { state.coresCollected += 1; state.score += 500; playSound('pickup'); spawnParticles(item.pos.x, item.pos.y, item.color, 20); spawnFloatingText(item.pos.x, item.pos.y - 20, 'CORE ACQUIRED', item.color); if (state.coresCollected === 1) queueMessage("Ottimo lavoro. Procedi verso il segnale successivo."); if (state.coresCollected === Math.floor(state.totalCoresNeeded / 2)) queueMessage("Livelli energia al 50%. Rilevata attività nemica in aumento."); if (state.coresCollected >= state.totalCoresNeeded) { spawnBoss(); } } else if (item.lootType === 'weapon' && item.weaponType) { state.currentWeapon = item.weaponType; playSound('powerup'); spawnParticles(item.pos.x, item.pos.y, WEAPONS[item.weaponType].color, 20); spawnFloatingText(item.pos.x, item.pos.y - 20, WEAPONS[item.weaponType].name, WEAPONS[item.weaponType].color); } else if (item.lootType === 'health') { player.health = Math.min(player.maxHealth, player.health + 20); playSound('pickup'); spawnParticles(item.pos.x, item.pos.y, '#00ff00', 10); spawnFloatingText(item.pos.x, item.pos.y - 20, '+20 HP', '#00ff00'); }
-      }
-    });
+  const syncHud = (world: World) => {
+    const { player } = world;
+    const boss = world.enemies.find(e => e.archetype === 'guardian');
+    const objective: StringKey = boss ? 'objective.destroyGuardian' : 'objective.recoverCores';
+    const offer = world.loot.find(item => item.id === world.weaponOffer)?.weaponType;
+    setHudStats({ health: player.health, maxHealth: player.maxHealth, fuel: player.fuel || 0, maxFuel: player.maxFuel || 100, score: world.score, cores: world.coresCollected, totalCores: world.totalCoresNeeded, slots: world.weaponSlots.map(type => type && { name: world.weapons[type].name, color: world.weapons[type].color, ammo: getAmmo(world, type) }), activeSlot: world.activeSlot, offer: offer ? world.weapons[offer].name : null, statuses: (player.statusEffects || []).map(effect => ({ ...effect })), objective });
+    const bossStat = boss ? { active: true, hp: boss.health, maxHp: boss.maxHealth, name: getGuardianVariant(world.planet).nameKey, phase: guardianPhase(boss) } : { active: false, hp: 0, maxHp: 0, name: null, phase: 0 };
+    setBossStats(bossStat);
+  };
 
-    state.particles.forEach(p => { 
-        if (p.type === 'casing') { p.vel.y += PHYSICS.GRAVITY * dt; p.pos.x += p.vel.x * dt; p.pos.y += p.vel.y * dt; p.life -= 0.01 * dt; if (p.rotation !== undefined && p.rotSpeed !== undefined) p.rotation += p.rotSpeed; const gY = getGroundHeightAt(p.pos.x); if (p.pos.y >= gY - 2) { p.pos.y = gY - 2; p.vel.y *= -0.5; p.vel.x *= 0.8; if (Math.abs(p.vel.y) < 1) p.vel.y = 0; } } else if (p.type === 'bubble') {
-            p.pos.y -= 1; // Bubble rise
-            p.life -= 0.02 * dt;
-        } else { p.pos.x += p.vel.x * dt; p.pos.y += p.vel.y * dt; p.life -= 0.05 * dt; }
+  // Music context, weather beds and hazard loops (the nearest hazard of each kind sets its level and pan)
+  const syncAudio = (world: World) => {
+    const boss = world.enemies.some(e => e.archetype === 'guardian');
+    setMusicContext(boss ? 'boss' : (world.currentWeather !== 'clear' && world.weatherIntensity > 0.3) ? 'weather' : 'exploration');
+    const { player } = world; const listener = { x: player.pos.x + player.size.x / 2, y: player.pos.y + player.size.y / 2 };
+    const hazards: Partial<Record<AmbientHazard, HazardMix>> = {};
+    world.hazards.forEach(h => {
+      if (h.type !== 'lava' && h.type !== 'electric') return;
+      const x = Math.max(h.x, Math.min(h.x + h.width, listener.x));
+      const mix = getSpatialMix({ source: { x, y: getGroundHeightAt(world.terrain, x) }, listener });
+      if (!hazards[h.type] || mix.gain > hazards[h.type]!.gain) hazards[h.type] = mix;
     });
-    
-    state.texts.forEach(t => { t.y += t.velY * dt; t.life -= 0.02 * dt; });
-    state.enemies = state.enemies.filter(e => !e.markedForDeletion); state.projectiles = state.projectiles.filter(p => !p.markedForDeletion); state.loot = state.loot.filter(l => !l.markedForDeletion); state.particles = state.particles.filter(p => p.life > 0); state.texts = state.texts.filter(t => t.life > 0); state.frameCount++;
-
-    if (player.health <= 0) { state.isPlaying = false; onGameOver(state.score, state.coresCollected, "Segnale vitale tuta: 0%"); }
-    if (state.frameCount % 5 === 0) { 
-        const boss = state.enemies.find(e => e.archetype === 'guardian');
-        const objText = boss ? "DANGER: DESTROY GUARDIAN" : "MISSION: RECOVER CORES";
-        setHudStats({ health: player.health, maxHealth: player.maxHealth, fuel: player.fuel || 0, maxFuel: player.maxFuel || 100, score: state.score, cores: state.coresCollected, weapon: WEAPONS[state.currentWeapon].name, objective: objText }); 
-        const bossStat = boss ? { active: true, hp: boss.health, maxHp: boss.maxHealth, name: "PLANETARY GUARDIAN" } : { active: false, hp: 0, maxHp: 0, name: '' };
-        setBossStats(bossStat);
-    }
+    updateAmbience(world.currentWeather, world.weatherIntensity, hazards);
   };
 
   const drawLight = (ctx: CanvasRenderingContext2D, x: number, y: number, radius: number, color: string, intensity: number = 1.0) => {
@@ -642,22 +361,22 @@ const GameEngine: React.FC<GameEngineProps> = ({ planet, upgrades, onGameOver, o
   };
 
   const drawVegetation = (ctx: CanvasRenderingContext2D) => {
-    const state = gameState.current; 
-    const globalWind = Math.sin(state.frameCount * 0.05); 
+    const state = worldRef.current!; 
+    const globalWind = Math.sin(state.tick * 0.05); 
     const weatherSway = state.weatherIntensity * 2;
     const visibleVeg = state.vegetation.filter(v => v.x > state.camera.x - 50 && v.x < state.camera.x + state.logicalWidth + 50);
     visibleVeg.forEach(v => { 
-        const groundY = getGroundHeightAt(v.x); 
+        const groundY = getGroundHeightAt(state.terrain, v.x); 
         if (state.hazards.some(h => h.type !== 'none' && h.type !== 'ice' && v.x > h.x && v.x < h.x + h.width)) return; 
         const swayFactor = v.isTitan ? 0.02 : 0.05;
-        const swayMagnitude = (v.swayAmount + (weatherSway * 20)) * (globalWind + Math.sin(state.frameCount * v.swaySpeed + v.x)) + (v.currentBend || 0);
+        const swayMagnitude = (v.swayAmount + (weatherSway * 20)) * (globalWind + Math.sin(state.tick * v.swaySpeed + v.x)) + (v.currentBend || 0);
         drawStem(ctx, v, groundY, swayMagnitude * 0.6); 
         drawFoliage(ctx, v, groundY, swayMagnitude);
     });
   };
 
   const drawWeather = (ctx: CanvasRenderingContext2D) => {
-      const state = gameState.current; if (state.weatherParticles.length === 0) return; const type = state.currentWeather;
+      const state = worldRef.current!; if (state.weatherParticles.length === 0) return; const type = state.currentWeather;
       ctx.save();
       if (type === 'acid_rain') { ctx.strokeStyle = '#00ff00'; ctx.lineWidth = 1; state.weatherParticles.forEach(p => { ctx.beginPath(); ctx.moveTo(p.pos.x, p.pos.y); ctx.lineTo(p.pos.x + p.vel.x, p.pos.y + p.vel.y * 2); ctx.stroke(); }); } 
       else if (type === 'rain') { ctx.strokeStyle = '#aaaaff'; ctx.lineWidth = 1; ctx.globalAlpha = 0.6; state.weatherParticles.forEach(p => { ctx.beginPath(); ctx.moveTo(p.pos.x, p.pos.y); ctx.lineTo(p.pos.x + p.vel.x, p.pos.y + p.vel.y * 3); ctx.stroke(); }); ctx.globalAlpha = 1; } 
@@ -668,7 +387,8 @@ const GameEngine: React.FC<GameEngineProps> = ({ planet, upgrades, onGameOver, o
   };
   
   const drawDayNightCycle = (ctx: CanvasRenderingContext2D) => {
-      const t = gameState.current.timeOfDay;
+      const state = worldRef.current!;
+      const t = state.timeOfDay;
       let overlayColor = 'rgba(0,0,0,0)';
       if (t < 0.2) { const alpha = 1 - (t / 0.2); overlayColor = `rgba(20, 10, 40, ${alpha * 0.6})`; } 
       else if (t >= 0.2 && t < 0.5) { overlayColor = `rgba(255, 255, 200, 0.05)`; } 
@@ -677,40 +397,41 @@ const GameEngine: React.FC<GameEngineProps> = ({ planet, upgrades, onGameOver, o
       ctx.save();
       ctx.globalCompositeOperation = 'multiply';
       ctx.fillStyle = overlayColor;
-      ctx.fillRect(0, 0, gameState.current.logicalWidth, gameState.current.logicalHeight);
-      if (gameState.current.weatherState === 'active' || gameState.current.weatherState === 'buildup') { const intensity = gameState.current.weatherIntensity; let tint = 'rgba(0,0,0,0)'; if (gameState.current.currentWeather === 'sandstorm') tint = `rgba(150, 100, 0, ${intensity * 0.3})`; else if (gameState.current.currentWeather === 'acid_rain') tint = `rgba(0, 50, 0, ${intensity * 0.2})`; else if (gameState.current.currentWeather === 'ash') tint = `rgba(50, 20, 0, ${intensity * 0.2})`; else tint = `rgba(50, 50, 60, ${intensity * 0.4})`; ctx.fillStyle = tint; ctx.fillRect(0, 0, gameState.current.logicalWidth, gameState.current.logicalHeight); }
+      ctx.fillRect(0, 0, state.logicalWidth, state.logicalHeight);
+      if (state.weatherState === 'active' || state.weatherState === 'buildup') { const intensity = state.weatherIntensity; let tint = 'rgba(0,0,0,0)'; if (state.currentWeather === 'sandstorm') tint = `rgba(150, 100, 0, ${intensity * 0.3})`; else if (state.currentWeather === 'acid_rain') tint = `rgba(0, 50, 0, ${intensity * 0.2})`; else if (state.currentWeather === 'ash') tint = `rgba(50, 20, 0, ${intensity * 0.2})`; else tint = `rgba(50, 50, 60, ${intensity * 0.4})`; ctx.fillStyle = tint; ctx.fillRect(0, 0, state.logicalWidth, state.logicalHeight); }
       ctx.restore();
   };
 
   const drawLightingPass = (ctx: CanvasRenderingContext2D) => {
-    const state = gameState.current;
+    const state = worldRef.current!;
     ctx.save();
-    const shakeX = (Math.random() - 0.5) * state.camera.shake; const shakeY = (Math.random() - 0.5) * state.camera.shake;
+    const shakeX = getShakeOffset(state); const shakeY = getShakeOffset(state);
     ctx.translate(-state.camera.x + shakeX, -state.camera.y + shakeY);
     ctx.globalCompositeOperation = 'lighter';
     const p = state.player;
     let pGlowColor = '#00ffff'; if (upgrades.hull > 2) pGlowColor = '#ffcc00'; if (upgrades.hull >= 4) pGlowColor = '#ff0000';
     drawLight(ctx, p.pos.x + p.size.x/2 + (p.facingRight?4:-4), p.pos.y + 10, 30, pGlowColor, 0.4);
-    if (state.keys['ShiftLeft'] || (state.touchInput.jump && !p.isGrounded && p.vel.y > -5)) { drawLight(ctx, p.pos.x + p.size.x/2, p.pos.y + p.size.y, 40, '#ffaa00', 0.6); }
-    state.projectiles.forEach(proj => { if (proj.type === 'projectile') { const glowSize = proj.isExplosive ? 30 : 20; drawLight(ctx, proj.pos.x + proj.size.x/2, proj.pos.y + proj.size.y/2, glowSize, proj.color, 0.6); } else { drawLight(ctx, proj.pos.x + proj.size.x/2, proj.pos.y + proj.size.y/2, 20, '#ff00ff', 0.5); } });
-    state.loot.forEach(l => { if (l.lootType === 'core') { const pulse = Math.sin(state.frameCount * 0.1) * 10; drawLight(ctx, l.pos.x + l.size.x/2, l.pos.y + l.size.y/2, 60 + pulse, l.color, 0.3); drawLight(ctx, l.pos.x + l.size.x/2, l.pos.y + l.size.y/2, 20, '#ffffff', 0.5); } else if (l.lootType === 'weapon') { drawLight(ctx, l.pos.x + l.size.x/2, l.pos.y + l.size.y/2, 40, WEAPONS[l.weaponType!].color, 0.2); } });
-    state.enemies.forEach(e => { if (e.archetype === 'guardian') { const pulse = Math.abs(Math.sin(state.frameCount * 0.05)); drawLight(ctx, e.pos.x + e.size.x/2, e.pos.y + e.size.y/2, 100 + pulse*20, e.color, 0.3); if (e.attackTimer && e.attackTimer < 30) { drawLight(ctx, e.pos.x + e.size.x/2, e.pos.y + e.size.y/2, 150, '#ffffff', 0.8); } } else if (e.archetype === 'sentinel' || e.archetype === 'dasher') { const eyeX = e.pos.x + (e.facingRight ? e.size.x - 5 : 5); drawLight(ctx, eyeX, e.pos.y + 10, 25, e.color, 0.5); } else if (e.archetype === 'hornet') { drawLight(ctx, e.pos.x + e.size.x/2, e.pos.y + e.size.y/2, 20, '#ff0000', 0.4); } });
+    if (state.jetpackActive) { drawLight(ctx, p.pos.x + p.size.x/2, p.pos.y + p.size.y, 40, '#ffaa00', 0.6); }
+    state.projectiles.forEach(proj => { if (proj.type === 'projectile') { const glowSize = proj.isExplosive ? 30 : 20; drawLight(ctx, proj.pos.x + proj.size.x/2, proj.pos.y + proj.size.y/2, glowSize, proj.color, 0.6); } else { drawLight(ctx, proj.pos.x + proj.size.x/2, proj.pos.y + proj.size.y/2, proj.isShockwave ? 40 : 20, proj.color, 0.5); } });
+    state.loot.forEach(l => { if (l.lootType === 'core') { const pulse = Math.sin(state.tick * 0.1) * 10; drawLight(ctx, l.pos.x + l.size.x/2, l.pos.y + l.size.y/2, 60 + pulse, l.color, 0.3); drawLight(ctx, l.pos.x + l.size.x/2, l.pos.y + l.size.y/2, 20, '#ffffff', 0.5); } else if (l.lootType === 'weapon' || l.lootType === 'mod') { drawLight(ctx, l.pos.x + l.size.x/2, l.pos.y + l.size.y/2, l.lootType === 'mod' ? 25 : 40, l.color, 0.2); } });
+    state.platforms.forEach(pl => { if (pl.path) { drawLight(ctx, pl.pos.x + 17, pl.pos.y + pl.size.y + 4, 16, '#ffaa00', 0.4); drawLight(ctx, pl.pos.x + pl.size.x - 17, pl.pos.y + pl.size.y + 4, 16, '#ffaa00', 0.4); } });
+    state.enemies.forEach(e => getArchetype(e.archetype).lights?.(e, state).forEach(l => drawLight(ctx, l.x, l.y, l.radius, l.color, l.intensity)));
     state.particles.forEach(p => { if (p.color === '#ffaa00' || p.color === '#ff0000') { drawLight(ctx, p.pos.x, p.pos.y, p.size * 4, '#ff4400', p.life * 0.5); } else if (p.color === '#00ffff') { drawLight(ctx, p.pos.x, p.pos.y, p.size * 3, '#00ffff', p.life * 0.4); } else if (p.type === 'casing') { drawLight(ctx, p.pos.x, p.pos.y, 8, '#ffcc00', p.life * 0.2); } });
     state.hazards.forEach(h => { 
         if (h.type === 'lava') { 
-            const gY = getGroundHeightAt(h.x); 
+            const gY = getGroundHeightAt(state.terrain, h.x); 
             if (h.x + h.width > state.camera.x && h.x < state.camera.x + state.logicalWidth) { 
                 drawLight(ctx, h.x + h.width/2, gY + 40, 200, '#ff4400', 0.3); 
             } 
         } else if (h.type === 'acid') { 
-            const gY = getGroundHeightAt(h.x); 
+            const gY = getGroundHeightAt(state.terrain, h.x); 
             if (h.x + h.width > state.camera.x && h.x < state.camera.x + state.logicalWidth) { 
                 drawLight(ctx, h.x + h.width/2, gY + 40, 200, '#00ff00', 0.2); 
             } 
         } else if (h.type === 'electric') {
-            const gY = getGroundHeightAt(h.x);
+            const gY = getGroundHeightAt(state.terrain, h.x);
             if (h.x + h.width > state.camera.x && h.x < state.camera.x + state.logicalWidth) { 
-                if (state.frameCount % 10 < 5) drawLight(ctx, h.x + h.width/2, gY - 20, 100, '#00ffff', 0.5); 
+                if (state.tick % 10 < 5) drawLight(ctx, h.x + h.width/2, gY - 20, 100, '#00ffff', 0.5); 
             }
         }
     });
@@ -718,9 +439,9 @@ const GameEngine: React.FC<GameEngineProps> = ({ planet, upgrades, onGameOver, o
   };
   
   const drawHazards = (ctx: CanvasRenderingContext2D) => {
-      const state = gameState.current; 
+      const state = worldRef.current!; 
       state.hazards.forEach(h => { 
-          const gY = getGroundHeightAt(h.x); 
+          const gY = getGroundHeightAt(state.terrain, h.x); 
           
           if (h.type === 'lava' || h.type === 'acid') { 
               const baseColor = h.type === 'lava' ? '#cf1020' : '#20cf20';
@@ -741,7 +462,7 @@ const GameEngine: React.FC<GameEngineProps> = ({ planet, upgrades, onGameOver, o
               // Multi-sine wave
               const segments = 20;
               const segWidth = h.width / segments;
-              const time = state.frameCount * 0.05;
+              const time = state.tick * 0.05;
               
               for(let i=0; i<=segments; i++) {
                   const px = h.x + i * segWidth;
@@ -768,20 +489,6 @@ const GameEngine: React.FC<GameEngineProps> = ({ planet, upgrades, onGameOver, o
                   else ctx.lineTo(px, py);
               }
               ctx.stroke();
-
-              // Bubbles
-              if (Math.random() < 0.1) {
-                  state.particles.push({ 
-                      id: `bub-${Math.random()}`, 
-                      pos: { x: h.x + Math.random() * h.width, y: gY + 150 }, 
-                      vel: { x: 0, y: -2 }, 
-                      life: 2.0, maxLife: 2.0, 
-                      color: h.type === 'lava' ? '#ffcc00' : '#ffffff', 
-                      size: Math.random() * 3 + 1,
-                      type: 'bubble' 
-                  });
-              }
-
           } else if (h.type === 'spikes') { 
               ctx.fillStyle = '#555'; 
               const spikesCount = Math.floor(h.width / 15); 
@@ -803,15 +510,9 @@ const GameEngine: React.FC<GameEngineProps> = ({ planet, upgrades, onGameOver, o
               ctx.fillStyle = '#ffffff'; 
               ctx.globalAlpha = 0.4; 
               ctx.fillRect(h.x, gY - 2, h.width, 5); 
-              ctx.globalAlpha = 0.8;
-              // Glint
-              if (state.frameCount % 60 === 0) {
-                  const gx = h.x + Math.random() * h.width;
-                  state.particles.push({ id: `glint-${Math.random()}`, pos: {x: gx, y: gY}, vel: {x:0, y:0}, life: 0.5, maxLife: 0.5, color: '#fff', size: 2 });
-              }
               ctx.globalAlpha = 1; 
           } else if (h.type === 'geyser') {
-              const isErupting = (state.frameCount + h.x) % 300 < 100;
+              const isErupting = isGeyserErupting(state, h);
               ctx.fillStyle = '#444';
               // Vent hole
               ctx.beginPath(); ctx.ellipse(h.x + h.width/2, gY, h.width/2, 5, 0, 0, Math.PI*2); ctx.fill();
@@ -824,32 +525,6 @@ const GameEngine: React.FC<GameEngineProps> = ({ planet, upgrades, onGameOver, o
                   grad.addColorStop(1, 'rgba(255,255,255,0)');
                   ctx.fillStyle = grad;
                   ctx.fillRect(h.x, gY - steamH, h.width, steamH);
-                  
-                  // Steam particles
-                  for(let i=0; i<3; i++) {
-                      const px = h.x + Math.random() * h.width;
-                      const py = gY;
-                      state.particles.push({
-                          id: `stm-${Math.random()}`,
-                          pos: {x: px, y: py},
-                          vel: {x: (Math.random()-0.5), y: -5 - Math.random()*5},
-                          life: 0.5, maxLife: 0.5,
-                          color: '#fff', size: Math.random()*4+2,
-                          type: 'weather'
-                      });
-                  }
-              } else {
-                  // Small idle puff
-                  if (Math.random() < 0.1) {
-                      state.particles.push({
-                          id: `stm-${Math.random()}`,
-                          pos: {x: h.x + h.width/2, y: gY},
-                          vel: {x: (Math.random()-0.5), y: -2},
-                          life: 0.8, maxLife: 0.8,
-                          color: '#aaa', size: 2,
-                          type: 'weather'
-                      });
-                  }
               }
           } else if (h.type === 'electric') {
               // Base plates
@@ -858,7 +533,7 @@ const GameEngine: React.FC<GameEngineProps> = ({ planet, upgrades, onGameOver, o
               ctx.fillRect(h.x + h.width - 10, gY-5, 10, 5);
               
               // Arc
-              if (state.frameCount % 5 === 0) {
+              if (state.tick % 5 === 0) {
                   ctx.strokeStyle = '#00ffff';
                   ctx.shadowColor = '#00ffff'; ctx.shadowBlur = 10;
                   ctx.lineWidth = 2;
@@ -874,24 +549,71 @@ const GameEngine: React.FC<GameEngineProps> = ({ planet, upgrades, onGameOver, o
       });
   };
 
+  // Debug counter: live objects against the preset's cap, plus spares waiting in each pool
+  const drawPoolStats = (ctx: CanvasRenderingContext2D) => {
+      const state = worldRef.current!; const { pools } = state;
+      const rows: [StringKey, ReturnType<typeof getPoolStats>][] = [
+        ['debug.particles', getPoolStats(pools.particles, state.particles)], ['debug.weather', getPoolStats(pools.weatherParticles, state.weatherParticles)],
+        ['debug.texts', getPoolStats(pools.texts, state.texts)], ['debug.projectiles', getPoolStats(pools.projectiles, state.projectiles)],
+      ];
+      ctx.save(); ctx.font = '8px "Press Start 2P"'; ctx.textAlign = 'left';
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.6)'; ctx.fillRect(8, state.logicalHeight - 16 - rows.length * 14, 260, rows.length * 14 + 8);
+      rows.forEach(([name, stats], i) => {
+        ctx.fillStyle = stats.live >= stats.cap ? '#ff8800' : '#00ff88';
+        ctx.fillText(t('debug.poolRow', { name: { key: name }, live: stats.live, cap: Number.isFinite(stats.cap) ? stats.cap : '∞', free: stats.free }), 14, state.logicalHeight - rows.length * 14 + i * 14 - 2);
+      });
+      ctx.restore();
+  };
+
   const drawRadar = (ctx: CanvasRenderingContext2D) => {
-      if (gameState.current.introTimer > 0) return;
-      const radarSize = 50; const radarX = gameState.current.logicalWidth - 60; const radarY = 60; const range = 1500; const scale = radarSize / range;
+      const state = worldRef.current!;
+      if (state.introTimer > 0) return;
+      const radarSize = 50; const radarX = state.logicalWidth - 60; const radarY = 60; const range = 1500; const scale = radarSize / range;
       ctx.save(); ctx.translate(radarX, radarY);
       ctx.fillStyle = 'rgba(0, 20, 0, 0.7)'; ctx.beginPath(); ctx.arc(0, 0, radarSize, 0, Math.PI*2); ctx.fill();
       ctx.strokeStyle = 'rgba(0, 255, 0, 0.3)'; ctx.lineWidth = 1; ctx.beginPath(); ctx.arc(0, 0, radarSize * 0.33, 0, Math.PI*2); ctx.stroke(); ctx.beginPath(); ctx.arc(0, 0, radarSize * 0.66, 0, Math.PI*2); ctx.stroke();
       ctx.strokeStyle = 'rgba(0, 255, 0, 0.8)'; ctx.beginPath(); ctx.arc(0, 0, radarSize, 0, Math.PI*2); ctx.stroke();
-      const angle = (gameState.current.frameCount * 0.05) % (Math.PI*2); ctx.beginPath(); ctx.moveTo(0,0); ctx.arc(0, 0, radarSize, angle, angle + 0.5); ctx.lineTo(0,0); ctx.fillStyle = 'rgba(0, 255, 0, 0.1)'; ctx.fill();
-      const playerX = gameState.current.player.pos.x; const playerY = gameState.current.player.pos.y;
-      ctx.fillStyle = '#ff3333'; gameState.current.enemies.forEach(e => { const dx = (e.pos.x - playerX) * scale; const dy = (e.pos.y - playerY) * scale; if (Math.hypot(dx, dy) < radarSize) { ctx.fillRect(dx-1, dy-1, 3, 3); } });
-      ctx.fillStyle = '#ffff00'; gameState.current.loot.forEach(l => { const dx = (l.pos.x - playerX) * scale; const dy = (l.pos.y - playerY) * scale; if (Math.hypot(dx, dy) < radarSize) { ctx.fillRect(dx-1, dy-1, 2, 2); } });
+      const angle = (state.tick * 0.05) % (Math.PI*2); ctx.beginPath(); ctx.moveTo(0,0); ctx.arc(0, 0, radarSize, angle, angle + 0.5); ctx.lineTo(0,0); ctx.fillStyle = 'rgba(0, 255, 0, 0.1)'; ctx.fill();
+      const playerX = state.player.pos.x; const playerY = state.player.pos.y;
+      ctx.fillStyle = '#ff3333'; state.enemies.forEach(e => { const dx = (e.pos.x - playerX) * scale; const dy = (e.pos.y - playerY) * scale; if (Math.hypot(dx, dy) < radarSize) { ctx.fillRect(dx-1, dy-1, 3, 3); } });
+      ctx.fillStyle = '#ffff00'; state.loot.forEach(l => { const dx = (l.pos.x - playerX) * scale; const dy = (l.pos.y - playerY) * scale; if (Math.hypot(dx, dy) < radarSize) { ctx.fillRect(dx-1, dy-1, 2, 2); } });
       ctx.fillStyle = '#ffffff'; ctx.fillRect(-1, -1, 3, 3); ctx.restore();
   };
 
+  const drawPlatforms = (ctx: CanvasRenderingContext2D) => {
+    const state = worldRef.current!;
+    state.platforms.forEach(p => {
+      if (p.pos.x + p.size.x < state.camera.x - 50 || p.pos.x > state.camera.x + state.logicalWidth + 50) return;
+      if (p.platformKind === 'solid') {
+        // Rock: the ground texture, shaded, with a lit top edge
+        ctx.fillStyle = patternRef.current || p.color; ctx.fillRect(p.pos.x, p.pos.y, p.size.x, p.size.y);
+        ctx.fillStyle = 'rgba(0,0,0,0.35)'; ctx.fillRect(p.pos.x, p.pos.y, p.size.x, p.size.y);
+        ctx.fillStyle = 'rgba(255,255,255,0.25)'; ctx.fillRect(p.pos.x, p.pos.y, p.size.x, 4);
+        ctx.fillStyle = 'rgba(0,0,0,0.4)'; ctx.fillRect(p.pos.x, p.pos.y + p.size.y - 6, p.size.x, 6);
+        return;
+      }
+      // One-way slab: tapered underside so it reads as a ledge you can jump through
+      ctx.beginPath(); ctx.moveTo(p.pos.x, p.pos.y); ctx.lineTo(p.pos.x + p.size.x, p.pos.y); ctx.lineTo(p.pos.x + p.size.x - 10, p.pos.y + p.size.y); ctx.lineTo(p.pos.x + 10, p.pos.y + p.size.y); ctx.closePath();
+      ctx.fillStyle = p.color; ctx.fill(); ctx.fillStyle = 'rgba(0,0,0,0.45)'; ctx.fill();
+      ctx.fillStyle = p.color; ctx.fillRect(p.pos.x, p.pos.y, p.size.x, 4);
+      if (p.path) { // Thrusters on movers
+        const flicker = 4 + Math.sin((state.tick + p.animOffset) * 0.6) * 2;
+        ctx.fillStyle = '#ffaa00'; ctx.fillRect(p.pos.x + 14, p.pos.y + p.size.y, 6, flicker); ctx.fillRect(p.pos.x + p.size.x - 20, p.pos.y + p.size.y, 6, flicker);
+      }
+    });
+  };
+
   const drawLoot = (ctx: CanvasRenderingContext2D, l: Entity) => {
+    const state = worldRef.current!;
+    if (l.buried) {
+        // Only a faint pulse on the surface gives a cache away
+        const cx = l.pos.x + l.size.x/2; const pulse = (Math.sin(state.tick * 0.05 + (l.animOffset || 0)) + 1) / 2;
+        ctx.save(); ctx.globalAlpha = 0.15 + pulse * 0.3; ctx.fillStyle = l.color; ctx.fillRect(cx - 1, getGroundHeightAt(state.terrain, cx) - 4 - pulse * 4, 2, 2); ctx.restore();
+        return;
+    }
     ctx.save();
     ctx.translate(l.pos.x + l.size.x/2, l.pos.y + l.size.y/2);
-    const float = Math.sin(gameState.current.frameCount * 0.1 + (l.animOffset || 0)) * 5;
+    const float = Math.sin(state.tick * 0.1 + (l.animOffset || 0)) * 5;
     ctx.translate(0, float);
     
     if (l.lootType === 'core') {
@@ -920,42 +642,64 @@ const GameEngine: React.FC<GameEngineProps> = ({ planet, upgrades, onGameOver, o
         ctx.fillRect(-l.size.x/2, -l.size.y/2, l.size.x, l.size.y);
         ctx.fillStyle = '#fff';
         ctx.fillRect(-2, -5, 4, 10); ctx.fillRect(-5, -2, 10, 4);
+    } else if (l.lootType === 'ammo') {
+        // Ammo crate with three rounds
+        ctx.shadowColor = l.color; ctx.shadowBlur = 8;
+        ctx.fillStyle = '#554400'; ctx.fillRect(-l.size.x/2, -l.size.y/2, l.size.x, l.size.y);
+        ctx.strokeStyle = l.color; ctx.lineWidth = 2; ctx.strokeRect(-l.size.x/2, -l.size.y/2, l.size.x, l.size.y);
+        ctx.fillStyle = l.color; [-4, 0, 4].forEach(x => ctx.fillRect(x - 1, -3, 2, 6));
+    } else if (l.lootType === 'mod') {
+        // Circuit chip with pins
+        ctx.shadowColor = l.color; ctx.shadowBlur = 10; ctx.rotate(Math.PI / 4);
+        ctx.fillStyle = '#222'; ctx.fillRect(-l.size.x/2, -l.size.y/2, l.size.x, l.size.y);
+        ctx.strokeStyle = l.color; ctx.lineWidth = 2; ctx.strokeRect(-l.size.x/2, -l.size.y/2, l.size.x, l.size.y);
+        ctx.fillStyle = l.color; ctx.fillRect(-3, -3, 6, 6);
     }
     
     ctx.restore();
   };
 
   const drawPlayer = (ctx: CanvasRenderingContext2D, p: Entity) => {
-    if (gameState.current.introTimer > 0) { ctx.save(); ctx.translate(p.pos.x + p.size.x/2, p.pos.y + p.size.y/2); if (gameState.current.introTimer > 60) { ctx.fillStyle = '#ffaa00'; ctx.fillRect(-10, 20, 4, 30 + Math.random()*20); ctx.fillRect(6, 20, 4, 30 + Math.random()*20); } ctx.fillStyle = '#444'; ctx.fillRect(-16, -24, 32, 48); ctx.fillStyle = '#666'; ctx.fillRect(-12, -20, 24, 40); ctx.fillStyle = '#00ffff'; ctx.fillRect(-8, -10, 16, 16); ctx.strokeStyle = '#fff'; ctx.lineWidth = 2; ctx.strokeRect(-16, -24, 32, 48); ctx.restore(); return; }
-    if (p.hitTimer > 0) { if (Math.floor(p.hitTimer / 5) % 2 === 0) { ctx.fillStyle = '#ffffff'; ctx.fillRect(p.pos.x, p.pos.y, p.size.x, p.size.y); return; } }
-    const { x, y } = p.pos; const w = p.size.x; const h = p.size.y; const bob = Math.abs(p.vel.x) > 0.1 ? Math.sin(gameState.current.frameCount * 0.2) * 2 : 0;
+    const state = worldRef.current!;
+    if (state.introTimer > 0) { ctx.save(); ctx.translate(p.pos.x + p.size.x/2, p.pos.y + p.size.y/2); if (state.introTimer > 60) { ctx.fillStyle = '#ffaa00'; ctx.fillRect(-10, 20, 4, 30 + Math.random()*20); ctx.fillRect(6, 20, 4, 30 + Math.random()*20); } ctx.fillStyle = '#444'; ctx.fillRect(-16, -24, 32, 48); ctx.fillStyle = '#666'; ctx.fillRect(-12, -20, 24, 40); ctx.fillStyle = '#00ffff'; ctx.fillRect(-8, -10, 16, 16); ctx.strokeStyle = '#fff'; ctx.lineWidth = 2; ctx.strokeRect(-16, -24, 32, 48); ctx.restore(); return; }
+    if (p.hitTimer > 0 && !settingsRef.current.accessibility.reduceFlashing) { if (Math.floor(p.hitTimer / 5) % 2 === 0) { ctx.fillStyle = '#ffffff'; ctx.fillRect(p.pos.x, p.pos.y, p.size.x, p.size.y); return; } }
+    const { x, y } = p.pos; const w = p.size.x; const h = p.size.y; const bob = Math.abs(p.vel.x) > 0.1 ? Math.sin(state.tick * 0.2) * 2 : 0;
     let mainColor = '#e0e0e0'; let accentColor = '#999'; if (upgrades.hull === 2) { mainColor = '#0099ff'; accentColor = '#0055aa'; } if (upgrades.hull === 3) { mainColor = '#ffcc00'; accentColor = '#cc8800'; } if (upgrades.hull >= 4) { mainColor = '#333'; accentColor = '#aa0000'; } 
-    ctx.fillStyle = '#333'; const packX = p.facingRight ? x - 6 : x + w; ctx.fillRect(packX, y + 8 + bob, 6, 14); ctx.fillStyle = accentColor; const backX = p.facingRight ? x - 4 : x + w - 4; ctx.fillRect(backX, y + 6 + bob, 8, 16); ctx.fillStyle = mainColor; ctx.fillRect(x + 4, y + 8 + bob, w - 8, h - 8); ctx.fillStyle = accentColor; const legOffset = Math.sin(gameState.current.frameCount * 0.4) * 4; if (Math.abs(p.vel.x) > 0.1) { ctx.fillRect(x + 6 + legOffset, y + h - 6, 6, 6); ctx.fillRect(x + w - 12 - legOffset, y + h - 6, 6, 6); } else { ctx.fillRect(x + 6, y + h - 6, 6, 6); ctx.fillRect(x + w - 12, y + h - 6, 6, 6); } ctx.fillStyle = upgrades.weapon > 2 ? '#ff3333' : '#33ccff'; const visorX = p.facingRight ? x + 10 : x + 2; ctx.fillRect(visorX, y + 2 + bob, 20, 14); ctx.strokeStyle = '#ffffff'; ctx.lineWidth = 2; ctx.strokeRect(x + 4, y + 2 + bob, w - 8, 14);
-    ctx.save(); const pivotX = x + w/2; const pivotY = y + 16 + bob; ctx.translate(pivotX, pivotY); ctx.rotate(gameState.current.aimAngle);
-    let kickBack = 0; const maxCool = WEAPONS[gameState.current.currentWeapon].fireRate || 20; if (gameState.current.weaponCooldown > maxCool - 5) { kickBack = -6; }
-    ctx.save(); ctx.setLineDash([4, 4]); ctx.strokeStyle = WEAPONS[gameState.current.currentWeapon].color; ctx.globalAlpha = 0.3; ctx.lineWidth = 1; ctx.beginPath(); ctx.moveTo(10 + kickBack, -2); ctx.lineTo(400, -2); ctx.stroke(); ctx.restore();
+    ctx.fillStyle = '#333'; const packX = p.facingRight ? x - 6 : x + w; ctx.fillRect(packX, y + 8 + bob, 6, 14); ctx.fillStyle = accentColor; const backX = p.facingRight ? x - 4 : x + w - 4; ctx.fillRect(backX, y + 6 + bob, 8, 16); ctx.fillStyle = mainColor; ctx.fillRect(x + 4, y + 8 + bob, w - 8, h - 8); ctx.fillStyle = accentColor; const legOffset = Math.sin(state.tick * 0.4) * 4; if (Math.abs(p.vel.x) > 0.1) { ctx.fillRect(x + 6 + legOffset, y + h - 6, 6, 6); ctx.fillRect(x + w - 12 - legOffset, y + h - 6, 6, 6); } else { ctx.fillRect(x + 6, y + h - 6, 6, 6); ctx.fillRect(x + w - 12, y + h - 6, 6, 6); } ctx.fillStyle = upgrades.weapon > 2 ? '#ff3333' : '#33ccff'; const visorX = p.facingRight ? x + 10 : x + 2; ctx.fillRect(visorX, y + 2 + bob, 20, 14); ctx.strokeStyle = '#ffffff'; ctx.lineWidth = 2; ctx.strokeRect(x + 4, y + 2 + bob, w - 8, 14);
+    ctx.save(); const pivotX = x + w/2; const pivotY = y + 16 + bob; ctx.translate(pivotX, pivotY); ctx.rotate(state.aimAngle);
+    let kickBack = 0; const maxCool = state.weapons[state.currentWeapon].fireRate || 20; if (state.weaponCooldown > maxCool - 5) { kickBack = -6; }
+    ctx.save(); ctx.setLineDash([4, 4]); ctx.strokeStyle = WEAPONS[state.currentWeapon].color; ctx.globalAlpha = 0.3; ctx.lineWidth = 1; ctx.beginPath(); ctx.moveTo(10 + kickBack, -2); ctx.lineTo(400, -2); ctx.stroke(); ctx.restore();
     ctx.translate(kickBack, 0); 
-    if (gameState.current.currentWeapon === 'blaster') { ctx.fillStyle = '#999'; ctx.fillRect(0, -3, 10, 6); ctx.fillStyle = '#222'; ctx.fillRect(10, -4, 15, 8); } else if (gameState.current.currentWeapon === 'scatter') { ctx.fillStyle = '#553311'; ctx.fillRect(0, -4, 8, 8); ctx.fillStyle = '#222'; ctx.fillRect(8, -5, 12, 10); ctx.fillStyle = '#000'; ctx.fillRect(20, -6, 4, 12); } else if (gameState.current.currentWeapon === 'sniper') { ctx.fillStyle = '#222'; ctx.fillRect(0, -2, 30, 4); ctx.fillStyle = '#444'; ctx.fillRect(5, -4, 10, 2); } else if (gameState.current.currentWeapon === 'rapid') { ctx.fillStyle = '#444'; ctx.fillRect(0, -4, 15, 8); ctx.fillStyle = '#222'; ctx.fillRect(15, -2, 10, 4); } else if (gameState.current.currentWeapon === 'launcher') { ctx.fillStyle = '#224422'; ctx.fillRect(0, -5, 12, 10); ctx.fillStyle = '#000'; ctx.fillRect(12, -6, 8, 12); }
+    if (state.currentWeapon === 'blaster') { ctx.fillStyle = '#999'; ctx.fillRect(0, -3, 10, 6); ctx.fillStyle = '#222'; ctx.fillRect(10, -4, 15, 8); } else if (state.currentWeapon === 'scatter') { ctx.fillStyle = '#553311'; ctx.fillRect(0, -4, 8, 8); ctx.fillStyle = '#222'; ctx.fillRect(8, -5, 12, 10); ctx.fillStyle = '#000'; ctx.fillRect(20, -6, 4, 12); } else if (state.currentWeapon === 'sniper') { ctx.fillStyle = '#222'; ctx.fillRect(0, -2, 30, 4); ctx.fillStyle = '#444'; ctx.fillRect(5, -4, 10, 2); } else if (state.currentWeapon === 'rapid') { ctx.fillStyle = '#444'; ctx.fillRect(0, -4, 15, 8); ctx.fillStyle = '#222'; ctx.fillRect(15, -2, 10, 4); } else if (state.currentWeapon === 'launcher') { ctx.fillStyle = '#224422'; ctx.fillRect(0, -5, 12, 10); ctx.fillStyle = '#000'; ctx.fillRect(12, -6, 8, 12); }
     ctx.restore();
-    let targetEntity: Entity | null = null; const boss = gameState.current.enemies.find(e => e.archetype === 'guardian'); if (boss) { targetEntity = boss; } else { let minCoreDist = Infinity; gameState.current.loot.forEach(l => { if (l.lootType === 'core') { const d = Math.hypot(l.pos.x - p.pos.x, l.pos.y - p.pos.y); if (d < minCoreDist) { minCoreDist = d; targetEntity = l; } } }); }
-    if (targetEntity) { const d = Math.hypot(targetEntity.pos.x - p.pos.x, targetEntity.pos.y - p.pos.y); if (boss || d > 300) { const angle = Math.atan2((targetEntity.pos.y - p.pos.y), (targetEntity.pos.x - p.pos.x)); const radius = 60; const ax = p.pos.x + p.size.x/2 + Math.cos(angle) * radius; const ay = p.pos.y + p.size.y/2 + Math.sin(angle) * radius; ctx.save(); ctx.translate(ax, ay); ctx.rotate(angle); ctx.fillStyle = boss ? '#ff0000' : '#00ffff'; ctx.shadowColor = boss ? '#ff0000' : '#00ffff'; ctx.shadowBlur = 10; ctx.globalAlpha = 0.6 + Math.sin(gameState.current.frameCount * 0.2) * 0.4; ctx.beginPath(); ctx.moveTo(10, 0); ctx.lineTo(-10, -8); ctx.lineTo(-10, 8); ctx.fill(); ctx.restore(); } }
+    let targetEntity: Entity | null = null; const boss = state.enemies.find(e => e.archetype === 'guardian'); if (boss) { targetEntity = boss; } else { let minCoreDist = Infinity; state.loot.forEach(l => { if (l.lootType === 'core') { const d = Math.hypot(l.pos.x - p.pos.x, l.pos.y - p.pos.y); if (d < minCoreDist) { minCoreDist = d; targetEntity = l; } } }); }
+    if (targetEntity) { const d = Math.hypot(targetEntity.pos.x - p.pos.x, targetEntity.pos.y - p.pos.y); if (boss || d > 300) { const angle = Math.atan2((targetEntity.pos.y - p.pos.y), (targetEntity.pos.x - p.pos.x)); const radius = 60; const ax = p.pos.x + p.size.x/2 + Math.cos(angle) * radius; const ay = p.pos.y + p.size.y/2 + Math.sin(angle) * radius; ctx.save(); ctx.translate(ax, ay); ctx.rotate(angle); ctx.fillStyle = boss ? '#ff0000' : '#00ffff'; ctx.shadowColor = boss ? '#ff0000' : '#00ffff'; ctx.shadowBlur = 10; ctx.globalAlpha = 0.6 + Math.sin(state.tick * 0.2) * 0.4; ctx.beginPath(); ctx.moveTo(10, 0); ctx.lineTo(-10, -8); ctx.lineTo(-10, 8); ctx.fill(); ctx.restore(); } }
   };
 
   const drawEnemy = (ctx: CanvasRenderingContext2D, e: Entity) => {
-    if (e.hitTimer > 0) { if (Math.floor(e.hitTimer / 5) % 2 === 0) { ctx.save(); ctx.fillStyle = '#ffffff'; ctx.fillRect(e.pos.x, e.pos.y, e.size.x, e.size.y); ctx.restore(); return; } }
+    const state = worldRef.current!;
+    if (e.hitTimer > 0 && !settingsRef.current.accessibility.reduceFlashing) { if (Math.floor(e.hitTimer / 5) % 2 === 0) { ctx.save(); ctx.fillStyle = '#ffffff'; ctx.fillRect(e.pos.x, e.pos.y, e.size.x, e.size.y); ctx.restore(); return; } }
     const { x, y } = e.pos; const w = e.size.x; const h = e.size.y; ctx.fillStyle = e.color; 
     if (e.rarity === 'elite') { ctx.shadowColor = '#ffd700'; ctx.shadowBlur = 10; ctx.strokeStyle = '#ffd700'; } else { ctx.strokeStyle = '#000'; ctx.shadowBlur = 0; } ctx.lineWidth = 2;
-    if (e.archetype === 'neutral') { const hop = Math.abs(e.vel.y) > 0 ? -5 : 0; ctx.beginPath(); ctx.ellipse(x + w/2, y + h/2 + hop, w/2, h/2, 0, 0, Math.PI * 2); ctx.fill(); ctx.fillStyle = '#fff'; ctx.beginPath(); ctx.arc(x + w/2 + (e.vel.x > 0 ? 4 : -4), y + 6 + hop, 2, 0, Math.PI * 2); ctx.fill(); ctx.beginPath(); ctx.moveTo(x + w/2, y + hop); ctx.lineTo(x + w/2, y - 5 + hop); ctx.stroke(); }
-    else if (e.archetype === 'crawler') { const segs = 3; const segW = w / segs; for(let i=0; i<segs; i++) { const bob = Math.sin(gameState.current.frameCount * 0.5 + i + e.animOffset) * 2; ctx.beginPath(); ctx.arc(x + segW/2 + (i*segW), y + h/2 + bob, segW/2, 0, Math.PI*2); ctx.fill(); ctx.stroke(); ctx.beginPath(); const legAngle = Math.sin(gameState.current.frameCount * 0.8 + i) * 0.5; ctx.moveTo(x + segW/2 + (i*segW), y + h/2 + bob); ctx.lineTo(x + segW/2 + (i*segW) + Math.sin(legAngle)*10, y + h); ctx.stroke(); } } 
-    else if (e.archetype === 'hornet') { const wingFlap = Math.sin(gameState.current.frameCount * 0.8) * 10; ctx.fillStyle = 'rgba(255,255,255,0.6)'; ctx.beginPath(); ctx.ellipse(x + w/2, y + 5, 12, 4, Math.PI/4 + wingFlap*0.1, 0, Math.PI*2); ctx.fill(); ctx.beginPath(); ctx.ellipse(x + w/2, y + 5, 12, 4, -Math.PI/4 - wingFlap*0.1, 0, Math.PI*2); ctx.fill(); ctx.fillStyle = e.color; ctx.beginPath(); ctx.moveTo(x, y); ctx.lineTo(x + w, y); ctx.lineTo(x + w/2, y + h); ctx.fill(); ctx.fillStyle = '#ff0000'; ctx.fillRect(x + w/2 - 2, y + 8, 4, 4); }
-    else if (e.archetype === 'sentinel') { const float = Math.sin(gameState.current.frameCount * 0.1) * 3; ctx.fillStyle = e.color; ctx.fillRect(x + 8, y + float, w - 16, h - 10); ctx.fillStyle = '#222'; ctx.fillRect(x + 4, y + float - 5, w - 8, 10); ctx.fillStyle = (e.attackTimer && e.attackTimer < 30 && e.attackTimer % 4 < 2) ? '#fff' : '#00ff00'; ctx.fillRect(x + 10, y + float - 2, w - 20, 4); const pPos = gameState.current.player.pos; const angle = Math.atan2((pPos.y+16) - (y+float), (pPos.x+16) - x); ctx.save(); ctx.translate(x + w/2, y + float + h/2); ctx.rotate(angle); ctx.fillStyle = '#555'; ctx.fillRect(0, -2, 20, 4); ctx.restore(); }
-    else if (e.archetype === 'dasher') { const chargeShake = e.aiState === 'charge' ? (Math.random() * 4 - 2) : 0; ctx.beginPath(); ctx.arc(x + w/2 + chargeShake, y + h/2, w/2, Math.PI, 0); ctx.lineTo(x + w + chargeShake, y + h); ctx.lineTo(x + chargeShake, y + h); ctx.fill(); ctx.stroke(); ctx.fillStyle = '#dddddd'; ctx.beginPath(); if (e.facingRight) { ctx.moveTo(x + w - 5 + chargeShake, y + h/2); ctx.lineTo(x + w + 10 + chargeShake, y + h/2 - 5); ctx.lineTo(x + w - 5 + chargeShake, y + h/2 + 5); } else { ctx.moveTo(x + 5 + chargeShake, y + h/2); ctx.lineTo(x - 10 + chargeShake, y + h/2 - 5); ctx.lineTo(x + 5 + chargeShake, y + h/2 + 5); } ctx.fill(); ctx.fillStyle = e.aiState === 'charge' ? '#ff0000' : '#ffff00'; const eyeX = e.facingRight ? x + w - 15 : x + 10; ctx.fillRect(eyeX + chargeShake, y + h/2 + 5, 5, 5); }
-    else if (e.archetype === 'guardian') { const pulse = Math.sin(gameState.current.frameCount * 0.1) * 2; ctx.shadowBlur = 20; ctx.shadowColor = e.color; ctx.fillStyle = '#220000'; ctx.beginPath(); ctx.arc(x + w/2, y + h/2 + pulse, w/2, 0, Math.PI * 2); ctx.fill(); ctx.lineWidth = 4; ctx.stroke(); ctx.fillStyle = (e.attackTimer && e.attackTimer < 30) ? '#ffffff' : '#ff0000'; ctx.beginPath(); ctx.arc(x + w/2, y + h/2 + pulse, w/4, 0, Math.PI * 2); ctx.fill(); const orbitSpeed = gameState.current.frameCount * 0.05; for(let i=0; i<4; i++) { const ox = x + w/2 + Math.cos(orbitSpeed + i*Math.PI/2) * (w * 0.8); const oy = y + h/2 + pulse + Math.sin(orbitSpeed + i*Math.PI/2) * (h * 0.8); ctx.fillStyle = e.color; ctx.beginPath(); ctx.arc(ox, oy, 10, 0, Math.PI*2); ctx.fill(); } }
-    else if (e.archetype === 'shielder') { ctx.fillStyle = '#444'; ctx.fillRect(-w/2 + x + w/2, -h/2 + y + h/2, w, h); if (e.aiState === 'chase') { ctx.fillStyle = e.color; ctx.fillRect(x+2, y-5, w - 14, 10); ctx.strokeStyle = '#00ffff'; ctx.lineWidth = 3; ctx.shadowColor = '#00ffff'; ctx.shadowBlur = 10; ctx.beginPath(); ctx.moveTo(x + w/2 + 5, y - 5); ctx.quadraticCurveTo(x + w/2 + 15, y + h/2, x + w/2 + 5, y + h + 5); ctx.stroke(); ctx.shadowBlur = 0; } else { ctx.fillStyle = '#552222'; ctx.fillRect(x+2, y-5, w - 14, 10); if (Math.random() > 0.5) { ctx.fillStyle = '#888'; ctx.fillRect(x + 10 + (Math.random()*10-5), y, 2, -5); } } } 
-    else if (e.archetype === 'sandworm') { if (!e.isBurrowed) { ctx.fillRect(x+10, y, 40, 90); ctx.fillStyle = '#000'; ctx.beginPath(); ctx.arc(x+30, y+20, 15, 0, Math.PI*2); ctx.fill(); } else { ctx.fillStyle = 'rgba(0,0,0,0.2)'; ctx.beginPath(); ctx.ellipse(x+30, y+40, 20, 5, 0, 0, Math.PI*2); ctx.fill(); } }
-    else { ctx.fillRect(x, y, w, h); }
+    getArchetype(e.archetype).render(ctx, e, state);
     if (e.shieldHp && e.shieldHp > 0) { ctx.strokeStyle = '#00ffff'; ctx.lineWidth = 2; ctx.beginPath(); ctx.arc(x+w/2, y+h/2, w, 0, Math.PI*2); ctx.stroke(); }
-    ctx.shadowBlur = 0; if (e.aiState === 'alert') { ctx.fillStyle = '#ff0000'; ctx.font = '24px "Press Start 2P"'; ctx.textAlign = 'center'; const alertBob = Math.sin(gameState.current.frameCount * 0.5) * 2; ctx.fillText('!', x + w/2, y - 10 + alertBob); }
+    ctx.shadowBlur = 0; if (e.aiState === 'alert') { ctx.fillStyle = '#ff0000'; ctx.font = '24px "Press Start 2P"'; ctx.textAlign = 'center'; const alertBob = Math.sin(state.tick * 0.5) * 2; ctx.fillText('!', x + w/2, y - 10 + alertBob); }
+  };
+
+  // Status overlays shared by the player and enemies: flames, drips, sparks, frost and a drag ring
+  const drawStatusEffects = (ctx: CanvasRenderingContext2D, e: Entity) => {
+    if (!e.statusEffects || e.statusEffects.length === 0) return;
+    const tick = worldRef.current!.tick; const still = settingsRef.current.accessibility.reduceFlashing; const { x, y } = e.pos; const w = e.size.x; const h = e.size.y;
+    ctx.save();
+    e.statusEffects.forEach(effect => {
+      const color = STATUS_EFFECTS[effect.id].color; ctx.fillStyle = color; ctx.strokeStyle = color;
+      if (effect.id === 'burning') { ctx.globalAlpha = 0.8; for (let i = 0; i < 2 + effect.stacks; i++) { const fx = x + ((i * 11 + tick * 0.5) % w); const flicker = Math.sin(tick * 0.4 + i) * 3; ctx.beginPath(); ctx.moveTo(fx - 3, y + 4); ctx.lineTo(fx, y - 6 + flicker); ctx.lineTo(fx + 3, y + 4); ctx.fill(); } }
+      else if (effect.id === 'corroded') { ctx.globalAlpha = 0.7; for (let i = 0; i < effect.stacks; i++) { const dx = x + (w / (effect.stacks + 1)) * (i + 1); const drip = (tick * 0.5 + i * 9) % 12; ctx.fillRect(dx - 1, y + h * 0.3 + drip, 2, 4); } }
+      else if (effect.id === 'shocked') { ctx.globalAlpha = 0.9; ctx.lineWidth = 2; ctx.beginPath(); for (let i = 0; i <= 4; i++) { const zig = ((i + (still ? 0 : Math.floor(tick / 3))) % 2 === 0 ? -1 : 1) * h / 3; if (i === 0) ctx.moveTo(x, y + h / 2 + zig); else ctx.lineTo(x + (w / 4) * i, y + h / 2 + zig); } ctx.stroke(); }
+      else if (effect.id === 'frozen') { ctx.globalAlpha = 0.4; ctx.fillRect(x, y, w, h); ctx.globalAlpha = 1; ctx.lineWidth = 2; ctx.strokeRect(x, y, w, h); }
+      else if (effect.id === 'slowed') { ctx.globalAlpha = 0.5; ctx.lineWidth = 1; ctx.beginPath(); ctx.ellipse(x + w / 2, y + h, w / 2 + 4, 4, 0, 0, Math.PI * 2); ctx.stroke(); }
+    });
+    ctx.restore();
   };
 
   const draw = () => {
@@ -963,7 +707,7 @@ const GameEngine: React.FC<GameEngineProps> = ({ planet, upgrades, onGameOver, o
     if (!canvas) return;
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
-    const state = gameState.current;
+    const state = worldRef.current!;
 
     // Clear
     ctx.fillStyle = planet.atmosphereColor;
@@ -971,7 +715,7 @@ const GameEngine: React.FC<GameEngineProps> = ({ planet, upgrades, onGameOver, o
 
     // Apply scaling for resolution independence
     ctx.save();
-    ctx.scale(state.scaleRatio, state.scaleRatio);
+    ctx.scale(viewState.current.scaleRatio, viewState.current.scaleRatio);
 
     // 1. Sky Gradient / Background
     const grad = ctx.createLinearGradient(0, 0, 0, state.logicalHeight);
@@ -1028,8 +772,8 @@ const GameEngine: React.FC<GameEngineProps> = ({ planet, upgrades, onGameOver, o
     ctx.save();
     ctx.translate(-state.camera.x, -state.camera.y);
     // Apply screenshake
-    const shakeX = (Math.random() - 0.5) * state.camera.shake;
-    const shakeY = (Math.random() - 0.5) * state.camera.shake;
+    const shakeX = getShakeOffset(state);
+    const shakeY = getShakeOffset(state);
     ctx.translate(shakeX, shakeY);
 
     // 4. Background Parallax Layers
@@ -1063,18 +807,28 @@ const GameEngine: React.FC<GameEngineProps> = ({ planet, upgrades, onGameOver, o
     if (patternRef.current) ctx.fillStyle = patternRef.current;
     
     ctx.beginPath();
+    const { first, heights } = state.terrain; // Only the live chunks' segments
     const terrainStart = Math.floor(state.camera.x / 50);
     const terrainEnd = Math.floor((state.camera.x + state.logicalWidth) / 50) + 1;
     
     ctx.moveTo(terrainStart * 50, state.logicalHeight + 500);
-    for(let i=Math.max(0, terrainStart); i<=Math.min(state.terrain.length-1, terrainEnd); i++) {
+    for(let i=Math.max(first, terrainStart); i<=Math.min(first+heights.length-1, terrainEnd); i++) {
         const x = i * 50;
-        const h = state.terrain[i];
+        const h = heights[i - first];
         ctx.lineTo(x, h);
     }
-    ctx.lineTo(Math.min(state.terrain.length-1, terrainEnd) * 50, state.logicalHeight + 500);
+    ctx.lineTo(Math.min(first+heights.length-1, terrainEnd) * 50, state.logicalHeight + 500);
     ctx.fill();
 
+    // Crater scars: scorched soil along the carved surface
+    ctx.strokeStyle = 'rgba(0,0,0,0.35)'; ctx.lineWidth = 6;
+    state.craters.forEach(c => {
+        if (c.x + c.radius < state.camera.x || c.x - c.radius > state.camera.x + state.logicalWidth) return;
+        ctx.beginPath(); ctx.moveTo(c.x - c.radius, getGroundHeightAt(state.terrain, c.x - c.radius) + 3);
+        for (let x = c.x - c.radius + 10; x <= c.x + c.radius; x += 10) ctx.lineTo(x, getGroundHeightAt(state.terrain, x) + 3);
+        ctx.stroke();
+    });
+
     // Decorations
     ctx.fillStyle = 'rgba(0,0,0,0.3)';
     state.decorations.forEach(d => {
@@ -1086,11 +840,12 @@ const GameEngine: React.FC<GameEngineProps> = ({ planet, upgrades, onGameOver, o
 
     // 7. Vegetation
     drawVegetation(ctx);
+    drawPlatforms(ctx);
 
     // 8. Entities
     state.loot.forEach(l => drawLoot(ctx, l));
-    state.enemies.forEach(e => drawEnemy(ctx, e));
-    drawPlayer(ctx, state.player);
+    state.enemies.forEach(e => { drawEnemy(ctx, e); drawStatusEffects(ctx, e); });
+    drawPlayer(ctx, state.player); drawStatusEffects(ctx, state.player);
     
     state.projectiles.forEach(p => {
         ctx.fillStyle = p.color;
@@ -1099,6 +854,9 @@ const GameEngine: React.FC<GameEngineProps> = ({ planet, upgrades, onGameOver, o
              ctx.save(); ctx.translate(p.pos.x + p.size.x/2, p.pos.y + p.size.y/2); ctx.rotate(angle);
              ctx.fillRect(-p.size.x/2, -p.size.y/2, p.size.x, p.size.y);
              ctx.restore();
+        } else if (p.isShockwave) {
+             const { x, y } = p.pos; const w = p.size.x; const h = p.size.y; const flicker = Math.sin(state.tick * 0.8 + x * 0.1) * 3;
+             ctx.beginPath(); ctx.moveTo(x, y + h); ctx.lineTo(x + w * 0.25, y + h * 0.3 + flicker); ctx.lineTo(x + w * 0.5, y - flicker); ctx.lineTo(x + w * 0.75, y + h * 0.3 + flicker); ctx.lineTo(x + w, y + h); ctx.closePath(); ctx.fill();
         } else {
              ctx.beginPath(); ctx.arc(p.pos.x + p.size.x/2, p.pos.y + p.size.y/2, p.size.x/2, 0, Math.PI*2); ctx.fill();
         }
@@ -1124,18 +882,19 @@ const GameEngine: React.FC<GameEngineProps> = ({ planet, upgrades, onGameOver, o
     // 10. Weather
     drawWeather(ctx);
 
-    // 11. Lighting Overlay
-    drawLightingPass(ctx);
+    // 11. Lighting Overlay (skipped on the low preset)
+    if (QUALITY_PRESETS[settingsRef.current.graphics.quality].lighting) drawLightingPass(ctx);
 
     // 12. Floating Text
     ctx.font = '10px "Press Start 2P"';
     ctx.textAlign = 'center';
     state.texts.forEach(t => {
         ctx.fillStyle = 'black';
-        ctx.fillText(t.text, t.x + 2, t.y + 2);
+        const text = translate(t.text);
+        ctx.fillText(text, t.x + 2, t.y + 2);
         ctx.fillStyle = t.color;
         ctx.globalAlpha = Math.min(1, t.life * 2);
-        ctx.fillText(t.text, t.x, t.y);
+        ctx.fillText(text, t.x, t.y);
         ctx.globalAlpha = 1;
     });
     
@@ -1149,13 +908,14 @@ const GameEngine: React.FC<GameEngineProps> = ({ planet, upgrades, onGameOver, o
 
     drawDayNightCycle(ctx);
     drawRadar(ctx);
+    if (settingsRef.current.graphics.showPoolStats) drawPoolStats(ctx);
 
     ctx.restore(); // Undo scaling
   };
 
-  const handleTouchStart = (e: React.TouchEvent, type: 'left' | 'right' | 'jump') => {
+  const handleTouchStart = (e: React.TouchEvent, type: 'left' | 'right' | 'jump' | 'swap') => {
       const touch = e.changedTouches[0];
-      const state = gameState.current;
+      const state = viewState.current;
       if (type === 'left') {
           state.touchInput.left = { active: true, touchId: touch.identifier, vectorX: 0, vectorY: 0, originX: touch.clientX, originY: touch.clientY };
           setVisualTouchState(prev => ({ ...prev, leftJoystick: { active: true, originX: touch.clientX, originY: touch.clientY, currX: touch.clientX, currY: touch.clientY } }));
@@ -1165,11 +925,14 @@ const GameEngine: React.FC<GameEngineProps> = ({ planet, upgrades, onGameOver, o
       } else if (type === 'jump') {
           state.touchInput.jump = true;
           setVisualTouchState(prev => ({ ...prev, jumpBtn: true }));
+      } else if (type === 'swap') {
+          state.touchInput.swap = true;
+          setVisualTouchState(prev => ({ ...prev, swapBtn: true }));
       }
   };
 
   const handleTouchMove = (e: React.TouchEvent, type: 'left' | 'right') => {
-      const state = gameState.current;
+      const state = viewState.current;
       const input = type === 'left' ? state.touchInput.left : state.touchInput.right;
       for (let i = 0; i < e.changedTouches.length; i++) {
           const t = e.changedTouches[i];
@@ -1196,8 +959,8 @@ const GameEngine: React.FC<GameEngineProps> = ({ planet, upgrades, onGameOver, o
       }
   };
 
-  const handleTouchEnd = (e: React.TouchEvent, type: 'left' | 'right' | 'jump') => {
-      const state = gameState.current;
+  const handleTouchEnd = (e: React.TouchEvent, type: 'left' | 'right' | 'jump' | 'swap') => {
+      const state = viewState.current;
       if (type === 'left') {
           for (let i = 0; i < e.changedTouches.length; i++) {
             if (e.changedTouches[i].identifier === state.touchInput.left.touchId) {
@@ -1219,111 +982,85 @@ const GameEngine: React.FC<GameEngineProps> = ({ planet, upgrades, onGameOver, o
       } else if (type === 'jump') {
           state.touchInput.jump = false;
           setVisualTouchState(prev => ({ ...prev, jumpBtn: false }));
+      } else if (type === 'swap') {
+          state.touchInput.swap = false;
+          setVisualTouchState(prev => ({ ...prev, swapBtn: false }));
       }
   };
 
   // Update initialization to set orbit phases
   useEffect(() => {
-    const state = gameState.current;
+    const state = viewState.current;
     initAudio();
-    state.player.health = maxHealth; state.player.maxHealth = maxHealth; state.player.fuel = maxFuelBase; state.player.maxFuel = maxFuelBase; state.player.vel = { x: 0, y: 0 }; state.player.coyoteTimer = 0; state.player.pos = { x: 100, y: -200 }; 
-    state.score = 0; state.coresCollected = 0;
-    state.enemies = []; state.projectiles = []; state.particles = []; state.weatherParticles = []; state.texts = []; state.hazards = [];
-    state.isPlaying = true; state.bossActive = false;
-    state.frameCount = 0; state.introTimer = 180; state.lookDownTimer = 0;
-    state.currentWeapon = 'blaster'; state.weaponCooldown = 0;
+    const missionLoadout = replay ? (replay.loadout || DEFAULT_LOADOUT) : loadout;
+    let world = createWorld(planet, upgrades, replay?.missionSeed, missionLoadout);
+    worldRef.current = world;
+    const recorder = replay ? null : createReplayRecorder(planet, upgrades, world.missionSeed, missionLoadout);
+    recorderRef.current = recorder;
+    const replayInputs = replay ? expandReplayInputs(replay) : [];
+    state.step = 0; playbackRef.current = { paused: false, speed: 1, step: 0, ended: false }; setPlayback(playbackRef.current); pausedRef.current = false; setPaused(false);
     state.messageQueue = []; state.currentMessage = null;
-    state.nextSquadSpawnX = 800;
-    state.timeOfDay = 0.15; state.weatherState = 'clear'; state.currentWeather = 'clear'; state.weatherIntensity = 0; state.weatherTimer = 400;
-    state.keys = {}; state.touchInput = { left: { active: false, touchId: null, vectorX: 0, vectorY: 0, originX: 0, originY: 0 }, right: { active: false, touchId: null, vectorX: 0, vectorY: 0, originX: 0, originY: 0 }, jump: false }; state.hitStop = 0;
-    setBossStats({ active: false, hp: 0, maxHp: 0, name: '' }); setRadioMsg(null);
-    setTimeout(() => { queueMessage(`Atterraggio confermato su ${planet.name}.`); queueMessage(`Rilevati ${state.totalCoresNeeded} Nuclei Energetici. Recuperali.`); }, 2500);
-
-    // Procedural Celestial Bodies Initialization (Fixed Logic)
-    state.celestialBodies = [];
-    const numBodies = Math.floor(Math.random() * 2) + 1; 
-    let envType = 'neutral';
-    if (planet.allowedBiomes.includes('dunes') || (planet.allowedBiomes.includes('crags') && planet.atmosphereColor.includes('330000'))) envType = 'hot';
-    else if (planet.allowedBiomes.includes('spire') || planet.atmosphereColor.includes('001133')) envType = 'cold';
-    else if (planet.atmosphereColor.includes('0a2a0a')) envType = 'toxic';
-
-    for(let i=0; i<numBodies; i++) {
-        const typeRoll = Math.random();
-        let type: CelestialBody['type'] = 'moon';
-        let radius = 30 + Math.random() * 40;
-        let color = '#ffffff';
-        let orbitPhase = 0;
-
-        if (envType === 'hot') {
-            if (typeRoll > 0.6) { type = 'sun'; radius = 80 + Math.random() * 60; color = '#ffcc00'; orbitPhase = 0.5; } // Peak Noon
-            else { type = 'broken_moon'; radius = 50 + Math.random() * 30; color = '#aa8888'; orbitPhase = 0.0; } 
-        } else if (envType === 'cold') {
-            if (typeRoll > 0.7) { type = 'gas_giant'; radius = 100 + Math.random() * 60; color = '#4444ff'; orbitPhase = 0.1; }
-            else { type = 'moon'; radius = 30 + Math.random() * 30; color = '#eeeeee'; orbitPhase = 0.0; }
-        } else {
-             if (typeRoll > 0.8) { type = 'sun'; radius = 60 + Math.random() * 40; color = '#ffaa00'; orbitPhase = 0.5; } 
-             else { type = 'moon'; radius = 40 + Math.random() * 20; color = '#cccccc'; orbitPhase = 0.0; }
-        }
-
-        const details: {x:number, y:number, r:number, color: string}[] = [];
-        if (type === 'moon' || type === 'broken_moon') {
-            const craterCount = Math.floor(Math.random() * 5) + 3;
-            for(let j=0; j<craterCount; j++) { details.push({ x: (Math.random()-0.5) * radius * 0.8, y: (Math.random()-0.5) * radius * 0.8, r: Math.random() * radius * 0.25, color: 'rgba(0,0,0,0.1)' }); }
-        }
-
-        state.celestialBodies.push({ id: `body-${i}`, x: Math.random() * 800 + (i * 300), y: Math.random() * 300 + 50, radius, color, type, hasRings: type === 'gas_giant' || (type !== 'sun' && Math.random() > 0.85), details, orbitPhase, textureSeed: Math.random() });
-    }
+    state.keys = {}; state.touchInput = { left: { active: false, touchId: null, vectorX: 0, vectorY: 0, originX: 0, originY: 0 }, right: { active: false, touchId: null, vectorX: 0, vectorY: 0, originX: 0, originY: 0 }, jump: false, swap: false };
+    setRadioMsg(null); syncHud(world);
+    setTimeout(() => { queueMessage({ key: 'radio.landing', params: { planet: planet.name } }); queueMessage({ key: 'radio.coresDetected', params: { count: world.totalCoresNeeded } }); }, 2500);
+
+    const handleKeyDown = (e: KeyboardEvent) => { if (replay) { handleReplayKey(e.code); return; } if (settingsRef.current.controls.keyboard.pause.includes(e.code)) { if (!e.repeat) handlePauseAction(); return; } if (!pausedRef.current) state.keys[e.code] = true; }; const handleKeyUp = (e: KeyboardEvent) => { state.keys[e.code] = false; }; const handleMouseMove = (e: MouseEvent) => { if (state.scaleRatio > 0) { state.mouse.x = e.clientX / state.scaleRatio; state.mouse.y = e.clientY / state.scaleRatio; state.aimSource = 'mouse'; } }; const handleMouseDown = (e: MouseEvent) => { if (!pausedRef.current) state.keys[mouseButtonCode(e.button)] = true; }; const handleMouseUp = (e: MouseEvent) => { state.keys[mouseButtonCode(e.button)] = false; }; const handleContextMenu = (e: MouseEvent) => { if (!replay) e.preventDefault(); }; const handleVisibilityChange = () => { if (document.hidden) setPause(true); }; const handleResize = () => { if (canvasRef.current) { const width = window.innerWidth; const height = window.innerHeight; const scale = Math.max(0.5, height / LOGICAL_HEIGHT); canvasRef.current.width = width; canvasRef.current.height = height; if (replay) { state.scaleRatio = Math.min(width / world.logicalWidth, height / world.logicalHeight); return; } state.scaleRatio = scale; setViewport(world, width / scale, height / scale); recorder?.recordViewport(world.logicalWidth, world.logicalHeight); } }; const handleBlur = () => { state.keys = {}; state.touchInput.left.active = false; state.touchInput.right.active = false; state.touchInput.jump = false; setVisualTouchState(prev => ({ ...prev, leftJoystick: { ...prev.leftJoystick, active: false }, rightJoystick: { ...prev.rightJoystick, active: false }, jumpBtn: false })); };
+    window.addEventListener('keydown', handleKeyDown); window.addEventListener('keyup', handleKeyUp); window.addEventListener('mousemove', handleMouseMove); window.addEventListener('mousedown', handleMouseDown); window.addEventListener('mouseup', handleMouseUp); window.addEventListener('resize', handleResize); window.addEventListener('blur', handleBlur); window.addEventListener('contextmenu', handleContextMenu); document.addEventListener('visibilitychange', handleVisibilityChange); handleResize(); if (canvasRef.current) { const ctx = canvasRef.current.getContext('2d'); if (ctx) patternRef.current = createBiomePattern(ctx, planet.groundColor, planet.allowedBiomes, createRng(deriveSeed(planet.seed, 'pattern'))); }
+    // Replay playback: the recorded viewport drives the simulation, the canvas scales to fit it
+    const applyReplayViewport = () => {
+      if (!replay) return; const vp = getReplayViewport(replay, state.step);
+      if (vp && (vp.width !== world.logicalWidth || vp.height !== world.logicalHeight)) { setViewport(world, vp.width, vp.height); handleResize(); }
+    };
+    applyReplayViewport();
+    const syncPlayback = () => { playbackRef.current = { ...playbackRef.current, step: state.step }; setPlayback(playbackRef.current); };
+    const handleReplayKey = (code: string) => {
+      if (code === 'Space') { playbackRef.current = { ...playbackRef.current, paused: !playbackRef.current.paused }; setPlayback(playbackRef.current); }
+      else if (code === 'ArrowRight') seekRef.current(state.step + REPLAY_SEEK_STEPS);
+      else if (code === 'ArrowLeft') seekRef.current(state.step - REPLAY_SEEK_STEPS);
+      else if (code === 'Escape') onExitReplay?.();
+    };
 
-    // Map Gen
-    const segments = 350; const terrain: number[] = []; state.decorations = []; state.vegetation = []; let height = LOGICAL_HEIGHT - 150; const segmentWidth = 50; const chunkLength = 80; let currentStyle = planet.allowedBiomes[0];
-    for (let i = 0; i < segments; i++) {
-      const x = i * segmentWidth; if (i % chunkLength === 0) currentStyle = planet.allowedBiomes[Math.floor(Math.random() * planet.allowedBiomes.length)];
-      let delta = 0; if (currentStyle === 'dunes') delta = Math.sin(i * 0.1) * 5 + Math.cos(i * 0.05) * 2; else if (currentStyle === 'crags') delta = (Math.random() - 0.5) * 15; else if (currentStyle === 'plateau') { if (i % 15 === 0) delta = (Math.floor(Math.random() * 3) - 1) * 40; else delta = 0; } else if (currentStyle === 'spire') { if (i % 5 === 0) delta = (Math.random() - 0.5) * 30; else delta = (Math.random() - 0.5) * 5; }
-      height += delta; const minH = 100; const maxH = LOGICAL_HEIGHT - 50; if (height < minH) height = minH; if (height > maxH) height = maxH; if (height < 150) height += 2; if (height > LOGICAL_HEIGHT - 150) height -= 2;
-      let isHazard = false; 
-      
-      // HAZARD GENERATION LOGIC - IMPROVED
-      if (!isHazard && i > 10 && i < segments - 10) {
-          const rand = Math.random();
-          if (rand < 0.06) {
-              height = height + 40; 
-              if (height > maxH) height = maxH; 
-              let hType: HazardType = 'none'; 
-              
-              if (currentStyle === 'dunes') hType = (Math.random() > 0.7) ? 'geyser' : 'none';
-              else if (currentStyle === 'plateau') hType = (Math.random() > 0.8) ? 'electric' : 'none';
-              else if (currentStyle === 'crags') hType = 'lava';
-              else if (currentStyle === 'spire') hType = (Math.random() > 0.5) ? 'acid' : 'electric';
-              
-              // Fallbacks based on planet color
-              if (hType === 'none') {
-                  if (planet.groundColor.includes('441111') || planet.name.includes('Lava')) hType = 'lava'; 
-                  else if (planet.atmosphereColor.includes('0a2a0a')) hType = 'acid';
-              }
+    // Fixed-step loop: real time is banked in the accumulator and spent in whole ticks, rendering blends the remainder
+    state.lastTime = performance.now(); state.accumulator = 0;
+    const tick = (silent: boolean = false) => {
+      applyReplayViewport();
+      const input = replay ? replayInputs[state.step] : recorder!.record(readInput(world));
+      const prevTick = world.tick; capturePreviousPositions(world); setQuality(world, settingsRef.current.graphics.quality);
+      const events = stepWorld(world, input); state.step++;
+      if (!silent) { handleSimEvents(world, events); if (world.tick !== prevTick && world.tick % 5 === 0) { syncHud(world); syncAudio(world); if (replay) syncPlayback(); } }
+    };
+    const canTick = () => world.isPlaying && !pausedRef.current && (!replay || (!playbackRef.current.paused && state.step < replayInputs.length));
+
+    // Scrubbing re-simulates from the start (worlds are deterministic), silently
+    seekRef.current = (target: number) => {
+      if (!replay) return;
+      const step = Math.max(0, Math.min(replayInputs.length, Math.round(target)));
+      if (step < state.step) { world = createWorld(planet, upgrades, replay.missionSeed, missionLoadout); worldRef.current = world; state.step = 0; applyReplayViewport(); }
+      while (state.step < step && world.isPlaying) tick(true);
+      state.accumulator = 0; state.messageQueue = []; state.currentMessage = null;
+      playbackRef.current = { ...playbackRef.current, ended: state.step >= replayInputs.length || !world.isPlaying }; syncHud(world); syncPlayback();
+    };
 
-              if (hType !== 'none') { 
-                  state.hazards.push({ x: x, width: segmentWidth, type: hType }); 
-                  isHazard = true; 
-              } 
-          }
-      } 
-      if (!isHazard && currentStyle === 'crags' && Math.random() < 0.1) state.hazards.push({ x: x, width: segmentWidth, type: 'spikes' }); 
-      if (!isHazard && currentStyle === 'spire' && planet.atmosphereColor.includes('001133')) state.hazards.push({ x: x, width: segmentWidth, type: 'ice' });
-      
-      terrain.push(height);
-      if (!isHazard && Math.random() > 0.85) { let type = 0; if (currentStyle === 'dunes') type = 0; else if (currentStyle === 'spire') type = 2; else if (currentStyle === 'plateau') type = 4; else type = Math.random() > 0.5 ? 1 : 0; state.decorations.push({ x: x + Math.random() * 40, y: height, type: type, size: Math.random() * 10 + 5 }); }
-      let vegDensity = 0.5; if (currentStyle === 'dunes') vegDensity = 0.2; else if (currentStyle === 'spire') vegDensity = 0.3; else if (currentStyle === 'plateau') vegDensity = 0.7; const effectiveVegDensity = vegDensity * (planet.vegetationDensity * 1.5); 
-      if (!isHazard && Math.random() < effectiveVegDensity) { const isTitan = Math.random() < 0.08; let stemType: StemType = 'straight'; let foliageType: FoliageType = 'canopy'; const rand = Math.random(); if (currentStyle === 'dunes') { if (rand > 0.8) { stemType = 'crystalline'; foliageType = 'none'; } else if (rand > 0.6) { stemType = 'cactus'; foliageType = 'spikes'; } else if (rand > 0.3) { stemType = 'twisted'; foliageType = 'none'; } else { stemType = 'bulbous'; foliageType = 'flower'; } } else if (currentStyle === 'spire') { if (rand > 0.7) { stemType = 'spiral'; foliageType = 'luminescent'; } else if (rand > 0.4) { stemType = 'shard'; foliageType = 'bulb'; } else { stemType = 'vine'; foliageType = 'none'; } } else if (currentStyle === 'plateau') { if (rand > 0.8) { stemType = 'straight'; foliageType = 'giant_leaf'; } else if (rand > 0.5) { stemType = 'segmented'; foliageType = 'canopy'; } else { stemType = 'straight'; foliageType = 'pods'; } } else { if (planet.atmosphereColor.includes('0a2a0a') && rand > 0.6) { stemType = 'twisted'; foliageType = 'tentacles'; } else if (rand > 0.5) { stemType = 'bulbous'; foliageType = 'weeping'; } else { stemType = 'twisted'; foliageType = 'fern'; } } let scaleMult = 0.8 + (planet.vegetationDensity * 0.4); let hBase = (Math.random() * 120 + 40) * scaleMult; let wBase = (Math.random() * 6 + 4) * scaleMult; if (isTitan) { hBase = 250 + Math.random() * 200; wBase = 15 + Math.random() * 15; if (stemType === 'vine') stemType = 'twisted'; if (stemType === 'shard') stemType = 'straight'; } const baseColor = planet.floraColor; const stemColor = Math.random() > 0.5 ? darkenColor(baseColor, 0.3) : darkenColor(planet.groundColor, 0.2); let foliageColor = baseColor; const colorRoll = Math.random(); if (colorRoll > 0.7) foliageColor = lightenColor(baseColor, 0.4); else if (colorRoll > 0.4) foliageColor = lerpColor(baseColor, planet.atmosphereColor, 0.5); else foliageColor = '#ffffff'; state.vegetation.push({ x: x + Math.random() * segmentWidth, y: 0, height: hBase + (foliageType === 'canopy' ? 40 : 0), width: wBase, stemType: stemType, foliageType: foliageType, colorStem: stemColor, colorFoliage: foliageColor, colorDetail: darkenColor(stemColor, 0.2), swaySpeed: (Math.random() * 0.02 + 0.01) * (isTitan ? 0.5 : 1), swayAmount: (Math.random() * 5 + 2) * (isTitan ? 1.5 : 1), variant: Math.floor(Math.random() * 100), isTitan: isTitan, currentBend: 0 }); }
-    }
-    state.terrain = terrain; state.totalCoresNeeded = 4 + Math.floor(planet.enemyDensity / 2.5); state.backgroundLayers = []; const layerCount = 2; for (let l = 0; l < layerCount; l++) { const distance = (l + 1) / (layerCount + 0.5); const speed = 0.1 + (l * 0.15); const blendFactor = l === 0 ? 0.7 : 0.4; const layerColor = lerpColor(planet.groundColor, planet.atmosphereColor, blendFactor); const points: {x: number, y: number}[] = []; let ly = LOGICAL_HEIGHT / 2 + (l * 100); const step = 100; for (let x = 0; x < segments * segmentWidth; x += step) { const noise = Math.sin(x * 0.005) * 50 + Math.cos(x * 0.02) * 20; let biomeMod = 0; if (planet.allowedBiomes.includes('crags')) biomeMod = (Math.random() - 0.5) * 80; else if (planet.allowedBiomes.includes('plateau')) { if (x % 400 < 50) biomeMod = -50; } points.push({ x, y: ly + noise + biomeMod }); } state.backgroundLayers.push({ distance, speed, color: layerColor, points }); }
-    state.stars = []; for (let i = 0; i < 400; i++) state.stars.push({ x: Math.random() * 3000, y: Math.random() * LOGICAL_HEIGHT * 1.5, size: Math.random() * 2 + 0.5, speed: Math.random() * 0.05 + 0.01, alpha: Math.random() * 0.8 + 0.2 });
-    state.loot = []; const getY = (xPos: number) => { const index = Math.floor(Math.max(0, xPos) / 50); return terrain[Math.min(index, terrain.length-1)]; }; for (let i = 0; i < state.totalCoresNeeded; i++) { const progress = (i + 1) / (state.totalCoresNeeded + 1); const xPos = (segments * segmentWidth) * progress; const groundY = getY(xPos); let tier = 1; if (i === state.totalCoresNeeded - 1) tier = 3; else if (progress > 0.5) tier = 2; let color = '#ffd700'; if (tier === 2) color = '#00ffff'; if (tier === 3) color = '#ff0033'; state.loot.push({ id: `core-${i}`, pos: { x: xPos, y: groundY - 50 }, vel: { x: 0, y: 0 }, size: ENTITY_SIZE.LOOT, color: color, type: 'loot', lootType: 'core', coreTier: tier, health: 1, maxHealth: 1, isGrounded: false, markedForDeletion: false, facingRight: true, variant: 0, animOffset: Math.random() * 100, hitTimer: 0 }); if (tier >= 2) { const guardArchetype = Math.random() > 0.5 ? 'sentinel' : 'dasher'; const size = guardArchetype === 'sentinel' ? ENTITY_SIZE.SENTINEL : ENTITY_SIZE.DASHER; const hp = (ENEMY_STATS[guardArchetype.toUpperCase() as keyof typeof ENEMY_STATS]?.hp || 30) * 2; state.enemies.push({ id: `guard-${i}`, pos: { x: xPos + 100, y: groundY - 100 }, vel: { x: 0, y: 0 }, size: { x: size.x * 1.3, y: size.y * 1.3 }, color: '#ffd700', type: 'enemy', health: hp, maxHealth: hp, isGrounded: false, markedForDeletion: false, facingRight: false, variant: 0, animOffset: 0, archetype: guardArchetype, rarity: 'elite', aiState: 'idle', alertTimer: 0, hitTimer: 0 }); } }
+    // Start on the pad toggles pause on its press edge (ignored while the remap screen is listening for buttons)
+    let padButtons: boolean[] = [];
+    const pollPadPause = () => {
+      const pad = readGamepad(0); const pressed = settingsRef.current.controls.gamepad.pause.some(b => pad.buttons[b] && !padButtons[b]); padButtons = pad.buttons;
+      if (pressed && pausePanelRef.current !== 'controls') handlePauseAction();
+    };
 
-    const handleKeyDown = (e: KeyboardEvent) => { state.keys[e.code] = true; }; const handleKeyUp = (e: KeyboardEvent) => { state.keys[e.code] = false; }; const handleMouseMove = (e: MouseEvent) => { if (state.scaleRatio > 0) { state.mouse.x = e.clientX / state.scaleRatio; state.mouse.y = e.clientY / state.scaleRatio; } }; const handleMouseDown = () => { state.mouse.isDown = true; }; const handleMouseUp = () => { state.mouse.isDown = false; }; const handleResize = () => { if (canvasRef.current) { const width = window.innerWidth; const height = window.innerHeight; const scale = Math.max(0.5, height / LOGICAL_HEIGHT); canvasRef.current.width = width; canvasRef.current.height = height; state.scaleRatio = scale; state.logicalWidth = width / scale; state.logicalHeight = height / scale; } }; const handleBlur = () => { state.keys = {}; state.mouse.isDown = false; state.touchInput.left.active = false; state.touchInput.right.active = false; state.touchInput.jump = false; setVisualTouchState(prev => ({ ...prev, leftJoystick: { ...prev.leftJoystick, active: false }, rightJoystick: { ...prev.rightJoystick, active: false }, jumpBtn: false })); };
-    window.addEventListener('keydown', handleKeyDown); window.addEventListener('keyup', handleKeyUp); window.addEventListener('mousemove', handleMouseMove); window.addEventListener('mousedown', handleMouseDown); window.addEventListener('mouseup', handleMouseUp); window.addEventListener('resize', handleResize); window.addEventListener('blur', handleBlur); handleResize(); if (canvasRef.current) { const ctx = canvasRef.current.getContext('2d'); if (ctx) patternRef.current = createBiomePattern(ctx, planet.groundColor, planet.allowedBiomes); }
-    let animationFrameId: number; const loop = (time: number) => { if (!state.isPlaying) return; const dt = (time - state.lastTime) / 16.66; state.lastTime = time; update(dt > 4 ? 1 : dt); draw(); animationFrameId = requestAnimationFrame(loop); }; animationFrameId = requestAnimationFrame(loop);
-    return () => { window.removeEventListener('keydown', handleKeyDown); window.removeEventListener('keyup', handleKeyUp); window.removeEventListener('mousemove', handleMouseMove); window.removeEventListener('mousedown', handleMouseDown); window.removeEventListener('mouseup', handleMouseUp); window.removeEventListener('resize', handleResize); window.removeEventListener('blur', handleBlur); cancelAnimationFrame(animationFrameId); };
-  }, [planet, upgrades]); 
+    let animationFrameId: number; const loop = (time: number) => {
+      if (!world.isPlaying && !replay) return;
+      if (!replay) pollPadPause();
+      const speed = replay ? playbackRef.current.speed : 1;
+      state.accumulator += Math.min(SIMULATION.MAX_FRAME_MS, Math.max(0, time - state.lastTime)) * speed; state.lastTime = time;
+      if (!canTick()) state.accumulator = 0;
+      let ticks = 0; while (state.accumulator >= SIMULATION.TICK_MS && canTick()) { tick(); state.accumulator -= SIMULATION.TICK_MS; if (++ticks >= SIMULATION.MAX_TICKS_PER_FRAME) { state.accumulator = 0; break; } }
+      if (replay && !playbackRef.current.ended && (state.step >= replayInputs.length || !world.isPlaying)) { playbackRef.current = { ...playbackRef.current, ended: true }; syncPlayback(); }
+      const restore = applyInterpolation(world, state.accumulator / SIMULATION.TICK_MS); draw(); restore();
+      animationFrameId = requestAnimationFrame(loop);
+    }; animationFrameId = requestAnimationFrame(loop);
+    return () => { window.removeEventListener('keydown', handleKeyDown); window.removeEventListener('keyup', handleKeyUp); window.removeEventListener('mousemove', handleMouseMove); window.removeEventListener('mousedown', handleMouseDown); window.removeEventListener('mouseup', handleMouseUp); window.removeEventListener('resize', handleResize); window.removeEventListener('blur', handleBlur); window.removeEventListener('contextmenu', handleContextMenu); document.removeEventListener('visibilitychange', handleVisibilityChange); cancelAnimationFrame(animationFrameId); stopAmbience(); };
+  }, [planet, upgrades, loadout, replay]); 
 
   // (JSX Remains unchanged)
   return (
@@ -1334,26 +1071,51 @@ const GameEngine: React.FC<GameEngineProps> = ({ planet, upgrades, onGameOver, o
       <div className="absolute top-0 left-0 w-full h-full pointer-events-none p-4 font-retro">
         {/* Top Left: Bars */}
         <div className="flex flex-col gap-2 w-56">
-            <div className="flex items-center gap-3"> <span className="text-red-500 text-xs md:text-sm w-20">SUIT LV{upgrades.hull}</span> <div className="w-24 md:w-32 h-4 bg-gray-800 border border-gray-600"> <div className="h-full bg-red-600 transition-all duration-200" style={{ width: `${Math.max(0, (hudStats.health / maxHealth) * 100)}%` }} /> </div> <span className="text-xs md:text-sm text-gray-400">{Math.ceil(hudStats.health)}/{maxHealth}</span> </div>
-            <div className="flex items-center gap-3"> <span className="text-orange-400 text-xs md:text-sm w-20">FUEL</span> <div className="w-24 md:w-32 h-3 bg-gray-800 border border-gray-600"> <div className="h-full bg-orange-500 transition-all duration-75" style={{ width: `${Math.max(0, (hudStats.fuel / hudStats.maxFuel) * 100)}%` }} /> </div> </div>
-            <div className="text-yellow-400 text-xs md:text-sm mt-1">CORES: {hudStats.cores} / {gameState.current.totalCoresNeeded}</div>
+            <div className="flex items-center gap-3"> <span className="text-red-500 text-xs md:text-sm w-20">{t('hud.suit', { level: upgrades.hull })}</span> <div className="w-24 md:w-32 h-4 bg-gray-800 border border-gray-600"> <div className="h-full bg-red-600 transition-all duration-200" style={{ width: `${Math.max(0, (hudStats.health / maxHealth) * 100)}%` }} /> </div> <span className="text-xs md:text-sm text-gray-400">{Math.ceil(hudStats.health)}/{maxHealth}</span> </div>
+            <div className="flex items-center gap-3"> <span className="text-orange-400 text-xs md:text-sm w-20">{t('hud.fuel')}</span> <div className="w-24 md:w-32 h-3 bg-gray-800 border border-gray-600"> <div className="h-full bg-orange-500 transition-all duration-75" style={{ width: `${Math.max(0, (hudStats.fuel / hudStats.maxFuel) * 100)}%` }} /> </div> </div>
+            {hudStats.statuses.length > 0 && <div className="flex gap-2 text-[10px] md:text-xs"> {hudStats.statuses.map((effect: StatusEffect) => <span key={effect.id} className="border px-1" style={{ color: STATUS_EFFECTS[effect.id].color, borderColor: STATUS_EFFECTS[effect.id].color }}>{t(`status.${effect.id}`)}{effect.stacks > 1 && ` x${effect.stacks}`}</span>)} </div>}
+            <div className="text-yellow-400 text-xs md:text-sm mt-1">{t('hud.cores', { cores: hudStats.cores, total: hudStats.totalCores })}</div>
         </div>
         <div className="absolute top-0 left-1/2 transform -translate-x-1/2 text-center pt-2"> 
-            <div className={`text-xl md:text-3xl font-mono border-b-2 border-white/20 pb-2 ${hudStats.objective.includes('DESTROY') ? 'text-red-500 animate-pulse font-bold' : 'text-cyan-300'}`}> 
-                {hudStats.objective} 
+            <div className={`text-xl md:text-3xl font-mono border-b-2 border-white/20 pb-2 ${hudStats.objective === 'objective.destroyGuardian' ? 'text-red-500 animate-pulse font-bold' : 'text-cyan-300'}`}> 
+                {t(hudStats.objective)} 
             </div> 
         </div>
-        <div className="absolute top-4 right-4 text-right"> <div className="text-green-400 text-sm md:text-lg">SCORE: {hudStats.score.toString().padStart(6, '0')}</div> <div className="text-xs md:text-sm text-cyan-400 mt-1">WEAPON: {hudStats.weapon}</div> <div className="text-xs md:text-sm text-gray-400 mt-1">{planet.name}</div> </div>
+        <div className="absolute top-4 right-4 text-right"> <div className="text-green-400 text-sm md:text-lg">{t('hud.score', { score: hudStats.score.toString().padStart(6, '0') })}</div> {hudStats.slots.map((slot, i) => <div key={i} className={`text-xs md:text-sm mt-1 ${i === hudStats.activeSlot ? '' : 'opacity-50'}`} style={{ color: slot ? slot.color : undefined }}>{i === hudStats.activeSlot && '> '}{slot ? t('hud.weapon', { weapon: slot.name }) : <span className="text-gray-500">{t('hud.emptySlot')}</span>}{slot && slot.ammo !== undefined && <span className={slot.ammo <= 5 ? 'text-red-500 ml-2' : 'text-gray-300 ml-2'}>{t('hud.ammo', { ammo: slot.ammo })}</span>}</div>)} {hudStats.offer && <div className="text-xs md:text-sm text-yellow-400 mt-1 animate-pulse">{t('hud.takeWeapon', { key: formatKeyCode(settings.controls.keyboard.swapWeapon[0] || ''), weapon: hudStats.offer })}</div>} <div className="text-xs md:text-sm text-gray-400 mt-1">{planet.name}</div> </div>
       </div>
       {radioMsg && ( 
           <div className="absolute bottom-32 left-8 max-w-2xl bg-black/90 border-l-8 border-green-500 p-6 font-mono animate-in fade-in slide-in-from-bottom-4 shadow-2xl"> 
-              <div className="text-green-700 text-lg mb-2 font-bold tracking-wider">INCOMING TRANSMISSION...</div> 
+              <div className="text-green-700 text-lg mb-2 font-bold tracking-wider">{t('radio.incoming')}</div> 
               <div className="text-green-300 leading-relaxed text-2xl">{radioMsg.typewriter}<span className="animate-pulse">_</span></div> 
           </div> 
       )}
-      {gameState.current.introTimer > 20 && ( <div className="absolute inset-0 flex items-center justify-center flex-col pointer-events-none"> <div className="text-4xl md:text-6xl font-retro text-cyan-400 animate-pulse bg-black/50 p-6 border-2 border-cyan-500"> MISSION START </div> <div className="text-white mt-6 font-mono text-2xl md:text-3xl bg-black/50 p-3"> DETECTED: {gameState.current.totalCoresNeeded} ENERGY CORES </div> <div className="text-yellow-400 mt-3 font-mono text-lg md:text-xl animate-bounce"> COLLECT THEM TO ESCAPE </div> </div> )}
-      {bossStats.active && ( <div className="absolute top-20 left-1/2 -translate-x-1/2 text-center w-full max-w-lg pointer-events-none"> <div className="flex flex-col items-center animate-pulse"> <span className="text-red-600 text-sm md:text-base tracking-widest mb-1 font-bold">{bossStats.name}</span> <div className="w-80 h-6 bg-gray-900 border-2 border-red-900 relative"> <div className="h-full bg-red-600 transition-all duration-200" style={{width: `${(bossStats.hp / bossStats.maxHp) * 100}%`}} /> </div> </div> </div> )}
-      <div className="absolute inset-0 z-50 pointer-events-none md:hidden flex flex-col justify-end pb-8 px-8"> <div className="flex justify-between items-end w-full h-48"> <div className="w-32 h-32 relative bg-white/10 rounded-full border-2 border-white/30 backdrop-blur-sm pointer-events-auto" onTouchStart={(e) => handleTouchStart(e, 'left')} onTouchMove={(e) => handleTouchMove(e, 'left')} onTouchEnd={(e) => handleTouchEnd(e, 'left')} onTouchCancel={(e) => handleTouchEnd(e, 'left')}> <div className="absolute w-12 h-12 bg-cyan-500/80 rounded-full shadow-[0_0_15px_cyan] top-1/2 left-1/2 -ml-6 -mt-6" style={{ transform: visualTouchState.leftJoystick.active ? `translate(${visualTouchState.leftJoystick.currX - visualTouchState.leftJoystick.originX}px, ${visualTouchState.leftJoystick.currY - visualTouchState.leftJoystick.originY}px)` : 'none' }} /> </div> <div className="flex gap-4 items-end"> <div className={`w-24 h-24 rounded-full border-4 border-yellow-500/50 flex items-center justify-center mb-4 pointer-events-auto transition-all ${visualTouchState.jumpBtn ? 'bg-yellow-500/80 scale-95' : 'bg-yellow-500/20'}`} onTouchStart={(e) => handleTouchStart(e, 'jump')} onTouchEnd={(e) => handleTouchEnd(e, 'jump')} onTouchCancel={(e) => handleTouchEnd(e, 'jump')}> <span className="font-retro text-[10px] text-yellow-200">JUMP</span> </div> <div className="w-32 h-32 relative bg-white/10 rounded-full border-2 border-red-500/30 backdrop-blur-sm pointer-events-auto" onTouchStart={(e) => handleTouchStart(e, 'right')} onTouchMove={(e) => handleTouchMove(e, 'right')} onTouchEnd={(e) => handleTouchEnd(e, 'right')} onTouchCancel={(e) => handleTouchEnd(e, 'right')}> <div className="absolute w-12 h-12 bg-red-500/80 rounded-full shadow-[0_0_15px_red] top-1/2 left-1/2 -ml-6 -mt-6" style={{ transform: visualTouchState.rightJoystick.active ? `translate(${visualTouchState.rightJoystick.currX - visualTouchState.rightJoystick.originX}px, ${visualTouchState.rightJoystick.currY - visualTouchState.rightJoystick.originY}px)` : 'none' }} /> </div> </div> </div> </div>
+      {worldRef.current && worldRef.current.introTimer > 20 && ( <div className="absolute inset-0 flex items-center justify-center flex-col pointer-events-none"> <div className="text-4xl md:text-6xl font-retro text-cyan-400 animate-pulse bg-black/50 p-6 border-2 border-cyan-500"> {t('intro.missionStart')} </div> <div className="text-white mt-6 font-mono text-2xl md:text-3xl bg-black/50 p-3"> {t('intro.detected', { count: hudStats.totalCores })} </div> <div className="text-yellow-400 mt-3 font-mono text-lg md:text-xl animate-bounce"> {t('intro.collect')} </div> </div> )}
+      {bossStats.active && ( <div className="absolute top-20 left-1/2 -translate-x-1/2 text-center w-full max-w-lg pointer-events-none"> <div className="flex flex-col items-center animate-pulse"> <span className="text-red-600 text-sm md:text-base tracking-widest mb-1 font-bold">{bossStats.name && t(bossStats.name)} <span className="text-red-400">// {t('boss.phase', { phase: bossStats.phase, total: GUARDIAN_PHASES })}</span></span> <div className="w-80 h-6 bg-gray-900 border-2 border-red-900 relative"> <div className="h-full bg-red-600 transition-all duration-200" style={{width: `${(bossStats.hp / bossStats.maxHp) * 100}%`}} /> </div> </div> </div> )}
+      {!replay && !paused && ( <button onClick={() => { playSound('ui'); setPause(true); }} className="absolute top-4 left-1/2 -translate-x-1/2 mt-16 z-50 md:hidden w-10 h-10 bg-black/60 border border-white/30 text-white font-retro text-xs">II</button> )}
+      {!replay && ( <div className="absolute inset-0 z-50 pointer-events-none md:hidden flex flex-col justify-end pb-8 px-8"> <div className="flex justify-between items-end w-full h-48"> <div className="w-32 h-32 relative bg-white/10 rounded-full border-2 border-white/30 backdrop-blur-sm pointer-events-auto" onTouchStart={(e) => handleTouchStart(e, 'left')} onTouchMove={(e) => handleTouchMove(e, 'left')} onTouchEnd={(e) => handleTouchEnd(e, 'left')} onTouchCancel={(e) => handleTouchEnd(e, 'left')}> <div className="absolute w-12 h-12 bg-cyan-500/80 rounded-full shadow-[0_0_15px_cyan] top-1/2 left-1/2 -ml-6 -mt-6" style={{ transform: visualTouchState.leftJoystick.active ? `translate(${visualTouchState.leftJoystick.currX - visualTouchState.leftJoystick.originX}px, ${visualTouchState.leftJoystick.currY - visualTouchState.leftJoystick.originY}px)` : 'none' }} /> </div> <div className="flex gap-4 items-end"> <div className={`w-16 h-16 rounded-full border-4 border-cyan-500/50 flex items-center justify-center mb-24 pointer-events-auto transition-all ${visualTouchState.swapBtn ? 'bg-cyan-500/80 scale-95' : 'bg-cyan-500/20'}`} onTouchStart={(e) => handleTouchStart(e, 'swap')} onTouchEnd={(e) => handleTouchEnd(e, 'swap')} onTouchCancel={(e) => handleTouchEnd(e, 'swap')}> <span className="font-retro text-[8px] text-cyan-200">{t('touch.swap')}</span> </div> <div className={`w-24 h-24 rounded-full border-4 border-yellow-500/50 flex items-center justify-center mb-4 pointer-events-auto transition-all ${visualTouchState.jumpBtn ? 'bg-yellow-500/80 scale-95' : 'bg-yellow-500/20'}`} onTouchStart={(e) => handleTouchStart(e, 'jump')} onTouchEnd={(e) => handleTouchEnd(e, 'jump')} onTouchCancel={(e) => handleTouchEnd(e, 'jump')}> <span className="font-retro text-[10px] text-yellow-200">{t('touch.jump')}</span> </div> <div className="w-32 h-32 relative bg-white/10 rounded-full border-2 border-red-500/30 backdrop-blur-sm pointer-events-auto" onTouchStart={(e) => handleTouchStart(e, 'right')} onTouchMove={(e) => handleTouchMove(e, 'right')} onTouchEnd={(e) => handleTouchEnd(e, 'right')} onTouchCancel={(e) => handleTouchEnd(e, 'right')}> <div className="absolute w-12 h-12 bg-red-500/80 rounded-full shadow-[0_0_15px_red] top-1/2 left-1/2 -ml-6 -mt-6" style={{ transform: visualTouchState.rightJoystick.active ? `translate(${visualTouchState.rightJoystick.currX - visualTouchState.rightJoystick.originX}px, ${visualTouchState.rightJoystick.currY - visualTouchState.rightJoystick.originY}px)` : 'none' }} /> </div> </div> </div> </div> )}
+      {paused && (
+        <PauseMenu panel={pausePanel} onPanelChange={setPausePanel} settings={settings} onSettingsChange={s => onSettingsChange?.(s)} coresCollected={worldRef.current?.coresCollected ?? 0} onResume={() => setPause(false)} onAbort={handleAbort} />
+      )}
+      {replay && (
+        <div className="absolute bottom-6 left-1/2 -translate-x-1/2 w-full max-w-3xl px-4 z-50 font-mono">
+          <div className="bg-black/85 border border-cyan-700 p-3 flex flex-col gap-2">
+            <div className="flex items-center gap-3 text-sm">
+              <span className="text-cyan-400 font-retro text-xs animate-pulse">{t('replay.label')}</span>
+              <span className="text-gray-400 flex-1 truncate">{replay.planet.name} // {new Date(replay.recordedAt).toLocaleString()}</span>
+              {playback.ended && <span className="text-yellow-400">{replay.outcome === 'victory' ? t('replay.complete') : replay.outcome === 'failed' ? t('replay.lost') : t('replay.end')}</span>}
+            </div>
+            <input type="range" min={0} max={replay.steps} value={playback.step} onChange={(e) => seekRef.current(Number(e.target.value))} className="w-full accent-cyan-400" />
+            <div className="flex items-center gap-2 text-xs">
+              <button onClick={() => { playbackRef.current = { ...playbackRef.current, paused: !playbackRef.current.paused }; setPlayback(playbackRef.current); }} className="px-3 py-1 border border-cyan-500 text-cyan-300 hover:bg-cyan-900 w-20">{playback.paused ? t('replay.play') : t('replay.pause')}</button>
+              {REPLAY_SPEEDS.map(speed => (
+                <button key={speed} onClick={() => { playbackRef.current = { ...playbackRef.current, speed }; setPlayback(playbackRef.current); }} className={`px-2 py-1 border ${playback.speed === speed ? 'border-cyan-300 text-black bg-cyan-400' : 'border-gray-600 text-gray-400 hover:bg-gray-800'}`}>{speed}x</button>
+              ))}
+              <span className="flex-1 text-right text-gray-300">{formatReplayTime(playback.step)} / {formatReplayTime(replay.steps)}</span>
+              <button onClick={() => onExitReplay?.()} className="px-3 py-1 border border-red-800 text-red-400 hover:bg-red-900">{t('replay.exit')}</button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,20 @@
+import React from 'react';
+import { Language } from '../types';
+import { LANGUAGES, LANGUAGE_NAMES, t } from '../services/i18n';
+import { playSound } from '../services/audioService';
+
+interface LanguageSelectorProps {
+  language: Language;
+  onChange: (language: Language) => void;
+}
+
+const LanguageSelector: React.FC<LanguageSelectorProps> = ({ language, onChange }) => (
+  <div className="flex items-center justify-center gap-2 font-mono">
+    <span className="text-gray-500 text-xs mr-2">{t('common.language')}</span>
+    {LANGUAGES.map(lang => (
+      <button key={lang} title={LANGUAGE_NAMES[lang]} onClick={() => { if (lang === language) return; playSound('ui'); onChange(lang); }} className={`px-3 py-1 text-xs font-retro border ${lang === language ? 'border-cyan-400 text-cyan-300 bg-cyan-900/50' : 'border-gray-700 text-gray-500 hover:bg-gray-800'}`}>{lang.toUpperCase()}</button>
+    ))}
+  </div>
+);
+
+export default LanguageSelector;
@@ -0,0 +1,110 @@
+import React from 'react';
+import { CORE_RECOVERY_RATE, QUALITY_PRESETS } from '../constants';
+import { GameSettings, QualityPreset } from '../types';
+import { playSound } from '../services/audioService';
+import ControlsSettings from './ControlsSettings';
+import AudioSettingsPanel from './AudioSettingsPanel';
+import LanguageSelector from './LanguageSelector';
+import { t } from '../services/i18n';
+
+export type PausePanel = 'main' | 'audio' | 'controls' | 'accessibility' | 'graphics' | 'abort';
+
+const QUALITY_LEVELS = Object.keys(QUALITY_PRESETS) as QualityPreset[];
+
+interface PauseMenuProps {
+  panel: PausePanel;
+  onPanelChange: (panel: PausePanel) => void;
+  settings: GameSettings;
+  onSettingsChange: (settings: GameSettings) => void;
+  coresCollected: number;
+  onResume: () => void;
+  onAbort: () => void;
+}
+
+const PauseMenu: React.FC<PauseMenuProps> = ({ panel, onPanelChange, settings, onSettingsChange, coresCollected, onResume, onAbort }) => {
+  const { audio, accessibility, graphics } = settings;
+  const recoveredCores = Math.floor(coresCollected * CORE_RECOVERY_RATE);
+  const open = (next: PausePanel) => { playSound('ui'); onPanelChange(next); };
+
+  if (panel === 'controls') {
+    return <ControlsSettings controls={settings.controls} onChange={controls => onSettingsChange({ ...settings, controls })} onClose={() => onPanelChange('main')} />;
+  }
+
+  const menuButton = (label: string, onClick: () => void, tone: 'cyan' | 'red' = 'cyan') => (
+    <button onClick={onClick} className={`w-full px-6 py-3 font-retro text-sm border ${tone === 'red' ? 'border-red-700 text-red-400 hover:bg-red-950' : 'border-cyan-600 text-cyan-200 hover:bg-cyan-900'}`}>{label}</button>
+  );
+  const backButton = menuButton(t('common.back'), () => open('main'));
+
+  return (
+    <div className="absolute inset-0 z-50 bg-black/80 flex items-center justify-center p-4 font-mono">
+      <div className="w-full max-w-lg bg-gray-950 border-2 border-cyan-700 p-6 flex flex-col gap-4 shadow-[0_0_40px_rgba(0,255,255,0.15)]">
+        {panel === 'main' && (
+          <>
+            <h2 className="text-cyan-400 font-retro text-2xl text-center border-b border-cyan-800 pb-3">{t('pause.title')}</h2>
+            {menuButton(t('pause.resume'), () => { playSound('ui'); onResume(); })}
+            {menuButton(t('pause.audio'), () => open('audio'))}
+            {menuButton(t('pause.controls'), () => open('controls'))}
+            {menuButton(t('pause.accessibility'), () => open('accessibility'))}
+            {menuButton(t('pause.graphics'), () => open('graphics'))}
+            {menuButton(t('pause.abort'), () => open('abort'), 'red')}
+            <LanguageSelector language={settings.language} onChange={language => onSettingsChange({ ...settings, language })} />
+          </>
+        )}
+
+        {panel === 'audio' && (
+          <>
+            <h2 className="text-cyan-400 font-retro text-xl border-b border-cyan-800 pb-3">{t('pause.audio')}</h2>
+            <AudioSettingsPanel audio={audio} onChange={next => onSettingsChange({ ...settings, audio: next })} />
+            {backButton}
+          </>
+        )}
+
+        {panel === 'accessibility' && (
+          <>
+            <h2 className="text-cyan-400 font-retro text-xl border-b border-cyan-800 pb-3">{t('pause.accessibility')}</h2>
+            <div className="flex items-center gap-4">
+              <label className="text-gray-300 text-sm w-32">{t('accessibility.shake')}</label>
+              <input type="range" min={0} max={1} step={0.1} value={accessibility.screenShake} onChange={e => onSettingsChange({ ...settings, accessibility: { ...accessibility, screenShake: Number(e.target.value) } })} className="flex-1 accent-cyan-400" />
+              <span className="text-cyan-200 text-sm w-12 text-right">{Math.round(accessibility.screenShake * 100)}%</span>
+            </div>
+            <label className="flex items-center gap-3 text-gray-300 text-sm cursor-pointer">
+              <input type="checkbox" checked={accessibility.reduceFlashing} onChange={e => onSettingsChange({ ...settings, accessibility: { ...accessibility, reduceFlashing: e.target.checked } })} className="accent-cyan-400" /> {t('accessibility.reduceFlashing')}
+            </label>
+            {backButton}
+          </>
+        )}
+
+        {panel === 'graphics' && (
+          <>
+            <h2 className="text-cyan-400 font-retro text-xl border-b border-cyan-800 pb-3">{t('pause.graphics')}</h2>
+            <div className="flex items-center gap-4">
+              <label className="text-gray-300 text-sm w-32">{t('graphics.quality')}</label>
+              <div className="flex-1 flex gap-2">
+                {QUALITY_LEVELS.map(level => (
+                  <button key={level} onClick={() => { playSound('ui'); onSettingsChange({ ...settings, graphics: { ...graphics, quality: level } }); }} className={`flex-1 px-2 py-2 font-retro text-xs border ${graphics.quality === level ? 'border-cyan-400 bg-cyan-900 text-cyan-100' : 'border-gray-700 text-gray-400 hover:bg-gray-800'}`}>{t(`graphics.${level}`)}</button>
+                ))}
+              </div>
+            </div>
+            <label className="flex items-center gap-3 text-gray-300 text-sm cursor-pointer">
+              <input type="checkbox" checked={graphics.showPoolStats} onChange={e => onSettingsChange({ ...settings, graphics: { ...graphics, showPoolStats: e.target.checked } })} className="accent-cyan-400" /> {t('graphics.showPoolStats')}
+            </label>
+            {backButton}
+          </>
+        )}
+
+        {panel === 'abort' && (
+          <>
+            <h2 className="text-red-500 font-retro text-xl border-b border-red-900 pb-3">{t('abort.title')}</h2>
+            <p className="text-gray-300 text-sm leading-relaxed">
+              {t('abort.body')} {recoveredCores > 0 ? t('abort.recovery', { saved: recoveredCores, collected: coresCollected }) : t('abort.noRecovery')}
+            </p>
+            {menuButton(t('abort.confirm'), () => { playSound('ui'); onAbort(); }, 'red')}
+            {backButton}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PauseMenu;
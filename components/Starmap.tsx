@@ -0,0 +1,218 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { STARMAP } from '../constants';
+import { ControlSettings, InputAction, PlanetData, Vector2 } from '../types';
+import { cyclePlanet, findPlanetAt, getMoonPosition, getPlanetPosition, getRockPosition, getSystemLayout } from '../services/orbitService';
+import { formatKeyCode, readGamepad } from '../services/inputService';
+import { CLIMATE_LABELS } from '../services/planetGenerator';
+import { t } from '../services/i18n';
+
+interface StarmapProps {
+  planets: PlanetData[];
+  selected: number | null;
+  isWarping: boolean;
+  controls: ControlSettings; // Move left/right cycle planets, pause freezes the orbits
+  onSelect: (index: number) => void;
+}
+
+interface Camera { zoom: number; panX: number; panY: number; } // Pan in screen pixels from the canvas center
+
+const DRAG_THRESHOLD = 4; // Pixels a press may move and still count as a click
+const STICK_THRESHOLD = 0.5;
+
+const clampZoom = (zoom: number) => Math.min(STARMAP.MAX_ZOOM, Math.max(STARMAP.MIN_ZOOM, zoom));
+
+// The system around its star, zoomable and pannable. Orbit time only advances while not paused,
+// and drawing and picking read the same clock, so what is clicked is what is drawn.
+const Starmap: React.FC<StarmapProps> = ({ planets, selected, isWarping, controls, onSelect }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const layout = useMemo(() => getSystemLayout(planets), [planets]);
+  const cameraRef = useRef<Camera>({ zoom: 1, panX: 0, panY: 0 });
+  const orbitTimeRef = useRef(0);
+  const dragRef = useRef<{ x: number; y: number; panX: number; panY: number; moved: boolean } | null>(null);
+  const [paused, setPaused] = useState(false);
+  const [hover, setHover] = useState<{ index: number; x: number; y: number } | null>(null); // x/y in CSS pixels over the canvas
+
+  // Latest props for the listeners and the render loop, which are set up once
+  const stateRef = useRef({ planets, selected, isWarping, controls, onSelect, paused });
+  stateRef.current = { planets, selected, isWarping, controls, onSelect, paused };
+
+  const cycle = (step: 1 | -1) => { const s = stateRef.current; if (s.planets.length > 0 && !s.isWarping) s.onSelect(cyclePlanet(s.planets.length, s.selected, step)); };
+  const togglePause = () => setPaused(p => !p);
+
+  // Canvas pixel -> map units around the star
+  const toMap = (x: number, y: number): Vector2 => { const { zoom, panX, panY } = cameraRef.current; return { x: (x - STARMAP.WIDTH / 2 - panX) / zoom, y: (y - STARMAP.HEIGHT / 2 - panY) / zoom }; };
+  const toCanvas = (e: { clientX: number; clientY: number }) => {
+    const canvas = canvasRef.current!; const rect = canvas.getBoundingClientRect();
+    return { x: (e.clientX - rect.left) * (canvas.width / rect.width), y: (e.clientY - rect.top) * (canvas.height / rect.height), cssX: e.clientX - rect.left, cssY: e.clientY - rect.top };
+  };
+  const pickAt = (x: number, y: number) => findPlanetAt(layout, orbitTimeRef.current, toMap(x, y), STARMAP.PICK_RADIUS / cameraRef.current.zoom);
+
+  // Panning stops once the whole system would leave the view
+  const setCamera = (zoom: number, panX: number, panY: number) => {
+    const limit = layout.extent * zoom + Math.max(STARMAP.WIDTH, STARMAP.HEIGHT) / 2;
+    cameraRef.current = { zoom, panX: Math.max(-limit, Math.min(limit, panX)), panY: Math.max(-limit, Math.min(limit, panY)) };
+  };
+  // Zooms about a canvas point, keeping what is under it in place
+  const zoomAt = (factor: number, x: number = STARMAP.WIDTH / 2, y: number = STARMAP.HEIGHT / 2) => {
+    const anchor = toMap(x, y); const zoom = clampZoom(cameraRef.current.zoom * factor);
+    setCamera(zoom, x - STARMAP.WIDTH / 2 - anchor.x * zoom, y - STARMAP.HEIGHT / 2 - anchor.y * zoom);
+  };
+
+  useEffect(() => {
+    const canvas = canvasRef.current; const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    let animId: number; let last = performance.now(); let padButtons: boolean[] = []; let stickX = 0;
+    const render = (now: number) => {
+      const { planets, selected, isWarping, controls, paused } = stateRef.current;
+      if (!paused) orbitTimeRef.current += now - last;
+      last = now;
+      const time = orbitTimeRef.current; const clock = Date.now(); // Orbits follow the pausable clock; pulses and reticles keep moving
+      const w = canvas.width; const h = canvas.height; const cx = w / 2; const cy = h / 2;
+
+      // Gamepad: edges only, so holding a direction steps once
+      const pad = readGamepad(controls.deadZone);
+      const edge = (action: InputAction) => controls.gamepad[action].some(b => pad.buttons[b] && !padButtons[b]);
+      const stick = pad.moveX > STICK_THRESHOLD ? 1 : pad.moveX < -STICK_THRESHOLD ? -1 : 0;
+      if (edge('moveRight') || (stick === 1 && stickX !== 1)) cycle(1);
+      if (edge('moveLeft') || (stick === -1 && stickX !== -1)) cycle(-1);
+      if (edge('pause')) togglePause();
+      padButtons = pad.buttons; stickX = stick;
+
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.clearRect(0, 0, w, h);
+
+      if (isWarping) {
+        // WARP EFFECT
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.1)'; ctx.fillRect(0, 0, w, h);
+        ctx.strokeStyle = '#00ffff'; ctx.lineWidth = 2;
+        for (let i = 0; i < 50; i++) {
+          const x = Math.random() * w; const y = Math.random() * h;
+          ctx.beginPath(); ctx.moveTo(cx + (x - cx) * 0.1, cy + (y - cy) * 0.1); ctx.lineTo(x, y); ctx.stroke();
+        }
+        animId = requestAnimationFrame(render);
+        return;
+      }
+
+      // Grid (screen space, so it reads as the display rather than the system)
+      ctx.strokeStyle = 'rgba(0, 255, 255, 0.1)'; ctx.lineWidth = 1;
+      for (let x = 0; x < w; x += 40) { ctx.beginPath(); ctx.moveTo(x, 0); ctx.lineTo(x, h); ctx.stroke(); }
+      for (let y = 0; y < h; y += 40) { ctx.beginPath(); ctx.moveTo(0, y); ctx.lineTo(w, y); ctx.stroke(); }
+
+      const { zoom, panX, panY } = cameraRef.current;
+      ctx.setTransform(zoom, 0, 0, zoom, cx + panX, cy + panY);
+      const px = 1 / zoom; // One screen pixel in map units, for lines and labels that should not scale
+
+      // Sun
+      ctx.fillStyle = '#ffaa00'; ctx.shadowColor = '#ffaa00'; ctx.shadowBlur = 20;
+      ctx.beginPath(); ctx.arc(0, 0, 15, 0, Math.PI * 2); ctx.fill();
+      ctx.shadowBlur = 0;
+
+      // Asteroid belts
+      ctx.fillStyle = 'rgba(180, 160, 140, 0.7)';
+      layout.belts.forEach(belt => belt.rocks.forEach(rock => { const pos = getRockPosition(belt, rock, time); ctx.fillRect(pos.x, pos.y, rock.size, rock.size); }));
+
+      // Orbit lines, then planets with their moons
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.1)'; ctx.lineWidth = px;
+      layout.orbits.forEach(orbit => { ctx.beginPath(); ctx.arc(0, 0, orbit.radius, 0, Math.PI * 2); ctx.stroke(); });
+
+      layout.moons.forEach(moon => { const pos = getMoonPosition(layout, moon, time); ctx.fillStyle = '#aaaaaa'; ctx.beginPath(); ctx.arc(pos.x, pos.y, moon.size, 0, Math.PI * 2); ctx.fill(); });
+
+      layout.orbits.forEach((orbit, idx) => {
+        const p = planets[idx]; const pos = getPlanetPosition(orbit, time); const isSelected = idx === selected;
+        ctx.fillStyle = p.atmosphereColor;
+        if (isSelected) { ctx.shadowColor = '#ffffff'; ctx.shadowBlur = 15; ctx.strokeStyle = '#fff'; ctx.lineWidth = 2 * px; }
+        ctx.beginPath(); ctx.arc(pos.x, pos.y, orbit.size / 2, 0, Math.PI * 2); ctx.fill();
+        if (isSelected) ctx.stroke();
+        ctx.shadowBlur = 0;
+        if (!isSelected) return;
+
+        // Selection reticle and name tag, kept at screen size
+        const size = orbit.size / 2 + 15 * px;
+        ctx.save(); ctx.translate(pos.x, pos.y); ctx.rotate(clock * 0.002); ctx.strokeStyle = '#00ff00'; ctx.lineWidth = 2 * px;
+        ctx.beginPath(); ctx.arc(0, 0, size, 0, Math.PI * 0.5); ctx.stroke(); ctx.beginPath(); ctx.arc(0, 0, size, Math.PI, Math.PI * 1.5); ctx.stroke();
+        ctx.restore();
+        ctx.strokeStyle = '#00ff00'; ctx.lineWidth = px;
+        ctx.beginPath(); ctx.moveTo(pos.x + 10 * px, pos.y - 10 * px); ctx.lineTo(pos.x + 20 * px, pos.y - 20 * px); ctx.lineTo(pos.x + 60 * px, pos.y - 20 * px); ctx.stroke();
+        ctx.fillStyle = '#00ff00'; ctx.font = `${14 * px}px monospace`; ctx.fillText(p.name, pos.x + 22 * px, pos.y - 25 * px);
+      });
+
+      animId = requestAnimationFrame(render);
+    };
+    animId = requestAnimationFrame(render);
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const { keyboard } = stateRef.current.controls;
+      if (keyboard.moveRight.includes(e.code)) cycle(1);
+      else if (keyboard.moveLeft.includes(e.code)) cycle(-1);
+      else if (keyboard.pause.includes(e.code)) togglePause();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => { cancelAnimationFrame(animId); window.removeEventListener('keydown', handleKeyDown); };
+  }, [layout]);
+
+  // A planet swapped under the camera (new sector) starts from the default view
+  useEffect(() => { cameraRef.current = { zoom: 1, panX: 0, panY: 0 }; setHover(null); }, [layout]);
+
+  const handleWheel = (e: React.WheelEvent<HTMLCanvasElement>) => { const { x, y } = toCanvas(e); zoomAt(e.deltaY < 0 ? STARMAP.ZOOM_STEP : 1 / STARMAP.ZOOM_STEP, x, y); };
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => { const { x, y } = toCanvas(e); dragRef.current = { x, y, panX: cameraRef.current.panX, panY: cameraRef.current.panY, moved: false }; };
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const { x, y, cssX, cssY } = toCanvas(e); const drag = dragRef.current;
+    if (drag) {
+      if (Math.hypot(x - drag.x, y - drag.y) > DRAG_THRESHOLD) drag.moved = true;
+      if (drag.moved) { setCamera(cameraRef.current.zoom, drag.panX + x - drag.x, drag.panY + y - drag.y); setHover(null); return; }
+    }
+    const index = isWarping ? null : pickAt(x, y);
+    setHover(index === null ? null : { index, x: cssX, y: cssY });
+  };
+
+  const handleMouseUp = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current; dragRef.current = null;
+    if (!drag || drag.moved || isWarping) return;
+    const { x, y } = toCanvas(e); const index = pickAt(x, y);
+    if (index !== null) onSelect(index);
+  };
+
+  const hovered = hover && planets[hover.index];
+  const buttonClass = 'px-2 py-1 text-[10px] font-retro border border-cyan-800 bg-black/70 text-cyan-300 hover:bg-cyan-900';
+
+  return (
+    <div className="relative w-full h-full">
+      <canvas
+        ref={canvasRef}
+        width={STARMAP.WIDTH}
+        height={STARMAP.HEIGHT}
+        className={`w-full h-full ${hover ? 'cursor-pointer' : 'cursor-crosshair'}`}
+        onWheel={handleWheel}
+        onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+        onMouseUp={handleMouseUp}
+        onMouseLeave={() => { dragRef.current = null; setHover(null); }}
+      />
+
+      {hovered && (
+        <div className="absolute pointer-events-none bg-black/80 border border-cyan-700 px-2 py-1 font-mono text-xs text-cyan-200 whitespace-nowrap" style={{ left: hover!.x + 14, top: hover!.y + 14 }}>
+          <div className="text-green-400">{hovered.name}</div>
+          <div className="text-gray-400">{t(CLIMATE_LABELS[hovered.climate])} // {t('planet.threatLevel', { level: hovered.enemyDensity })}</div>
+          <div className="text-gray-500">{t('starmap.moons', { count: layout.moons.filter(m => m.planet === hover!.index).length })}</div>
+        </div>
+      )}
+
+      {!isWarping && (
+        <div className="absolute top-3 left-3 flex flex-col items-start gap-2">
+          <div className="flex gap-1">
+            <button onClick={togglePause} className={buttonClass}>{paused ? t('starmap.resume') : t('starmap.pause')}</button>
+            <button onClick={() => zoomAt(STARMAP.ZOOM_STEP)} className={buttonClass}>+</button>
+            <button onClick={() => zoomAt(1 / STARMAP.ZOOM_STEP)} className={buttonClass}>-</button>
+            <button onClick={() => { cameraRef.current = { zoom: 1, panX: 0, panY: 0 }; }} className={buttonClass}>{t('starmap.resetView')}</button>
+          </div>
+          <div className="text-[10px] font-mono text-gray-600">{t('starmap.hint', { prev: formatKeyCode(controls.keyboard.moveLeft[0] || ''), next: formatKeyCode(controls.keyboard.moveRight[0] || ''), pause: formatKeyCode(controls.keyboard.pause[0] || '') })}</div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Starmap;
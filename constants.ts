@@ -1,9 +1,55 @@
-import { WeaponStats, WeaponType } from "./types";
+import { AccessibilitySettings, AudioSettings, BiomeStyle, ClimateDef, ControlSettings, GraphicsSettings, HazardType, ModSlot, PlanetClimate, PlanetProviderId, PlayerUpgrades, QualityPreset, QualitySettings, StatusEffectDef, StatusEffectId, WeaponModDef, WeaponModId, WeaponStats, WeaponType, WeatherType } from "./types";
 
 // LOGICAL DIMENSIONS (Used for generation scale references, not fixed rendering)
 export const CANVAS_WIDTH = 800;
 export const CANVAS_HEIGHT = 600;
 
+// Level geometry: the terrain is a heightmap with one sample every SEGMENT_WIDTH px
+export const WORLD = {
+  SEGMENT_WIDTH: 50,
+  SEGMENTS: 350, // Level length; only the chunks around the player are kept in memory
+  CHUNK_LENGTH: 80, // Segments per chunk: one biome, generated and dropped as a unit
+};
+
+export const STREAMING = {
+  AHEAD: 1, // Chunks generated past the one the player is in
+  BEHIND: 1, // Chunks kept behind it before being dropped
+  HASH_CELL: 128, // Spatial hash cell size for entity queries
+  HASH_PADDING: 32, // Spatial hash entries are grown by this much: more than an enemy or platform moves in a step
+};
+
+// What a planet's climate decides in level generation (its guardian comes from engine/boss/variants.ts)
+export const CLIMATES: Record<PlanetClimate, ClimateDef> = {
+  volcanic: { poolHazard: 'lava', icySpires: false, sky: 'hot' },
+  toxic: { poolHazard: 'acid', icySpires: false, sky: 'toxic' },
+  ice: { poolHazard: 'none', icySpires: true, sky: 'cold' },
+  desert: { poolHazard: 'none', icySpires: false, sky: 'hot' },
+  void: { poolHazard: 'none', icySpires: false, sky: 'cold' },
+};
+
+// Craters carved by player explosions. Depth is scaled down by the hardness of the biome underneath.
+export const CRATER = {
+  RADIUS: 75,
+  DEPTH: 60,
+  BEDROCK_Y: CANVAS_HEIGHT - 20, // Lowest the ground can be dug
+  BURY_DEPTH: 30, // Cache tops sit this far under the surface
+  CACHE_CHANCE: 0.6, // Odds of a buried cache in each chunk
+};
+
+export const GROUND_HARDNESS: Record<BiomeStyle, number> = {
+  dunes: 0.1, // Loose sand
+  plateau: 0.4,
+  crags: 0.6,
+  spire: 0.8, // Crystal
+};
+
+export const PLATFORM = {
+  ONE_WAY_THICKNESS: 14,
+  SPAWN_CLEARANCE: 600, // No geometry over the landing zone
+  CORE_CLEARANCE: 200, // Cores and their guards stay on open ground
+  PER_CHUNK: 6, // Placement attempts per terrain chunk
+};
+
 export const PHYSICS = {
   GRAVITY: 0.5,
   FRICTION: 0.92,       // Increased for snappy ground movement (was 0.85)
@@ -16,46 +62,151 @@ export const PHYSICS = {
   MAX_SPEED: 6,
   PROJECTILE_SPEED: 10,
   RECOIL: 1.5, 
-  COYOTE_FRAMES: 8,     // Forgiveness frames for jumping
-  INVULNERABILITY_FRAMES: 60, // 1 Second of I-Frames (was ~10)
+  COYOTE_TICKS: 8,     // Forgiveness ticks for jumping
+  INVULNERABILITY_TICKS: 60, // 1 Second of I-Frames (was ~10)
+};
+
+// Fixed-step simulation: gameplay advances in ticks of constant length whatever the display refresh rate.
+// PHYSICS values and every gameplay timer are expressed per tick.
+export const SIMULATION = {
+  TICK_RATE: 60,
+  TICK_MS: 1000 / 60,
+  MAX_FRAME_MS: 250,      // Longer stalls (background tab, debugger) are dropped instead of caught up
+  MAX_TICKS_PER_FRAME: 8, // Spiral-of-death guard on slow devices
 };
 
 export const ENTITY_SIZE = {
-  PLAYER: { x: 32, y: 32 },
-  CRAWLER: { x: 32, y: 24 },
-  SENTINEL: { x: 28, y: 40 },
-  DASHER: { x: 48, y: 32 },
-  HORNET: { x: 24, y: 24 },
-  NEUTRAL: { x: 20, y: 16 }, // Small critter
-  GUARDIAN: { x: 80, y: 80 }, 
-  SANDWORM: { x: 40, y: 80 },
-  SHIELDER: { x: 32, y: 40 },
-  SPORE: { x: 24, y: 24 },
+  PLAYER: { x: 32, y: 32 }, // Enemy sizes live in their archetype definitions (engine/archetypes)
   PROJECTILE: { x: 8, y: 4 },
   ENEMY_PROJECTILE: { x: 6, y: 6 },
+  SHOCKWAVE: { x: 28, y: 18 },
   LOOT: { x: 16, y: 16 },
   WEAPON_DROP: { x: 24, y: 24 },
   HEALTH_DROP: { x: 16, y: 16 },
-};
-
-export const ENEMY_STATS = {
-  CRAWLER: { hp: 20, speed: 1.5, score: 30, aggroRange: 300 },
-  SENTINEL: { hp: 15, speed: 1.0, score: 60, range: 400, aggroRange: 500 }, 
-  DASHER: { hp: 35, speed: 0.8, dashSpeed: 8, score: 100, aggroRange: 350 }, 
-  HORNET: { hp: 10, speed: 2.2, score: 40, aggroRange: 400 }, 
-  NEUTRAL: { hp: 5, speed: 0.5, score: 5, aggroRange: 0 }, // Passive
-  GUARDIAN: { hp: 500, speed: 1.5, score: 5000, aggroRange: 9999 },
-  SANDWORM: { hp: 60, speed: 0, score: 150, aggroRange: 300 },
-  SHIELDER: { hp: 40, speed: 0.8, score: 80, aggroRange: 400 },
-  SPORE: { hp: 10, speed: 0, score: 20, aggroRange: 150 }
+  MOD_DROP: { x: 14, y: 14 },
+  AMMO_DROP: { x: 16, y: 12 },
 };
 
 export const INITIAL_PLAYER_STATS = {
   health: 100,
   maxHealth: 100,
-  ammo: 50,
+  ammo: 50, // Percent of a full gun a weapon drop comes loaded with (the loadout gun starts full)
+};
+
+export const AMMO_PICKUP_SHARE = 0.5; // Share of a full gun an ammo crate restores to every carried gun
+
+// Campaign start
+export const STARTING_CORES = 5; // Increased to 5 for better early game balance
+export const CORE_RECOVERY_RATE = 0.5; // Share of collected cores kept when a mission fails or is aborted
+
+// Planetary scans: readings are shown as bands (below LOW is low, below HIGH moderate) until a probe, bought for PROBE_COST cores, returns exact data
+export const SCAN = { PROBE_COST: 2, LOW: 0.34, HIGH: 0.67 };
+
+// Planets from any source are clamped to these ranges (services/planetSchema.ts)
+export const PLANET_LIMITS = {
+  GRAVITY: [0.5, 1.5],
+  ENEMY_DENSITY: [1, 10],
+  NAME_LENGTH: 40,
+  DESCRIPTION_LENGTH: 400,
+  MIN_PLANETS: 3, // Planets per star system
+  MAX_PLANETS: 5,
+};
+
+// Remote planet sources get TIMEOUT_MS before the procedural generator stands in; CACHE_SIZE systems are kept per session
+export const PLANET_PROVIDER = { TIMEOUT_MS: 15000, CACHE_SIZE: 32 };
+
+// Galaxy map: sectors are placed in a WIDTH x HEIGHT plane at least MIN_SPACING apart.
+// Every sector links to its NEAREST_LANES closest neighbours; a jump costs one core per CORE_DISTANCE (at least one).
+export const GALAXY = {
+  SECTORS: 14,
+  WIDTH: 600,
+  HEIGHT: 400,
+  MARGIN: 40,
+  MIN_SPACING: 80,
+  NEAREST_LANES: 2,
+  CORE_DISTANCE: 110,
+};
+
+// System starmap, in map units around the star. Zoom is clamped to [MIN_ZOOM, MAX_ZOOM]; PICK_RADIUS is in screen pixels.
+// Planets get up to MAX_MOONS moons; a system has an asteroid belt past its outermost orbit with BELT_CHANCE.
+export const STARMAP = {
+  WIDTH: 600,
+  HEIGHT: 400,
+  MIN_ZOOM: 0.5,
+  MAX_ZOOM: 4,
+  ZOOM_STEP: 1.25,
+  PICK_RADIUS: 24,
+  MAX_MOONS: 2,
+  BELT_CHANCE: 0.6,
+  BELT_GAP: 35, // Belt distance past the outermost orbit
+  BELT_ROCKS: 90,
 };
 
+export const INITIAL_UPGRADES: PlayerUpgrades = {
+  hull: 1,
+  weapon: 1,
+  thrusters: 1,
+  speed: 1
+};
+
+// Default control scheme. Aim follows the mouse or the right stick; movement also reads the left stick.
+export const DEFAULT_CONTROLS: ControlSettings = {
+  keyboard: {
+    moveLeft: ["ArrowLeft", "KeyA"],
+    moveRight: ["ArrowRight", "KeyD"],
+    jump: ["Space", "KeyW", "ArrowUp"],
+    jetpack: ["ShiftLeft"],
+    fire: ["Mouse0", "KeyX", "KeyJ"],
+    lookDown: ["ArrowDown", "KeyS"],
+    pause: ["Escape", "KeyP"],
+    swapWeapon: ["KeyQ"],
+  },
+  gamepad: {
+    moveLeft: [14],   // D-pad left
+    moveRight: [15],  // D-pad right
+    jump: [0],        // A
+    jetpack: [6, 4],  // LT, LB
+    fire: [7, 5],     // RT, RB
+    lookDown: [13],   // D-pad down
+    pause: [9],       // Start
+    swapWeapon: [3],  // Y
+  },
+  deadZone: 0.2,
+};
+
+// Positional audio: full volume within NEAR px of the player, silent past FAR; PAN_WIDTH px to the side is hard left/right
+export const AUDIO_SPATIAL = {
+  NEAR: 200,
+  FAR: 1400,
+  PAN_WIDTH: 700,
+};
+
+export const DEFAULT_AUDIO: AudioSettings = {
+  master: 1,
+  muted: false,
+  buses: {
+    sfx: { volume: 1, muted: false },
+    ui: { volume: 0.8, muted: false },
+    ambience: { volume: 0.7, muted: false },
+    music: { volume: 0.5, muted: false },
+  },
+};
+
+export const DEFAULT_ACCESSIBILITY: AccessibilitySettings = { screenShake: 1, reduceFlashing: false };
+
+export const QUALITY_PRESETS: Record<QualityPreset, QualitySettings> = {
+  low: { particles: 150, weatherParticles: 80, texts: 12, lighting: false },
+  medium: { particles: 400, weatherParticles: 200, texts: 24, lighting: true },
+  high: { particles: 1000, weatherParticles: 400, texts: 40, lighting: true },
+};
+
+export const DEFAULT_GRAPHICS: GraphicsSettings = { quality: 'high', showPoolStats: false };
+
+export const DEFAULT_PLANET_PROVIDER: PlanetProviderId = 'procedural';
+
+// Objects created up front for each pool, so the first fights and storms don't allocate
+export const POOL_PREALLOCATE = { particles: 256, weatherParticles: 128, texts: 16, projectiles: 64 };
+
 export const WEAPONS: Record<WeaponType, WeaponStats> = {
   blaster: {
     name: "BLASTER",
@@ -77,7 +228,8 @@ export const WEAPONS: Record<WeaponType, WeaponStats> = {
     spread: 0.3,
     recoil: 8,
     color: "#ffaa00",
-    knockback: 6 // Heavy knockback
+    knockback: 6, // Heavy knockback
+    ammo: 24
   },
   rapid: {
     name: "PULSE",
@@ -88,7 +240,8 @@ export const WEAPONS: Record<WeaponType, WeaponStats> = {
     spread: 0.15,
     recoil: 0.5,
     color: "#aa00ff",
-    knockback: 0.5 // Minimal knockback
+    knockback: 0.5, // Minimal knockback
+    ammo: 120
   },
   sniper: {
     name: "MAGNUM",
@@ -100,7 +253,8 @@ export const WEAPONS: Record<WeaponType, WeaponStats> = {
     recoil: 5,
     color: "#ff0000",
     pierce: 3,
-    knockback: 8 // Very heavy knockback
+    knockback: 8, // Very heavy knockback
+    ammo: 16
   },
   launcher: {
     name: "GRENADE",
@@ -113,8 +267,52 @@ export const WEAPONS: Record<WeaponType, WeaponStats> = {
     color: "#00ff00",
     gravity: 0.2,
     isExplosive: true,
-    knockback: 10 // Explosive knockback
+    statusEffect: 'burning',
+    knockback: 10, // Explosive knockback
+    ammo: 12
   }
 };
 
+export const MOD_SLOTS: ModSlot[] = ['barrel', 'magazine', 'payload'];
+
+// One mod per slot and gun. Multipliers apply before additions; see engine/weapons.ts
+export const WEAPON_MODS: Record<WeaponModId, WeaponModDef> = {
+  // Barrel: shot pattern
+  choke: { slot: 'barrel', cost: 4, color: "#66ccff", mult: { spread: 0.4, speed: 1.15 } },
+  wideBore: { slot: 'barrel', cost: 6, color: "#ffaa00", mult: { spread: 1.6, damageMult: 0.8 }, add: { count: 2 } },
+  rifling: { slot: 'barrel', cost: 6, color: "#ff4444", mult: { speed: 1.3 }, add: { pierce: 1 } },
+  // Magazine: rate of fire and handling
+  hairTrigger: { slot: 'magazine', cost: 5, color: "#aa00ff", mult: { fireRate: 0.75, recoil: 1.3 } },
+  heavyRounds: { slot: 'magazine', cost: 5, color: "#cccccc", mult: { damageMult: 1.3, fireRate: 1.2 }, add: { knockback: 2 } },
+  stabilizer: { slot: 'magazine', cost: 3, color: "#00ffcc", mult: { recoil: 0.3, spread: 0.7 } },
+  // Payload: what the projectile does on hit
+  explosive: { slot: 'payload', cost: 10, color: "#00ff00", mult: { damageMult: 0.7, fireRate: 1.3 }, set: { isExplosive: true } },
+  mortar: { slot: 'payload', cost: 6, color: "#88ff44", mult: { damageMult: 1.4 }, add: { knockback: 3 }, set: { gravity: 0.25 } },
+  sabot: { slot: 'payload', cost: 7, color: "#ffd700", add: { pierce: 2 } },
+  incendiary: { slot: 'payload', cost: 8, color: "#ff6600", mult: { damageMult: 0.9 }, set: { statusEffect: 'burning', statusChance: 0.5 } },
+  cryo: { slot: 'payload', cost: 8, color: "#99eeff", mult: { damageMult: 0.9 }, set: { statusEffect: 'frozen', statusChance: 0.35 } },
+  arc: { slot: 'payload', cost: 9, color: "#ffff66", mult: { damageMult: 0.8 }, set: { statusEffect: 'shocked', statusChance: 0.25 } },
+};
+
+// --- Status Effects ---
+export const STATUS_EFFECTS: Record<StatusEffectId, StatusEffectDef> = {
+  burning: { duration: 90, maxStacks: 3, tickEvery: 20, damage: 2, cancels: ['frozen'], color: "#ff6600" },
+  corroded: { duration: 240, maxStacks: 5, tickEvery: 60, damage: 1, damageTakenMult: 0.1, color: "#66ff00" },
+  shocked: { duration: 20, maxStacks: 1, tickEvery: 40, damage: 8, speedMult: 0.4, stun: true, color: "#00ffff" },
+  frozen: { duration: 120, maxStacks: 1, tickEvery: 0, damage: 0, speedMult: 0.35, cancels: ['burning'], color: "#99eeff" },
+  slowed: { duration: 60, maxStacks: 1, tickEvery: 0, damage: 0, speedMult: 0.6, color: "#8888aa" },
+};
+
+// Hazards and weather apply their effect every `every` ticks while the entity is exposed
+export const HAZARD_STATUS: Partial<Record<HazardType, { effect: StatusEffectId; every: number }>> = {
+  lava: { effect: 'burning', every: 20 },
+  acid: { effect: 'corroded', every: 30 },
+  electric: { effect: 'shocked', every: 40 },
+};
+
+export const WEATHER_STATUS: Partial<Record<WeatherType, { effect: StatusEffectId; every: number }>> = {
+  acid_rain: { effect: 'corroded', every: 120 }, // Only while the storm is past half intensity
+  snow: { effect: 'slowed', every: 60 },
+};
+
 export const HEALTH_DROP_SIZE = 16;
\ No newline at end of file
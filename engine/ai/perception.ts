@@ -0,0 +1,35 @@
+import { Entity } from '../../types';
+import { getGroundHeightAt } from '../physics';
+import { isInsideSolid } from '../platforms';
+import { queryRadius } from '../spatialHash';
+import { World } from '../world';
+
+const LOS_STEP = 16; // World units between terrain samples
+
+// True when the segment between the two points never dips below the terrain surface or cuts through solid rock
+export const hasLineOfSight = (world: World, x1: number, y1: number, x2: number, y2: number) => {
+  const steps = Math.ceil(Math.hypot(x2 - x1, y2 - y1) / LOS_STEP);
+  for (let i = 1; i < steps; i++) {
+    const t = i / steps; const x = x1 + (x2 - x1) * t; const y = y1 + (y2 - y1) * t;
+    if (y > getGroundHeightAt(world.terrain, x) || isInsideSolid(world, x, y)) return false;
+  }
+  return true;
+};
+
+// Within range and not hidden behind a hill (eye at the top of the body, target at the player's centre)
+export const canSeePlayer = (world: World, ent: Entity, range: number) => {
+  const { player } = world;
+  const px = player.pos.x + player.size.x / 2; const py = player.pos.y + player.size.y / 2;
+  const ex = ent.pos.x + ent.size.x / 2; const ey = ent.pos.y + 4;
+  if (Math.hypot(px - ex, py - ey) > range) return false;
+  return hasLineOfSight(world, ex, ey, px, py);
+};
+
+export const isHurt = (ent: Entity, threshold: number) => ent.health < ent.maxHealth * threshold;
+
+const pack: Entity[] = []; // Query buffer for alertPack
+
+// Group alert: idle enemies within `radius` are pulled into the alert state (their machine runs the enter hook next tick)
+export const alertPack = (world: World, ent: Entity, radius: number) => {
+  queryRadius(world.enemyGrid, ent.pos.x, ent.pos.y, radius, pack).forEach(other => { if (other !== ent && other.aiState === 'idle' && Math.hypot(other.pos.x - ent.pos.x, other.pos.y - ent.pos.y) < radius) other.aiState = 'alert'; });
+};
@@ -0,0 +1,50 @@
+import { AiStateId, Entity } from '../../types';
+import { World } from '../world';
+
+// --- Enemy State Machines ---
+// A machine is plain data: per-state enter/update/exit hooks plus an ordered transition list.
+// State lives on the entity (aiState, stateTimer), so machines are shared by every enemy of an archetype.
+
+export interface AiContext {
+  distToPlayer: number;
+  groundY: number;
+  dt: number;
+}
+
+export type AiHook = (world: World, ent: Entity, ctx: AiContext) => void;
+
+export interface AiState {
+  enter?: AiHook;
+  update?: AiHook;
+  exit?: AiHook;
+}
+
+export interface AiTransition {
+  from: AiStateId[] | '*';
+  to: AiStateId;
+  when: (world: World, ent: Entity, ctx: AiContext) => boolean;
+}
+
+export interface StateMachine {
+  initial: AiStateId;
+  states: Partial<Record<AiStateId, AiState>>;
+  transitions: AiTransition[]; // Checked in order, the first match wins (one transition per tick)
+}
+
+const switchState = (machine: StateMachine, world: World, ent: Entity, ctx: AiContext, to: AiStateId) => {
+  const from = ent.aiActiveState;
+  if (from) machine.states[from]?.exit?.(world, ent, ctx);
+  ent.aiState = to; ent.aiActiveState = to; ent.stateTimer = 0;
+  machine.states[to]?.enter?.(world, ent, ctx);
+};
+
+// One AI tick. aiState may also be set from outside (e.g. when the enemy is shot): the change
+// is picked up here, running the exit/enter hooks as for a regular transition.
+export const runStateMachine = (machine: StateMachine, world: World, ent: Entity, ctx: AiContext) => {
+  const requested = ent.aiState && machine.states[ent.aiState] ? ent.aiState : machine.initial;
+  if (ent.aiActiveState !== requested) switchState(machine, world, ent, ctx, requested);
+  const transition = machine.transitions.find(t => t.to !== ent.aiState && (t.from === '*' || t.from.includes(ent.aiState!)) && t.when(world, ent, ctx));
+  if (transition) switchState(machine, world, ent, ctx, transition.to);
+  ent.stateTimer = (ent.stateTimer || 0) + ctx.dt;
+  machine.states[ent.aiState!]?.update?.(world, ent, ctx);
+};
@@ -0,0 +1,40 @@
+import { spawnFloatingText } from '../spawning';
+import { alertPack, canSeePlayer, isHurt } from './perception';
+import { AiState, AiTransition } from './stateMachine';
+
+// --- Shared States & Transitions ---
+// Building blocks the archetype machines are assembled from.
+
+const ALERT_TICKS = 40;
+const PACK_ALERT_RADIUS = 250;
+
+export const wanderState: AiState = {
+  update: (world, ent) => { if (Math.abs(ent.vel.x) < 0.5 && world.rng.next() < 0.05) { ent.vel.x = (world.rng.next() - 0.5) * 2; } },
+};
+
+// "!" pause before attacking. Only an enemy that sees the player itself calls in its pack, so alerts don't chain across the level.
+export const alertState = (aggroRange: number): AiState => ({
+  enter: (world, ent) => {
+    ent.alertTimer = ALERT_TICKS; spawnFloatingText(world, ent.pos.x, ent.pos.y - 20, { key: 'float.alert' }, "#ff0000");
+    if (canSeePlayer(world, ent, aggroRange)) alertPack(world, ent, PACK_ALERT_RADIUS);
+  },
+  update: (world, ent, ctx) => { ent.vel.x *= 0.8; ent.alertTimer = (ent.alertTimer || 0) - ctx.dt; },
+});
+
+// Backs away from the player at `accel` per tick
+export const fleeState = (accel: number): AiState => ({
+  update: (world, ent, ctx) => { ent.vel.x += (world.player.pos.x < ent.pos.x ? 1 : -1) * (accel * ctx.dt); },
+});
+
+// idle -> alert on sight, alert -> chase when the pause ends, back to idle once the player is well out of range
+export const awarenessTransitions = (aggroRange: number): AiTransition[] => [
+  { from: ['idle'], to: 'alert', when: (world, ent) => canSeePlayer(world, ent, aggroRange) },
+  { from: ['alert'], to: 'chase', when: (world, ent) => (ent.alertTimer || 0) <= 0 },
+  { from: ['chase', 'flank', 'charge', 'flee'], to: 'idle', when: (world, ent, ctx) => ctx.distToPlayer > aggroRange * 1.5 },
+];
+
+// Hit and run: below `hurtBelow` of max health, break off after `cooldown` ticks of fighting and flee for `fleeTicks`
+export const retreatTransitions = (hurtBelow: number, fleeTicks: number, cooldown: number = 120): AiTransition[] => [
+  { from: ['chase', 'flank'], to: 'flee', when: (world, ent) => isHurt(ent, hurtBelow) && (ent.stateTimer || 0) > cooldown },
+  { from: ['flee'], to: 'chase', when: (world, ent) => (ent.stateTimer || 0) > fleeTicks },
+];
@@ -0,0 +1,29 @@
+import { alertState, awarenessTransitions, fleeState, retreatTransitions, wanderState } from '../ai/states';
+import { ArchetypeDefinition, EnemyStats } from './types';
+
+const stats: EnemyStats = { hp: 20, speed: 1.5, score: 30, aggroRange: 300 };
+
+// Segmented ground bug: rushes the player in packs, scuttles off when badly hurt, and hops small ledges
+export const crawler: ArchetypeDefinition = {
+  stats,
+  size: { x: 32, y: 24 },
+  spawnWeight: 0.30,
+  placement: 'ground',
+  ai: {
+    initial: 'idle',
+    states: {
+      idle: wanderState,
+      alert: alertState(stats.aggroRange),
+      chase: { update: (world, ent, { dt }) => { if (Math.abs(ent.vel.x) < 2) ent.vel.x += (world.player.pos.x < ent.pos.x ? -1 : 1) * (0.2 * dt); } },
+      flee: fleeState(0.2),
+    },
+    transitions: [...awarenessTransitions(stats.aggroRange), ...retreatTransitions(0.35, 90)],
+  },
+  update: (world, ent, distToPlayer, groundY) => {
+    if (ent.isGrounded && Math.abs(groundY - (ent.pos.y + ent.size.y)) > 20) ent.vel.y = -8;
+  },
+  render: (ctx, e, world) => {
+    const { x, y } = e.pos; const w = e.size.x; const h = e.size.y;
+    const segs = 3; const segW = w / segs; for(let i=0; i<segs; i++) { const bob = Math.sin(world.tick * 0.5 + i + e.animOffset) * 2; ctx.beginPath(); ctx.arc(x + segW/2 + (i*segW), y + h/2 + bob, segW/2, 0, Math.PI*2); ctx.fill(); ctx.stroke(); ctx.beginPath(); const legAngle = Math.sin(world.tick * 0.8 + i) * 0.5; ctx.moveTo(x + segW/2 + (i*segW), y + h/2 + bob); ctx.lineTo(x + segW/2 + (i*segW) + Math.sin(legAngle)*10, y + h); ctx.stroke(); }
+  },
+};
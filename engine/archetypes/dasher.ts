@@ -0,0 +1,41 @@
+import { spawnParticles } from '../spawning';
+import { alertState, awarenessTransitions, fleeState, retreatTransitions, wanderState } from '../ai/states';
+import { ArchetypeDefinition, EnemyStats } from './types';
+
+const stats: EnemyStats = { hp: 35, speed: 0.8, dashSpeed: 8, score: 100, aggroRange: 350 };
+
+// Heavy charger: winds up when close, then dashes through the player; backs off to recover when hurt
+export const dasher: ArchetypeDefinition = {
+  stats,
+  size: { x: 48, y: 32 },
+  spawnWeight: 0.10,
+  placement: 'ground',
+  ai: {
+    initial: 'idle',
+    states: {
+      idle: wanderState,
+      alert: alertState(stats.aggroRange),
+      chase: { update: (world, ent, { dt }) => { if (Math.abs(ent.vel.x) < 2) ent.vel.x += (world.player.pos.x < ent.pos.x ? -1 : 1) * (0.1 * dt); } },
+      // Wind-up shake for attackTimer ticks, then full-speed dash towards the player
+      charge: {
+        enter: (world, ent) => { ent.attackTimer = 30; spawnParticles(world, ent.pos.x, ent.pos.y, '#ffffff', 5); },
+        update: (world, ent, { dt }) => { if (ent.attackTimer && ent.attackTimer > 0) { ent.attackTimer -= dt; ent.pos.x += world.rng.next() * 2 - 1; } else { ent.vel.x = (world.player.pos.x < ent.pos.x ? -1 : 1) * (stats.dashSpeed || 8); } },
+      },
+      flee: fleeState(0.1),
+    },
+    transitions: [
+      ...awarenessTransitions(stats.aggroRange),
+      ...retreatTransitions(0.4, 120),
+      { from: ['chase'], to: 'charge', when: (world, ent, ctx) => ctx.distToPlayer < 300 },
+      { from: ['charge'], to: 'chase', when: (world, ent, ctx) => (!ent.attackTimer || ent.attackTimer <= 0) && (Math.abs(ent.vel.x) < 1 || ctx.distToPlayer > 450) },
+    ],
+  },
+  maxSpeed: (ent) => ent.aiState === 'charge' ? stats.dashSpeed : undefined,
+  render: (ctx, e) => {
+    const { x, y } = e.pos; const w = e.size.x; const h = e.size.y;
+    const chargeShake = e.aiState === 'charge' ? (Math.random() * 4 - 2) : 0; ctx.beginPath(); ctx.arc(x + w/2 + chargeShake, y + h/2, w/2, Math.PI, 0); ctx.lineTo(x + w + chargeShake, y + h); ctx.lineTo(x + chargeShake, y + h); ctx.fill(); ctx.stroke();
+    ctx.fillStyle = '#dddddd'; ctx.beginPath(); if (e.facingRight) { ctx.moveTo(x + w - 5 + chargeShake, y + h/2); ctx.lineTo(x + w + 10 + chargeShake, y + h/2 - 5); ctx.lineTo(x + w - 5 + chargeShake, y + h/2 + 5); } else { ctx.moveTo(x + 5 + chargeShake, y + h/2); ctx.lineTo(x - 10 + chargeShake, y + h/2 - 5); ctx.lineTo(x + 5 + chargeShake, y + h/2 + 5); } ctx.fill();
+    ctx.fillStyle = e.aiState === 'charge' ? '#ff0000' : '#ffff00'; const eyeX = e.facingRight ? x + w - 15 : x + 10; ctx.fillRect(eyeX + chargeShake, y + h/2 + 5, 5, 5);
+  },
+  lights: (e) => [{ x: e.pos.x + (e.facingRight ? e.size.x - 5 : 5), y: e.pos.y + 10, radius: 25, color: e.color, intensity: 0.5 }],
+};
@@ -0,0 +1,91 @@
+import { AiStateId, Entity } from '../../types';
+import { AiState } from '../ai/stateMachine';
+import { BOSS_ATTACKS } from '../boss/attacks';
+import { BossPhase, getGuardianVariant } from '../boss/variants';
+import { getGroundHeightAt } from '../physics';
+import { addScreenshake, spawnFloatingText, spawnParticles } from '../spawning';
+import { World, emit } from '../world';
+import { ArchetypeDefinition } from './types';
+
+export const GUARDIAN_PHASES = 3;
+const PHASE_TEMPO: Record<BossPhase, number> = { 1: 1, 2: 0.8, 3: 0.6 }; // Recovery multiplier, the guardian speeds up as it breaks
+const PHASE_STATES: Record<BossPhase, AiStateId> = { 1: 'phase1', 2: 'phase2', 3: 'phase3' };
+
+export const guardianPhase = (ent: Entity): BossPhase => ent.aiState === 'phase3' ? 3 : ent.aiState === 'phase2' ? 2 : 1;
+
+// Shell hits are mostly absorbed; hits on the core while it is exposed (attack wind-up) deal double damage
+const isCoreExposed = (ent: Entity) => !!ent.telegraphTimer && ent.telegraphTimer > 0;
+const hitsCore = (ent: Entity, proj: Entity) => Math.hypot(proj.pos.x + proj.size.x / 2 - (ent.pos.x + ent.size.x / 2), proj.pos.y + proj.size.y / 2 - (ent.pos.y + ent.size.y / 2)) < ent.size.x / 4 + 8;
+
+// Entering a new phase: cancel the current wind-up, restart the rotation and announce it
+const phaseState = (phase: BossPhase): AiState => ({
+  enter: (world, ent) => {
+    if (phase === 1) return;
+    const variant = getGuardianVariant(world.planet);
+    ent.bossAttack = undefined; ent.telegraphTimer = 0; ent.attackIndex = 0; ent.attackTimer = 90;
+    if (phase === GUARDIAN_PHASES) ent.color = variant.rageColor;
+    emit(world, { type: 'bossPhase', phase, x: ent.pos.x, y: ent.pos.y }); emit(world, { type: 'radio', text: { key: phase === GUARDIAN_PHASES ? 'radio.guardianEnraged' : 'radio.guardianShell' } });
+    addScreenshake(world, 25); spawnParticles(world, ent.pos.x + ent.size.x / 2, ent.pos.y + ent.size.y / 2, variant.coreColor, 30, 10);
+    spawnFloatingText(world, ent.pos.x, ent.pos.y - 30, { key: 'float.bossPhase', params: { phase } }, variant.coreColor);
+  },
+});
+
+// Planetary boss: hovers over the player and cycles its variant's scripted attacks, faster each phase. Killing it wins the mission.
+export const guardian: ArchetypeDefinition = {
+  stats: { hp: 500, speed: 1.5, score: 5000, aggroRange: 9999 },
+  size: { x: 80, y: 80 },
+  spawnWeight: 0,
+  placement: 'air',
+  flying: true,
+  separation: false,
+  immunities: ['shocked', 'frozen'], // Stuns and freezes would stall the attack rotation
+  ai: {
+    initial: 'phase1',
+    states: { phase1: phaseState(1), phase2: phaseState(2), phase3: phaseState(3) },
+    transitions: [
+      { from: ['phase1'], to: 'phase2', when: (world, ent) => ent.health < ent.maxHealth * 0.66 },
+      { from: ['phase2'], to: 'phase3', when: (world, ent) => ent.health < ent.maxHealth * 0.33 },
+    ],
+  },
+  update: (world, ent, distToPlayer, groundY, dt) => {
+    const { player } = world; const isPlayerLeft = player.pos.x < ent.pos.x;
+    const hoverY = player.pos.y - 150 + Math.sin(world.tick * 0.03) * 50; ent.vel.y += (hoverY - ent.pos.y) * 0.01 * dt; ent.vel.x += (isPlayerLeft ? -1 : 1) * (0.05 * dt); ent.vel.y *= 0.95; ent.vel.x *= 0.95;
+    const variant = getGuardianVariant(world.planet); const phase = guardianPhase(ent);
+    if (ent.bossAttack) {
+      const attack = BOSS_ATTACKS[ent.bossAttack];
+      attack.windUp?.(world, ent, dt); ent.telegraphTimer = (ent.telegraphTimer || 0) - dt;
+      if (ent.telegraphTimer <= 0) { attack.execute(world, ent, variant); ent.attackTimer = attack.recovery * PHASE_TEMPO[phase]; ent.bossAttack = undefined; ent.telegraphTimer = 0; }
+      return;
+    }
+    if (ent.attackTimer && ent.attackTimer > 0) { ent.attackTimer -= dt; return; }
+    const rotation = variant.rotation[phase]; const attackId = rotation[(ent.attackIndex || 0) % rotation.length];
+    ent.attackIndex = (ent.attackIndex || 0) + 1; ent.bossAttack = attackId; ent.telegraphTimer = BOSS_ATTACKS[attackId].telegraph;
+    emit(world, { type: 'bossTelegraph', attack: attackId, x: ent.pos.x, y: ent.pos.y });
+  },
+  damageTaken: (world, ent, proj) => isCoreExposed(ent) && hitsCore(ent, proj) ? 2 : 0.5,
+  onDeath: (world) => { world.isPlaying = false; emit(world, { type: 'victory' }); },
+  render: (ctx, e, world) => {
+    const { x, y } = e.pos; const w = e.size.x; const h = e.size.y; const cx = x + w/2;
+    const variant = getGuardianVariant(world.planet); const exposed = isCoreExposed(e);
+    const pulse = Math.sin(world.tick * 0.1) * 2; const cy = y + h/2 + pulse;
+    // Telegraphs: what is coming and (for the slam) where
+    if (e.bossAttack) {
+      const windUp = 1 - (e.telegraphTimer || 0) / BOSS_ATTACKS[e.bossAttack].telegraph; ctx.save(); ctx.strokeStyle = variant.coreColor; ctx.lineWidth = 2; ctx.globalAlpha = 0.4 + windUp * 0.6;
+      if (e.bossAttack === 'ring') { ctx.beginPath(); ctx.arc(cx, cy, w * (1.5 - windUp), 0, Math.PI * 2); ctx.stroke(); }
+      else if (e.bossAttack === 'spread') { const pPos = world.player.pos; const angle = Math.atan2((pPos.y + 16) - cy, (pPos.x + 16) - cx); ctx.setLineDash([6, 6]); for (let i = -2; i <= 2; i++) { ctx.beginPath(); ctx.moveTo(cx, cy); ctx.lineTo(cx + Math.cos(angle + i * 0.2) * 200, cy + Math.sin(angle + i * 0.2) * 200); ctx.stroke(); } }
+      else if (e.bossAttack === 'slam') { const gY = getGroundHeightAt(world.terrain, cx); ctx.setLineDash([10, 8]); ctx.beginPath(); ctx.moveTo(cx, y + h); ctx.lineTo(cx, gY); ctx.stroke(); ctx.setLineDash([]); ctx.fillStyle = variant.coreColor; ctx.globalAlpha = 0.2 + windUp * 0.4; ctx.fillRect(cx - 60 * windUp, gY - 4, 120 * windUp, 8); }
+      else if (e.bossAttack === 'summon') { ctx.strokeStyle = '#ff00ff'; for (let i = 0; i < 3; i++) { ctx.beginPath(); ctx.arc(cx, cy, w/2 + ((world.tick * 2 + i * 20) % 60), 0, Math.PI * 2); ctx.stroke(); } }
+      ctx.restore();
+    }
+    ctx.shadowBlur = 20; ctx.shadowColor = e.color; ctx.fillStyle = '#220000'; ctx.beginPath(); ctx.arc(cx, cy, w/2, 0, Math.PI * 2); ctx.fill(); ctx.lineWidth = 4; ctx.stroke();
+    // Core: a slit while sealed, a wide glowing eye while exposed (the weak point)
+    ctx.fillStyle = exposed ? ((e.telegraphTimer || 0) % 8 < 4 ? '#ffffff' : variant.coreColor) : '#550000'; ctx.beginPath(); if (exposed) { ctx.arc(cx, cy, w/4, 0, Math.PI * 2); } else { ctx.ellipse(cx, cy, w/4, w/16, 0, 0, Math.PI * 2); } ctx.fill();
+    const orbitSpeed = world.tick * 0.05 * guardianPhase(e); for(let i=0; i<4; i++) { const ox = cx + Math.cos(orbitSpeed + i*Math.PI/2) * (w * 0.8); const oy = cy + Math.sin(orbitSpeed + i*Math.PI/2) * (h * 0.8); ctx.fillStyle = e.color; ctx.beginPath(); ctx.arc(ox, oy, 10, 0, Math.PI*2); ctx.fill(); }
+  },
+  lights: (e, world) => {
+    const cx = e.pos.x + e.size.x/2; const cy = e.pos.y + e.size.y/2; const pulse = Math.abs(Math.sin(world.tick * 0.05));
+    const lights = [{ x: cx, y: cy, radius: 100 + pulse*20, color: e.color, intensity: 0.3 }];
+    if (isCoreExposed(e)) lights.push({ x: cx, y: cy, radius: 150, color: getGuardianVariant(world.planet).coreColor, intensity: 0.8 });
+    return lights;
+  },
+};
@@ -0,0 +1,43 @@
+import { Entity } from '../../types';
+import { alertState, awarenessTransitions, wanderState } from '../ai/states';
+import { World } from '../world';
+import { ArchetypeDefinition, EnemyStats } from './types';
+
+const stats: EnemyStats = { hp: 10, speed: 2.2, score: 40, aggroRange: 400 };
+const FLANK_OFFSET = 160; // Horizontal distance past the player a flanking hornet aims for
+
+const alert = alertState(stats.aggroRange);
+const hoverY = (world: World, ent: Entity) => world.player.pos.y - 100 + Math.sin(world.tick * 0.05 + ent.animOffset) * 50;
+const hover = (ent: Entity, targetY: number, dt: number) => { ent.vel.y += (targetY - ent.pos.y) * 0.02 * dt; ent.vel.y *= 0.95; };
+
+// Flying stinger: hovers above the player, dives when chasing, then swings round to dive again from the other side
+export const hornet: ArchetypeDefinition = {
+  stats,
+  size: { x: 24, y: 24 },
+  spawnWeight: 0.14,
+  placement: 'air',
+  flying: true,
+  ai: {
+    initial: 'idle',
+    states: {
+      idle: { update: (world, ent, ctx) => { wanderState.update?.(world, ent, ctx); ent.vel.x += Math.cos(world.tick * 0.05) * 0.05; hover(ent, hoverY(world, ent), ctx.dt); } },
+      alert: { ...alert, update: (world, ent, ctx) => { alert.update?.(world, ent, ctx); hover(ent, hoverY(world, ent), ctx.dt); } },
+      chase: { update: (world, ent, { dt }) => { if (Math.abs(ent.vel.x) < 2) ent.vel.x += (world.player.pos.x < ent.pos.x ? -1 : 1) * (0.1 * dt); hover(ent, world.player.pos.y, dt); } },
+      // Swing round to the far side of the player at hover height, then dive again from behind
+      flank: {
+        enter: (world, ent) => { ent.flankSide = ent.pos.x < world.player.pos.x ? 1 : -1; },
+        update: (world, ent, { dt }) => { const targetX = world.player.pos.x + (ent.flankSide || 1) * FLANK_OFFSET; if (Math.abs(ent.vel.x) < 2) ent.vel.x += Math.sign(targetX - ent.pos.x) * (0.15 * dt); hover(ent, hoverY(world, ent), dt); },
+      },
+    },
+    transitions: [
+      ...awarenessTransitions(stats.aggroRange),
+      { from: ['chase'], to: 'flank', when: (world, ent) => (ent.stateTimer || 0) > 150 },
+      { from: ['flank'], to: 'chase', when: (world, ent) => (ent.pos.x - world.player.pos.x) * (ent.flankSide || 1) > FLANK_OFFSET * 0.75 || (ent.stateTimer || 0) > 240 },
+    ],
+  },
+  render: (ctx, e, world) => {
+    const { x, y } = e.pos; const w = e.size.x; const h = e.size.y;
+    const wingFlap = Math.sin(world.tick * 0.8) * 10; ctx.fillStyle = 'rgba(255,255,255,0.6)'; ctx.beginPath(); ctx.ellipse(x + w/2, y + 5, 12, 4, Math.PI/4 + wingFlap*0.1, 0, Math.PI*2); ctx.fill(); ctx.beginPath(); ctx.ellipse(x + w/2, y + 5, 12, 4, -Math.PI/4 - wingFlap*0.1, 0, Math.PI*2); ctx.fill(); ctx.fillStyle = e.color; ctx.beginPath(); ctx.moveTo(x, y); ctx.lineTo(x + w, y); ctx.lineTo(x + w/2, y + h); ctx.fill(); ctx.fillStyle = '#ff0000'; ctx.fillRect(x + w/2 - 2, y + 8, 4, 4);
+  },
+  lights: (e) => [{ x: e.pos.x + e.size.x/2, y: e.pos.y + e.size.y/2, radius: 20, color: '#ff0000', intensity: 0.4 }],
+};
@@ -0,0 +1,41 @@
+import { crawler } from './crawler';
+import { dasher } from './dasher';
+import { guardian } from './guardian';
+import { hornet } from './hornet';
+import { neutral } from './neutral';
+import { sandworm } from './sandworm';
+import { sentinel } from './sentinel';
+import { shielder } from './shielder';
+import { spore } from './spore';
+import { ArchetypeDefinition } from './types';
+
+export * from './types';
+
+// --- Enemy Registry ---
+// One definition per enemy. Adding a creature = one file plus one line here; the key is its EnemyArchetype id.
+// Order matters for random spawns: weights are laid out in this order along the spawn roll.
+export const ARCHETYPES = {
+  crawler,
+  spore,
+  sandworm,
+  shielder,
+  hornet,
+  sentinel,
+  dasher,
+  neutral,
+  guardian,
+};
+
+export type EnemyArchetype = keyof typeof ARCHETYPES;
+
+export const ARCHETYPE_IDS = Object.keys(ARCHETYPES) as EnemyArchetype[];
+
+export const getArchetype = (id: EnemyArchetype | undefined): ArchetypeDefinition => (id && ARCHETYPES[id]) || ARCHETYPES.crawler;
+
+// Maps a roll in [0, 1) to an archetype by spawn weight
+export const pickArchetype = (roll: number): EnemyArchetype => {
+  const total = ARCHETYPE_IDS.reduce((sum, id) => sum + ARCHETYPES[id].spawnWeight, 0);
+  let remaining = roll * total;
+  for (const id of ARCHETYPE_IDS) { const weight = ARCHETYPES[id].spawnWeight; if (weight <= 0) continue; if (remaining < weight) return id; remaining -= weight; }
+  return ARCHETYPE_IDS.filter(id => ARCHETYPES[id].spawnWeight > 0).pop() || 'crawler';
+};
@@ -0,0 +1,22 @@
+import { ArchetypeDefinition } from './types';
+
+// Harmless critter: wanders and hops, never aggroes or hurts the player
+export const neutral: ArchetypeDefinition = {
+  stats: { hp: 5, speed: 0.5, score: 5, aggroRange: 0 },
+  size: { x: 20, y: 16 },
+  spawnWeight: 0.06,
+  placement: 'ground',
+  color: '#88cc88',
+  canBeElite: false,
+  awareness: false,
+  contactDamage: 0,
+  update: (world, ent, distToPlayer, groundY) => {
+    const { rng } = world;
+    if (rng.next() < 0.02) { ent.vel.x = (rng.next() - 0.5) * 1.5; if (ent.isGrounded) ent.vel.y = -2; }
+    if (ent.pos.y + ent.size.y >= groundY) { ent.pos.y = groundY - ent.size.y; ent.vel.y = 0; ent.isGrounded = true; }
+  },
+  render: (ctx, e) => {
+    const { x, y } = e.pos; const w = e.size.x; const h = e.size.y;
+    const hop = Math.abs(e.vel.y) > 0 ? -5 : 0; ctx.beginPath(); ctx.ellipse(x + w/2, y + h/2 + hop, w/2, h/2, 0, 0, Math.PI * 2); ctx.fill(); ctx.fillStyle = '#fff'; ctx.beginPath(); ctx.arc(x + w/2 + (e.vel.x > 0 ? 4 : -4), y + 6 + hop, 2, 0, Math.PI * 2); ctx.fill(); ctx.beginPath(); ctx.moveTo(x + w/2, y + hop); ctx.lineTo(x + w/2, y - 5 + hop); ctx.stroke();
+  },
+};
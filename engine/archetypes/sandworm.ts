@@ -0,0 +1,20 @@
+import { spawnEnemyProjectile } from '../spawning';
+import { ArchetypeDefinition } from './types';
+
+// Burrowed ambusher: always elite, invulnerable while underground, spits when surfaced
+export const sandworm: ArchetypeDefinition = {
+  stats: { hp: 60, speed: 0, score: 150, aggroRange: 300 },
+  size: { x: 40, y: 80 },
+  spawnWeight: 0.06,
+  placement: 'ground',
+  onSpawn: (world, ent) => { ent.isBurrowed = true; ent.rarity = 'elite'; ent.health = ent.maxHealth = Math.floor(ent.maxHealth * 1.5); },
+  update: (world, ent, distToPlayer, groundY, dt) => {
+    const { player } = world;
+    if (!ent.isBurrowed) { if (ent.attackTimer && ent.attackTimer > 0) ent.attackTimer -= dt; else { ent.attackTimer = 100; const angle = Math.atan2(player.pos.y - ent.pos.y, player.pos.x - ent.pos.x); spawnEnemyProjectile(world, ent.pos.x, ent.pos.y, angle); } }
+  },
+  blocksHit: (world, ent) => !!ent.isBurrowed,
+  render: (ctx, e) => {
+    const { x, y } = e.pos;
+    if (!e.isBurrowed) { ctx.fillRect(x+10, y, 40, 90); ctx.fillStyle = '#000'; ctx.beginPath(); ctx.arc(x+30, y+20, 15, 0, Math.PI*2); ctx.fill(); } else { ctx.fillStyle = 'rgba(0,0,0,0.2)'; ctx.beginPath(); ctx.ellipse(x+30, y+40, 20, 5, 0, 0, Math.PI*2); ctx.fill(); }
+  },
+};
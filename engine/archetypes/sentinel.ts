@@ -0,0 +1,38 @@
+import { canSeePlayer } from '../ai/perception';
+import { alertState, awarenessTransitions, fleeState, retreatTransitions, wanderState } from '../ai/states';
+import { spawnEnemyProjectile } from '../spawning';
+import { ArchetypeDefinition, EnemyStats } from './types';
+
+const stats: EnemyStats = { hp: 15, speed: 1.0, score: 60, range: 400, aggroRange: 500 };
+
+// Turret walker: keeps its preferred range and fires aimed shots when it has a clear line; falls back when hurt
+export const sentinel: ArchetypeDefinition = {
+  stats,
+  size: { x: 28, y: 40 },
+  spawnWeight: 0.12,
+  placement: 'ground',
+  ai: {
+    initial: 'idle',
+    states: {
+      idle: { update: (world, ent, ctx) => { wanderState.update?.(world, ent, ctx); ent.vel.x *= 0.9; } },
+      alert: alertState(stats.aggroRange),
+      chase: {
+        update: (world, ent, { distToPlayer, dt }) => {
+          const { player } = world; const isPlayerLeft = player.pos.x < ent.pos.x;
+          const idealRange = stats.range || 300;
+          if (distToPlayer < idealRange - 50) ent.vel.x += (isPlayerLeft ? 1 : -1) * (0.15 * dt); else if (distToPlayer > idealRange + 50) ent.vel.x += (isPlayerLeft ? -1 : 1) * (0.15 * dt);
+          if (ent.attackTimer && ent.attackTimer > 0) ent.attackTimer -= dt;
+          if ((!ent.attackTimer || ent.attackTimer <= 0) && canSeePlayer(world, ent, 500)) { const angle = Math.atan2((player.pos.y + 16) - ent.pos.y, (player.pos.x + 16) - ent.pos.x); spawnEnemyProjectile(world, ent.pos.x + ent.size.x / 2, ent.pos.y, angle); ent.attackTimer = 140; }
+        },
+      },
+      flee: fleeState(0.2),
+    },
+    transitions: [...awarenessTransitions(stats.aggroRange), ...retreatTransitions(0.5, 80)],
+  },
+  render: (ctx, e, world) => {
+    const { x, y } = e.pos; const w = e.size.x; const h = e.size.y;
+    const float = Math.sin(world.tick * 0.1) * 3; ctx.fillStyle = e.color; ctx.fillRect(x + 8, y + float, w - 16, h - 10); ctx.fillStyle = '#222'; ctx.fillRect(x + 4, y + float - 5, w - 8, 10); ctx.fillStyle = (e.attackTimer && e.attackTimer < 30 && e.attackTimer % 4 < 2) ? '#fff' : '#00ff00'; ctx.fillRect(x + 10, y + float - 2, w - 20, 4);
+    const pPos = world.player.pos; const angle = Math.atan2((pPos.y+16) - (y+float), (pPos.x+16) - x); ctx.save(); ctx.translate(x + w/2, y + float + h/2); ctx.rotate(angle); ctx.fillStyle = '#555'; ctx.fillRect(0, -2, 20, 4); ctx.restore();
+  },
+  lights: (e) => [{ x: e.pos.x + (e.facingRight ? e.size.x - 5 : 5), y: e.pos.y + 10, radius: 25, color: e.color, intensity: 0.5 }],
+};
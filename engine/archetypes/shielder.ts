@@ -0,0 +1,30 @@
+import { emit } from '../world';
+import { spawnFloatingText, spawnParticles } from '../spawning';
+import { ArchetypeDefinition } from './types';
+
+// Cycles a frontal shield: advances slowly while it is up, stands exposed while it recharges
+export const shielder: ArchetypeDefinition = {
+  stats: { hp: 40, speed: 0.8, score: 80, aggroRange: 400 },
+  size: { x: 32, y: 40 },
+  spawnWeight: 0.10,
+  placement: 'ground',
+  spawnState: { aiState: 'chase', attackTimer: 300, shieldHp: 50 },
+  update: (world, ent, distToPlayer, groundY, dt) => {
+    const { player } = world;
+    if (ent.attackTimer === undefined) ent.attackTimer = 0; ent.attackTimer -= dt;
+    if (ent.attackTimer <= 0) { if (ent.aiState === 'chase') { ent.aiState = 'idle'; ent.attackTimer = 180; emit(world, { type: 'shieldToggle', up: false, x: ent.pos.x, y: ent.pos.y }); spawnFloatingText(world, ent.pos.x, ent.pos.y - 20, { key: 'float.shieldDown' }, "#ffff00"); } else { ent.aiState = 'chase'; ent.attackTimer = 300; emit(world, { type: 'shieldToggle', up: true, x: ent.pos.x, y: ent.pos.y }); spawnFloatingText(world, ent.pos.x, ent.pos.y - 20, { key: 'float.shieldUp' }, "#00ffff"); } }
+    if (ent.aiState === 'chase') { const dist = Math.abs(ent.pos.x - player.pos.x); if (dist < 600) { if (Math.abs(ent.vel.x) < 0.5) ent.vel.x += (ent.pos.x < player.pos.x ? 1 : -1) * (0.05 * dt); } } else { ent.vel.x *= 0.8; }
+  },
+  // Shots from the front bounce off while the shield is up
+  blocksHit: (world, ent, proj) => {
+    if (ent.aiState !== 'chase') return false;
+    const hitFromFront = (ent.facingRight && proj.vel.x < 0) || (!ent.facingRight && proj.vel.x > 0);
+    if (hitFromFront) { spawnParticles(world, proj.pos.x, proj.pos.y, '#00ffff', 3); emit(world, { type: 'block', x: proj.pos.x, y: proj.pos.y }); }
+    return hitFromFront;
+  },
+  render: (ctx, e) => {
+    const { x, y } = e.pos; const w = e.size.x; const h = e.size.y;
+    ctx.fillStyle = '#444'; ctx.fillRect(-w/2 + x + w/2, -h/2 + y + h/2, w, h);
+    if (e.aiState === 'chase') { ctx.fillStyle = e.color; ctx.fillRect(x+2, y-5, w - 14, 10); ctx.strokeStyle = '#00ffff'; ctx.lineWidth = 3; ctx.shadowColor = '#00ffff'; ctx.shadowBlur = 10; ctx.beginPath(); ctx.moveTo(x + w/2 + 5, y - 5); ctx.quadraticCurveTo(x + w/2 + 15, y + h/2, x + w/2 + 5, y + h + 5); ctx.stroke(); ctx.shadowBlur = 0; } else { ctx.fillStyle = '#552222'; ctx.fillRect(x+2, y-5, w - 14, 10); if (Math.random() > 0.5) { ctx.fillStyle = '#888'; ctx.fillRect(x + 10 + (Math.random()*10-5), y, 2, -5); } }
+  },
+};
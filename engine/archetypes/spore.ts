@@ -0,0 +1,11 @@
+import { ArchetypeDefinition } from './types';
+
+// Floating mine: never moves, only hurts on contact
+export const spore: ArchetypeDefinition = {
+  stats: { hp: 10, speed: 0, score: 20, aggroRange: 150 },
+  size: { x: 24, y: 24 },
+  spawnWeight: 0.12,
+  placement: 'air',
+  update: (world, ent) => { ent.vel.x = 0; },
+  render: (ctx, e) => { ctx.fillRect(e.pos.x, e.pos.y, e.size.x, e.size.y); },
+};
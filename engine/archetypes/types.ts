@@ -0,0 +1,49 @@
+import { Entity, StatusEffectId, Vector2 } from '../../types';
+import { StateMachine } from '../ai/stateMachine';
+import { World } from '../world';
+
+export interface EnemyStats {
+  hp: number;
+  speed: number; // Max horizontal speed (0 falls back to the engine default)
+  score: number; // Awarded on kill, doubled for elites
+  aggroRange: number; // Distance at which the idle -> alert -> chase perception wakes up
+  range?: number; // Preferred firing distance (ranged enemies)
+  dashSpeed?: number;
+}
+
+// Cumulative roll thresholds: roll < weapon drops a weapon, else roll < health drops a health pack, else roll < mod drops a weapon mod, else roll < ammo drops an ammo crate
+export interface DropChances { weapon: number; health: number; mod: number; ammo: number; }
+export interface DropTable { common: DropChances; elite: DropChances; }
+
+export const DEFAULT_DROPS: DropTable = { common: { weapon: 0.1, health: 0.25, mod: 0.28, ammo: 0.4 }, elite: { weapon: 0.4, health: 0.5, mod: 0.7, ammo: 0.85 } };
+
+export interface EnemyLight { x: number; y: number; radius: number; color: string; intensity: number; }
+
+// Everything the engine needs to know about one kind of enemy.
+// Simulation hooks only touch the World (deterministic, world.rng); render/lights are view only.
+export interface ArchetypeDefinition {
+  stats: EnemyStats;
+  size: Vector2; // Base size before elite scaling and per-spawn variation
+  spawnWeight: number; // Share of random spawns (0 = only spawned explicitly)
+  placement: 'ground' | 'air'; // 'air' spawns 100-150 units above the ground
+  color?: string; // Fixed body color instead of the planet's enemy color
+  canBeElite?: boolean; // Default true
+  flying?: boolean; // Ignores gravity and ground collision
+  awareness?: boolean; // Uses the shared idle -> alert -> chase perception when it has no machine (default true)
+  ai?: StateMachine; // Drives aiState through engine/ai instead of the built-in perception
+  separation?: boolean; // Takes part in pack separation (default true)
+  contactDamage?: number; // Damage when touching the player (default 15)
+  drops?: DropTable;
+  immunities?: StatusEffectId[]; // Status effects that never take hold
+  spawnState?: Partial<Entity>; // Initial AI fields (replaces the random attack timer)
+
+  onSpawn?: (world: World, ent: Entity) => void;
+  update?: (world: World, ent: Entity, distToPlayer: number, groundY: number, dt: number) => void; // Runs every tick after the AI state
+  maxSpeed?: (ent: Entity) => number | undefined; // Per-state override of stats.speed
+  blocksHit?: (world: World, ent: Entity, proj: Entity) => boolean; // True when a player projectile is absorbed
+  damageTaken?: (world: World, ent: Entity, proj: Entity) => number; // Multiplier on a player projectile's damage (armor, weak points)
+  onDeath?: (world: World, ent: Entity) => void;
+
+  render: (ctx: CanvasRenderingContext2D, e: Entity, world: World) => void;
+  lights?: (e: Entity, world: World) => EnemyLight[];
+}
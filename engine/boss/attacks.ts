@@ -0,0 +1,60 @@
+import { BossAttackId, Entity } from '../../types';
+import { getGroundHeightAt } from '../physics';
+import { addScreenshake, spawnEnemyProjectile, spawnFloatingText, spawnParticles, spawnShockwave, spawnSquad } from '../spawning';
+import { World, emit } from '../world';
+import { GuardianVariant } from './variants';
+
+// --- Guardian Attacks ---
+// Each attack is telegraphed for `telegraph` ticks (the guardian's core is exposed meanwhile),
+// fires once, then the guardian recovers for `recovery` ticks before winding up the next one.
+
+export interface BossAttack {
+  telegraph: number;
+  recovery: number;
+  windUp?: (world: World, ent: Entity, dt: number) => void;
+  execute: (world: World, ent: Entity, variant: GuardianVariant) => void;
+}
+
+const MAX_SUMMONED = 25; // Summons fizzle while this many enemies are alive
+
+const center = (ent: Entity) => ({ x: ent.pos.x + ent.size.x / 2, y: ent.pos.y + ent.size.y / 2 });
+
+export const BOSS_ATTACKS: Record<BossAttackId, BossAttack> = {
+  // Five aimed shots in a fan
+  spread: {
+    telegraph: 40, recovery: 90,
+    execute: (world, ent, variant) => {
+      const { player } = world; const c = center(ent); const angle = Math.atan2((player.pos.y + 16) - c.y, (player.pos.x + 16) - c.x);
+      for (let i = 0; i < 5; i++) spawnEnemyProjectile(world, c.x, c.y, angle + (i - 2) * 0.2, variant.projectileColor);
+    },
+  },
+  // Evenly spaced bullets in every direction, rotated each time so the gaps move
+  ring: {
+    telegraph: 60, recovery: 120,
+    execute: (world, ent, variant) => {
+      const c = center(ent); const offset = world.rng.next() * Math.PI * 2;
+      for (let i = 0; i < variant.ringCount; i++) spawnEnemyProjectile(world, c.x, c.y, offset + (i / variant.ringCount) * Math.PI * 2, variant.projectileColor);
+    },
+  },
+  // Drifts over the player, then pounds the ground: shockwaves roll out both ways along the terrain
+  slam: {
+    telegraph: 70, recovery: 110,
+    windUp: (world, ent, dt) => { const dx = (world.player.pos.x + world.player.size.x / 2) - center(ent).x; ent.vel.x += Math.sign(dx) * Math.min(Math.abs(dx) * 0.01, 0.4) * dt; },
+    execute: (world, ent, variant) => {
+      const x = center(ent).x; const groundY = getGroundHeightAt(world.terrain, x);
+      emit(world, { type: 'slam', x, y: groundY }); addScreenshake(world, 20);
+      spawnParticles(world, x, groundY, world.planet.groundColor, 25, 10);
+      spawnShockwave(world, x, -1, variant.shockwaveSpeed, variant.projectileColor); spawnShockwave(world, x, 1, variant.shockwaveSpeed, variant.projectileColor);
+    },
+  },
+  // Calls in a squad on the far side of the player
+  summon: {
+    telegraph: 50, recovery: 200,
+    execute: (world, ent) => {
+      if (world.enemies.length >= MAX_SUMMONED) return;
+      const side = world.player.pos.x < ent.pos.x ? -1 : 1;
+      spawnSquad(world, world.player.pos.x + side * 350);
+      spawnFloatingText(world, ent.pos.x, ent.pos.y, { key: 'float.summoning' }, "#ff00ff");
+    },
+  },
+};
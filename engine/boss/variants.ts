@@ -0,0 +1,32 @@
+import { BossAttackId, PlanetClimate, PlanetData } from '../../types';
+import { StringKey } from '../../services/locales/en';
+
+// --- Guardian Variants ---
+// One guardian per planet climate: same phases, different colors, attack rotations and tuning.
+
+export type BossPhase = 1 | 2 | 3;
+
+export interface GuardianVariant {
+  nameKey: StringKey;
+  color: string; // Shell color
+  rageColor: string; // Shell color in the last phase
+  coreColor: string;
+  projectileColor: string;
+  ringCount: number; // Bullets per ring
+  shockwaveSpeed: number;
+  rotation: Record<BossPhase, BossAttackId[]>; // Scripted attack order per phase, looped
+}
+
+export type GuardianVariantId = 'magma' | 'cryo' | 'blight' | 'dune' | 'void';
+
+export const GUARDIAN_VARIANTS: Record<GuardianVariantId, GuardianVariant> = {
+  magma: { nameKey: 'boss.magma', color: '#ff5500', rageColor: '#ff0000', coreColor: '#ffdd00', projectileColor: '#ff8800', ringCount: 12, shockwaveSpeed: 7, rotation: { 1: ['spread', 'slam'], 2: ['slam', 'ring', 'spread'], 3: ['slam', 'ring', 'summon', 'slam'] } },
+  cryo: { nameKey: 'boss.cryo', color: '#66ccff', rageColor: '#ffffff', coreColor: '#0066ff', projectileColor: '#aaeeff', ringCount: 18, shockwaveSpeed: 4, rotation: { 1: ['ring', 'spread'], 2: ['ring', 'summon', 'ring'], 3: ['ring', 'spread', 'ring', 'summon'] } },
+  blight: { nameKey: 'boss.blight', color: '#44cc00', rageColor: '#ccff00', coreColor: '#aa00ff', projectileColor: '#ccff00', ringCount: 10, shockwaveSpeed: 5, rotation: { 1: ['spread', 'summon'], 2: ['summon', 'ring', 'spread'], 3: ['ring', 'summon', 'slam'] } },
+  dune: { nameKey: 'boss.dune', color: '#cc8833', rageColor: '#ff4400', coreColor: '#ffee88', projectileColor: '#ffcc66', ringCount: 10, shockwaveSpeed: 6, rotation: { 1: ['slam', 'spread'], 2: ['slam', 'summon', 'slam'], 3: ['slam', 'ring', 'slam', 'summon'] } },
+  void: { nameKey: 'boss.guardian', color: '#ff0000', rageColor: '#ff00ff', coreColor: '#ffffff', projectileColor: '#ff00ff', ringCount: 14, shockwaveSpeed: 5, rotation: { 1: ['spread', 'ring'], 2: ['ring', 'slam', 'summon'], 3: ['ring', 'spread', 'slam', 'summon'] } },
+};
+
+const VARIANT_BY_CLIMATE: Record<PlanetClimate, GuardianVariantId> = { volcanic: 'magma', ice: 'cryo', toxic: 'blight', desert: 'dune', void: 'void' };
+
+export const getGuardianVariant = (planet: PlanetData): GuardianVariant => GUARDIAN_VARIANTS[VARIANT_BY_CLIMATE[planet.climate] || 'void'];
@@ -0,0 +1,73 @@
+import { CANVAS_HEIGHT, PHYSICS } from '../constants';
+import { Entity } from '../types';
+import { runStateMachine } from './ai/stateMachine';
+import { DEFAULT_DROPS, getArchetype } from './archetypes';
+import { applyHazardToEnemy } from './hazards';
+import { checkCollision, getGroundHeightAt, getHazardAt } from './physics';
+import { collidePlatforms, ridePlatform } from './platforms';
+import { SpatialHash, queryRadius } from './spatialHash';
+import { addScreenshake, spawnFloatingText, spawnLoot, spawnParticles } from './spawning';
+import { getStatusDamageTakenMult, getStatusSpeedMult, isStunned, updateStatusEffects } from './statusEffects';
+import { World, emit } from './world';
+
+// Built-in perception (idle -> alert -> chase) for enemies without their own state machine
+const updateAwareness = (world: World, ent: Entity, distToPlayer: number, dt: number) => {
+  const stats = getArchetype(ent.archetype).stats; const aggroRange = stats.aggroRange || 300; const dropRange = aggroRange * 1.5;
+  if (ent.aiState === 'idle') {
+    if (Math.abs(ent.vel.x) < 0.5 && world.rng.next() < 0.05) { ent.vel.x = (world.rng.next() - 0.5) * 2; }
+    if (distToPlayer < aggroRange) { ent.aiState = 'alert'; ent.alertTimer = 40; spawnFloatingText(world, ent.pos.x, ent.pos.y - 20, { key: 'float.alert' }, "#ff0000"); }
+  } else if (ent.aiState === 'alert') {
+    ent.vel.x *= 0.8;
+    if (ent.alertTimer !== undefined) { ent.alertTimer -= dt; if (ent.alertTimer <= 0) ent.aiState = 'chase'; } else { ent.aiState = 'chase'; }
+  } else if (ent.aiState === 'chase' || ent.aiState === 'charge') {
+    if (distToPlayer > dropRange) { ent.aiState = 'idle'; }
+  }
+};
+
+const killEnemy = (world: World, ent: Entity) => {
+  const { rng } = world;
+  const def = getArchetype(ent.archetype);
+  const baseScore = def.stats.score || 50; const score = ent.rarity === 'elite' ? baseScore * 2 : baseScore;
+  world.score += score;
+  emit(world, { type: 'death', target: 'enemy', archetype: ent.archetype, score, x: ent.pos.x, y: ent.pos.y });
+  spawnParticles(world, ent.pos.x, ent.pos.y, ent.color, 10); addScreenshake(world, 5);
+  spawnFloatingText(world, ent.pos.x, ent.pos.y - 20, { key: 'float.score', params: { score } }, ent.rarity === 'elite' ? '#ffd700' : '#ffff00');
+  const drops = (def.drops || DEFAULT_DROPS)[ent.rarity === 'elite' ? 'elite' : 'common'];
+  const rand = rng.next(); const dropChanceWeapon = drops.weapon; const dropChanceHealth = drops.health;
+  if (rand < dropChanceWeapon) { spawnLoot(world, ent.pos.x, ent.pos.y, 'weapon'); } else if (rand < dropChanceHealth) { spawnLoot(world, ent.pos.x, ent.pos.y, 'health'); } else if (rand < drops.mod) { spawnLoot(world, ent.pos.x, ent.pos.y, 'mod'); } else if (rand < drops.ammo) { spawnLoot(world, ent.pos.x, ent.pos.y, 'ammo'); }
+  def.onDeath?.(world, ent);
+  world.hitStop = 3;
+};
+
+const neighbours: Entity[] = []; // Query buffer for separation
+
+export const updateEnemies = (world: World, enemyGrid: SpatialHash, dt: number) => {
+  const { player, planet } = world;
+  world.enemies.forEach(ent => {
+    const def = getArchetype(ent.archetype);
+    const distToPlayer = Math.hypot(player.pos.x - ent.pos.x, player.pos.y - ent.pos.y); const gY = getGroundHeightAt(world.terrain, ent.pos.x + ent.size.x / 2);
+    ent.vel.x *= 0.95;
+    // Separation: keep the pack from stacking on one spot
+    if (def.separation !== false) { const minSpace = ent.size.x * 0.8; queryRadius(enemyGrid, ent.pos.x, ent.pos.y, minSpace, neighbours).forEach(other => { if (other === ent || getArchetype(other.archetype).separation === false) return; const dist = Math.hypot(ent.pos.x - other.pos.x, ent.pos.y - other.pos.y); if (dist < minSpace) { const pushX = (ent.pos.x - other.pos.x) / (dist + 0.1); ent.vel.x += pushX * 0.5 * dt; } }); }
+    if (ent.hitTimer > 0) ent.hitTimer -= dt;
+    if (!def.flying) { const hazard = getHazardAt(world.terrain, ent.pos.x + ent.size.x / 2); if (hazard) applyHazardToEnemy(world, ent, hazard, gY); }
+    updateStatusEffects(world, ent, dt);
+    // Stunned enemies skip their brain and attacks for the duration
+    if (isStunned(ent)) { ent.vel.x *= 0.8; } else {
+      if (def.ai) runStateMachine(def.ai, world, ent, { distToPlayer, groundY: gY, dt }); else if (def.awareness !== false) updateAwareness(world, ent, distToPlayer, dt);
+      def.update?.(world, ent, distToPlayer, gY, dt);
+    }
+
+    if (!def.flying) ent.vel.y += PHYSICS.GRAVITY * planet.gravity * dt;
+    const maxSpd = (def.maxSpeed?.(ent) ?? (def.stats.speed || 2)) * getStatusSpeedMult(ent);
+    if (Math.abs(ent.vel.x) > maxSpd && Math.abs(ent.vel.x) < 15) { } else { ent.vel.x = Math.max(Math.min(ent.vel.x, maxSpd), -maxSpd); }
+    if (!def.flying) ridePlatform(world, ent); const prev = { ...ent.pos };
+    ent.pos.x += ent.vel.x * dt; ent.pos.y += ent.vel.y * dt; ent.facingRight = ent.vel.x > 0;
+    if (!def.flying) { if (ent.pos.y + ent.size.y >= gY) { ent.pos.y = gY - ent.size.y; ent.vel.y = 0; ent.isGrounded = true; } else ent.isGrounded = false; collidePlatforms(world, ent, prev); }
+
+    // Contact damage
+    const contactDamage = def.contactDamage ?? 15;
+    if (contactDamage > 0 && checkCollision(player, ent)) { if (player.hitTimer <= 0) { const damage = Math.ceil(contactDamage * getStatusDamageTakenMult(player)); player.health -= damage; player.hitTimer = PHYSICS.INVULNERABILITY_TICKS; player.vel.x = (player.pos.x < ent.pos.x ? -1 : 1) * 10; player.vel.y = -5; world.hitStop = 5; addScreenshake(world, 10); emit(world, { type: 'damage', target: 'player', amount: damage, x: player.pos.x, y: player.pos.y }); spawnParticles(world, player.pos.x, player.pos.y, '#ff0000', 3); spawnFloatingText(world, player.pos.x, player.pos.y, { key: 'float.hpLoss', params: { amount: damage } }, '#ff0000'); } }
+    if (ent.pos.y > CANVAS_HEIGHT + 300 || ent.health <= 0) { ent.markedForDeletion = true; if (ent.health <= 0) killEnemy(world, ent); }
+  });
+};
@@ -0,0 +1,80 @@
+import { PHYSICS } from '../constants';
+import { Entity, Hazard, TextRef } from '../types';
+import { getGroundHeightAt } from './physics';
+import { spawnFloatingText, spawnParticle } from './spawning';
+import { applyHazardStatus } from './statusEffects';
+import { World, emit } from './world';
+
+export const isGeyserErupting = (world: World, h: Hazard) => (world.tick + h.x) % 300 < 100;
+
+const hurtPlayer = (world: World, amount: number, label: TextRef, color: string, hitStop: number = 0) => {
+  const { player } = world;
+  player.health -= amount; player.hitTimer = PHYSICS.INVULNERABILITY_TICKS;
+  if (hitStop > 0) world.hitStop = hitStop;
+  emit(world, { type: 'damage', target: 'player', amount, x: player.pos.x, y: player.pos.y });
+  spawnFloatingText(world, player.pos.x, player.pos.y, { key: 'float.hazard', params: { amount, hazard: label } }, color);
+};
+
+// --- HAZARD COLLISION LOGIC ---
+export const applyHazardToPlayer = (world: World, hazard: Hazard, groundY: number) => {
+  const { player } = world;
+  const feetY = player.pos.y + player.size.y;
+  if (hazard.type === 'lava' && feetY >= groundY - 10) {
+    applyHazardStatus(world, player, hazard);
+    player.vel.x *= 0.5; player.vel.y *= 0.8; // High viscosity
+  }
+  else if (hazard.type === 'acid' && feetY >= groundY - 10) {
+    applyHazardStatus(world, player, hazard);
+  }
+  else if (hazard.type === 'spikes' && feetY >= groundY - 20) { // Taller hitbox
+    if (player.hitTimer <= 0) { player.vel.y = -8; hurtPlayer(world, 15, { key: 'hazard.spike' }, "#ffffff", 5); }
+  }
+  else if (hazard.type === 'geyser') {
+    if (isGeyserErupting(world, hazard) && feetY >= groundY - 150) {
+      // Check X alignment
+      if (player.pos.x + player.size.x > hazard.x && player.pos.x < hazard.x + hazard.width) {
+        player.vel.y -= 1.5; // Upward push
+        if (world.tick % 30 === 0 && player.hitTimer <= 0) hurtPlayer(world, 5, { key: 'hazard.steam' }, "#ffffff");
+      }
+    }
+  }
+  else if (hazard.type === 'electric') {
+    if (feetY >= groundY - 40) applyHazardStatus(world, player, hazard);
+  }
+};
+
+// Ground enemies only catch the status-carrying hazards (no spikes or geysers)
+export const applyHazardToEnemy = (world: World, ent: Entity, hazard: Hazard, groundY: number) => {
+  const reach = hazard.type === 'electric' ? 40 : 10;
+  if (ent.pos.y + ent.size.y >= groundY - reach) applyHazardStatus(world, ent, hazard);
+};
+
+// Ambient particles (bubbles, glints, steam) for hazards near the camera
+export const updateHazardEffects = (world: World) => {
+  const { rng } = world;
+  world.hazards.forEach(h => {
+    if (h.x + h.width < world.camera.x - 100 || h.x > world.camera.x + world.logicalWidth + 100) return;
+    const gY = getGroundHeightAt(world.terrain, h.x);
+    if (h.type === 'lava' || h.type === 'acid') {
+      // Bubbles
+      if (rng.next() < 0.1) {
+        spawnParticle(world, h.x + rng.next() * h.width, gY + 150, 0, -2, 2.0, h.type === 'lava' ? '#ffcc00' : '#ffffff', rng.next() * 3 + 1, 'bubble');
+      }
+    } else if (h.type === 'ice') {
+      // Glint
+      if (world.tick % 60 === 0) {
+        spawnParticle(world, h.x + rng.next() * h.width, gY, 0, 0, 0.5, '#fff', 2);
+      }
+    } else if (h.type === 'geyser') {
+      if (isGeyserErupting(world, h)) {
+        // Steam particles
+        for (let i = 0; i < 3; i++) {
+          spawnParticle(world, h.x + rng.next() * h.width, gY, rng.next() - 0.5, -5 - rng.next() * 5, 0.5, '#fff', rng.next() * 4 + 2, 'weather');
+        }
+      } else if (rng.next() < 0.1) {
+        // Small idle puff
+        spawnParticle(world, h.x + h.width / 2, gY, rng.next() - 0.5, -2, 0.8, '#aaa', 2, 'weather');
+      }
+    }
+  });
+};
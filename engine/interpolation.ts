@@ -0,0 +1,32 @@
+import { Entity } from '../types';
+import { World } from './world';
+
+// The simulation runs at a fixed tick while the display refreshes at its own rate.
+// Rendering blends the last two ticks so motion stays smooth on 30Hz and 144Hz screens alike.
+
+const interpolated = (world: World): Entity[] => [world.player, ...world.enemies, ...world.projectiles, ...world.loot, ...world.platforms];
+
+// Call right before stepping a tick
+export const capturePreviousPositions = (world: World) => {
+  interpolated(world).forEach(e => { e.prevPos = { x: e.pos.x, y: e.pos.y }; });
+  world.camera.prevX = world.camera.x; world.camera.prevY = world.camera.y;
+};
+
+/**
+ * Moves entities and camera to their blended positions (alpha 0 = previous tick, 1 = current tick)
+ * and returns a function that puts the simulated positions back. Draw between the two calls.
+ */
+export const applyInterpolation = (world: World, alpha: number) => {
+  const moved: { e: Entity, x: number, y: number }[] = [];
+  interpolated(world).forEach(e => {
+    if (!e.prevPos) return; // Spawned this tick
+    moved.push({ e, x: e.pos.x, y: e.pos.y });
+    e.pos.x = e.prevPos.x + (e.pos.x - e.prevPos.x) * alpha; e.pos.y = e.prevPos.y + (e.pos.y - e.prevPos.y) * alpha;
+  });
+  const { camera } = world; const camX = camera.x; const camY = camera.y;
+  camera.x = camera.prevX + (camX - camera.prevX) * alpha; camera.y = camera.prevY + (camY - camera.prevY) * alpha;
+  return () => {
+    moved.forEach(m => { m.e.pos.x = m.x; m.e.pos.y = m.y; });
+    camera.x = camX; camera.y = camY;
+  };
+};
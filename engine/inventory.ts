@@ -0,0 +1,67 @@
+import { AMMO_PICKUP_SHARE, INITIAL_PLAYER_STATS } from '../constants';
+import { Entity, WeaponType } from '../types';
+import { spawnFloatingText, spawnParticles } from './spawning';
+import { World, emit } from './world';
+
+// --- Weapon Slots ---
+// Two slots: the loadout gun starts as primary, the secondary is empty until a drop fills it.
+// The blaster never runs dry; any other gun is swapped for it when its last round is fired.
+
+const otherSlot = (world: World) => (world.activeSlot === 0 ? 1 : 0);
+
+const setActiveSlot = (world: World, slot: 0 | 1) => { world.activeSlot = slot; world.currentWeapon = world.weaponSlots[slot] || 'blaster'; };
+
+const fullAmmo = (world: World, type: WeaponType) => world.weapons[type].ammo;
+
+const isCarried = (world: World, type: WeaponType) => world.weaponSlots.includes(type);
+
+// Rounds left in a gun, undefined for unlimited
+export const getAmmo = (world: World, type: WeaponType) => (fullAmmo(world, type) === undefined ? undefined : world.ammo[type] || 0);
+
+export const switchWeaponSlot = (world: World) => {
+  if (!world.weaponSlots[otherSlot(world)]) return;
+  setActiveSlot(world, otherSlot(world));
+  emit(world, { type: 'weaponSwap', weapon: world.currentWeapon });
+};
+
+// Fired one shot from the active gun; an emptied gun falls back to the blaster
+export const spendAmmo = (world: World) => {
+  const type = world.currentWeapon; const ammo = getAmmo(world, type);
+  if (ammo === undefined) return;
+  world.ammo[type] = ammo - 1;
+  if (ammo > 1) return;
+  delete world.ammo[type];
+  const slot = world.activeSlot; const other = otherSlot(world);
+  if (world.weaponSlots[other] === 'blaster') { world.weaponSlots[slot] = null; setActiveSlot(world, other); } else { world.weaponSlots[slot] = 'blaster'; setActiveSlot(world, slot); }
+  const { player } = world; spawnFloatingText(world, player.pos.x, player.pos.y - 30, { key: 'float.outOfAmmo' }, '#ff8800');
+  emit(world, { type: 'weaponSwap', weapon: world.currentWeapon });
+};
+
+const loadWeapon = (world: World, type: WeaponType, share: number) => {
+  const full = fullAmmo(world, type); if (full === undefined) return;
+  world.ammo[type] = Math.min(full, (world.ammo[type] || 0) + Math.ceil(full * share));
+};
+
+// Touching a weapon drop: tops up a gun already carried or fills the empty slot; true when the drop was taken
+export const pickUpWeapon = (world: World, item: Entity) => {
+  const type = item.weaponType!;
+  if (isCarried(world, type)) { loadWeapon(world, type, INITIAL_PLAYER_STATS.ammo / 100); return true; }
+  const empty = world.weaponSlots.indexOf(null);
+  if (empty === -1) { world.weaponOffer = item.id; return false; }
+  world.weaponSlots[empty] = type; loadWeapon(world, type, INITIAL_PLAYER_STATS.ammo / 100);
+  return true;
+};
+
+// Swap action over a drop with both slots full: the active gun is left behind for the new one
+export const takeOfferedWeapon = (world: World, item: Entity) => {
+  const type = item.weaponType!; const dropped = world.currentWeapon;
+  delete world.ammo[dropped]; world.weaponSlots[world.activeSlot] = type; loadWeapon(world, type, INITIAL_PLAYER_STATS.ammo / 100); setActiveSlot(world, world.activeSlot);
+  emit(world, { type: 'weaponSwap', weapon: type });
+};
+
+export const pickUpAmmo = (world: World, item: Entity) => {
+  const loaded = world.weaponSlots.filter((type): type is WeaponType => !!type && fullAmmo(world, type) !== undefined);
+  loaded.forEach(type => loadWeapon(world, type, AMMO_PICKUP_SHARE));
+  spawnParticles(world, item.pos.x, item.pos.y, item.color, 10);
+  spawnFloatingText(world, item.pos.x, item.pos.y - 20, { key: loaded.length > 0 ? 'float.ammo' : 'float.noAmmoGun' }, item.color);
+};
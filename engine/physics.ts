@@ -0,0 +1,35 @@
+import { CANVAS_HEIGHT, WORLD } from '../constants';
+import { Entity, Heightmap } from '../types';
+
+interface Box { pos: { x: number, y: number }, size: { x: number, y: number } }
+
+// --- Physics Helper Functions ---
+export const getGroundHeightAt = ({ first, heights }: Heightmap, x: number) => {
+  if (heights.length === 0) return CANVAS_HEIGHT;
+  const segmentWidth = WORLD.SEGMENT_WIDTH;
+  const index = Math.floor(x / segmentWidth) - first;
+  const t = (x % segmentWidth) / segmentWidth;
+
+  // Clamp index: outside the live chunks the ground carries on flat from the nearest edge
+  const i1 = Math.max(0, Math.min(index, heights.length - 1));
+  const i2 = Math.max(0, Math.min(index + 1, heights.length - 1));
+
+  const h1 = heights[i1];
+  const h2 = heights[i2];
+
+  return h1 + (h2 - h1) * t;
+};
+
+// Hazard covering the terrain segment under x
+export const getHazardAt = ({ first, hazards }: Heightmap, x: number) => hazards[Math.floor(x / WORLD.SEGMENT_WIDTH) - first] || undefined;
+
+export const checkCollision = (r1: Box, r2: Box) => {
+  return (r1.pos.x < r2.pos.x + r2.size.x &&
+          r1.pos.x + r1.size.x > r2.pos.x &&
+          r1.pos.y < r2.pos.y + r2.size.y &&
+          r1.pos.y + r1.size.y > r2.pos.y);
+};
+
+export const checkCollisionInflated = (proj: Entity, target: Entity, padding: number) => {
+  return (proj.pos.x - padding < target.pos.x + target.size.x && proj.pos.x + proj.size.x + padding > target.pos.x && proj.pos.y - padding < target.pos.y + target.size.y && proj.pos.y + proj.size.y + padding > target.pos.y);
+};
@@ -0,0 +1,51 @@
+import { Entity, Vector2 } from '../types';
+import { checkCollision } from './physics';
+import { queryBox } from './spatialHash';
+import { World } from './world';
+
+// --- Platforms ---
+// A layer of rectangles over the heightmap. Movers call ridePlatform before moving and collidePlatforms after.
+// Lookups go through world.platformGrid, rebuilt after updatePlatforms.
+
+const nearby: Entity[] = []; // Query buffer; no lookup here runs inside another
+
+// Moves platforms along their paths; vel holds this tick's displacement so riders can follow
+export const updatePlatforms = (world: World) => {
+  world.platforms.forEach(p => {
+    if (!p.path) return;
+    const { originX, originY, dx, dy, period, phase } = p.path; const swing = Math.sin((world.tick / period) * Math.PI * 2 + phase);
+    const x = originX + dx * swing; const y = originY + dy * swing;
+    p.vel.x = x - p.pos.x; p.vel.y = y - p.pos.y; p.pos.x = x; p.pos.y = y;
+  });
+};
+
+// The platform moved since the entity stood on it, but by less than the grid's padding
+const getPlatform = (world: World, ent: Entity) => (ent.platformId ? queryBox(world.platformGrid, ent.pos.x, ent.pos.y + ent.size.y, ent.size.x, 1, nearby).find(p => p.id === ent.platformId) : undefined);
+
+// Carries an entity along with the platform it stood on last tick
+export const ridePlatform = (world: World, ent: Entity) => {
+  const platform = getPlatform(world, ent);
+  if (platform) { ent.pos.x += platform.vel.x; ent.pos.y += platform.vel.y; }
+};
+
+// Resolves an entity that moved from `prev` against every platform it now overlaps.
+// Landing on top works for both kinds (unless dropping through a one-way); solid ones also stop heads and sides.
+export const collidePlatforms = (world: World, ent: Entity, prev: Vector2, dropThrough: boolean = false) => {
+  ent.platformId = undefined;
+  queryBox(world.platformGrid, ent.pos.x, ent.pos.y, ent.size.x, ent.size.y, nearby).forEach(p => {
+    if (!checkCollision(ent, p)) return;
+    const prevBottom = prev.y + ent.size.y; const prevTop = prev.y; const lastTop = p.pos.y - p.vel.y;
+    const fromAbove = prevBottom <= Math.max(p.pos.y, lastTop) + 2 && ent.vel.y >= 0;
+    if (fromAbove && !(dropThrough && p.platformKind === 'oneWay')) {
+      ent.pos.y = p.pos.y - ent.size.y; ent.vel.y = 0; ent.isGrounded = true; ent.platformId = p.id;
+    } else if (p.platformKind === 'solid') {
+      if (prevTop >= p.pos.y + p.size.y - 2) { ent.pos.y = p.pos.y + p.size.y; ent.vel.y = Math.max(0, ent.vel.y); }
+      else { ent.pos.x = prev.x + ent.size.x / 2 < p.pos.x + p.size.x / 2 ? p.pos.x - ent.size.x : p.pos.x + p.size.x; ent.vel.x = 0; }
+    }
+  });
+};
+
+// Solid platforms stop shots; one-way platforms let them through
+export const hitsSolidPlatform = (world: World, proj: Entity) => queryBox(world.platformGrid, proj.pos.x, proj.pos.y, proj.size.x, proj.size.y, nearby).some(p => p.platformKind === 'solid' && checkCollision(proj, p));
+
+export const isInsideSolid = (world: World, x: number, y: number) => queryBox(world.platformGrid, x, y, 0, 0, nearby).some(p => p.platformKind === 'solid' && x > p.pos.x && x < p.pos.x + p.size.x && y > p.pos.y && y < p.pos.y + p.size.y);
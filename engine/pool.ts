@@ -0,0 +1,35 @@
+// --- Object Pools ---
+// Short-lived objects (particles, floating text, projectiles) are recycled instead of allocated on every spawn.
+// The world keeps the live list as a plain array; the pool holds the free objects and the cap for that list.
+
+export interface Pool<T> {
+  free: T[];
+  create: (serial: number) => T;
+  allocated: number; // Objects ever created (live + free)
+  cap: number; // Most objects live at once; at the cap the oldest live ones are overwritten in turn
+  cursor: number;
+}
+
+export const createPool = <T>(create: (serial: number) => T, preallocate: number, cap: number = Infinity): Pool<T> => ({
+  free: Array.from({ length: preallocate }, (_, serial) => create(serial)), create, allocated: preallocate, cap, cursor: 0,
+});
+
+// An object to fill in and already in `live`: a free one, a fresh one, or (at the cap) a live one being reused.
+// Callers must set every field, since a recycled object still holds its last values.
+export const obtain = <T>(pool: Pool<T>, live: T[]): T => {
+  if (live.length >= pool.cap && live.length > 0) { pool.cursor = pool.cursor % live.length; return live[pool.cursor++]; }
+  const item = pool.free.pop() ?? pool.create(pool.allocated++);
+  live.push(item);
+  return item;
+};
+
+// Drops dead objects from `live` in place (order kept) and returns them to the pool
+export const sweep = <T>(pool: Pool<T>, live: T[], isDead: (item: T) => boolean) => {
+  let kept = 0;
+  for (let i = 0; i < live.length; i++) { const item = live[i]; if (isDead(item)) pool.free.push(item); else live[kept++] = item; }
+  live.length = kept;
+};
+
+export interface PoolStats { live: number; free: number; cap: number }
+
+export const getPoolStats = <T>(pool: Pool<T>, live: T[]): PoolStats => ({ live: live.length, free: pool.free.length, cap: pool.cap });
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { ENTITY_SIZE, INITIAL_UPGRADES } from '../constants';
+import { generatePlanetFromSeed } from '../services/planetGenerator';
+import { InputSnapshot, SimEvent } from '../types';
+import { getGroundHeightAt } from './physics';
+import { stepWorld } from './simulation';
+import { spawnEnemy } from './spawning';
+import { World, createWorld } from './world';
+
+const IDLE: InputSnapshot = { moveX: 0, jump: false, jetpack: false, jumpTriggersJetpack: false, fire: false, swap: false, aimAngle: 0, lookDown: false, lookY: 0 };
+
+const newWorld = () => createWorld(generatePlanetFromSeed(1234, 0), INITIAL_UPGRADES, 42);
+
+// Steps until `done` sees an event it wants (or the tick budget runs out), collecting every event on the way
+const stepUntil = (world: World, input: InputSnapshot, done: (event: SimEvent) => boolean, maxTicks: number = 600) => {
+  const events: SimEvent[] = [];
+  for (let i = 0; i < maxTicks && !events.some(done); i++) events.push(...stepWorld(world, input));
+  return events;
+};
+
+const land = (world: World) => stepUntil(world, IDLE, () => world.introTimer <= 0);
+
+describe('stepWorld', () => {
+  it('replays identically from the same seed and inputs', () => {
+    const input = { ...IDLE, moveX: 1, fire: true };
+    const first = newWorld(); const second = newWorld();
+    const a = stepUntil(first, input, () => false, 1500); const b = stepUntil(second, input, () => false, 1500);
+    expect(a.length).toBeGreaterThan(0);
+    expect(b).toEqual(a);
+    expect(second.player.pos).toEqual(first.player.pos);
+  });
+
+  it('lands the drop pod before handing over control', () => {
+    const world = newWorld();
+    expect(land(world)).toContainEqual(expect.objectContaining({ type: 'touchdown' }));
+  });
+
+  it('picks up loot the player stands on', () => {
+    const world = newWorld(); land(world);
+    const { player } = world;
+    world.loot.push({ id: 'test-health', pos: { ...player.pos }, vel: { x: 0, y: 0 }, size: ENTITY_SIZE.HEALTH_DROP, color: '#00ff00', type: 'loot', lootType: 'health', health: 1, maxHealth: 1, isGrounded: true, markedForDeletion: false, facingRight: true, variant: 0, animOffset: 0, hitTimer: 0 });
+    expect(stepWorld(world, IDLE)).toContainEqual(expect.objectContaining({ type: 'pickup', lootType: 'health' }));
+    expect(world.loot.some(item => item.id === 'test-health')).toBe(false);
+  });
+
+  it('damages and kills an enemy in the line of fire', () => {
+    const world = newWorld(); land(world);
+    const x = world.player.pos.x + 150; spawnEnemy(world, x, getGroundHeightAt(world.terrain, x), 'crawler', 'common');
+    const target = world.enemies[world.enemies.length - 1];
+    const aim = Math.atan2(target.pos.y + target.size.y / 2 - (world.player.pos.y + world.player.size.y / 2), target.pos.x - world.player.pos.x);
+    const events = stepUntil(world, { ...IDLE, fire: true, aimAngle: aim }, e => e.type === 'death' && e.target === 'enemy');
+    expect(events).toContainEqual(expect.objectContaining({ type: 'damage', target: 'enemy' }));
+    expect(events).toContainEqual(expect.objectContaining({ type: 'death', target: 'enemy', archetype: 'crawler' }));
+    expect(world.enemies).not.toContain(target);
+  });
+});
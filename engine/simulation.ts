@@ -0,0 +1,211 @@
+import { PHYSICS } from '../constants';
+import { Entity, InputSnapshot, SimEvent } from '../types';
+import { getArchetype } from './archetypes';
+import { updateEnemies } from './enemies';
+import { applyHazardToPlayer, updateHazardEffects } from './hazards';
+import { pickUpAmmo, pickUpWeapon, spendAmmo, switchWeaponSlot, takeOfferedWeapon } from './inventory';
+import { checkCollision, checkCollisionInflated, getGroundHeightAt, getHazardAt } from './physics';
+import { sweep } from './pool';
+import { collidePlatforms, hitsSolidPlatform, ridePlatform, updatePlatforms } from './platforms';
+import { SpatialHash, indexEnemies, indexPlatforms, queryBox } from './spatialHash';
+import { addScreenshake, spawnBoss, spawnExplosion, spawnFloatingText, spawnParticles, spawnPlayerProjectile, spawnSquad } from './spawning';
+import { streamChunks } from './streaming';
+import { applyWeatherStatus, getStatusDamageTakenMult, getStatusSpeedMult, inflictStatus, isStunned, updateStatusEffects } from './statusEffects';
+import { updateVegetationPhysics, updateWeather } from './weather';
+import { World, emit } from './world';
+
+// Drop pod landing before control is handed to the player
+const updateIntro = (world: World, dt: number) => {
+  const { player, planet } = world;
+  world.introTimer -= dt; player.vel.y += PHYSICS.GRAVITY * planet.gravity * dt * 2; player.pos.y += player.vel.y * dt;
+  const groundY = getGroundHeightAt(world.terrain, player.pos.x + 16);
+  if (player.pos.y + player.size.y >= groundY) { player.pos.y = groundY - player.size.y; player.vel.y = 0; player.vel.x = 0; if (world.introTimer > 60) { world.introTimer = 60; addScreenshake(world, 20); emit(world, { type: 'touchdown', x: player.pos.x, y: player.pos.y }); spawnParticles(world, player.pos.x, player.pos.y + 16, '#cccccc', 20, 10); } }
+  world.camera.x = (player.pos.x + player.size.x / 2) - (world.logicalWidth / 2); world.camera.y = (player.pos.y + player.size.y / 2) - (world.logicalHeight * 0.6);
+};
+
+const updatePlayer = (world: World, input: InputSnapshot, dt: number) => {
+  const { player, planet, camera, stats } = world;
+  if (player.hitTimer > 0) player.hitTimer -= dt; if (world.weaponCooldown > 0) world.weaponCooldown -= dt;
+  applyWeatherStatus(world, player); updateStatusEffects(world, player, dt);
+  const stunned = isStunned(player); const statusSpeed = getStatusSpeedMult(player);
+
+  world.aimAngle = input.aimAngle;
+  player.facingRight = Math.abs(world.aimAngle) < Math.PI / 2;
+
+  const currentSpeed = PHYSICS.PLAYER_SPEED * stats.moveSpeedMult * statusSpeed; const maxSpeed = PHYSICS.MAX_SPEED * stats.moveSpeedMult * statusSpeed;
+  let friction = player.isGrounded ? PHYSICS.FRICTION : PHYSICS.AIR_FRICTION;
+  const hazard = getHazardAt(world.terrain, player.pos.x + 16);
+  if (hazard && hazard.type === 'ice') friction = 0.98;
+
+  let windPush = 0; if (world.currentWeather === 'sandstorm') windPush = 0.2 * world.weatherIntensity; if (!player.isGrounded) player.vel.x += windPush;
+
+  if (Math.abs(input.moveX) > 0.1) { player.vel.x += input.moveX * currentSpeed * dt; } else { player.vel.x *= friction; }
+  if (Math.abs(player.vel.x) < 0.1) player.vel.x = 0;
+  player.vel.x = Math.max(Math.min(player.vel.x, maxSpeed), -maxSpeed);
+
+  if (player.isGrounded) { player.coyoteTimer = PHYSICS.COYOTE_TICKS; } else if (player.coyoteTimer && player.coyoteTimer > 0) { player.coyoteTimer -= dt; }
+  const isJetpackPressed = input.jetpack || (input.jumpTriggersJetpack && !player.isGrounded && player.vel.y > -5);
+  const canJump = (player.isGrounded || (player.coyoteTimer && player.coyoteTimer > 0)) && !world.jumpLock && !stunned;
+
+  if (input.jump && canJump) { player.vel.y = -PHYSICS.JUMP_FORCE * (1 / planet.gravity); player.isGrounded = false; player.coyoteTimer = 0; emit(world, { type: 'jump', x: player.pos.x, y: player.pos.y }); world.jumpLock = true; }
+  if (!input.jump) { world.jumpLock = false; }
+  if (player.isGrounded && player.fuel !== undefined && player.maxFuel !== undefined && !isJetpackPressed) { if (player.fuel < player.maxFuel) { player.fuel = Math.min(player.maxFuel, player.fuel + PHYSICS.JETPACK_FUEL_RECHARGE * dt); } }
+  world.jetpackActive = false;
+  if (isJetpackPressed && player.fuel !== undefined && player.fuel > 0) { world.jetpackActive = true; player.vel.y -= PHYSICS.JETPACK_FORCE * (1 / planet.gravity) * dt; player.fuel -= PHYSICS.JETPACK_FUEL_CONSUMPTION * dt; player.isGrounded = false; if (world.tick % 4 === 0) emit(world, { type: 'thrust', x: player.pos.x, y: player.pos.y }); const flameColor = world.rng.chance(0.5) ? '#00ffff' : '#ffffff'; spawnParticles(world, player.pos.x + 16, player.pos.y + 32, flameColor, 1, 4); }
+
+  // Swap is edge-triggered: over a drop with both slots full it takes the drop, otherwise it switches slots
+  if (input.swap && !world.swapLock) {
+    const offer = world.loot.find(item => item.id === world.weaponOffer && !item.markedForDeletion);
+    if (offer && checkCollision(player, offer)) { takeOfferedWeapon(world, offer); collectLoot(world, offer); } else { switchWeaponSlot(world); }
+  }
+  world.swapLock = input.swap;
+
+  if (input.fire && world.weaponCooldown <= 0 && !stunned) {
+    const weapon = world.weapons[world.currentWeapon];
+    const gunLen = 25;
+    const spawnX = (player.pos.x + player.size.x / 2) + Math.cos(world.aimAngle) * gunLen;
+    const spawnY = (player.pos.y + player.size.y / 2) + Math.sin(world.aimAngle) * gunLen;
+    const recoilAmount = spawnPlayerProjectile(world, spawnX, spawnY, world.aimAngle, world.currentWeapon);
+    player.vel.x -= Math.cos(world.aimAngle) * recoilAmount; player.vel.y -= Math.sin(world.aimAngle) * recoilAmount;
+    addScreenshake(world, recoilAmount * 0.8);
+    camera.x += Math.cos(world.aimAngle) * recoilAmount * 0.5; camera.y += Math.sin(world.aimAngle) * recoilAmount * 0.5;
+    world.weaponCooldown = weapon.fireRate;
+    spendAmmo(world);
+  }
+
+  ridePlatform(world, player); const prev = { ...player.pos };
+  player.vel.y += PHYSICS.GRAVITY * planet.gravity * dt; player.pos.x += player.vel.x * dt; player.pos.y += player.vel.y * dt;
+  const groundY = getGroundHeightAt(world.terrain, player.pos.x + 16);
+  if (hazard) applyHazardToPlayer(world, hazard, groundY);
+
+  if (player.pos.y + player.size.y >= groundY) { player.pos.y = groundY - player.size.y; player.vel.y = 0; player.isGrounded = true; } else { player.isGrounded = false; }
+  collidePlatforms(world, player, prev, input.lookDown); // Holding down drops through one-way platforms
+  if (player.pos.x < 0) player.pos.x = 0; if (player.pos.y > world.logicalHeight + 400) player.health = 0;
+};
+
+const updateCamera = (world: World, input: InputSnapshot, dt: number) => {
+  const { player, camera } = world;
+  const lookTarget = input.moveX * 150;
+  camera.lookOffset += (lookTarget - camera.lookOffset) * 0.05;
+  if (input.lookDown) { world.lookDownTimer += dt; } else { world.lookDownTimer = 0; }
+  const lookDownOffset = world.lookDownTimer > 30 ? 200 : 0;
+  const targetCamX = (player.pos.x + player.size.x / 2) - (world.logicalWidth / 2) + camera.lookOffset;
+  let targetCamY = (player.pos.y + player.size.y / 2) - (world.logicalHeight * 0.6) + input.lookY + lookDownOffset; if (targetCamY > 100) targetCamY = 100;
+  camera.x += (targetCamX - camera.x) * 0.08; camera.y += (targetCamY - camera.y) * 0.08;
+  if (camera.x < 0) camera.x = 0;
+};
+
+const hits: Entity[] = []; // Query buffer for the projectile pass
+
+const updateProjectiles = (world: World, enemyGrid: SpatialHash, dt: number) => {
+  const { player, planet, stats } = world;
+  world.projectiles.forEach(proj => {
+    if (proj.weaponType && world.weapons[proj.weaponType].gravity) { proj.vel.y += world.weapons[proj.weaponType].gravity! * dt; }
+    proj.pos.x += proj.vel.x * dt; proj.pos.y += proj.vel.y * dt;
+    if (hitsSolidPlatform(world, proj)) { proj.markedForDeletion = true; if (proj.isExplosive) spawnExplosion(world, proj.pos.x, proj.pos.y, proj.weaponType ? world.weapons[proj.weaponType] : undefined); else spawnParticles(world, proj.pos.x, proj.pos.y, proj.color, 2); return; }
+    if (proj.isShockwave) { const waveGround = getGroundHeightAt(world.terrain, proj.pos.x + proj.size.x / 2); if (proj.pos.y + proj.size.y - waveGround > 30) { proj.markedForDeletion = true; spawnParticles(world, proj.pos.x, waveGround, planet.groundColor, 6); } else { proj.pos.y = waveGround - proj.size.y; } }
+    if (proj.type === 'projectile') {
+      queryBox(enemyGrid, proj.pos.x - 8, proj.pos.y - 8, proj.size.x + 16, proj.size.y + 16, hits).forEach(enemy => {
+        if (enemy.markedForDeletion || proj.markedForDeletion || !checkCollisionInflated(proj, enemy, 8)) return;
+        const def = getArchetype(enemy.archetype); const damageBlocked = !!def.blocksHit?.(world, enemy, proj);
+        if (damageBlocked) { proj.markedForDeletion = true; spawnFloatingText(world, enemy.pos.x, enemy.pos.y - 10, { key: 'float.block' }, "#00ffff"); return; }
+        const wStats = world.weapons[proj.weaponType || 'blaster']; const baseDmg = 10 * wStats.damageMult; const dmgMult = def.damageTaken?.(world, enemy, proj) ?? 1; const finalDmg = Math.ceil(baseDmg * stats.damageMult * dmgMult * getStatusDamageTakenMult(enemy));
+        if (proj.isExplosive) { spawnExplosion(world, proj.pos.x, proj.pos.y, wStats); proj.markedForDeletion = true; return; }
+        enemy.health -= finalDmg; enemy.hitTimer = 5; if (enemy.aiState === 'idle') enemy.aiState = 'chase';
+        if (wStats.statusEffect) inflictStatus(world, enemy, wStats.statusEffect, wStats.statusChance);
+        emit(world, { type: 'damage', target: 'enemy', amount: finalDmg, x: enemy.pos.x, y: enemy.pos.y });
+        spawnParticles(world, proj.pos.x, proj.pos.y, '#ffff00', 2); spawnFloatingText(world, enemy.pos.x, enemy.pos.y, { key: 'float.damage', params: { amount: finalDmg } }, '#ffffff'); if (dmgMult > 1) spawnFloatingText(world, enemy.pos.x, enemy.pos.y - 20, { key: 'float.weakPoint' }, '#ff8800');
+        const kbStrength = wStats.knockback || 2; const angle = Math.atan2(proj.vel.y, proj.vel.x); enemy.vel.x += Math.cos(angle) * kbStrength; enemy.vel.y += Math.sin(angle) * (kbStrength * 0.5); enemy.isGrounded = false;
+        if (proj.pierceCount && proj.pierceCount > 0) { proj.pierceCount--; } else { proj.markedForDeletion = true; }
+      });
+    }
+    else if (proj.type === 'enemy_projectile') { if (checkCollision(proj, player)) { if (player.hitTimer <= 0) { const damage = Math.ceil(10 * getStatusDamageTakenMult(player)); player.health -= damage; player.hitTimer = PHYSICS.INVULNERABILITY_TICKS; world.hitStop = 4; addScreenshake(world, 5); emit(world, { type: 'damage', target: 'player', amount: damage, x: player.pos.x, y: player.pos.y }); spawnParticles(world, player.pos.x, player.pos.y, '#ff0000', 5); spawnFloatingText(world, player.pos.x, player.pos.y, { key: 'float.hpLoss', params: { amount: damage } }, '#ff0000'); } proj.markedForDeletion = true; } }
+    if (Math.abs(proj.pos.x - player.pos.x) > world.logicalWidth) proj.markedForDeletion = true;
+    const groundY = getGroundHeightAt(world.terrain, proj.pos.x); if (proj.pos.y > groundY) { proj.markedForDeletion = true; if (proj.isExplosive) { spawnExplosion(world, proj.pos.x, groundY, proj.weaponType ? world.weapons[proj.weaponType] : undefined); } else { spawnParticles(world, proj.pos.x, proj.pos.y, planet.groundColor, 2); } }
+  });
+};
+
+// Effects of a pickup; weapon drops have already been slotted by the inventory
+const collectLoot = (world: World, item: Entity) => {
+  const { player } = world;
+  item.markedForDeletion = true;
+  emit(world, { type: 'pickup', lootType: item.lootType || 'core', weaponType: item.weaponType, x: item.pos.x, y: item.pos.y });
+  if (item.lootType === 'core') {
+    world.coresCollected += 1; world.score += 500; spawnParticles(world, item.pos.x, item.pos.y, item.color, 20); spawnFloatingText(world, item.pos.x, item.pos.y - 20, { key: 'float.coreAcquired' }, item.color);
+    if (world.coresCollected === 1) emit(world, { type: 'radio', text: { key: 'radio.firstCore' } });
+    if (world.coresCollected === Math.floor(world.totalCoresNeeded / 2)) emit(world, { type: 'radio', text: { key: 'radio.halfCores' } });
+    if (world.coresCollected >= world.totalCoresNeeded) { spawnBoss(world); }
+  } else if (item.lootType === 'weapon' && item.weaponType) {
+    if (!world.salvage.weapons.includes(item.weaponType)) world.salvage.weapons.push(item.weaponType); spawnParticles(world, item.pos.x, item.pos.y, world.weapons[item.weaponType].color, 20); spawnFloatingText(world, item.pos.x, item.pos.y - 20, { key: 'float.weapon', params: { weapon: world.weapons[item.weaponType].name } }, world.weapons[item.weaponType].color);
+  } else if (item.lootType === 'mod' && item.modId) {
+    world.salvage.mods.push(item.modId); spawnParticles(world, item.pos.x, item.pos.y, item.color, 15); spawnFloatingText(world, item.pos.x, item.pos.y - 20, { key: 'float.mod', params: { mod: { key: `mod.${item.modId}` } } }, item.color);
+  } else if (item.lootType === 'ammo') {
+    pickUpAmmo(world, item);
+  } else if (item.lootType === 'health') {
+    player.health = Math.min(player.maxHealth, player.health + 20); spawnParticles(world, item.pos.x, item.pos.y, '#00ff00', 10); spawnFloatingText(world, item.pos.x, item.pos.y - 20, { key: 'float.hpGain', params: { amount: 20 } }, '#00ff00');
+  }
+};
+
+const updateLoot = (world: World, dt: number) => {
+  const { player, planet } = world;
+  world.weaponOffer = null;
+  world.loot.forEach(item => {
+    if (item.markedForDeletion || item.buried) return;
+    ridePlatform(world, item); const prev = { ...item.pos };
+    item.vel.y += PHYSICS.GRAVITY * planet.gravity * dt; item.pos.x += item.vel.x * dt; item.pos.y += item.vel.y * dt; const gY = getGroundHeightAt(world.terrain, item.pos.x + item.size.x / 2);
+    // Proximity sensor: pings faster as the player closes in
+    if (item.lootType === 'core') { const distToPlayer = Math.hypot(player.pos.x - item.pos.x, player.pos.y - item.pos.y); if (distToPlayer < 400) { const rate = Math.floor(distToPlayer / 50) * 10 + 20; if (world.tick % rate === 0) { emit(world, { type: 'coreProximity', x: item.pos.x, y: item.pos.y }); } } }
+    if (getHazardAt(world.terrain, item.pos.x)?.type === 'lava' && item.pos.y > gY - 10) { item.markedForDeletion = true; spawnParticles(world, item.pos.x, item.pos.y, '#ff0000', 5); }
+    if (item.pos.y + item.size.y >= gY) { item.pos.y = gY - item.size.y; item.vel.y = 0; }
+    collidePlatforms(world, item, prev);
+    if (!checkCollision(player, item) || (item.lootType === 'weapon' && !pickUpWeapon(world, item))) return;
+    collectLoot(world, item);
+  });
+};
+
+const updateParticles = (world: World, dt: number) => {
+  world.particles.forEach(p => {
+    if (p.type === 'casing') { p.vel.y += PHYSICS.GRAVITY * dt; p.pos.x += p.vel.x * dt; p.pos.y += p.vel.y * dt; p.life -= 0.01 * dt; if (p.rotation !== undefined && p.rotSpeed !== undefined) p.rotation += p.rotSpeed * dt; const gY = getGroundHeightAt(world.terrain, p.pos.x); if (p.pos.y >= gY - 2) { p.pos.y = gY - 2; p.vel.y *= -0.5; p.vel.x *= 0.8; if (Math.abs(p.vel.y) < 1) p.vel.y = 0; } }
+    else if (p.type === 'bubble') {
+      p.pos.y -= dt; // Bubble rise
+      p.life -= 0.02 * dt;
+    } else { p.pos.x += p.vel.x * dt; p.pos.y += p.vel.y * dt; p.life -= 0.05 * dt; }
+  });
+  world.texts.forEach(t => { t.y += t.velY * dt; t.life -= 0.02 * dt; });
+};
+
+/**
+ * Advances the world by exactly one fixed tick and returns the events raised during it.
+ * Pure with respect to the DOM: everything it needs comes from the world and the input snapshot.
+ */
+export const stepWorld = (world: World, input: InputSnapshot): SimEvent[] => {
+  const dt = 1; // Every step is one tick; rates below are per tick
+  world.events = [];
+  if (!world.isPlaying) return world.events;
+  if (world.hitStop > 0) { world.hitStop -= 1; return world.events; }
+  if (world.introTimer > 0) { updateIntro(world, dt); return world.events; }
+
+  updateWeather(world, dt);
+  updatePlatforms(world); indexPlatforms(world);
+  updateVegetationPhysics(world);
+  updateHazardEffects(world);
+
+  if (world.camera.shake > 0) world.camera.shake *= 0.9; if (world.camera.shake < 0.5) world.camera.shake = 0;
+  updatePlayer(world, input, dt);
+  updateCamera(world, input, dt);
+  streamChunks(world);
+
+  if (!world.bossActive) { if (world.player.pos.x > world.nextSquadSpawnX) { const spawnX = world.camera.x + world.logicalWidth + 200; spawnSquad(world, spawnX); const gap = 2500 - (world.planet.enemyDensity * 200) + (world.rng.next() * 800); world.nextSquadSpawnX = world.player.pos.x + Math.max(800, gap); } }
+
+  const enemyGrid = indexEnemies(world);
+  updateEnemies(world, enemyGrid, dt);
+  updateProjectiles(world, enemyGrid, dt);
+  updateLoot(world, dt);
+  updateParticles(world, dt);
+
+  world.enemies = world.enemies.filter(e => !e.markedForDeletion); world.loot = world.loot.filter(l => !l.markedForDeletion);
+  const { pools } = world; sweep(pools.projectiles, world.projectiles, p => p.markedForDeletion); sweep(pools.particles, world.particles, p => p.life <= 0); sweep(pools.texts, world.texts, t => t.life <= 0); world.tick++;
+
+  if (world.player.health <= 0 && world.isPlaying) { world.isPlaying = false; emit(world, { type: 'gameOver', reason: { key: 'end.suitSignal' } }); }
+  return world.events;
+};
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { Entity } from '../types';
+import { buildSpatialHash, queryBox } from './spatialHash';
+
+const box = (id: string, x: number, y: number, w: number, h: number): Entity => ({ id, pos: { x, y }, vel: { x: 0, y: 0 }, size: { x: w, y: h }, color: '#ffffff', type: 'enemy', health: 1, maxHealth: 1, isGrounded: true, markedForDeletion: false, facingRight: true, variant: 0, animOffset: 0, hitTimer: 0 });
+
+describe('queryBox', () => {
+  it('reports an entity spanning several cells once', () => {
+    const wide = box('wide', 0, 0, 500, 300);
+    expect(queryBox(buildSpatialHash([wide]), 0, 0, 600, 400, [])).toEqual([wide]);
+  });
+
+  it('fills and reuses the buffer it is given', () => {
+    const near = box('near', 10, 10, 20, 20); const far = box('far', 2000, 10, 20, 20);
+    const hash = buildSpatialHash([near, far]); const out: Entity[] = [];
+    expect(queryBox(hash, 0, 0, 50, 50, out)).toBe(out);
+    expect(out).toEqual([near]);
+    queryBox(hash, 1990, 0, 50, 50, out);
+    expect(out).toEqual([far]);
+  });
+
+  it('still finds an entity that moved less than the padding', () => {
+    const mover = box('mover', 120, 10, 6, 6);
+    const hash = buildSpatialHash([mover], 32);
+    mover.pos.x = 140;
+    expect(queryBox(hash, 140, 10, 6, 6, [])).toEqual([mover]);
+    expect(queryBox(buildSpatialHash([box('still', 120, 10, 6, 6)]), 140, 10, 6, 6, [])).toEqual([]);
+  });
+});
@@ -0,0 +1,49 @@
+import { STREAMING } from '../constants';
+import { Entity } from '../types';
+import { World } from './world';
+
+// --- Spatial Hash ---
+// Buckets entities by grid cell so neighbour and hit queries only look at what is nearby, not the whole list.
+// Built once per step; entries are grown by `padding` so the grid still finds anything that has moved less than that since.
+
+export interface SpatialHash {
+  cellSize: number;
+  cells: Map<number, number[]>; // Cell key -> indices into entities
+  entities: Entity[];
+  marks: number[]; // Per entity, the last query that reported it: one spanning several cells comes back once
+  query: number;
+}
+
+// Rows wrap every 1024 cells; a clash only adds candidates, which callers filter with their exact test anyway
+const cellKey = (cx: number, cy: number) => cx * 1024 + (cy & 1023);
+
+export const buildSpatialHash = (entities: Entity[], padding: number = 0, cellSize: number = STREAMING.HASH_CELL): SpatialHash => {
+  const cells = new Map<number, number[]>();
+  entities.forEach((e, index) => {
+    const x1 = Math.floor((e.pos.x - padding) / cellSize); const x2 = Math.floor((e.pos.x + e.size.x + padding) / cellSize); const y1 = Math.floor((e.pos.y - padding) / cellSize); const y2 = Math.floor((e.pos.y + e.size.y + padding) / cellSize);
+    for (let cx = x1; cx <= x2; cx++) for (let cy = y1; cy <= y2; cy++) { const key = cellKey(cx, cy); const cell = cells.get(key); if (cell) cell.push(index); else cells.set(key, [index]); }
+  });
+  return { cellSize, cells, entities, marks: entities.map(() => 0), query: 0 };
+};
+
+// Fills `out` with the entities whose cells touch the box, each once, in cell order. Every caller keeps its own buffer,
+// since queries nest (an explosion inside a hit loop); what a buffer holds is only good until its next query.
+export const queryBox = (hash: SpatialHash, x: number, y: number, w: number, h: number, out: Entity[]) => {
+  const { cellSize, cells, entities, marks } = hash; const query = ++hash.query;
+  out.length = 0;
+  const x1 = Math.floor(x / cellSize); const x2 = Math.floor((x + w) / cellSize); const y1 = Math.floor(y / cellSize); const y2 = Math.floor((y + h) / cellSize);
+  for (let cx = x1; cx <= x2; cx++) for (let cy = y1; cy <= y2; cy++) {
+    const cell = cells.get(cellKey(cx, cy)); if (!cell) continue;
+    for (const index of cell) if (marks[index] !== query) { marks[index] = query; out.push(entities[index]); }
+  }
+  return out;
+};
+
+export const queryRadius = (hash: SpatialHash, x: number, y: number, radius: number, out: Entity[]) => queryBox(hash, x - radius, y - radius, radius * 2, radius * 2, out);
+
+// Once per step, before the enemies move: the padding covers their moves, so the projectile pass after them can use it too.
+// Enemies spawned later in the step are left out until the next one.
+export const indexEnemies = (world: World) => (world.enemyGrid = buildSpatialHash(world.enemies, STREAMING.HASH_PADDING));
+
+// After platforms move and whenever streaming changes the list; the padding lets riders find the platform they stood on
+export const indexPlatforms = (world: World) => { world.platformGrid = buildSpatialHash(world.platforms, STREAMING.HASH_PADDING); };
@@ -0,0 +1,154 @@
+import { ENTITY_SIZE, PHYSICS, WEAPONS, WEAPON_MODS } from '../constants';
+import { EnemyArchetype, Entity, LootType, Particle, TextRef, Vector2, WeaponModId, WeaponStats, WeaponType } from '../types';
+import { getGroundHeightAt } from './physics';
+import { obtain } from './pool';
+import { World, emit, nextEntityId } from './world';
+import { getArchetype, pickArchetype } from './archetypes';
+import { getGuardianVariant } from './boss/variants';
+import { queryRadius } from './spatialHash';
+import { getStatusDamageTakenMult, inflictStatus } from './statusEffects';
+import { carveCrater } from './terrain';
+
+export const addScreenshake = (world: World, amount: number) => { world.camera.shake = amount; };
+
+// --- Pooled Effects ---
+// Particles, texts and projectiles come from the world's pools and may be recycled objects, so each spawn sets every field.
+
+export const spawnFloatingText = (world: World, x: number, y: number, text: TextRef, color: string) => {
+  const t = obtain(world.pools.texts, world.texts);
+  t.x = x; t.y = y; t.text = text; t.color = color; t.life = 1.0; t.velY = -2;
+};
+
+const resetParticle = (p: Particle, x: number, y: number, vx: number, vy: number, life: number, color: string, size: number, type?: Particle['type']) => {
+  p.pos.x = x; p.pos.y = y; p.vel.x = vx; p.vel.y = vy; p.life = life; p.maxLife = life; p.color = color; p.size = size; p.type = type; p.rotation = undefined; p.rotSpeed = undefined;
+  return p;
+};
+
+export const spawnParticle = (world: World, x: number, y: number, vx: number, vy: number, life: number, color: string, size: number, type?: Particle['type']) =>
+  resetParticle(obtain(world.pools.particles, world.particles), x, y, vx, vy, life, color, size, type);
+
+export const spawnWeatherParticle = (world: World, x: number, y: number) =>
+  resetParticle(obtain(world.pools.weatherParticles, world.weatherParticles), x, y, 0, 0, 1.0, '#fff', 1, 'weather');
+
+export const spawnParticles = (world: World, x: number, y: number, color: string, count: number, speed: number = 6) => {
+  const { rng } = world;
+  for (let i = 0; i < count; i++) spawnParticle(world, x, y, (rng.next() - 0.5) * speed, (rng.next() - 0.5) * speed, 1.0, color, rng.next() * 3 + 1);
+};
+
+const spawnProjectile = (world: World, type: 'projectile' | 'enemy_projectile', x: number, y: number, vx: number, vy: number, size: Vector2, color: string, facingRight: boolean) => {
+  const p = obtain(world.pools.projectiles, world.projectiles);
+  p.type = type; p.pos.x = x; p.pos.y = y; p.vel.x = vx; p.vel.y = vy; p.size = size; p.color = color; p.facingRight = facingRight;
+  p.health = 1; p.maxHealth = 1; p.isGrounded = false; p.markedForDeletion = false; p.variant = 0; p.animOffset = 0; p.hitTimer = 0;
+  p.prevPos = undefined; p.weaponType = undefined; p.pierceCount = undefined; p.isExplosive = undefined; p.isShockwave = undefined;
+  return p;
+};
+
+export const spawnPlayerProjectile = (world: World, x: number, y: number, angle: number, weapon: WeaponType) => {
+  const { rng } = world;
+  const stats = world.weapons[weapon];
+  const baseSpeed = stats.speed * (1 + (world.upgrades.weapon - 1) * 0.05);
+  emit(world, { type: 'shoot', weapon, x, y });
+  const caseAngle = angle + Math.PI + (rng.next() - 0.5);
+  const casing = spawnParticle(world, x, y, Math.cos(caseAngle) * (rng.next() * 2 + 1), -rng.next() * 3 - 2, 2.0, '#ffd700', 2, 'casing');
+  casing.rotation = rng.next() * Math.PI * 2; casing.rotSpeed = (rng.next() - 0.5) * 0.5;
+  for (let i = 0; i < stats.count; i++) {
+    const spreadAngle = angle + (rng.next() - 0.5) * stats.spread;
+    const proj = spawnProjectile(world, 'projectile', x, y, Math.cos(spreadAngle) * baseSpeed, Math.sin(spreadAngle) * baseSpeed, ENTITY_SIZE.PROJECTILE, stats.color, Math.abs(spreadAngle) < Math.PI / 2);
+    proj.weaponType = weapon; proj.pierceCount = stats.pierce || 0; proj.isExplosive = stats.isExplosive || false;
+  }
+  return stats.recoil;
+};
+
+export const spawnEnemyProjectile = (world: World, x: number, y: number, angle: number, color: string = '#ff00ff') => {
+  const speed = PHYSICS.PROJECTILE_SPEED * 0.6;
+  emit(world, { type: 'enemyShoot', x, y });
+  spawnProjectile(world, 'enemy_projectile', x, y, Math.cos(angle) * speed, Math.sin(angle) * speed, ENTITY_SIZE.ENEMY_PROJECTILE, color, true);
+};
+
+// Ground wave from a slam: travels along the terrain surface in `dir` until a steep rise breaks it
+export const spawnShockwave = (world: World, x: number, dir: -1 | 1, speed: number, color: string) => {
+  const size = ENTITY_SIZE.SHOCKWAVE; const y = getGroundHeightAt(world.terrain, x) - size.y;
+  const wave = spawnProjectile(world, 'enemy_projectile', x - size.x / 2, y, dir * speed, 0, size, color, dir > 0);
+  wave.isGrounded = true; wave.isShockwave = true;
+};
+
+const blasted: Entity[] = []; // Query buffer for spawnExplosion (runs inside the projectile pass's own query)
+
+export const spawnExplosion = (world: World, x: number, y: number, weapon?: WeaponStats) => {
+  addScreenshake(world, 15);
+  emit(world, { type: 'explosion', x, y });
+  carveCrater(world, x, y);
+  spawnParticles(world, x, y, '#ffaa00', 20, 10);
+  spawnParticles(world, x, y, '#ffffff', 10, 5);
+  queryRadius(world.enemyGrid, x, y, 100, blasted).forEach(e => {
+    const dist = Math.hypot(e.pos.x - x, e.pos.y - y);
+    if (dist < 100) {
+      const damage = 50 * (1 + (world.upgrades.weapon - 1) * 0.2) * getStatusDamageTakenMult(e);
+      e.health -= damage; e.hitTimer = 10; if (weapon?.statusEffect) inflictStatus(world, e, weapon.statusEffect, weapon.statusChance);
+      emit(world, { type: 'damage', target: 'enemy', amount: damage, x: e.pos.x, y: e.pos.y });
+      spawnFloatingText(world, e.pos.x, e.pos.y, { key: 'float.boom' }, "#ffaa00");
+      const angle = Math.atan2(e.pos.y - y, e.pos.x - x);
+      e.vel.x += Math.cos(angle) * 10; e.vel.y += Math.sin(angle) * 10;
+    }
+  });
+};
+
+export const spawnBoss = (world: World) => {
+  if (world.bossActive) return;
+  world.bossActive = true;
+  addScreenshake(world, 30);
+  emit(world, { type: 'radio', text: { key: 'radio.seismic' } });
+  emit(world, { type: 'radio', text: { key: 'radio.guardian' } });
+  const spawnX = world.player.pos.x + 400; const spawnY = world.player.pos.y - 200;
+  emit(world, { type: 'bossSpawn', x: spawnX, y: spawnY });
+  const def = getArchetype('guardian'); const stats = def.stats;
+  world.enemies.push({ id: 'guardian-boss', pos: { x: spawnX, y: spawnY }, vel: { x: 0, y: 0 }, size: { ...def.size }, color: getGuardianVariant(world.planet).color, type: 'enemy', archetype: 'guardian', health: stats.hp, maxHealth: stats.hp, isGrounded: false, markedForDeletion: false, facingRight: false, variant: 0, animOffset: 0, hitTimer: 0, aiState: 'phase1', attackTimer: 100 });
+};
+
+export const spawnEnemy = (world: World, x: number, groundY: number, forcedArch?: EnemyArchetype, forcedRarity?: 'common' | 'elite') => {
+  const { rng, planet } = world;
+  const rand = rng.next();
+  const arch: EnemyArchetype = forcedArch || pickArchetype(rand);
+  const def = getArchetype(arch); const baseSize = def.size; const stats = def.stats;
+  let y = groundY - baseSize.y; if (def.placement === 'air') y = groundY - 100 - rng.next() * 50;
+  const difficultyMult = 1 + (planet.enemyDensity * 0.05); let scaledHP = Math.floor(stats.hp * difficultyMult); let rarity: 'common' | 'elite' = forcedRarity || 'common';
+  if (!forcedRarity && def.canBeElite !== false && rng.next() > 0.85) { rarity = 'elite'; }
+  let color = def.color || planet.enemyColor; if (rarity === 'elite') { color = '#ffd700'; scaledHP = Math.floor(scaledHP * 2); }
+  const sizeVariation = 0.85 + rng.next() * 0.3; const finalSize = { x: baseSize.x * (rarity === 'elite' ? 1.3 : 1) * sizeVariation, y: baseSize.y * (rarity === 'elite' ? 1.3 : 1) * sizeVariation }; if (def.placement !== 'air') { y = groundY - finalSize.y; }
+  const ent: Entity = { id: nextEntityId(world, 'enemy'), pos: { x, y }, vel: { x: 0, y: 0 }, size: finalSize, color: color, type: 'enemy', health: scaledHP, maxHealth: scaledHP, isGrounded: false, markedForDeletion: false, facingRight: false, variant: rng.int(0, 2), animOffset: rng.next() * 100, archetype: arch, rarity: rarity, aiState: 'idle', attackTimer: def.spawnState?.attackTimer ?? rng.next() * 100, alertTimer: 0, hitTimer: 0, isBurrowed: false, shieldHp: 0, ...def.spawnState };
+  def.onSpawn?.(world, ent);
+  world.enemies.push(ent);
+};
+
+export const spawnSquad = (world: World, startX: number) => {
+  const { rng, planet } = world;
+  const themes: { id: string, weight: number }[] = [ { id: 'mixed', weight: 3 }, { id: 'air_raid', weight: 2 }, { id: 'heavy_ground', weight: 2 }, { id: 'sniper_nest', weight: 1 }, { id: 'swarm', weight: 2 }, { id: 'minefield', weight: 2 }, { id: 'phalanx', weight: 2 } ];
+  const totalWeight = themes.reduce((a, b) => a + b.weight, 0); let rand = rng.next() * totalWeight; let selectedTheme = 'mixed'; for (const t of themes) { if (rand < t.weight) { selectedTheme = t.id; break; } rand -= t.weight; }
+  const squadMembers: { arch: EnemyArchetype, offsetX: number, offsetY: number, isLeader: boolean }[] = []; const densityBonus = Math.floor(planet.enemyDensity / 3);
+  if (selectedTheme === 'air_raid') { const count = 3 + densityBonus; for (let i = 0; i < count; i++) { squadMembers.push({ arch: 'hornet', offsetX: i * 40, offsetY: -(i % 2) * 50 - 50, isLeader: false }); } }
+  else if (selectedTheme === 'heavy_ground') { squadMembers.push({ arch: 'dasher', offsetX: 0, offsetY: 0, isLeader: true }); const crawlers = 2 + densityBonus; for (let i = 0; i < crawlers; i++) { squadMembers.push({ arch: 'crawler', offsetX: 80 + (i * 40), offsetY: 0, isLeader: false }); } }
+  else if (selectedTheme === 'sniper_nest') { squadMembers.push({ arch: 'sentinel', offsetX: 0, offsetY: 0, isLeader: true }); squadMembers.push({ arch: 'sentinel', offsetX: 150, offsetY: 0, isLeader: false }); squadMembers.push({ arch: 'crawler', offsetX: 75, offsetY: 0, isLeader: false }); }
+  else if (selectedTheme === 'swarm') { const type: EnemyArchetype = rng.next() > 0.5 ? 'crawler' : 'neutral'; const count = 5 + densityBonus * 2; for (let i = 0; i < count; i++) { squadMembers.push({ arch: type, offsetX: i * 30 + (rng.next() * 20), offsetY: 0, isLeader: false }); } }
+  else if (selectedTheme === 'minefield') { squadMembers.push({ arch: 'spore', offsetX: 0, offsetY: -100, isLeader: false }); squadMembers.push({ arch: 'spore', offsetX: 60, offsetY: -50, isLeader: false }); squadMembers.push({ arch: 'spore', offsetX: 120, offsetY: -80, isLeader: false }); squadMembers.push({ arch: 'sandworm', offsetX: 60, offsetY: 0, isLeader: true }); }
+  else if (selectedTheme === 'phalanx') { squadMembers.push({ arch: 'shielder', offsetX: 0, offsetY: 0, isLeader: true }); squadMembers.push({ arch: 'sentinel', offsetX: 50, offsetY: 0, isLeader: false }); squadMembers.push({ arch: 'sentinel', offsetX: 100, offsetY: 0, isLeader: false }); }
+  else { squadMembers.push({ arch: 'sentinel', offsetX: 0, offsetY: 0, isLeader: false }); squadMembers.push({ arch: 'crawler', offsetX: 60, offsetY: 0, isLeader: false }); squadMembers.push({ arch: 'crawler', offsetX: 120, offsetY: 0, isLeader: false }); }
+  const alphaChance = 0.15 + (planet.enemyDensity * 0.03);
+  if (rng.next() < alphaChance && squadMembers.length > 0) { const dasherIdx = squadMembers.findIndex(m => m.arch === 'dasher'); const sentinelIdx = squadMembers.findIndex(m => m.arch === 'sentinel'); let leaderIdx = 0; if (dasherIdx !== -1) leaderIdx = dasherIdx; else if (sentinelIdx !== -1) leaderIdx = sentinelIdx; squadMembers[leaderIdx].isLeader = true; }
+  squadMembers.forEach(mem => { const x = startX + mem.offsetX; const gY = getGroundHeightAt(world.terrain, x); let spawnY = gY; if (mem.offsetY !== 0) { spawnY = gY + mem.offsetY; } spawnEnemy(world, x, spawnY, mem.arch, mem.isLeader ? 'elite' : 'common'); });
+};
+
+export const spawnLoot = (world: World, x: number, y: number, type: Exclude<LootType, 'core'>) => {
+  const { rng } = world;
+  if (type === 'weapon') {
+    const weaponTypes: WeaponType[] = ['scatter', 'rapid', 'sniper', 'launcher'];
+    const weapon = rng.pick(weaponTypes);
+    world.loot.push({ id: nextEntityId(world, 'loot'), pos: { x, y }, vel: { x: (rng.next() - 0.5) * 4, y: -5 }, size: ENTITY_SIZE.WEAPON_DROP, color: WEAPONS[weapon].color, type: 'loot', lootType: 'weapon', weaponType: weapon, health: 1, maxHealth: 1, isGrounded: false, markedForDeletion: false, facingRight: true, variant: 0, animOffset: 0, hitTimer: 0 });
+  } else if (type === 'mod') {
+    const modId = rng.pick(Object.keys(WEAPON_MODS) as WeaponModId[]);
+    world.loot.push({ id: nextEntityId(world, 'loot'), pos: { x, y }, vel: { x: (rng.next() - 0.5) * 4, y: -5 }, size: ENTITY_SIZE.MOD_DROP, color: WEAPON_MODS[modId].color, type: 'loot', lootType: 'mod', modId, health: 1, maxHealth: 1, isGrounded: false, markedForDeletion: false, facingRight: true, variant: 0, animOffset: 0, hitTimer: 0 });
+  } else if (type === 'ammo') {
+    world.loot.push({ id: nextEntityId(world, 'loot'), pos: { x, y }, vel: { x: (rng.next() - 0.5) * 4, y: -5 }, size: ENTITY_SIZE.AMMO_DROP, color: '#ffcc00', type: 'loot', lootType: 'ammo', health: 1, maxHealth: 1, isGrounded: false, markedForDeletion: false, facingRight: true, variant: 0, animOffset: 0, hitTimer: 0 });
+  } else {
+    world.loot.push({ id: nextEntityId(world, 'loot'), pos: { x, y }, vel: { x: (rng.next() - 0.5) * 4, y: -5 }, size: ENTITY_SIZE.HEALTH_DROP, color: '#00ff00', type: 'loot', lootType: 'health', health: 1, maxHealth: 1, isGrounded: false, markedForDeletion: false, facingRight: true, variant: 0, animOffset: 0, hitTimer: 0 });
+  }
+};
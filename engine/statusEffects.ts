@@ -0,0 +1,57 @@
+import { HAZARD_STATUS, STATUS_EFFECTS, WEATHER_STATUS } from '../constants';
+import { Entity, Hazard, StatusEffectId } from '../types';
+import { getArchetype } from './archetypes';
+import { spawnFloatingText } from './spawning';
+import { World, emit } from './world';
+
+// --- Status Effects ---
+// Shared by the player and enemies: hazards, weather and weapons apply them, the entity's own update ticks them.
+
+export const isImmune = (ent: Entity, id: StatusEffectId) => ent.type === 'enemy' && !!getArchetype(ent.archetype).immunities?.includes(id);
+
+// Reapplying refreshes the duration and adds a stack up to the effect's cap
+export const applyStatus = (world: World, ent: Entity, id: StatusEffectId) => {
+  if (isImmune(ent, id)) return;
+  const def = STATUS_EFFECTS[id]; const effects = ent.statusEffects || (ent.statusEffects = []);
+  const current = effects.find(effect => effect.id === id);
+  if (current) { current.ticks = def.duration; current.stacks = Math.min(def.maxStacks, current.stacks + 1); return; }
+  if (def.cancels) ent.statusEffects = effects.filter(effect => !def.cancels!.includes(effect.id));
+  ent.statusEffects!.push({ id, ticks: def.duration, age: 0, stacks: 1 });
+};
+
+// Weapon hits: rolls the weapon's chance (a sure effect does not touch the rng)
+export const inflictStatus = (world: World, ent: Entity, id: StatusEffectId, chance: number = 1) => {
+  if (chance >= 1 || world.rng.chance(chance)) applyStatus(world, ent, id);
+};
+
+// Damage ticks, then expiry. Deaths are left to the owner's usual health check.
+export const updateStatusEffects = (world: World, ent: Entity, dt: number) => {
+  if (!ent.statusEffects || ent.statusEffects.length === 0) return;
+  ent.statusEffects.forEach(effect => {
+    const def = STATUS_EFFECTS[effect.id];
+    if (def.damage > 0 && effect.age % def.tickEvery === 0) {
+      const amount = def.damage * effect.stacks; ent.health -= amount;
+      emit(world, { type: 'damage', target: ent.type === 'player' ? 'player' : 'enemy', amount, x: ent.pos.x, y: ent.pos.y });
+      spawnFloatingText(world, ent.pos.x, ent.pos.y, { key: 'float.status', params: { amount, status: { key: `status.${effect.id}` } } }, def.color);
+    }
+    effect.age += dt; effect.ticks -= dt;
+  });
+  ent.statusEffects = ent.statusEffects.filter(effect => effect.ticks > 0);
+};
+
+export const getStatusSpeedMult = (ent: Entity) => (ent.statusEffects || []).reduce((mult, effect) => mult * (STATUS_EFFECTS[effect.id].speedMult ?? 1), 1);
+
+export const getStatusDamageTakenMult = (ent: Entity) => (ent.statusEffects || []).reduce((mult, effect) => mult + (STATUS_EFFECTS[effect.id].damageTakenMult ?? 0) * effect.stacks, 1);
+
+export const isStunned = (ent: Entity) => !!ent.statusEffects?.some(effect => STATUS_EFFECTS[effect.id].stun);
+
+// Standing in a hazard's pool (lava, acid) or field (electric)
+export const applyHazardStatus = (world: World, ent: Entity, hazard: Hazard) => {
+  const source = HAZARD_STATUS[hazard.type];
+  if (source && world.tick % source.every === 0) applyStatus(world, ent, source.effect);
+};
+
+export const applyWeatherStatus = (world: World, ent: Entity) => {
+  const source = WEATHER_STATUS[world.currentWeather];
+  if (source && world.weatherState === 'active' && world.weatherIntensity >= 0.5 && world.tick % source.every === 0) applyStatus(world, ent, source.effect);
+};
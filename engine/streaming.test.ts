@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_UPGRADES, WORLD } from '../constants';
+import { generateChunk } from '../services/levelGenerator';
+import { generatePlanetFromSeed } from '../services/planetGenerator';
+import { getGroundHeightAt } from './physics';
+import { streamChunks } from './streaming';
+import { carveCrater } from './terrain';
+import { World, createWorld } from './world';
+
+const CHUNK_WIDTH = WORLD.SEGMENT_WIDTH * WORLD.CHUNK_LENGTH;
+
+const newWorld = () => createWorld(generatePlanetFromSeed(1234, 0), INITIAL_UPGRADES, 42);
+
+const moveTo = (world: World, x: number) => { world.player.pos.x = x; streamChunks(world); };
+
+const firstCore = (world: World) => world.level.cores[0];
+
+describe('streamChunks', () => {
+  it('keeps only the ground, craters and hazards of the live chunks', () => {
+    const world = newWorld();
+    const x = 200; carveCrater(world, x, getGroundHeightAt(world.terrain, x));
+    expect(world.craters).toHaveLength(1);
+    moveTo(world, 3 * CHUNK_WIDTH + 100);
+    expect(world.terrain.first).toBe(2 * WORLD.CHUNK_LENGTH);
+    expect(world.craters).toHaveLength(0);
+    expect(world.hazards.every(h => h.x >= 2 * CHUNK_WIDTH)).toBe(true);
+  });
+
+  it('rebuilds a dropped chunk with fresh ground', () => {
+    const world = newWorld();
+    const pristine = generateChunk(world.planet, world.level, 0, world.level.startHeight).terrain;
+    const x = 200; carveCrater(world, x, getGroundHeightAt(world.terrain, x));
+    expect(world.terrain.heights.slice(0, WORLD.CHUNK_LENGTH)).not.toEqual(pristine);
+    moveTo(world, 3 * CHUNK_WIDTH + 100); moveTo(world, 100);
+    expect(world.terrain.heights.slice(0, WORLD.CHUNK_LENGTH)).toEqual(pristine);
+  });
+
+  it('brings back cores that were left behind but not the ones picked up', () => {
+    const world = newWorld(); const core = firstCore(world);
+    moveTo(world, core.pos.x);
+    expect(world.loot.some(l => l.id === core.id)).toBe(true);
+    moveTo(world, core.pos.x + 3 * CHUNK_WIDTH); moveTo(world, core.pos.x);
+    expect(world.loot.some(l => l.id === core.id)).toBe(true);
+
+    world.loot = world.loot.filter(l => l.id !== core.id);
+    moveTo(world, core.pos.x + 3 * CHUNK_WIDTH); moveTo(world, core.pos.x);
+    expect(world.loot.some(l => l.id === core.id)).toBe(false);
+  });
+});
@@ -0,0 +1,74 @@
+import { STREAMING, WORLD } from '../constants';
+import { generateChunk } from '../services/levelGenerator';
+import { Hazard, LevelChunk } from '../types';
+import { indexPlatforms } from './spatialHash';
+import { World } from './world';
+
+// --- Level Streaming ---
+// Only the chunks around the player exist. Each chunk is a pure function of the planet, its index and the height it
+// starts from, so a dropped chunk goes whole (ground and craters, hazards, scenery, cores and caches) and is generated
+// again on the way back. All that outlives it is where its ground ends, its biome and which of its cores and caches are gone.
+
+const CHUNK_WIDTH = WORLD.SEGMENT_WIDTH * WORLD.CHUNK_LENGTH;
+
+export const getChunkIndex = (x: number) => Math.floor(Math.max(0, x) / CHUNK_WIDTH);
+
+// The last chunk also owns everything past the end of the level
+const chunkOf = (world: World, x: number) => Math.min(getChunkIndex(x), world.level.chunkCount - 1);
+
+const isGenerated = (world: World, index: number) => index < world.terrainBiomes.length;
+
+// First visit: records where the next chunk's ground picks up
+const settleChunk = (world: World, chunk: LevelChunk) => { world.terrainBiomes.push(chunk.biome); world.chunkHeights.push(chunk.endHeight); };
+
+// Returns the chunk's ground. Guards only come with the first visit; cores and caches come back until they are gone.
+// Chunks the player outran are settled on the way (their guards would be dropped at once).
+const loadChunk = (world: World, index: number) => {
+  while (world.terrainBiomes.length < index) { const skipped = world.terrainBiomes.length; settleChunk(world, generateChunk(world.planet, world.level, skipped, world.chunkHeights[skipped])); }
+  const chunk = generateChunk(world.planet, world.level, index, world.chunkHeights[index]);
+  if (!isGenerated(world, index)) { settleChunk(world, chunk); world.enemies.push(...chunk.guards); }
+  const loot = [...chunk.cores, ...chunk.caches].filter(item => !world.lootGone.includes(item.id));
+  world.loot.push(...loot); world.chunkLoot[index] = loot.map(item => item.id);
+  world.hazards.push(...chunk.hazards); world.platforms.push(...chunk.platforms); world.decorations.push(...chunk.decorations); world.vegetation.push(...chunk.vegetation);
+  return chunk.terrain;
+};
+
+// Cores and caches placed with the chunk that are no longer around were picked up (or lost to lava) and stay gone
+const dropChunk = (world: World, index: number) => {
+  const here = (x: number) => chunkOf(world, x) === index;
+  world.lootGone.push(...(world.chunkLoot[index] || []).filter(id => !world.loot.some(l => l.id === id && !l.markedForDeletion))); delete world.chunkLoot[index];
+  world.craters = world.craters.filter(c => !here(c.x)); world.hazards = world.hazards.filter(h => !here(h.x)); world.platforms = world.platforms.filter(p => !here(p.pos.x));
+  world.decorations = world.decorations.filter(d => !here(d.x)); world.vegetation = world.vegetation.filter(v => !here(v.x));
+};
+
+// The first listed hazard over each live segment
+const mapHazards = (world: World, first: number, count: number) => {
+  const hazards: (Hazard | null)[] = new Array(count).fill(null);
+  world.hazards.forEach(h => {
+    const from = Math.max(first, Math.ceil(h.x / WORLD.SEGMENT_WIDTH)); const to = Math.min(first + count, Math.ceil((h.x + h.width) / WORLD.SEGMENT_WIDTH));
+    for (let i = from; i < to; i++) if (!hazards[i - first]) hazards[i - first] = h;
+  });
+  return hazards;
+};
+
+// Enemies and drops outside the live chunks go too (the guardian never does)
+const dropStrays = (world: World) => {
+  const live = (x: number) => chunkOf(world, x) >= world.firstChunk && chunkOf(world, x) < world.endChunk;
+  world.enemies = world.enemies.filter(e => live(e.pos.x) || e.archetype === 'guardian'); world.loot = world.loot.filter(l => live(l.pos.x));
+};
+
+// Keeps the player's chunk live plus STREAMING.AHEAD after it and STREAMING.BEHIND before it.
+// Chunks are always first generated left to right, since each one starts where the previous one's ground ended.
+export const streamChunks = (world: World) => {
+  const current = chunkOf(world, world.player.pos.x);
+  const first = Math.max(0, current - STREAMING.BEHIND); const end = Math.min(world.level.chunkCount, current + STREAMING.AHEAD + 1);
+  if (first === world.firstChunk && end === world.endChunk) return;
+  const wasLive = (index: number) => index >= world.firstChunk && index < world.endChunk;
+  for (let index = world.firstChunk; index < world.endChunk; index++) if (index < first || index >= end) dropChunk(world, index);
+  // Chunks that stay live keep their (cratered) ground; the rest is generated
+  const { terrain } = world; const heights: number[] = [];
+  for (let index = first; index < end; index++) { const from = index * WORLD.CHUNK_LENGTH - terrain.first; heights.push(...(wasLive(index) ? terrain.heights.slice(from, from + WORLD.CHUNK_LENGTH) : loadChunk(world, index))); }
+  world.terrain = { first: first * WORLD.CHUNK_LENGTH, heights, hazards: mapHazards(world, first * WORLD.CHUNK_LENGTH, heights.length) };
+  world.firstChunk = first; world.endChunk = end;
+  dropStrays(world); indexPlatforms(world);
+};
@@ -0,0 +1,43 @@
+import { CRATER, GROUND_HARDNESS, WORLD } from '../constants';
+import { BiomeStyle } from '../types';
+import { getGroundHeightAt, getHazardAt } from './physics';
+import { spawnFloatingText, spawnParticles } from './spawning';
+import { World } from './world';
+
+// --- Deformable Terrain ---
+// Craters lower the heightmap in place; everything standing on it falls with the ground on its next tick.
+
+export const getBiomeAt = (world: World, x: number): BiomeStyle => {
+  const chunk = Math.floor(Math.max(0, x) / (WORLD.SEGMENT_WIDTH * WORLD.CHUNK_LENGTH));
+  return world.terrainBiomes[Math.min(chunk, world.terrainBiomes.length - 1)] || world.planet.allowedBiomes[0];
+};
+
+// Explosions near the ground dig a bowl (deepest at the blast, fading out to the rim). Liquid pools are left alone.
+export const carveCrater = (world: World, x: number, y: number, radius: number = CRATER.RADIUS) => {
+  const { terrain } = world;
+  if (y < getGroundHeightAt(terrain, x) - radius / 2) return;
+  const depth = CRATER.DEPTH * (1 - GROUND_HARDNESS[getBiomeAt(world, x)]);
+  const first = Math.max(terrain.first, Math.ceil((x - radius) / WORLD.SEGMENT_WIDTH)); const last = Math.min(terrain.first + terrain.heights.length - 1, Math.floor((x + radius) / WORLD.SEGMENT_WIDTH));
+  for (let i = first; i <= last; i++) {
+    const sampleX = i * WORLD.SEGMENT_WIDTH; const hazard = getHazardAt(terrain, sampleX);
+    if (hazard && (hazard.type === 'lava' || hazard.type === 'acid')) continue;
+    const falloff = Math.cos((Math.abs(sampleX - x) / radius) * Math.PI / 2);
+    terrain.heights[i - terrain.first] = Math.min(CRATER.BEDROCK_Y, terrain.heights[i - terrain.first] + depth * falloff);
+  }
+  world.craters.push({ x, radius });
+
+  // Flora and rocks in the blast are gone; the rest of the world resettles by gravity
+  world.vegetation = world.vegetation.filter(v => { const hit = Math.abs(v.x - x) < radius * 0.8; if (hit) spawnParticles(world, v.x, getGroundHeightAt(terrain, v.x), v.colorStem, 4); return !hit; });
+  world.decorations = world.decorations.filter(d => Math.abs(d.x - x) >= radius);
+  world.enemies.forEach(e => { if (Math.abs(e.pos.x + e.size.x / 2 - x) < radius) e.isGrounded = false; });
+  uncoverCaches(world);
+};
+
+// A cache pops out once the ground above it has been blasted down to its top
+const uncoverCaches = (world: World) => {
+  world.loot.forEach(item => {
+    if (!item.buried || getGroundHeightAt(world.terrain, item.pos.x + item.size.x / 2) < item.pos.y) return;
+    item.buried = false; item.vel.y = -6;
+    spawnParticles(world, item.pos.x, item.pos.y, item.color, 12); spawnFloatingText(world, item.pos.x, item.pos.y - 20, { key: 'float.cacheUnearthed' }, item.color);
+  });
+};
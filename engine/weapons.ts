@@ -0,0 +1,22 @@
+import { WEAPONS, WEAPON_MODS } from '../constants';
+import { ModdableStat, WeaponLoadout, WeaponModSlots, WeaponStats, WeaponType } from '../types';
+
+// Base stats with the installed mods applied: multipliers first, then additions, then overrides
+export const applyWeaponMods = (base: WeaponStats, slots: WeaponModSlots = {}): WeaponStats => {
+  const stats: WeaponStats = { ...base, pierce: base.pierce || 0 };
+  const mods = Object.values(slots).map(id => WEAPON_MODS[id!]);
+  mods.forEach(mod => (Object.keys(mod.mult || {}) as ModdableStat[]).forEach(key => { stats[key] = (stats[key] || 0) * mod.mult![key]!; }));
+  mods.forEach(mod => (Object.keys(mod.add || {}) as ModdableStat[]).forEach(key => { stats[key] = (stats[key] || 0) + mod.add![key]!; }));
+  mods.forEach(mod => Object.assign(stats, mod.set));
+  stats.fireRate = Math.max(2, Math.round(stats.fireRate)); stats.count = Math.max(1, Math.round(stats.count));
+  return stats;
+};
+
+// Every gun as carried on this landing (mods installed in the armory included)
+export const getLoadoutWeapons = (loadout: WeaponLoadout): Record<WeaponType, WeaponStats> => {
+  const weapons = {} as Record<WeaponType, WeaponStats>;
+  (Object.keys(WEAPONS) as WeaponType[]).forEach(type => { weapons[type] = applyWeaponMods(WEAPONS[type], loadout.mods[type]); });
+  return weapons;
+};
+
+export const DEFAULT_LOADOUT: WeaponLoadout = { weapon: 'blaster', mods: {} };
@@ -0,0 +1,98 @@
+import { Entity } from '../types';
+import { getGroundHeightAt } from './physics';
+import { queryBox } from './spatialHash';
+import { sweep } from './pool';
+import { spawnParticles, spawnWeatherParticle } from './spawning';
+import { World, emit } from './world';
+
+// --- WEATHER SYSTEM LOGIC ---
+export const updateWeather = (world: World, dt: number) => {
+  const { planet, rng } = world;
+
+  // 1. Time of Day Cycle
+  world.timeOfDay += dt * 0.0001;
+  if (world.timeOfDay > 1) world.timeOfDay = 0;
+
+  // 2. Weather State Machine
+  if (planet.weatherVolatility > 0) {
+    world.weatherTimer -= dt;
+    if (world.weatherTimer <= 0) {
+      if (world.weatherState === 'clear') {
+        const triggerChance = 0.5 * planet.weatherVolatility;
+        if (rng.next() < triggerChance && planet.weatherTraits.length > 0) {
+          world.weatherState = 'buildup';
+          const badWeather = planet.weatherTraits.filter(t => t !== 'clear');
+          if (badWeather.length > 0) {
+            world.currentWeather = rng.pick(badWeather);
+            world.weatherTimer = 300;
+            emit(world, { type: 'radio', text: { key: 'radio.weather', params: { weather: { key: `weather.${world.currentWeather}` } } } });
+          } else {
+            world.weatherTimer = 500;
+          }
+        } else {
+          world.weatherTimer = 500 + rng.next() * 500;
+        }
+      } else if (world.weatherState === 'buildup') {
+        world.weatherState = 'active';
+        world.weatherTimer = 600 + rng.next() * 1000 * planet.weatherVolatility;
+      } else if (world.weatherState === 'active') {
+        world.weatherState = 'fading';
+        world.weatherTimer = 300;
+      } else if (world.weatherState === 'fading') {
+        world.weatherState = 'clear';
+        world.currentWeather = 'clear';
+        world.weatherTimer = 500;
+      }
+    }
+  } else {
+    world.weatherState = 'clear';
+    world.currentWeather = 'clear';
+  }
+
+  if (world.weatherState === 'buildup') world.weatherIntensity += 0.002 * dt;
+  else if (world.weatherState === 'active') world.weatherIntensity = Math.min(1, world.weatherIntensity + 0.001 * dt);
+  else if (world.weatherState === 'fading') world.weatherIntensity -= 0.002 * dt;
+  else world.weatherIntensity = Math.max(0, world.weatherIntensity - 0.005 * dt);
+
+  world.weatherIntensity = Math.max(0, Math.min(1, world.weatherIntensity));
+
+  if (world.weatherIntensity > 0.05) {
+    const spawnRate = Math.floor(20 / Math.max(0.1, world.weatherIntensity));
+    if (world.tick % spawnRate === 0) {
+      const camX = world.camera.x;
+      const camY = world.camera.y;
+      for (let i = 0; i < 4; i++) {
+        const x = camX - 100 + rng.next() * (world.logicalWidth + 200);
+        const y = camY - 100;
+        if (world.currentWeather !== 'clear') {
+          spawnWeatherParticle(world, x, y);
+        }
+      }
+    }
+  }
+
+  const wType = world.currentWeather;
+  world.weatherParticles.forEach(p => {
+    const gY = getGroundHeightAt(world.terrain, p.pos.x);
+    if (wType === 'rain' || wType === 'acid_rain') { p.vel.y = 15; p.vel.x = -2; if (p.pos.y >= gY) { p.life = 0; if (wType === 'acid_rain' && rng.next() < 0.2) spawnParticles(world, p.pos.x, p.pos.y, '#00ff00', 1, 1); else if (wType === 'rain' && rng.next() < 0.1) spawnParticles(world, p.pos.x, p.pos.y, '#5555ff', 1, 1); } }
+    else if (wType === 'snow') { p.vel.y = 2; p.vel.x = Math.sin(world.tick * 0.05 + p.pos.x) * 2 - 1; if (p.pos.y >= gY) p.life = 0; }
+    else if (wType === 'ash') { p.vel.y = 1; p.vel.x = Math.sin(world.tick * 0.02 + p.pos.y) * 0.5; if (p.pos.y >= gY) p.life = 0; }
+    else if (wType === 'sandstorm') { p.vel.x = 20; p.vel.y = rng.next() - 0.5; if (p.pos.x > world.camera.x + world.logicalWidth + 100) p.life = 0; }
+    p.pos.x += p.vel.x * dt; p.pos.y += p.vel.y * dt; if (p.pos.y > world.camera.y + world.logicalHeight + 100) p.life = 0;
+  });
+  sweep(world.pools.weatherParticles, world.weatherParticles, p => p.life <= 0);
+};
+
+const trampling: Entity[] = []; // Query buffer for updateVegetationPhysics
+
+export const updateVegetationPhysics = (world: World) => {
+  const playerRect = world.player;
+  const visibleVeg = world.vegetation.filter(v => v.x > world.camera.x - 100 && v.x < world.camera.x + world.logicalWidth + 100);
+  visibleVeg.forEach(v => {
+    const groundY = getGroundHeightAt(world.terrain, v.x);
+    const distX = (playerRect.pos.x + playerRect.size.x / 2) - v.x; const distY = Math.abs((playerRect.pos.y + playerRect.size.y) - groundY);
+    if (Math.abs(distX) < 20 && distY < v.height) { const force = distX > 0 ? -2 : 2; v.currentBend += force; }
+    queryBox(world.enemyGrid, v.x - 20, groundY - v.height, 40, v.height * 2, trampling).forEach(e => { if (e.markedForDeletion) return; const eDistX = (e.pos.x + e.size.x / 2) - v.x; if (Math.abs(eDistX) < 20 && Math.abs((e.pos.y + e.size.y) - groundY) < v.height) { const force = eDistX > 0 ? -1 : 1; v.currentBend += force; } });
+    v.currentBend *= 0.85; if (v.currentBend > 40) v.currentBend = 40; if (v.currentBend < -40) v.currentBend = -40; if (Math.abs(v.currentBend) < 0.1) v.currentBend = 0;
+  });
+};
@@ -0,0 +1,237 @@
+import { ENTITY_SIZE, POOL_PREALLOCATE, QUALITY_PRESETS } from '../constants';
+import { BackgroundLayer, BiomeStyle, CelestialBody, Crater, Decoration, Entity, FloatingText, Hazard, Heightmap, LevelData, MissionSalvage, Particle, PlanetData, PlayerUpgrades, QualityPreset, SimEvent, Star, Vegetation, WeaponLoadout, WeaponStats, WeaponType, WeatherType } from '../types';
+import { generateLevel } from '../services/levelGenerator';
+import { Rng, createRng, deriveSeed, randomSeed } from '../services/rng';
+import { Pool, createPool } from './pool';
+import { SpatialHash, buildSpatialHash } from './spatialHash';
+import { streamChunks } from './streaming';
+import { DEFAULT_LOADOUT, getLoadoutWeapons } from './weapons';
+
+// The whole state of a landing. Plain data, no DOM: can be stepped in Node.
+export interface World {
+  planet: PlanetData;
+  upgrades: PlayerUpgrades;
+  stats: PlayerStats;
+  missionSeed: number; // Seeds every gameplay roll (spawns, drops, AI) so a run can be reproduced
+  rng: Rng;
+  nextId: number;
+  events: SimEvent[]; // Filled during a step, drained by the caller
+
+  player: Entity;
+  loadout: WeaponLoadout;
+  weapons: Record<WeaponType, WeaponStats>; // WEAPONS with the loadout's mods applied
+  weaponSlots: [WeaponType, WeaponType | null]; // Primary (the loadout gun) and secondary
+  activeSlot: 0 | 1;
+  currentWeapon: WeaponType; // The gun in the active slot
+  ammo: Partial<Record<WeaponType, number>>; // Rounds left per carried gun; the blaster has no entry
+  weaponOffer: string | null; // Weapon drop underfoot that the swap action would take (both slots full)
+  swapLock: boolean;
+  weaponCooldown: number;
+  aimAngle: number;
+  jetpackActive: boolean;
+  jumpLock: boolean;
+
+  enemies: Entity[];
+  enemyGrid: SpatialHash; // Enemies by position, for neighbour and hit queries
+  platformGrid: SpatialHash; // Platforms by position, for collisions and line of sight
+  projectiles: Entity[];
+  loot: Entity[];
+  platforms: Entity[]; // Ledges, shards, mesas and cave roofs over the heightmap
+  particles: Particle[];
+  weatherParticles: Particle[]; // Separate list for weather
+  texts: FloatingText[];
+  pools: WorldPools; // Free objects for the lists above (and projectiles)
+
+  level: LevelData; // Level-wide plan; the ground streams in from it chunk by chunk (engine/streaming)
+  firstChunk: number; // Live chunks are [firstChunk, endChunk)
+  endChunk: number;
+  chunkHeights: number[]; // Ground height each generated chunk starts from (one extra entry for the next)
+  terrainBiomes: BiomeStyle[]; // Per generated chunk, sets how hard the ground is
+  chunkLoot: Record<number, string[]>; // Per live chunk: ids of the cores and caches placed with it
+  lootGone: string[]; // Cores and caches picked up or lost; a rebuilt chunk leaves them out
+  terrain: Heightmap; // Live chunks only, carved in place by craters
+  craters: Crater[]; // Live chunks only
+  hazards: Hazard[];
+  vegetation: Vegetation[];
+  decorations: Decoration[];
+  backgroundLayers: BackgroundLayer[];
+  celestialBodies: CelestialBody[]; // Background planets/suns
+  stars: Star[];
+
+  camera: { x: number; y: number; prevX: number; prevY: number; shake: number; lookOffset: number }; // lookOffset for smoother cam
+  logicalWidth: number; // Visible area in world units, set by the view
+  logicalHeight: number;
+
+  score: number;
+  coresCollected: number;
+  totalCoresNeeded: number;
+  salvage: MissionSalvage; // Guns and mods found, handed to the armory on extraction
+  tick: number; // Simulation ticks elapsed (SIMULATION.TICK_RATE per second)
+  isPlaying: boolean;
+  bossActive: boolean;
+  introTimer: number;
+  lookDownTimer: number;
+  nextSquadSpawnX: number;
+
+  // Weather & DayNight Systems
+  timeOfDay: number; // 0.0 to 1.0 (0=Dawn, 0.2=Day, 0.5=Dusk, 0.8=Night)
+  weatherState: 'clear' | 'buildup' | 'active' | 'fading';
+  currentWeather: WeatherType;
+  weatherIntensity: number; // 0 to 1
+  weatherTimer: number; // Duration of current state
+
+  // JUICE
+  hitStop: number; // Ticks to freeze the game
+}
+
+export interface WorldPools {
+  particles: Pool<Particle>;
+  weatherParticles: Pool<Particle>;
+  texts: Pool<FloatingText>;
+  projectiles: Pool<Entity>; // Never capped: projectiles are gameplay
+}
+
+export interface PlayerStats {
+  maxHealth: number;
+  maxFuel: number;
+  moveSpeedMult: number;
+  damageMult: number;
+}
+
+// Derived Stats
+export const getPlayerStats = (upgrades: PlayerUpgrades): PlayerStats => {
+  const fuelCapacityMult = 1 + (upgrades.thrusters - 1) * 0.2;
+  return {
+    maxHealth: 100 + (upgrades.hull - 1) * 25,
+    maxFuel: 100 * fuelCapacityMult,
+    moveSpeedMult: 1 + (upgrades.speed - 1) * 0.15,
+    damageMult: 1 + (upgrades.weapon - 1) * 0.2,
+  };
+};
+
+export const createWorld = (planet: PlanetData, upgrades: PlayerUpgrades, missionSeed: number = randomSeed(), loadout: WeaponLoadout = DEFAULT_LOADOUT): World => {
+  const stats = getPlayerStats(upgrades);
+  const level = generateLevel(planet);
+  const weapons = getLoadoutWeapons(loadout); const startAmmo = weapons[loadout.weapon].ammo;
+  const world: World = {
+    planet,
+    upgrades,
+    stats,
+    missionSeed,
+    rng: createRng(deriveSeed(missionSeed, planet.seed)),
+    nextId: 0,
+    events: [],
+
+    player: {
+      id: 'player',
+      pos: { x: 100, y: -200 },
+      vel: { x: 0, y: 0 },
+      size: ENTITY_SIZE.PLAYER,
+      color: '#ffffff',
+      type: 'player',
+      health: stats.maxHealth,
+      maxHealth: stats.maxHealth,
+      fuel: stats.maxFuel,
+      maxFuel: stats.maxFuel,
+      isGrounded: false,
+      markedForDeletion: false,
+      facingRight: true,
+      variant: 0,
+      animOffset: 0,
+      hitTimer: 0,
+      coyoteTimer: 0
+    },
+    loadout,
+    weapons,
+    weaponSlots: [loadout.weapon, null],
+    activeSlot: 0,
+    currentWeapon: loadout.weapon,
+    ammo: startAmmo === undefined ? {} : { [loadout.weapon]: startAmmo },
+    weaponOffer: null,
+    swapLock: false,
+    weaponCooldown: 0,
+    aimAngle: 0,
+    jetpackActive: false,
+    jumpLock: false,
+
+    enemies: [],
+    enemyGrid: buildSpatialHash([]),
+    platformGrid: buildSpatialHash([]),
+    projectiles: [],
+    loot: [],
+    platforms: [],
+    particles: [],
+    weatherParticles: [],
+    texts: [],
+    pools: createWorldPools(),
+
+    level,
+    firstChunk: 0,
+    endChunk: 0,
+    chunkHeights: [level.startHeight],
+    terrainBiomes: [],
+    chunkLoot: {},
+    lootGone: [],
+    terrain: { first: 0, heights: [], hazards: [] },
+    craters: [],
+    hazards: [],
+    vegetation: [],
+    decorations: [],
+    backgroundLayers: level.backgroundLayers,
+    celestialBodies: level.celestialBodies,
+    stars: level.stars,
+
+    camera: { x: 0, y: 0, prevX: 0, prevY: 0, shake: 0, lookOffset: 0 },
+    logicalWidth: 800,
+    logicalHeight: 600,
+
+    score: 0,
+    coresCollected: 0,
+    totalCoresNeeded: level.totalCoresNeeded,
+    salvage: { weapons: [], mods: [] },
+    tick: 0,
+    isPlaying: true,
+    bossActive: false,
+    introTimer: 180,
+    lookDownTimer: 0,
+    nextSquadSpawnX: 800,
+
+    timeOfDay: 0.15,
+    weatherState: 'clear',
+    currentWeather: 'clear',
+    weatherIntensity: 0,
+    weatherTimer: 400,
+
+    hitStop: 0
+  };
+  streamChunks(world);
+  return world;
+};
+
+const blankParticle = (prefix: string) => (serial: number): Particle => ({ id: `${prefix}-${serial}`, pos: { x: 0, y: 0 }, vel: { x: 0, y: 0 }, life: 0, maxLife: 0, color: '', size: 0 });
+
+const createWorldPools = (): WorldPools => {
+  const quality = QUALITY_PRESETS.high;
+  return {
+    particles: createPool(blankParticle('part'), POOL_PREALLOCATE.particles, quality.particles),
+    weatherParticles: createPool(blankParticle('w'), POOL_PREALLOCATE.weatherParticles, quality.weatherParticles),
+    texts: createPool(serial => ({ id: `txt-${serial}`, x: 0, y: 0, text: { key: 'float.alert' }, color: '', life: 0, velY: 0 }), POOL_PREALLOCATE.texts, quality.texts),
+    projectiles: createPool(serial => ({ id: `proj-${serial}`, pos: { x: 0, y: 0 }, vel: { x: 0, y: 0 }, size: ENTITY_SIZE.PROJECTILE, color: '', type: 'projectile', health: 1, maxHealth: 1, isGrounded: false, markedForDeletion: true, facingRight: true, variant: 0, animOffset: 0, hitTimer: 0 }), POOL_PREALLOCATE.projectiles),
+  };
+};
+
+// Set by the view from the graphics settings; only cosmetic lists are capped, so a run plays out the same on any preset
+export const setQuality = (world: World, preset: QualityPreset) => {
+  const quality = QUALITY_PRESETS[preset]; const { pools } = world;
+  pools.particles.cap = quality.particles; pools.weatherParticles.cap = quality.weatherParticles; pools.texts.cap = quality.texts;
+};
+
+export const setViewport = (world: World, width: number, height: number) => {
+  world.logicalWidth = width;
+  world.logicalHeight = height;
+};
+
+// Deterministic ids (Math.random() ids would break reproducibility)
+export const nextEntityId = (world: World, prefix: string) => `${prefix}-${world.nextId++}`;
+
+export const emit = (world: World, event: SimEvent) => { world.events.push(event); };
@@ -0,0 +1,128 @@
+import { WeatherType } from "../types";
+import { getAudioContext, getBusNode } from "./audioService";
+
+// --- Ambient Loops ---
+// Looping beds on the ambience bus: one per weather type (level follows weatherIntensity)
+// and one per noisy hazard (level and pan follow the nearest hazard of that type).
+// Loops are built lazily, run silent when unused and are torn down by stopAmbience().
+
+export type AmbientHazard = 'lava' | 'electric';
+
+export interface HazardMix {
+  gain: number; // 0..1
+  pan: number; // -1..1
+}
+
+interface Loop {
+  gain: GainNode; // Level set by updateAmbience
+  panner: StereoPannerNode;
+  nodes: AudioScheduledSourceNode[]; // Stopped on teardown
+}
+
+const WEATHER_LEVELS: Record<Exclude<WeatherType, 'clear'>, number> = { rain: 0.5, acid_rain: 0.5, snow: 0.35, ash: 0.4, sandstorm: 0.6 };
+const HAZARD_LEVELS: Record<AmbientHazard, number> = { lava: 0.5, electric: 0.25 };
+const RAMP = 0.3; // Seconds, time constant of level changes
+
+let loops: Partial<Record<string, Loop>> = {};
+let noiseBuffer: AudioBuffer | null = null;
+
+// Two seconds of white noise shared by every noise-based loop
+const getNoise = (ctx: AudioContext) => {
+  if (!noiseBuffer || noiseBuffer.sampleRate !== ctx.sampleRate) {
+    noiseBuffer = ctx.createBuffer(1, ctx.sampleRate * 2, ctx.sampleRate);
+    const data = noiseBuffer.getChannelData(0); for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+  }
+  return noiseBuffer;
+};
+
+const createNoise = (ctx: AudioContext) => { const src = ctx.createBufferSource(); src.buffer = getNoise(ctx); src.loop = true; return src; };
+const createFilter = (ctx: AudioContext, type: BiquadFilterType, frequency: number, q: number = 1) => { const f = ctx.createBiquadFilter(); f.type = type; f.frequency.value = frequency; f.Q.value = q; return f; };
+
+// Slow modulation: an oscillator added onto an AudioParam (gusts, flicker)
+const createLfo = (ctx: AudioContext, target: AudioParam, rate: number, depth: number, wave: OscillatorType = 'sine') => {
+  const osc = ctx.createOscillator(); const amount = ctx.createGain();
+  osc.type = wave; osc.frequency.value = rate; amount.gain.value = depth;
+  osc.connect(amount); amount.connect(target); return osc;
+};
+
+// Builds the source graph of one loop into `out`, returning the nodes to start/stop
+const BUILDERS: Record<string, (ctx: AudioContext, out: AudioNode) => AudioScheduledSourceNode[]> = {
+  rain: (ctx, out) => {
+    const noise = createNoise(ctx); const band = createFilter(ctx, 'bandpass', 2500, 0.6); const hiss = createFilter(ctx, 'highpass', 800);
+    noise.connect(band); band.connect(hiss); hiss.connect(out); return [noise];
+  },
+  acid_rain: (ctx, out) => {
+    // Rain plus a crackling sizzle on top
+    const noise = createNoise(ctx); const band = createFilter(ctx, 'bandpass', 2200, 0.6); band.connect(out); noise.connect(band);
+    const sizzle = createFilter(ctx, 'highpass', 6000); const flutter = ctx.createGain(); flutter.gain.value = 0.4;
+    noise.connect(sizzle); sizzle.connect(flutter); flutter.connect(out);
+    return [noise, createLfo(ctx, flutter.gain, 13, 0.4, 'square')];
+  },
+  snow: (ctx, out) => {
+    // Soft wind with slow swells
+    const noise = createNoise(ctx); const low = createFilter(ctx, 'lowpass', 500); const swell = ctx.createGain(); swell.gain.value = 0.6;
+    noise.connect(low); low.connect(swell); swell.connect(out); return [noise, createLfo(ctx, swell.gain, 0.15, 0.35)];
+  },
+  ash: (ctx, out) => {
+    // Low volcanic rumble
+    const noise = createNoise(ctx); const low = createFilter(ctx, 'lowpass', 180); const swell = ctx.createGain(); swell.gain.value = 0.8;
+    noise.connect(low); low.connect(swell); swell.connect(out); return [noise, createLfo(ctx, swell.gain, 0.08, 0.2)];
+  },
+  sandstorm: (ctx, out) => {
+    // Gusting band of noise, the filter sweeps with the gusts
+    const noise = createNoise(ctx); const band = createFilter(ctx, 'bandpass', 900, 0.8);
+    noise.connect(band); band.connect(out); return [noise, createLfo(ctx, band.frequency, 0.3, 500)];
+  },
+  lava: (ctx, out) => {
+    // Thick low bubbling: lowpassed noise with an irregular amplitude wobble
+    const noise = createNoise(ctx); const low = createFilter(ctx, 'lowpass', 250, 4); const bubble = ctx.createGain(); bubble.gain.value = 0.6;
+    noise.connect(low); low.connect(bubble); bubble.connect(out);
+    return [noise, createLfo(ctx, bubble.gain, 3.1, 0.4), createLfo(ctx, low.frequency, 0.7, 120, 'triangle')];
+  },
+  electric: (ctx, out) => {
+    // Mains hum with a flickering edge
+    const hum = ctx.createOscillator(); hum.type = 'sawtooth'; hum.frequency.value = 60;
+    const buzz = ctx.createOscillator(); buzz.type = 'square'; buzz.frequency.value = 120;
+    const band = createFilter(ctx, 'bandpass', 400, 2); const flicker = ctx.createGain(); flicker.gain.value = 0.5;
+    hum.connect(band); buzz.connect(band); band.connect(flicker); flicker.connect(out);
+    return [hum, buzz, createLfo(ctx, flicker.gain, 17, 0.3, 'square')];
+  },
+};
+
+const getLoop = (ctx: AudioContext, key: string): Loop | null => {
+  const existing = loops[key]; if (existing) return existing;
+  const bus = getBusNode('ambience'); const build = BUILDERS[key];
+  if (!bus || !build) return null;
+  const gain = ctx.createGain(); gain.gain.value = 0;
+  const panner = ctx.createStereoPanner();
+  gain.connect(panner); panner.connect(bus);
+  const nodes = build(ctx, gain); nodes.forEach(n => n.start());
+  const loop = { gain, panner, nodes }; loops[key] = loop;
+  return loop;
+};
+
+const setLoopLevel = (ctx: AudioContext, key: string, level: number, pan: number = 0) => {
+  // Silent loops that were never needed are not built
+  if (level <= 0.001 && !loops[key]) return;
+  const loop = getLoop(ctx, key); if (!loop) return;
+  loop.gain.gain.setTargetAtTime(level, ctx.currentTime, RAMP);
+  loop.panner.pan.setTargetAtTime(pan, ctx.currentTime, RAMP);
+};
+
+// Call a few times per second with the current weather and the mix of each nearby hazard
+export const updateAmbience = (weather: WeatherType, intensity: number, hazards: Partial<Record<AmbientHazard, HazardMix>>) => {
+  const ctx = getAudioContext(); if (!ctx) return;
+  (Object.keys(WEATHER_LEVELS) as (keyof typeof WEATHER_LEVELS)[]).forEach(type => setLoopLevel(ctx, type, type === weather ? WEATHER_LEVELS[type] * intensity : 0));
+  (Object.keys(HAZARD_LEVELS) as AmbientHazard[]).forEach(type => { const mix = hazards[type]; setLoopLevel(ctx, type, mix ? HAZARD_LEVELS[type] * mix.gain : 0, mix ? mix.pan : 0); });
+};
+
+// Fades every loop out and frees it (leaving a mission)
+export const stopAmbience = () => {
+  const ctx = getAudioContext(); const old = loops; loops = {};
+  if (!ctx) return;
+  Object.values(old).forEach(loop => {
+    if (!loop) return;
+    loop.gain.gain.setTargetAtTime(0, ctx.currentTime, RAMP / 2);
+    setTimeout(() => { loop.nodes.forEach(n => { try { n.stop(); } catch (e) { /* already stopped */ } }); loop.panner.disconnect(); }, RAMP * 4000);
+  });
+};
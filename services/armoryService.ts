@@ -0,0 +1,62 @@
+import { WEAPONS, WEAPON_MODS } from "../constants";
+import { ArmoryData, MissionSalvage, ModSlot, WeaponLoadout, WeaponModId, WeaponType } from "../types";
+import { isRecord } from "./guards";
+
+// --- Armory ---
+// Guns and mods kept between landings. Every operation returns a new ArmoryData (React state / save friendly).
+
+export const createArmory = (): ArmoryData => ({ weapons: ['blaster'], equipped: 'blaster', installed: {}, mods: {} });
+
+const isWeapon = (value: unknown): value is WeaponType => typeof value === 'string' && value in WEAPONS;
+const isMod = (value: unknown): value is WeaponModId => typeof value === 'string' && value in WEAPON_MODS;
+
+// Drops anything unknown (old or hand-edited saves) instead of rejecting the whole save
+export const sanitizeArmory = (raw: unknown): ArmoryData => {
+  const armory = createArmory();
+  if (!isRecord(raw)) return armory;
+  if (Array.isArray(raw.weapons)) raw.weapons.filter(isWeapon).forEach(w => { if (!armory.weapons.includes(w)) armory.weapons.push(w); });
+  if (isWeapon(raw.equipped) && armory.weapons.includes(raw.equipped)) armory.equipped = raw.equipped;
+  Object.entries(isRecord(raw.installed) ? raw.installed : {}).forEach(([weapon, slots]) => {
+    if (!isWeapon(weapon) || !armory.weapons.includes(weapon) || !isRecord(slots)) return;
+    Object.entries(slots).forEach(([slot, id]) => { if (isMod(id) && WEAPON_MODS[id].slot === slot) armory.installed[weapon] = { ...armory.installed[weapon], [slot]: id }; });
+  });
+  Object.entries(isRecord(raw.mods) ? raw.mods : {}).forEach(([id, count]) => { if (isMod(id) && typeof count === 'number' && count > 0) armory.mods[id] = Math.floor(count); });
+  return armory;
+};
+
+export const getLoadout = (armory: ArmoryData): WeaponLoadout => ({ weapon: armory.equipped, mods: armory.installed });
+
+// Shape check for loadouts coming from outside (imported replays)
+export const isLoadout = (value: unknown): value is WeaponLoadout => isRecord(value) && isWeapon(value.weapon) && isRecord(value.mods)
+  && Object.entries(value.mods).every(([weapon, slots]) => isWeapon(weapon) && isRecord(slots) && Object.entries(slots).every(([slot, id]) => isMod(id) && WEAPON_MODS[id].slot === slot));
+
+export const equipWeapon = (armory: ArmoryData, weapon: WeaponType): ArmoryData => armory.weapons.includes(weapon) ? { ...armory, equipped: weapon } : armory;
+
+const addMods = (mods: ArmoryData['mods'], id: WeaponModId, amount: number) => {
+  const next = { ...mods, [id]: (mods[id] || 0) + amount }; if (next[id]! <= 0) delete next[id];
+  return next;
+};
+
+export const addModToStorage = (armory: ArmoryData, id: WeaponModId): ArmoryData => ({ ...armory, mods: addMods(armory.mods, id, 1) });
+
+// Takes a spare mod out of storage; the mod previously in that slot goes back to storage
+export const installMod = (armory: ArmoryData, weapon: WeaponType, id: WeaponModId): ArmoryData => {
+  if (!armory.weapons.includes(weapon) || !armory.mods[id]) return armory;
+  const slot = WEAPON_MODS[id].slot; const previous = armory.installed[weapon]?.[slot];
+  let mods = addMods(armory.mods, id, -1); if (previous) mods = addMods(mods, previous, 1);
+  return { ...armory, mods, installed: { ...armory.installed, [weapon]: { ...armory.installed[weapon], [slot]: id } } };
+};
+
+export const removeMod = (armory: ArmoryData, weapon: WeaponType, slot: ModSlot): ArmoryData => {
+  const id = armory.installed[weapon]?.[slot];
+  if (!id) return armory;
+  const slots = { ...armory.installed[weapon] }; delete slots[slot];
+  return { ...armory, mods: addMods(armory.mods, id, 1), installed: { ...armory.installed, [weapon]: slots } };
+};
+
+// Everything found on a successful landing goes into storage
+export const addSalvage = (armory: ArmoryData, salvage: MissionSalvage): ArmoryData => {
+  const weapons = [...armory.weapons]; salvage.weapons.forEach(w => { if (!weapons.includes(w)) weapons.push(w); });
+  let mods = armory.mods; salvage.mods.forEach(id => { mods = addMods(mods, id, 1); });
+  return { ...armory, weapons, mods };
+};
@@ -1,32 +1,90 @@
-
+import { AUDIO_SPATIAL } from "../constants";
+import { AudioBus, AudioSettings, Vector2 } from "../types";
 
 // Audio Context Singleton
 let audioCtx: AudioContext | null = null;
 let masterGain: GainNode | null = null;
 
+// --- Mixer ---
+// Every sound goes through one bus (sfx, ui, ambience, music) into the master gain.
+export const AUDIO_BUSES: AudioBus[] = ['sfx', 'ui', 'ambience', 'music'];
+
+const MASTER_HEADROOM = 0.3; // Master slider at 100% maps to this gain, the mix was balanced around it
+let busGains: Partial<Record<AudioBus, GainNode>> = {};
+let mixerSettings: AudioSettings | null = null; // Kept while the context does not exist yet (it needs a user gesture)
+
+const getMasterLevel = (settings: AudioSettings | null) => settings ? (settings.muted ? 0 : settings.master * MASTER_HEADROOM) : MASTER_HEADROOM;
+const getBusLevel = (settings: AudioSettings | null, bus: AudioBus) => { const b = settings?.buses[bus]; return b ? (b.muted ? 0 : b.volume) : 1; };
+
 export const initAudio = () => {
   if (!audioCtx) {
     audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
     masterGain = audioCtx.createGain();
-    masterGain.gain.value = 0.3; // Master Volume
+    masterGain.gain.value = getMasterLevel(mixerSettings); // Master Volume
     masterGain.connect(audioCtx.destination);
+    AUDIO_BUSES.forEach(bus => {
+      const gain = audioCtx!.createGain();
+      gain.gain.value = getBusLevel(mixerSettings, bus);
+      gain.connect(masterGain!);
+      busGains[bus] = gain;
+    });
   }
   if (audioCtx.state === 'suspended') {
     audioCtx.resume();
   }
 };
 
-type SoundType = 'shoot' | 'jump' | 'explosion' | 'pickup' | 'hurt' | 'powerup' | 'ui' | 'thrust' | 'sensor' | 'impact';
-
-export const playSound = (type: SoundType, variant: string = 'blaster') => {
+export const applyAudioSettings = (settings: AudioSettings) => {
+  mixerSettings = settings;
   if (!audioCtx || !masterGain) return;
+  const t = audioCtx.currentTime;
+  masterGain.gain.setTargetAtTime(getMasterLevel(settings), t, 0.02);
+  AUDIO_BUSES.forEach(bus => busGains[bus]?.gain.setTargetAtTime(getBusLevel(settings, bus), t, 0.02));
+};
+
+// For layers built elsewhere on the same context (music, ambience loops). Null until initAudio ran.
+export const getAudioContext = () => audioCtx;
+export const getBusNode = (bus: AudioBus): GainNode | null => busGains[bus] || null;
+
+// --- Positional Audio ---
+// World sounds fade with distance from the listener (the player) and pan by their horizontal offset
+export interface SoundPosition {
+  source: Vector2;
+  listener: Vector2;
+}
+
+export const getSpatialMix = ({ source, listener }: SoundPosition) => {
+  const dist = Math.hypot(source.x - listener.x, source.y - listener.y);
+  const falloff = Math.max(0, Math.min(1, 1 - (dist - AUDIO_SPATIAL.NEAR) / (AUDIO_SPATIAL.FAR - AUDIO_SPATIAL.NEAR)));
+  return { gain: falloff * falloff, pan: Math.max(-1, Math.min(1, (source.x - listener.x) / AUDIO_SPATIAL.PAN_WIDTH)) };
+};
+
+type SoundType = 'shoot' | 'jump' | 'explosion' | 'pickup' | 'hurt' | 'powerup' | 'ui' | 'radio' | 'thrust' | 'sensor' | 'impact';
+
+// Interface feedback goes to the UI bus, everything else happening in the world to SFX (positioned sounds always do)
+const SOUND_BUS: Partial<Record<SoundType, AudioBus>> = { ui: 'ui', radio: 'ui', sensor: 'ui' };
+
+export const playSound = (type: SoundType, variant: string = 'blaster', position?: SoundPosition) => {
+  const bus = getBusNode(position ? 'sfx' : SOUND_BUS[type] || 'sfx');
+  if (!audioCtx || !bus) return;
+
+  // Out of earshot: skip building the voice at all
+  let output: AudioNode = bus;
+  if (position) {
+    const mix = getSpatialMix(position);
+    if (mix.gain < 0.01) return;
+    const spatial = audioCtx.createGain(); spatial.gain.value = mix.gain;
+    const panner = audioCtx.createStereoPanner(); panner.pan.value = mix.pan;
+    spatial.connect(panner); panner.connect(bus);
+    output = spatial;
+  }
 
   const t = audioCtx.currentTime;
   const osc = audioCtx.createOscillator();
   const gain = audioCtx.createGain();
 
   osc.connect(gain);
-  gain.connect(masterGain);
+  gain.connect(output);
 
   if (type === 'shoot') {
     if (variant === 'blaster') {
@@ -161,6 +219,15 @@ export const playSound = (type: SoundType, variant: string = 'blaster') => {
     osc.start(t);
     osc.stop(t + 0.05);
   }
+  else if (type === 'radio') {
+    // Typewriter blip: quieter and shorter than 'ui', slightly detuned so a line does not drone
+    osc.type = 'square';
+    osc.frequency.setValueAtTime(1100 + Math.random() * 300, t);
+    gain.gain.setValueAtTime(0.03, t);
+    gain.gain.exponentialRampToValueAtTime(0.001, t + 0.03);
+    osc.start(t);
+    osc.stop(t + 0.03);
+  }
   else if (type === 'explosion') {
     const bufferSize = audioCtx.sampleRate * 0.5;
     const buffer = audioCtx.createBuffer(1, bufferSize, audioCtx.sampleRate);
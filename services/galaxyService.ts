@@ -0,0 +1,91 @@
+import { GALAXY } from "../constants";
+import { GalaxyData, GalaxySector, JumpLane, PlanetData } from "../types";
+import { isFiniteNumber, isRecord } from "./guards";
+import { generateSectorName, isClimate } from "./planetGenerator";
+import { createRng, deriveSeed, randomSeed } from "./rng";
+
+// --- Galaxy ---
+// A fixed graph of sectors joined by jump lanes. Layout, names and system seeds all come from the galaxy seed;
+// planets are stored on a sector once scanned. Every operation returns a new GalaxyData (React state / save friendly).
+
+const distance = (a: GalaxySector, b: GalaxySector) => Math.hypot(a.x - b.x, a.y - b.y);
+
+const placeSectors = (seed: number): GalaxySector[] => {
+  const rng = createRng(deriveSeed(seed, "layout"));
+  const sectors: GalaxySector[] = [];
+  for (let attempt = 0; sectors.length < GALAXY.SECTORS && attempt < GALAXY.SECTORS * 50; attempt++) {
+    const x = Math.round(rng.range(GALAXY.MARGIN, GALAXY.WIDTH - GALAXY.MARGIN)); const y = Math.round(rng.range(GALAXY.MARGIN, GALAXY.HEIGHT - GALAXY.MARGIN));
+    if (sectors.some(s => Math.hypot(s.x - x, s.y - y) < GALAXY.MIN_SPACING)) continue;
+    const systemSeed = deriveSeed(seed, `sector-${sectors.length}`);
+    sectors.push({ id: sectors.length, name: generateSectorName(createRng(deriveSeed(systemSeed, "sector"))), seed: systemSeed, x, y, planets: null, visited: false });
+  }
+  return sectors;
+};
+
+// A spanning tree keeps every sector reachable; the lanes to each sector's nearest neighbours add alternative routes
+const connectSectors = (sectors: GalaxySector[]): JumpLane[] => {
+  const lanes: JumpLane[] = [];
+  const link = (a: number, b: number) => { const from = Math.min(a, b); const to = Math.max(a, b); if (a !== b && !lanes.some(l => l.from === from && l.to === to)) lanes.push({ from, to }); };
+  const joined = new Set([0]);
+  while (joined.size < sectors.length) {
+    let best = { from: 0, to: 0, dist: Infinity };
+    joined.forEach(a => sectors.forEach(b => { const dist = distance(sectors[a], b); if (!joined.has(b.id) && dist < best.dist) best = { from: a, to: b.id, dist }; }));
+    link(best.from, best.to); joined.add(best.to);
+  }
+  sectors.forEach(a => sectors.filter(b => b !== a).sort((b, c) => distance(a, b) - distance(a, c)).slice(0, GALAXY.NEAREST_LANES).forEach(b => link(a.id, b.id)));
+  return lanes;
+};
+
+// Same seed -> same galaxy. The ship starts in sector 0.
+export const generateGalaxy = (seed: number = randomSeed()): GalaxyData => {
+  const sectors = placeSectors(seed); sectors[0].visited = true;
+  return { seed, sectors, lanes: connectSectors(sectors), current: 0 };
+};
+
+export const getCurrentSector = (galaxy: GalaxyData) => galaxy.sectors[galaxy.current];
+
+export const getNeighbours = (galaxy: GalaxyData, id: number) => galaxy.lanes.filter(l => l.from === id || l.to === id).map(l => (l.from === id ? l.to : l.from));
+
+// FTL cost of one lane, in cores
+export const getJumpCost = (galaxy: GalaxyData, from: number, to: number) => Math.max(1, Math.ceil(distance(galaxy.sectors[from], galaxy.sectors[to]) / GALAXY.CORE_DISTANCE));
+
+export interface JumpRoute { path: number[]; cost: number } // Sector ids from start to destination, both included
+
+// Cheapest chain of lanes (Dijkstra on core cost); null when the destination can't be reached
+export const findRoute = (galaxy: GalaxyData, from: number, to: number): JumpRoute | null => {
+  const cost = galaxy.sectors.map(() => Infinity); const previous: (number | null)[] = galaxy.sectors.map(() => null); const done = new Set<number>();
+  cost[from] = 0;
+  while (done.size < galaxy.sectors.length) {
+    let current = -1; cost.forEach((c, id) => { if (!done.has(id) && c < Infinity && (current === -1 || c < cost[current])) current = id; });
+    if (current === -1 || current === to) break;
+    done.add(current);
+    getNeighbours(galaxy, current).forEach(next => { const c = cost[current] + getJumpCost(galaxy, current, next); if (c < cost[next]) { cost[next] = c; previous[next] = current; } });
+  }
+  if (cost[to] === Infinity) return null;
+  const path = [to]; while (path[0] !== from) path.unshift(previous[path[0]]!);
+  return { path, cost: cost[to] };
+};
+
+// The ship has arrived (or finished its first scan): stores the system's planets and makes the sector current
+export const arriveAtSector = (galaxy: GalaxyData, id: number, planets: PlanetData[]): GalaxyData => ({
+  ...galaxy, current: id, sectors: galaxy.sectors.map(s => (s.id === id ? { ...s, planets, visited: true } : s)),
+});
+
+// Old saves had a single system: a scanned one becomes the starting sector of a new galaxy, under its old name
+export const adoptSystem = (galaxy: GalaxyData, name: string, planets: PlanetData[]): GalaxyData => planets.length === 0 ? galaxy : ({
+  ...galaxy, sectors: galaxy.sectors.map(s => (s.id === galaxy.current ? { ...s, name, planets } : s)),
+});
+
+// Shape check for galaxies coming from saves; anything broken is replaced by a fresh galaxy
+const isSectorId = (value: unknown, sectorCount: number): value is number => Number.isInteger(value) && (value as number) >= 0 && (value as number) < sectorCount;
+
+const isSector = (value: unknown, id: number): value is GalaxySector => isRecord(value) && value.id === id && typeof value.name === 'string' && isFiniteNumber(value.seed) && isFiniteNumber(value.x) && isFiniteNumber(value.y)
+  && (value.planets === null || (Array.isArray(value.planets) && value.planets.every(p => isRecord(p) && isClimate(p.climate))));
+
+const isLane = (value: unknown, sectorCount: number): value is JumpLane => isRecord(value) && isSectorId(value.from, sectorCount) && isSectorId(value.to, sectorCount);
+
+export const isGalaxy = (value: unknown): value is GalaxyData => {
+  if (!isRecord(value) || !isFiniteNumber(value.seed) || !Array.isArray(value.sectors) || value.sectors.length === 0 || !Array.isArray(value.lanes)) return false;
+  const count = value.sectors.length;
+  return value.sectors.every(isSector) && value.lanes.every(lane => isLane(lane, count)) && isSectorId(value.current, count);
+};
@@ -1,7 +1,9 @@
-
-
 import { GoogleGenAI, Type } from "@google/genai";
-import { PlanetData } from "../types";
+import { PLANET_LIMITS } from "../constants";
+import { PlanetData, PlanetProvider } from "../types";
+import { deriveSeed } from "./rng";
+import { getSystemSize } from "./planetGenerator";
+import { BIOME_STYLES, WEATHER_TYPES, sanitizePlanet } from "./planetSchema";
 
 // Note: In a real production app, move API calls to backend to protect key.
 // For this demo, we use process.env.API_KEY as requested.
@@ -14,72 +16,63 @@ const getAiClient = () => {
   return new GoogleGenAI({ apiKey });
 };
 
-export const generatePlanet = async (): Promise<PlanetData> => {
-  const ai = getAiClient();
-  
-  const prompt = `
-    Genera un pianeta fantascientifico procedurale per un videogioco 2D platformer.
-    
-    Includi:
-    - vegetationDensity: da 0.0 (deserto) a 1.0 (giungla).
-    - weatherVolatility: da 0.0 (mai) a 1.0 (sempre tempesta).
-  `;
+const PLANET_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    name: { type: Type.STRING },
+    description: { type: Type.STRING },
+    climate: { type: Type.STRING, enum: ["volcanic", "toxic", "ice", "desert", "void"] },
+    gravity: { type: Type.NUMBER },
+    atmosphereColor: { type: Type.STRING },
+    groundColor: { type: Type.STRING },
+    enemyColor: { type: Type.STRING },
+    floraColor: { type: Type.STRING },
+    enemyDensity: { type: Type.NUMBER },
+    rareLootChance: { type: Type.NUMBER },
+    allowedBiomes: { type: Type.ARRAY, items: { type: Type.STRING, enum: BIOME_STYLES } },
+    weatherTraits: { type: Type.ARRAY, items: { type: Type.STRING, enum: WEATHER_TYPES } },
+    vegetationDensity: { type: Type.NUMBER },
+    weatherVolatility: { type: Type.NUMBER },
+  },
+  required: ["name", "description", "climate", "gravity", "atmosphereColor", "groundColor", "enemyColor", "floraColor", "enemyDensity", "rareLootChance", "allowedBiomes", "weatherTraits", "vegetationDensity", "weatherVolatility"],
+};
+
+const buildPrompt = (count: number) => `
+  Generate a star system of ${count} procedural sci-fi planets for a 2D platformer video game.
 
-  try {
+  For each planet include:
+  - name (at most ${PLANET_LIMITS.NAME_LENGTH} characters) and a short description.
+  - gravity: from ${PLANET_LIMITS.GRAVITY[0]} to ${PLANET_LIMITS.GRAVITY[1]} (1.0 is standard).
+  - colors as #rrggbb hex strings.
+  - enemyDensity: from ${PLANET_LIMITS.ENEMY_DENSITY[0]} to ${PLANET_LIMITS.ENEMY_DENSITY[1]}.
+  - rareLootChance: from 0.0 to 1.0.
+  - vegetationDensity: from 0.0 (desert) to 1.0 (jungle).
+  - weatherVolatility: from 0.0 (never) to 1.0 (always storming).
+`;
+
+// Gemini describes the planets; seeds still come from the system so terrain and orbits stay reproducible.
+// Whatever comes back is validated, so a bad answer degrades field by field instead of reaching the engine.
+export const geminiProvider: PlanetProvider = {
+  id: 'gemini',
+  generateSystem: async (systemSeed) => {
+    const ai = getAiClient();
+    const count = getSystemSize(systemSeed);
     const response = await ai.models.generateContent({
       model: "gemini-2.5-flash",
-      contents: prompt,
+      contents: buildPrompt(count),
       config: {
         responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            name: { type: Type.STRING },
-            description: { type: Type.STRING },
-            gravity: { type: Type.NUMBER },
-            atmosphereColor: { type: Type.STRING },
-            groundColor: { type: Type.STRING },
-            enemyColor: { type: Type.STRING },
-            floraColor: { type: Type.STRING },
-            enemyDensity: { type: Type.NUMBER },
-            rareLootChance: { type: Type.NUMBER },
-            allowedBiomes: { 
-              type: Type.ARRAY,
-              items: { type: Type.STRING },
-            },
-            weatherTraits: {
-              type: Type.ARRAY,
-              items: { type: Type.STRING },
-            },
-            vegetationDensity: { type: Type.NUMBER },
-            weatherVolatility: { type: Type.NUMBER },
-          },
-          required: ["name", "description", "gravity", "atmosphereColor", "groundColor", "enemyColor", "floraColor", "enemyDensity", "rareLootChance", "allowedBiomes", "weatherTraits", "vegetationDensity", "weatherVolatility"],
-        },
+        responseSchema: { type: Type.ARRAY, items: PLANET_SCHEMA },
       },
     });
 
     const text = response.text;
     if (!text) throw new Error("No data returned from Gemini");
-    
-    return JSON.parse(text) as PlanetData;
-  } catch (error) {
-    console.error("Gemini Generation Error:", error);
-    // Fallback data if API fails or quota exceeded
-    return {
-      name: "LV-426 (Simulation)",
-      description: "Connessione al database galattico fallita. Generazione protocollo di emergenza.",
-      gravity: 0.8,
-      atmosphereColor: "#1a1a2e",
-      groundColor: "#4e4e50",
-      enemyColor: "#e94560",
-      floraColor: "#00ff00",
-      enemyDensity: 5,
-      rareLootChance: 0.2,
-      allowedBiomes: ["crags"],
-      weatherTraits: ["acid_rain", "clear"],
-      vegetationDensity: 0.3,
-      weatherVolatility: 0.5
-    };
-  }
-};
\ No newline at end of file
+    const raw = JSON.parse(text);
+    if (!Array.isArray(raw)) throw new Error("Gemini did not return a list of planets");
+
+    const system: PlanetData[] = [];
+    for (let i = 0; i < count; i++) system.push(sanitizePlanet(raw[i], deriveSeed(systemSeed, i), i));
+    return system;
+  },
+};
@@ -0,0 +1,6 @@
+// --- Runtime Shape Checks ---
+// For data from storage, files or the network: narrow `unknown` one field at a time instead of trusting a cast.
+
+export const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
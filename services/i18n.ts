@@ -0,0 +1,51 @@
+import { Language, TextRef } from "../types";
+import { en, StringKey } from "./locales/en";
+import { it } from "./locales/it";
+
+// --- Localization ---
+// Keyed string tables with {name} interpolation. The engine never formats text itself:
+// it emits TextRefs and the UI resolves them with the active language at display time.
+
+export const LANGUAGES: Language[] = ['en', 'it'];
+
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  en: "English",
+  it: "Italiano",
+};
+
+const TABLES: Record<Language, Record<StringKey, string>> = { en, it };
+
+let current: Language = 'en';
+
+export const setLanguage = (language: Language) => {
+  current = TABLES[language] ? language : 'en';
+  if (typeof document !== 'undefined') document.documentElement.lang = current;
+};
+
+export const getLanguage = (): Language => current;
+
+// Browser language if we have a table for it, English otherwise
+export const detectLanguage = (): Language => {
+  const preferred = typeof navigator !== 'undefined' ? (navigator.languages || [navigator.language]) : [];
+  for (const tag of preferred) {
+    const base = (tag || '').toLowerCase().split('-')[0] as Language;
+    if (LANGUAGES.includes(base)) return base;
+  }
+  return 'en';
+};
+
+export const isLanguage = (value: unknown): value is Language => LANGUAGES.includes(value as Language);
+
+// Looks up `key` in the active table (falling back to English, then to the key itself)
+// and replaces {name} placeholders. A param may itself be a TextRef, resolved first.
+export const t = (key: StringKey, params?: TextRef['params']): string => {
+  const template = TABLES[current][key] ?? en[key] ?? key;
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return typeof value === 'object' ? translate(value) : String(value);
+  });
+};
+
+export const translate = (ref: TextRef): string => t(ref.key, ref.params);
@@ -0,0 +1,94 @@
+import { GamepadBindings, InputAction, KeyBindings } from "../types";
+import { t } from "./i18n";
+import { StringKey } from "./locales/en";
+
+// --- Input Actions ---
+// Gameplay reads actions, never raw keys: bindings come from the player's settings.
+export const INPUT_ACTIONS: InputAction[] = ['moveLeft', 'moveRight', 'jump', 'jetpack', 'fire', 'lookDown', 'pause', 'swapWeapon'];
+
+export const ACTION_LABELS: Record<InputAction, StringKey> = {
+  moveLeft: "action.moveLeft",
+  moveRight: "action.moveRight",
+  jump: "action.jump",
+  jetpack: "action.jetpack",
+  fire: "action.fire",
+  lookDown: "action.lookDown",
+  pause: "action.pause",
+  swapWeapon: "action.swapWeapon",
+};
+
+export const isActionPressed = (keys: Record<string, boolean>, bindings: KeyBindings, action: InputAction) =>
+  bindings[action].some(code => !!keys[code]);
+
+// Mouse buttons share the key table as 'Mouse0', 'Mouse1', ...
+export const mouseButtonCode = (button: number) => `Mouse${button}`;
+
+// Moves `code` to `action`, removing it from any other action so one input never triggers two
+export const rebindKey = (bindings: KeyBindings, action: InputAction, code: string, slot: number): KeyBindings => {
+  const next = Object.fromEntries(INPUT_ACTIONS.map(a => [a, bindings[a].filter(c => c !== code)])) as KeyBindings;
+  const codes = [...next[action]]; codes.splice(Math.min(slot, codes.length), 1, code); next[action] = codes;
+  return next;
+};
+
+export const rebindButton = (bindings: GamepadBindings, action: InputAction, button: number, slot: number): GamepadBindings => {
+  const next = Object.fromEntries(INPUT_ACTIONS.map(a => [a, bindings[a].filter(b => b !== button)])) as GamepadBindings;
+  const buttons = [...next[action]]; buttons.splice(Math.min(slot, buttons.length), 1, button); next[action] = buttons;
+  return next;
+};
+
+// --- Labels ---
+const KEY_NAMES: Record<string, StringKey> = {
+  Space: "key.space", ShiftLeft: "key.shiftLeft", ShiftRight: "key.shiftRight", ControlLeft: "key.controlLeft", ControlRight: "key.controlRight",
+  AltLeft: "key.altLeft", AltRight: "key.altRight", Escape: "key.escape", Enter: "key.enter", Tab: "key.tab",
+  Mouse0: "key.mouseLeft", Mouse1: "key.mouseMiddle", Mouse2: "key.mouseRight",
+};
+const KEY_SYMBOLS: Record<string, string> = { ArrowLeft: "←", ArrowRight: "→", ArrowUp: "↑", ArrowDown: "↓", Backspace: "⌫" };
+
+export const formatKeyCode = (code: string) => {
+  if (KEY_NAMES[code]) return t(KEY_NAMES[code]);
+  if (KEY_SYMBOLS[code]) return KEY_SYMBOLS[code];
+  if (code.startsWith('Key')) return code.slice(3);
+  if (code.startsWith('Digit')) return code.slice(5);
+  if (code.startsWith('Mouse')) return t('key.mouse', { button: code.slice(5) });
+  return code.toUpperCase();
+};
+
+// Standard gamepad mapping (https://w3c.github.io/gamepad/#remapping)
+const BUTTON_NAMES = ["A", "B", "X", "Y", "LB", "RB", "LT", "RT", "SELECT", "START", "L3", "R3", "D-PAD ↑", "D-PAD ↓", "D-PAD ←", "D-PAD →", "HOME"];
+
+export const formatGamepadButton = (button: number) => BUTTON_NAMES[button] || t('key.button', { button });
+
+// --- Gamepad ---
+export interface GamepadState {
+  connected: boolean;
+  moveX: number; moveY: number; // Left stick, dead zone applied
+  aimX: number; aimY: number;   // Right stick, dead zone applied
+  buttons: boolean[];
+}
+
+const EMPTY_GAMEPAD: GamepadState = { connected: false, moveX: 0, moveY: 0, aimX: 0, aimY: 0, buttons: [] };
+
+// Radial dead zone, rescaled so output still ramps smoothly from 0 to 1 past the threshold
+export const applyDeadZone = (x: number, y: number, deadZone: number) => {
+  const magnitude = Math.hypot(x, y);
+  if (magnitude <= deadZone) return { x: 0, y: 0 };
+  const scaled = Math.min(1, (magnitude - deadZone) / (1 - deadZone));
+  return { x: (x / magnitude) * scaled, y: (y / magnitude) * scaled };
+};
+
+// First connected pad wins; triggers count as pressed past half travel
+export const readGamepad = (deadZone: number): GamepadState => {
+  if (typeof navigator === 'undefined' || !navigator.getGamepads) return EMPTY_GAMEPAD;
+  const pad = Array.from(navigator.getGamepads()).find((p): p is Gamepad => !!p && p.connected);
+  if (!pad) return EMPTY_GAMEPAD;
+  const move = applyDeadZone(pad.axes[0] || 0, pad.axes[1] || 0, deadZone);
+  const aim = applyDeadZone(pad.axes[2] || 0, pad.axes[3] || 0, deadZone);
+  return { connected: true, moveX: move.x, moveY: move.y, aimX: aim.x, aimY: aim.y, buttons: pad.buttons.map(b => b.pressed || b.value > 0.5) };
+};
+
+export const isGamepadActionPressed = (pad: GamepadState, bindings: GamepadBindings, action: InputAction) =>
+  bindings[action].some(button => !!pad.buttons[button]);
+
+// Index of the first button pressed now that was not pressed in `previous` (-1 if none), for remapping and menu edges
+export const findNewlyPressedButton = (pad: GamepadState, previous: boolean[]) =>
+  pad.buttons.findIndex((pressed, i) => pressed && !previous[i]);
@@ -0,0 +1,311 @@
+import { CANVAS_HEIGHT, CLIMATES, CRATER, ENTITY_SIZE, PLATFORM, WEAPONS, WEAPON_MODS, WORLD } from "../constants";
+import { getArchetype } from "../engine/archetypes";
+import { BackgroundLayer, BiomeStyle, CelestialBody, Decoration, Entity, EnemyArchetype, FoliageType, Hazard, HazardType, LevelChunk, LevelData, PlanetData, PlatformKind, PlatformPath, Star, StemType, Vegetation, WeaponModId, WeaponType } from "../types";
+import { Rng, createRng, deriveSeed } from "./rng";
+
+// LOGICAL HEIGHT for generation (we want roughly 600px of visible height)
+const LOGICAL_HEIGHT = CANVAS_HEIGHT;
+
+// --- Helper: Color Blending ---
+export const lerpColor = (a: string, b: string, amount: number) => {
+  const ah = parseInt(a.replace(/#/g, ''), 16),
+        bh = parseInt(b.replace(/#/g, ''), 16),
+        ar = ah >> 16, ag = ah >> 8 & 0xff, ab = ah & 0xff,
+        br = bh >> 16, bg = bh >> 8 & 0xff, bb = bh & 0xff,
+        rr = ar + amount * (br - ar),
+        rg = ag + amount * (bg - ag),
+        rb = ab + amount * (bb - ab);
+  return '#' + ((1 << 24) + (rr << 16) + (rg << 8) + rb | 0).toString(16).slice(1);
+};
+
+export const darkenColor = (color: string, percent: number) => { return lerpColor(color, '#000000', percent); };
+export const lightenColor = (color: string, percent: number) => { return lerpColor(color, '#ffffff', percent); };
+
+// --- Celestial Bodies (Background sky) ---
+const generateCelestialBodies = (planet: PlanetData, rng: Rng): CelestialBody[] => {
+  const bodies: CelestialBody[] = [];
+  const numBodies = rng.int(1, 2);
+  const envType = CLIMATES[planet.climate].sky;
+
+  for (let i = 0; i < numBodies; i++) {
+    const typeRoll = rng.next();
+    let type: CelestialBody['type'] = 'moon';
+    let radius = 30 + rng.next() * 40;
+    let color = '#ffffff';
+    let orbitPhase = 0;
+
+    if (envType === 'hot') {
+      if (typeRoll > 0.6) { type = 'sun'; radius = 80 + rng.next() * 60; color = '#ffcc00'; orbitPhase = 0.5; } // Peak Noon
+      else { type = 'broken_moon'; radius = 50 + rng.next() * 30; color = '#aa8888'; orbitPhase = 0.0; }
+    } else if (envType === 'cold') {
+      if (typeRoll > 0.7) { type = 'gas_giant'; radius = 100 + rng.next() * 60; color = '#4444ff'; orbitPhase = 0.1; }
+      else { type = 'moon'; radius = 30 + rng.next() * 30; color = '#eeeeee'; orbitPhase = 0.0; }
+    } else {
+      if (typeRoll > 0.8) { type = 'sun'; radius = 60 + rng.next() * 40; color = '#ffaa00'; orbitPhase = 0.5; }
+      else { type = 'moon'; radius = 40 + rng.next() * 20; color = '#cccccc'; orbitPhase = 0.0; }
+    }
+
+    const details: { x: number, y: number, r: number, color: string }[] = [];
+    if (type === 'moon' || type === 'broken_moon') {
+      const craterCount = rng.int(3, 7);
+      for (let j = 0; j < craterCount; j++) { details.push({ x: (rng.next() - 0.5) * radius * 0.8, y: (rng.next() - 0.5) * radius * 0.8, r: rng.next() * radius * 0.25, color: 'rgba(0,0,0,0.1)' }); }
+    }
+
+    bodies.push({ id: `body-${i}`, x: rng.next() * 800 + (i * 300), y: rng.next() * 300 + 50, radius, color, type, hasRings: type === 'gas_giant' || (type !== 'sun' && rng.next() > 0.85), details, orbitPhase, textureSeed: rng.next() });
+  }
+  return bodies;
+};
+
+// --- Vegetation ---
+const generatePlant = (planet: PlanetData, rng: Rng, x: number, currentStyle: string): Vegetation => {
+  const isTitan = rng.chance(0.08);
+  let stemType: StemType = 'straight';
+  let foliageType: FoliageType = 'canopy';
+  const rand = rng.next();
+  if (currentStyle === 'dunes') { if (rand > 0.8) { stemType = 'crystalline'; foliageType = 'none'; } else if (rand > 0.6) { stemType = 'cactus'; foliageType = 'spikes'; } else if (rand > 0.3) { stemType = 'twisted'; foliageType = 'none'; } else { stemType = 'bulbous'; foliageType = 'flower'; } }
+  else if (currentStyle === 'spire') { if (rand > 0.7) { stemType = 'spiral'; foliageType = 'luminescent'; } else if (rand > 0.4) { stemType = 'shard'; foliageType = 'bulb'; } else { stemType = 'vine'; foliageType = 'none'; } }
+  else if (currentStyle === 'plateau') { if (rand > 0.8) { stemType = 'straight'; foliageType = 'giant_leaf'; } else if (rand > 0.5) { stemType = 'segmented'; foliageType = 'canopy'; } else { stemType = 'straight'; foliageType = 'pods'; } }
+  else { if (planet.climate === 'toxic' && rand > 0.6) { stemType = 'twisted'; foliageType = 'tentacles'; } else if (rand > 0.5) { stemType = 'bulbous'; foliageType = 'weeping'; } else { stemType = 'twisted'; foliageType = 'fern'; } }
+
+  const scaleMult = 0.8 + (planet.vegetationDensity * 0.4);
+  let hBase = (rng.next() * 120 + 40) * scaleMult;
+  let wBase = (rng.next() * 6 + 4) * scaleMult;
+  if (isTitan) { hBase = 250 + rng.next() * 200; wBase = 15 + rng.next() * 15; if (stemType === 'vine') stemType = 'twisted'; if (stemType === 'shard') stemType = 'straight'; }
+
+  const baseColor = planet.floraColor;
+  const stemColor = rng.next() > 0.5 ? darkenColor(baseColor, 0.3) : darkenColor(planet.groundColor, 0.2);
+  let foliageColor = baseColor;
+  const colorRoll = rng.next();
+  if (colorRoll > 0.7) foliageColor = lightenColor(baseColor, 0.4);
+  else if (colorRoll > 0.4) foliageColor = lerpColor(baseColor, planet.atmosphereColor, 0.5);
+  else foliageColor = '#ffffff';
+
+  return {
+    x: x + rng.next() * WORLD.SEGMENT_WIDTH, y: 0,
+    height: hBase + (foliageType === 'canopy' ? 40 : 0), width: wBase,
+    stemType: stemType, foliageType: foliageType,
+    colorStem: stemColor, colorFoliage: foliageColor, colorDetail: darkenColor(stemColor, 0.2),
+    swaySpeed: (rng.next() * 0.02 + 0.01) * (isTitan ? 0.5 : 1),
+    swayAmount: (rng.next() * 5 + 2) * (isTitan ? 1.5 : 1),
+    variant: rng.int(0, 99), isTitan: isTitan, currentBend: 0
+  };
+};
+
+// --- Terrain, Hazards, Decorations & Flora ---
+// Segment indices stay global so the chunks line up into one heightmap
+const generateSurface = (planet: PlanetData, rng: Rng, index: number, startHeight: number) => {
+  const segments = WORLD.SEGMENTS;
+  const segmentWidth = WORLD.SEGMENT_WIDTH;
+  const terrain: number[] = [];
+  const hazards: Hazard[] = [];
+  const decorations: Decoration[] = [];
+  const vegetation: Vegetation[] = [];
+  const first = index * WORLD.CHUNK_LENGTH; const end = Math.min(first + WORLD.CHUNK_LENGTH, segments);
+  let height = startHeight;
+  const currentStyle: BiomeStyle = rng.pick(planet.allowedBiomes);
+
+  for (let i = first; i < end; i++) {
+    const x = i * segmentWidth;
+    let delta = 0;
+    if (currentStyle === 'dunes') delta = Math.sin(i * 0.1) * 5 + Math.cos(i * 0.05) * 2;
+    else if (currentStyle === 'crags') delta = (rng.next() - 0.5) * 15;
+    else if (currentStyle === 'plateau') { if (i % 15 === 0) delta = (rng.int(0, 2) - 1) * 40; else delta = 0; }
+    else if (currentStyle === 'spire') { if (i % 5 === 0) delta = (rng.next() - 0.5) * 30; else delta = (rng.next() - 0.5) * 5; }
+    height += delta;
+    const minH = 100; const maxH = LOGICAL_HEIGHT - 50;
+    if (height < minH) height = minH; if (height > maxH) height = maxH; if (height < 150) height += 2; if (height > LOGICAL_HEIGHT - 150) height -= 2;
+    let isHazard = false;
+
+    // HAZARD GENERATION LOGIC - IMPROVED
+    if (i > 10 && i < segments - 10) {
+      if (rng.chance(0.06)) {
+        height = height + 40;
+        if (height > maxH) height = maxH;
+        let hType: HazardType = 'none';
+
+        if (currentStyle === 'dunes') hType = (rng.next() > 0.7) ? 'geyser' : 'none';
+        else if (currentStyle === 'plateau') hType = (rng.next() > 0.8) ? 'electric' : 'none';
+        else if (currentStyle === 'crags') hType = 'lava';
+        else if (currentStyle === 'spire') hType = (rng.next() > 0.5) ? 'acid' : 'electric';
+
+        // Fallback from the planet's climate
+        if (hType === 'none') hType = CLIMATES[planet.climate].poolHazard;
+
+        if (hType !== 'none') {
+          hazards.push({ x: x, width: segmentWidth, type: hType });
+          isHazard = true;
+        }
+      }
+    }
+    if (!isHazard && currentStyle === 'crags' && rng.chance(0.1)) hazards.push({ x: x, width: segmentWidth, type: 'spikes' });
+    if (!isHazard && currentStyle === 'spire' && CLIMATES[planet.climate].icySpires) hazards.push({ x: x, width: segmentWidth, type: 'ice' });
+
+    terrain.push(height);
+    if (!isHazard && rng.next() > 0.85) {
+      let type = 0;
+      if (currentStyle === 'dunes') type = 0; else if (currentStyle === 'spire') type = 2; else if (currentStyle === 'plateau') type = 4; else type = rng.next() > 0.5 ? 1 : 0;
+      decorations.push({ x: x + rng.next() * 40, y: height, type: type, size: rng.next() * 10 + 5 });
+    }
+    let vegDensity = 0.5;
+    if (currentStyle === 'dunes') vegDensity = 0.2; else if (currentStyle === 'spire') vegDensity = 0.3; else if (currentStyle === 'plateau') vegDensity = 0.7;
+    const effectiveVegDensity = vegDensity * (planet.vegetationDensity * 1.5);
+    if (!isHazard && rng.chance(effectiveVegDensity)) vegetation.push(generatePlant(planet, rng, x, currentStyle));
+  }
+
+  return { terrain, biome: currentStyle, endHeight: height, hazards, decorations, vegetation };
+};
+
+// Hazard types generateSurface can place on the planet: per biome, plus the climate's pools where a biome rolls none
+const BIOME_HAZARDS: Record<BiomeStyle, HazardType[]> = { dunes: ['geyser'], plateau: ['electric'], crags: ['lava', 'spikes'], spire: ['acid', 'electric'] };
+
+export const getExpectedHazards = (planet: PlanetData): HazardType[] => {
+  const { poolHazard, icySpires } = CLIMATES[planet.climate];
+  const types = new Set<HazardType>();
+  planet.allowedBiomes.forEach(biome => {
+    BIOME_HAZARDS[biome].forEach(type => types.add(type));
+    if ((biome === 'dunes' || biome === 'plateau') && poolHazard !== 'none') types.add(poolHazard);
+    if (biome === 'spire' && icySpires) types.add('ice');
+  });
+  return Array.from(types);
+};
+
+// --- Parallax Background ---
+const generateBackgroundLayers = (planet: PlanetData, rng: Rng): BackgroundLayer[] => {
+  const layers: BackgroundLayer[] = [];
+  const layerCount = 2;
+  for (let l = 0; l < layerCount; l++) {
+    const distance = (l + 1) / (layerCount + 0.5);
+    const speed = 0.1 + (l * 0.15);
+    const blendFactor = l === 0 ? 0.7 : 0.4;
+    const layerColor = lerpColor(planet.groundColor, planet.atmosphereColor, blendFactor);
+    const points: { x: number, y: number }[] = [];
+    const ly = LOGICAL_HEIGHT / 2 + (l * 100);
+    const step = 100;
+    for (let x = 0; x < WORLD.SEGMENTS * WORLD.SEGMENT_WIDTH; x += step) {
+      const noise = Math.sin(x * 0.005) * 50 + Math.cos(x * 0.02) * 20;
+      let biomeMod = 0;
+      if (planet.allowedBiomes.includes('crags')) biomeMod = (rng.next() - 0.5) * 80;
+      else if (planet.allowedBiomes.includes('plateau')) { if (x % 400 < 50) biomeMod = -50; }
+      points.push({ x, y: ly + noise + biomeMod });
+    }
+    layers.push({ distance, speed, color: layerColor, points });
+  }
+  return layers;
+};
+
+const generateStars = (rng: Rng): Star[] => {
+  const stars: Star[] = [];
+  for (let i = 0; i < 400; i++) stars.push({ x: rng.next() * 3000, y: rng.next() * LOGICAL_HEIGHT * 1.5, size: rng.next() * 2 + 0.5, speed: rng.next() * 0.05 + 0.01, alpha: rng.next() * 0.8 + 0.2 });
+  return stars;
+};
+
+// --- Energy Cores & their Guards ---
+// Planned before any ground exists: y is the offset above the surface, resolved by the chunk each one lands in (placeOnGround)
+export const getCoreCount = (planet: PlanetData) => 4 + Math.floor(planet.enemyDensity / 2.5);
+
+const generateObjectives = (planet: PlanetData, rng: Rng) => {
+  const totalCoresNeeded = getCoreCount(planet);
+  const cores: Entity[] = [];
+  const guards: Entity[] = [];
+
+  for (let i = 0; i < totalCoresNeeded; i++) {
+    const progress = (i + 1) / (totalCoresNeeded + 1);
+    const xPos = (WORLD.SEGMENTS * WORLD.SEGMENT_WIDTH) * progress;
+    let tier = 1; if (i === totalCoresNeeded - 1) tier = 3; else if (progress > 0.5) tier = 2;
+    let color = '#ffd700'; if (tier === 2) color = '#00ffff'; if (tier === 3) color = '#ff0033';
+    cores.push({ id: `core-${i}`, pos: { x: xPos, y: -50 }, vel: { x: 0, y: 0 }, size: ENTITY_SIZE.LOOT, color: color, type: 'loot', lootType: 'core', coreTier: tier, health: 1, maxHealth: 1, isGrounded: false, markedForDeletion: false, facingRight: true, variant: 0, animOffset: rng.next() * 100, hitTimer: 0 });
+    if (tier >= 2) {
+      const guardArchetype: EnemyArchetype = rng.next() > 0.5 ? 'sentinel' : 'dasher';
+      const { size, stats } = getArchetype(guardArchetype);
+      const hp = (stats.hp || 30) * 2;
+      guards.push({ id: `guard-${i}`, pos: { x: xPos + 100, y: -100 }, vel: { x: 0, y: 0 }, size: { x: size.x * 1.3, y: size.y * 1.3 }, color: '#ffd700', type: 'enemy', health: hp, maxHealth: hp, isGrounded: false, markedForDeletion: false, facingRight: false, variant: 0, animOffset: 0, archetype: guardArchetype, rarity: 'elite', aiState: 'idle', alertTimer: 0, hitTimer: 0 });
+    }
+  }
+  return { cores, guards, totalCoresNeeded };
+};
+
+// Height of a chunk's ground under x; positions past either end take the nearest edge sample
+const chunkGroundAt = (terrain: number[], first: number, x: number) => terrain[Math.max(0, Math.min(terrain.length - 1, Math.floor(x / WORLD.SEGMENT_WIDTH) - first))];
+
+// Loot buried along the route, only reachable by blasting the ground away
+const generateCache = (rng: Rng, index: number, first: number, terrain: number[], hazards: Hazard[]) => {
+  const weaponTypes: WeaponType[] = ['scatter', 'rapid', 'sniper', 'launcher'];
+  const low = Math.max(20, first); const high = Math.min(WORLD.SEGMENTS - 20, first + terrain.length - 1);
+  if (low > high || !rng.chance(CRATER.CACHE_CHANCE)) return [];
+  const segment = rng.int(low, high); const x = segment * WORLD.SEGMENT_WIDTH + WORLD.SEGMENT_WIDTH / 2;
+  if (hazards.some(h => x >= h.x && x < h.x + h.width)) return [];
+  const roll = rng.next(); const base = { id: `cache-${index}`, pos: { x, y: terrain[segment - first] + CRATER.BURY_DEPTH }, vel: { x: 0, y: 0 }, type: 'loot' as const, buried: true, health: 1, maxHealth: 1, isGrounded: true, markedForDeletion: false, facingRight: true, variant: 0, animOffset: rng.next() * 100, hitTimer: 0 };
+  if (roll < 0.4) { const weaponType = rng.pick(weaponTypes); return [{ ...base, size: ENTITY_SIZE.WEAPON_DROP, color: WEAPONS[weaponType].color, lootType: 'weapon' as const, weaponType }]; }
+  if (roll < 0.7) { const modId = rng.pick(Object.keys(WEAPON_MODS) as WeaponModId[]); return [{ ...base, size: ENTITY_SIZE.MOD_DROP, color: WEAPON_MODS[modId].color, lootType: 'mod' as const, modId }]; }
+  return [{ ...base, size: ENTITY_SIZE.AMMO_DROP, color: '#ffcc00', lootType: 'ammo' as const }];
+};
+
+// Level geometry per chunk biome: floating shards on spire, mesas on plateau, caves with ledges in crags, drifting skiffs over dunes.
+// Heights are kept within a jump of the ground (or of a ledge) so every top can be reached.
+const generatePlatforms = (planet: PlanetData, rng: Rng, index: number, biome: BiomeStyle, first: number, terrain: number[], hazards: Hazard[], cores: Entity[]) => {
+  const platforms: Entity[] = [];
+  const chunkStart = first * WORLD.SEGMENT_WIDTH; const chunkEnd = (first + terrain.length) * WORLD.SEGMENT_WIDTH; const levelWidth = WORLD.SEGMENTS * WORLD.SEGMENT_WIDTH;
+  const groundBetween = (x1: number, x2: number) => { let top = LOGICAL_HEIGHT; for (let x = x1; x < x2 + WORLD.SEGMENT_WIDTH; x += WORLD.SEGMENT_WIDTH) top = Math.min(top, chunkGroundAt(terrain, first, x)); return top; };
+  const isClear = (x: number, width: number) => x >= chunkStart && x + width <= chunkEnd && x > PLATFORM.SPAWN_CLEARANCE && x + width < levelWidth - PLATFORM.SPAWN_CLEARANCE && !cores.some(c => c.pos.x + PLATFORM.CORE_CLEARANCE > x && c.pos.x - PLATFORM.CORE_CLEARANCE < x + width) && !platforms.some(p => p.pos.x < x + width + 80 && p.pos.x + p.size.x + 80 > x);
+  const overHazard = (x: number, width: number) => hazards.some(h => h.x < x + width && h.x + h.width > x);
+  const add = (x: number, y: number, width: number, height: number, platformKind: PlatformKind, color: string, path?: Omit<PlatformPath, 'originX' | 'originY'>) => {
+    platforms.push({ id: `platform-${index}-${platforms.length}`, pos: { x, y }, vel: { x: 0, y: 0 }, size: { x: width, y: height }, color, type: 'platform', platformKind, path: path && { ...path, originX: x, originY: y }, health: 1, maxHealth: 1, isGrounded: true, markedForDeletion: false, facingRight: true, variant: 0, animOffset: rng.next() * 100, hitTimer: 0 });
+  };
+  const rockColor = darkenColor(planet.groundColor, 0.35); const ledgeColor = lightenColor(planet.groundColor, 0.25);
+
+  for (let attempt = 0; attempt < PLATFORM.PER_CHUNK; attempt++) {
+    const x = chunkStart + rng.range(0, chunkEnd - chunkStart);
+    if (biome === 'spire') {
+      const width = rng.int(90, 160); if (!isClear(x, width)) continue;
+      const y = groundBetween(x, x + width) - rng.int(75, 95); const moving = rng.chance(0.3);
+      add(x, y, width, PLATFORM.ONE_WAY_THICKNESS, 'oneWay', planet.floraColor, moving ? { dx: 0, dy: rng.int(25, 40), period: rng.int(180, 300), phase: rng.range(0, Math.PI * 2) } : undefined);
+      // A second, higher shard stepping off the first
+      if (rng.chance(0.5) && isClear(x + width + 90, width)) add(x + width + 90, y - rng.int(60, 80), width, PLATFORM.ONE_WAY_THICKNESS, 'oneWay', planet.floraColor);
+    } else if (biome === 'plateau') {
+      const width = rng.int(160, 320); if (!isClear(x, width) || overHazard(x, width)) continue;
+      const top = groundBetween(x, x + width) - rng.int(60, 90);
+      add(x, top, width, LOGICAL_HEIGHT - top, 'solid', rockColor); // Runs down into the ground so nothing slips underneath
+    } else if (biome === 'crags') {
+      const width = rng.int(250, 400); if (!isClear(x - 160, width + 160) || overHazard(x, width)) continue;
+      const roofBottom = groundBetween(x, x + width) - 130;
+      add(x, roofBottom - 40, width, 40, 'solid', rockColor);
+      add(x - 150, groundBetween(x - 150, x - 40) - rng.int(80, 95), 110, PLATFORM.ONE_WAY_THICKNESS, 'oneWay', ledgeColor); // Step up onto the roof
+    } else {
+      const width = rng.int(110, 170); const travel = rng.int(120, 260); if (!isClear(x - travel, width + travel * 2)) continue;
+      add(x, groundBetween(x - travel, x + width + travel) - rng.int(70, 90), width, PLATFORM.ONE_WAY_THICKNESS, 'oneWay', ledgeColor, { dx: travel, dy: 0, period: rng.int(300, 480), phase: rng.range(0, Math.PI * 2) });
+    }
+  }
+  return platforms;
+};
+
+// Planned cores and guards that fall inside the chunk, copied and set down on its ground
+const placeOnGround = (planned: Entity[], first: number, terrain: number[]) => {
+  const start = first * WORLD.SEGMENT_WIDTH; const end = (first + terrain.length) * WORLD.SEGMENT_WIDTH;
+  return planned.filter(e => e.pos.x >= start && e.pos.x < end).map(e => ({ ...e, pos: { x: e.pos.x, y: chunkGroundAt(terrain, first, e.pos.x) + e.pos.y } }));
+};
+
+// Deterministic: the same planet (same seed) always yields an identical level.
+// Each concern draws from its own derived stream so tweaking one doesn't reshuffle the others.
+export const generateLevel = (planet: PlanetData): LevelData => ({
+  backgroundLayers: generateBackgroundLayers(planet, createRng(deriveSeed(planet.seed, 'background'))),
+  celestialBodies: generateCelestialBodies(planet, createRng(deriveSeed(planet.seed, 'sky'))),
+  stars: generateStars(createRng(deriveSeed(planet.seed, 'stars'))),
+  ...generateObjectives(planet, createRng(deriveSeed(planet.seed, 'cores'))),
+  chunkCount: Math.ceil(WORLD.SEGMENTS / WORLD.CHUNK_LENGTH),
+  startHeight: LOGICAL_HEIGHT - 150,
+});
+
+// Chunks get their own streams too, so any chunk comes out the same whenever it is built.
+// Only the ground height carries over: pass the previous chunk's endHeight (the level's startHeight for the first).
+export const generateChunk = (planet: PlanetData, level: LevelData, index: number, startHeight: number): LevelChunk => {
+  const first = index * WORLD.CHUNK_LENGTH;
+  const surface = generateSurface(planet, createRng(deriveSeed(planet.seed, `terrain-${index}`)), index, startHeight);
+  return {
+    index,
+    ...surface,
+    platforms: generatePlatforms(planet, createRng(deriveSeed(planet.seed, `platforms-${index}`)), index, surface.biome, first, surface.terrain, surface.hazards, level.cores),
+    caches: generateCache(createRng(deriveSeed(planet.seed, `caches-${index}`)), index, first, surface.terrain, surface.hazards),
+    cores: placeOnGround(level.cores, first, surface.terrain),
+    guards: placeOnGround(level.guards, first, surface.terrain),
+  };
+};
@@ -0,0 +1,354 @@
+// English string table. This is the reference locale: its keys define StringKey,
+// every other table must provide the same keys. Placeholders are written {name}.
+export const en = {
+  // --- Common ---
+  "common.close": "CLOSE",
+  "common.back": "BACK",
+  "common.on": "ON",
+  "common.muted": "MUTED",
+  "common.remove": "Remove",
+  "common.language": "LANGUAGE",
+
+  // --- Title menu ---
+  "menu.subtitle": "PROTOCOL: GENESIS",
+  "menu.intro": "Your ship is in orbit. Use the navigation console to scan nearby sectors and land on planets to recover resources.",
+  "menu.continue": "CONTINUE",
+  "menu.slot": "SLOT {slot}",
+  "menu.slotSummary": "{cores} CORES // {landings} LANDINGS // {date}",
+  "menu.load": "LOAD",
+  "menu.delete": "DELETE",
+  "menu.empty": "EMPTY",
+  "menu.boardShip": "BOARD SHIP",
+  "menu.controls": "CONTROLS",
+  "menu.audio": "AUDIO",
+  "menu.loadReplay": "LOAD REPLAY",
+  "menu.planetSource": "PLANET DATA",
+  "provider.procedural": "PROCEDURAL",
+  "provider.gemini": "GEMINI",
+  "provider.mock": "MOCK",
+  "menu.replayError": "Replay file could not be read: {reason}",
+
+  // --- Hangar ---
+  "hangar.warping": "WARNING: HYPERSPACE JUMP IN PROGRESS",
+  "hangar.online": "SYSTEMS ONLINE // {sector}",
+  "hangar.command": "SHIP COMMAND",
+  "hangar.bridge": "BRIDGE",
+  "hangar.navigation": "NAVIGATION",
+  "hangar.engineering": "ENGINEERING",
+  "hangar.armory": "ARMORY",
+  "hangar.cores": "CORES",
+  "bridge.title": "CAPTAIN ON DECK",
+  "bridge.sector": "Current sector:",
+  "bridge.awaiting": "The ship is awaiting orders.",
+  "bridge.navigationHint": "Open NAVIGATION to choose a planet or plot a jump to another sector.",
+  "bridge.engineeringHint": "Open ENGINEERING to upgrade the ship.",
+  "bridge.status": "STATUS",
+  "bridge.green": "GREEN",
+  "bridge.jumpDrive": "JUMP DRIVE",
+  "bridge.ready": "READY",
+  "bridge.noFuel": "NO FUEL",
+  "nav.starMap": "STAR MAP",
+  "nav.warpEngaged": "WARP ENGAGED",
+  "nav.ftlJump": "FTL JUMP TO {sector} (-{cost} CORES)",
+  "nav.selectPlanet": "[ SELECT A PLANET TO SCAN ]",
+  "starmap.pause": "PAUSE ORBITS",
+  "starmap.resume": "RESUME ORBITS",
+  "starmap.resetView": "RESET VIEW",
+  "starmap.moons": "{count} MOONS",
+  "starmap.hint": "WHEEL: ZOOM // DRAG: PAN // {prev}/{next}: CYCLE PLANETS // {pause}: PAUSE ORBITS",
+  "nav.galaxyMap": "GALAXY MAP",
+  "nav.systemView": "SYSTEM",
+  "nav.galaxyView": "GALAXY",
+  "nav.selectSector": "[ SELECT A SECTOR TO PLOT A ROUTE ]",
+  "nav.visited": "VISITED",
+  "nav.unexplored": "UNEXPLORED",
+  "nav.jumps": "JUMPS",
+  "nav.routeCost": "ROUTE COST",
+  "nav.cores": "{count} CORES",
+  "planet.seed": "Planet seed",
+  "planet.gravity": "GRAVITY",
+  "planet.threat": "THREAT",
+  "planet.threatLevel": "LVL {level}",
+  "planet.biome": "BIOME",
+  "planet.climate": "CLIMATE",
+  "planet.cores": "ENERGY CORES",
+  "planet.weather": "WEATHER",
+  "planet.volatility": "STORMS",
+  "planet.vegetation": "VEGETATION",
+  "planet.rareLoot": "RARE LOOT",
+  "planet.hazards": "HAZARDS",
+  "scan.low": "LOW",
+  "scan.moderate": "MODERATE",
+  "scan.high": "HIGH",
+  "scan.none": "NONE DETECTED",
+  "scan.probe": "LAUNCH DEEP-SCAN PROBE (-{cost} CORES)",
+  "scan.probeHint": "A probe returns exact readings, buried caches and intel on the elites and the guardian.",
+  "scan.deepTitle": "DEEP SCAN",
+  "scan.caches": "BURIED CACHES",
+  "scan.elites": "ELITE GUARDS",
+  "scan.guardian": "GUARDIAN",
+  "scan.guardianStats": "{hp} HP // {phases} PHASES",
+  "scan.attacks": "ATTACKS",
+  "hazardType.lava": "LAVA",
+  "hazardType.acid": "ACID",
+  "hazardType.spikes": "SPIKES",
+  "hazardType.ice": "ICE",
+  "hazardType.geyser": "GEYSERS",
+  "hazardType.electric": "ELECTRIC FIELDS",
+  "enemy.crawler": "CRAWLER",
+  "enemy.spore": "SPORE",
+  "enemy.sandworm": "SANDWORM",
+  "enemy.shielder": "SHIELDER",
+  "enemy.hornet": "HORNET",
+  "enemy.sentinel": "SENTINEL",
+  "enemy.dasher": "DASHER",
+  "enemy.neutral": "CRITTER",
+  "enemy.guardian": "GUARDIAN",
+  "attack.spread": "SPREAD SHOT",
+  "attack.ring": "BULLET RING",
+  "attack.slam": "GROUND SLAM",
+  "attack.summon": "SUMMON",
+  "planet.launch": "LAUNCH DROPSHIP [ >>> ]",
+  "engineering.title": "WORKBENCH",
+  "engineering.level": "LV {level}",
+  "engineering.buy": "UPGRADE ({cost}C)",
+  "upgrade.hull.name": "TITANIUM PLATING",
+  "upgrade.hull.desc": "Increases Max HP",
+  "upgrade.hull.stat": "+25 HP",
+  "upgrade.weapon.name": "PLASMA COIL",
+  "upgrade.weapon.desc": "Increases Damage Output",
+  "upgrade.weapon.stat": "+20% DMG",
+  "upgrade.thrusters.name": "ION JETS",
+  "upgrade.thrusters.desc": "Boosts Jump Height",
+  "upgrade.thrusters.stat": "+JUMP",
+  "upgrade.speed.name": "SERVO MOTORS",
+  "upgrade.speed.desc": "Increases Movement Speed",
+  "upgrade.speed.stat": "+SPEED",
+  "armory.title": "ARMORY",
+  "armory.hint": "Guns and mods found on a landing are kept when you extract.",
+  "armory.equip": "EQUIP",
+  "armory.equipped": "EQUIPPED",
+  "armory.locked": "NOT FOUND",
+  "armory.emptySlot": "EMPTY",
+  "armory.install": "INSTALL",
+  "armory.remove": "REMOVE",
+  "armory.inStorage": "IN STORAGE: {count}",
+  "armory.shop": "MOD FABRICATOR",
+  "armory.buy": "BUY ({cost}C)",
+  "armory.explosive": "EXPLOSIVE",
+  "armory.arcing": "ARCING",
+  "armory.inflicts": "{chance}% {status}",
+  "modSlot.barrel": "BARREL",
+  "modSlot.magazine": "MAGAZINE",
+  "modSlot.payload": "PAYLOAD",
+  "mod.choke": "CHOKE",
+  "mod.wideBore": "WIDE BORE",
+  "mod.rifling": "RIFLING",
+  "mod.hairTrigger": "HAIR TRIGGER",
+  "mod.heavyRounds": "HEAVY ROUNDS",
+  "mod.stabilizer": "STABILIZER",
+  "mod.explosive": "HE PAYLOAD",
+  "mod.mortar": "MORTAR SHELLS",
+  "mod.sabot": "SABOT ROUNDS",
+  "mod.incendiary": "INCENDIARY ROUNDS",
+  "mod.cryo": "CRYO ROUNDS",
+  "mod.arc": "ARC ROUNDS",
+  "stat.damageMult": "DMG",
+  "stat.fireRate": "FIRE DELAY",
+  "stat.speed": "VELOCITY",
+  "stat.count": "SHOTS",
+  "stat.spread": "SPREAD",
+  "stat.recoil": "RECOIL",
+  "stat.pierce": "PIERCE",
+  "stat.knockback": "KNOCKBACK",
+
+  // --- Planet descriptions (generated) ---
+  "biome.dunes": "DUNES",
+  "biome.crags": "CRAGS",
+  "biome.spire": "SPIRES",
+  "biome.plateau": "PLATEAU",
+  "climate.volcanic": "VOLCANIC",
+  "climate.toxic": "TOXIC",
+  "climate.ice": "FROZEN",
+  "climate.desert": "ARID",
+  "climate.void": "VOID",
+  "planetDesc.volcanic": "Seismic activity detected. Extreme surface temperatures.",
+  "planetDesc.toxic": "Corrosive atmosphere. Noxious gases present.",
+  "planetDesc.ice": "Near absolute zero. Low-friction surface.",
+  "planetDesc.desert": "High-speed sand winds. No water resources.",
+  "planetDesc.void": "Gravitational anomaly. The planet seems to fade into darkness.",
+  "planetDesc.dunes": "Dune fields detected.",
+  "planetDesc.spires": "Unstable spire formations.",
+  "planetDesc.noBiosphere": "No biosphere.",
+  "planetDesc.denseFlora": "Dense alien vegetation detected.",
+  "planetDesc.storms": "ALERT: Unpredictable, frequent storms.",
+  "planetDesc.stable": "Stable climate.",
+  "planetDesc.fallback": "Connection to the galactic database failed. Running emergency protocol.",
+
+  // --- Mission HUD ---
+  "hud.suit": "SUIT LV{level}",
+  "hud.fuel": "FUEL",
+  "hud.cores": "CORES: {cores} / {total}",
+  "hud.score": "SCORE: {score}",
+  "hud.weapon": "WEAPON: {weapon}",
+  "hud.ammo": "AMMO {ammo}",
+  "hud.emptySlot": "EMPTY SLOT",
+  "hud.takeWeapon": "[{key}] TAKE {weapon}",
+  "objective.initializing": "INITIALIZING...",
+  "objective.recoverCores": "MISSION: RECOVER CORES",
+  "objective.destroyGuardian": "DANGER: DESTROY GUARDIAN",
+  "boss.guardian": "PLANETARY GUARDIAN",
+  "boss.magma": "MAGMA GUARDIAN",
+  "boss.cryo": "CRYO GUARDIAN",
+  "boss.blight": "BLIGHT GUARDIAN",
+  "boss.dune": "DUNE GUARDIAN",
+  "boss.phase": "PHASE {phase}/{total}",
+  "intro.missionStart": "MISSION START",
+  "intro.detected": "DETECTED: {count} ENERGY CORES",
+  "intro.collect": "COLLECT THEM TO ESCAPE",
+  "touch.jump": "JUMP",
+  "touch.swap": "SWAP",
+  "radio.incoming": "INCOMING TRANSMISSION...",
+
+  // --- Radio messages ---
+  "radio.landing": "Landing confirmed on {planet}.",
+  "radio.coresDetected": "{count} Energy Cores detected. Recover them.",
+  "radio.firstCore": "Good work. Head for the next signal.",
+  "radio.halfCores": "Energy levels at 50%. Enemy activity rising.",
+  "radio.seismic": "WARNING: MASSIVE SEISMIC SIGNAL.",
+  "radio.guardian": "PLANETARY GUARDIAN DETECTED. ELIMINATE.",
+  "radio.guardianShell": "Guardian shell cracking. Hit the core while it charges.",
+  "radio.guardianEnraged": "Guardian is going berserk. Finish it!",
+  "radio.weather": "ATMOSPHERIC DISTURBANCE DETECTED: {weather}",
+  "weather.clear": "CLEAR",
+  "weather.rain": "RAIN",
+  "weather.acid_rain": "ACID RAIN",
+  "weather.snow": "SNOW",
+  "weather.ash": "ASH",
+  "weather.sandstorm": "SANDSTORM",
+
+  // --- Floating combat text ---
+  "float.alert": "!",
+  "float.score": "+{score}",
+  "float.damage": "{amount}",
+  "float.hpLoss": "-{amount} HP",
+  "float.hpGain": "+{amount} HP",
+  "float.hazard": "-{amount} {hazard}",
+  "float.status": "-{amount} {status}",
+  "float.block": "BLOCK",
+  "float.boom": "BOOM!",
+  "float.coreAcquired": "CORE ACQUIRED",
+  "float.weapon": "{weapon}",
+  "float.mod": "MOD: {mod}",
+  "float.cacheUnearthed": "CACHE UNEARTHED",
+  "float.ammo": "+AMMO",
+  "float.noAmmoGun": "NO GUN TO LOAD",
+  "float.outOfAmmo": "OUT OF AMMO",
+  "float.shieldUp": "SHIELD UP",
+  "float.shieldDown": "SHIELD DOWN",
+  "float.summoning": "SUMMONING",
+  "float.bossPhase": "PHASE {phase}",
+  "float.weakPoint": "WEAK POINT!",
+  "hazard.spike": "SPIKE",
+  "hazard.steam": "STEAM",
+  "status.burning": "BURNING",
+  "status.corroded": "CORRODED",
+  "status.shocked": "SHOCKED",
+  "status.frozen": "FROZEN",
+  "status.slowed": "SLOWED",
+
+  // --- Mission end ---
+  "end.suitSignal": "Suit vital signs: 0%.",
+  "end.recovered": "Recovered: {count} cores.",
+  "end.noneSaved": "No cores saved.",
+  "end.victory": "Mission complete. +{bonus} bonus cores.",
+  "end.titleVictory": "MISSION COMPLETE",
+  "end.titleFailed": "SIGNAL LOST",
+  "end.score": "SCORE",
+  "end.totalCores": "TOTAL CORES",
+  "end.watchReplay": "WATCH REPLAY",
+  "end.exportReplay": "EXPORT REPLAY",
+  "end.returnToOrbit": "RETURN TO ORBIT",
+
+  // --- Replay playback ---
+  "replay.label": "REPLAY",
+  "replay.complete": "MISSION COMPLETE",
+  "replay.lost": "SIGNAL LOST",
+  "replay.end": "END OF RECORDING",
+  "replay.play": "PLAY",
+  "replay.pause": "PAUSE",
+  "replay.exit": "EXIT",
+
+  // --- Pause menu ---
+  "pause.title": "PAUSED",
+  "pause.resume": "RESUME",
+  "pause.audio": "AUDIO",
+  "pause.controls": "CONTROLS",
+  "pause.accessibility": "ACCESSIBILITY",
+  "pause.abort": "ABORT MISSION",
+  "abort.title": "ABORT THE MISSION?",
+  "abort.body": "The dropship will return to orbit.",
+  "abort.recovery": "Recovery: {saved} of {collected} cores collected.",
+  "abort.noRecovery": "No cores will be saved.",
+  "abort.confirm": "CONFIRM RETURN",
+  "accessibility.shake": "SCREEN SHAKE",
+  "accessibility.reduceFlashing": "REDUCE FLASHING",
+  "pause.graphics": "GRAPHICS",
+  "graphics.quality": "QUALITY",
+  "graphics.low": "LOW",
+  "graphics.medium": "MEDIUM",
+  "graphics.high": "HIGH",
+  "graphics.showPoolStats": "SHOW OBJECT COUNTER",
+  "debug.poolRow": "{name} {live}/{cap} FREE {free}",
+  "debug.particles": "PARTICLES",
+  "debug.weather": "WEATHER",
+  "debug.texts": "TEXTS",
+  "debug.projectiles": "SHOTS",
+
+  // --- Audio settings ---
+  "audio.master": "MASTER",
+  "audio.bus.sfx": "EFFECTS",
+  "audio.bus.ui": "INTERFACE / RADIO",
+  "audio.bus.ambience": "AMBIENCE",
+  "audio.bus.music": "MUSIC",
+
+  // --- Controls settings ---
+  "controls.title": "CONTROLS",
+  "controls.gamepadConnected": "GAMEPAD: {name}",
+  "controls.noGamepad": "NO GAMEPAD",
+  "controls.keyboardMouse": "KEYBOARD / MOUSE",
+  "controls.gamepad": "GAMEPAD",
+  "controls.aim": "AIM",
+  "controls.aimMouse": "MOUSE",
+  "controls.aimStick": "RIGHT STICK (FIRES)",
+  "controls.deadZone": "STICK DEAD ZONE",
+  "controls.listenKey": "Press a key or mouse button (ESC cancels)",
+  "controls.listenButton": "Press a gamepad button (ESC cancels)",
+  "controls.hint": "Click a slot to rebind it. The left stick moves and looks down.",
+  "controls.defaults": "DEFAULTS",
+  "action.moveLeft": "MOVE LEFT",
+  "action.moveRight": "MOVE RIGHT",
+  "action.jump": "JUMP",
+  "action.jetpack": "JETPACK",
+  "action.fire": "FIRE",
+  "action.lookDown": "LOOK DOWN",
+  "action.pause": "PAUSE",
+  "action.swapWeapon": "SWAP WEAPON",
+  "key.space": "SPACE",
+  "key.shiftLeft": "L SHIFT",
+  "key.shiftRight": "R SHIFT",
+  "key.controlLeft": "L CTRL",
+  "key.controlRight": "R CTRL",
+  "key.altLeft": "L ALT",
+  "key.altRight": "R ALT",
+  "key.escape": "ESC",
+  "key.enter": "ENTER",
+  "key.tab": "TAB",
+  "key.mouseLeft": "LEFT MOUSE",
+  "key.mouseMiddle": "MIDDLE MOUSE",
+  "key.mouseRight": "RIGHT MOUSE",
+  "key.mouse": "MOUSE {button}",
+  "key.button": "BUTTON {button}",
+};
+
+export type StringKey = keyof typeof en;
@@ -0,0 +1,353 @@
+import { StringKey } from "./en";
+
+// Italian string table (same keys as en.ts, enforced by the type)
+export const it: Record<StringKey, string> = {
+  // --- Common ---
+  "common.close": "CHIUDI",
+  "common.back": "INDIETRO",
+  "common.on": "ON",
+  "common.muted": "MUTO",
+  "common.remove": "Rimuovi",
+  "common.language": "LINGUA",
+
+  // --- Title menu ---
+  "menu.subtitle": "PROTOCOLLO: GENESIS",
+  "menu.intro": "La tua nave è in orbita. Usa la console di navigazione per scansionare i settori vicini e atterrare sui pianeti per recuperare risorse.",
+  "menu.continue": "CONTINUA",
+  "menu.slot": "SLOT {slot}",
+  "menu.slotSummary": "{cores} NUCLEI // {landings} ATTERRAGGI // {date}",
+  "menu.load": "CARICA",
+  "menu.delete": "ELIMINA",
+  "menu.empty": "VUOTO",
+  "menu.boardShip": "IMBARCATI",
+  "menu.controls": "COMANDI",
+  "menu.audio": "AUDIO",
+  "menu.planetSource": "DATI PIANETI",
+  "provider.procedural": "PROCEDURALE",
+  "provider.gemini": "GEMINI",
+  "provider.mock": "SIMULATI",
+  "menu.loadReplay": "CARICA REPLAY",
+  "menu.replayError": "Impossibile leggere il replay: {reason}",
+
+  // --- Hangar ---
+  "hangar.warping": "ATTENZIONE: SALTO NELL'IPERSPAZIO IN CORSO",
+  "hangar.online": "SISTEMI ONLINE // {sector}",
+  "hangar.command": "COMANDO NAVE",
+  "hangar.bridge": "PLANCIA",
+  "hangar.navigation": "NAVIGAZIONE",
+  "hangar.engineering": "INGEGNERIA",
+  "hangar.armory": "ARMERIA",
+  "hangar.cores": "NUCLEI",
+  "bridge.title": "CAPITANO IN PLANCIA",
+  "bridge.sector": "Settore corrente:",
+  "bridge.awaiting": "La nave è in attesa di ordini.",
+  "bridge.navigationHint": "Vai su NAVIGAZIONE per scegliere un pianeta o tracciare un salto verso un altro settore.",
+  "bridge.engineeringHint": "Vai su INGEGNERIA per potenziare la nave.",
+  "bridge.status": "STATO",
+  "bridge.green": "VERDE",
+  "bridge.jumpDrive": "MOTORE DI SALTO",
+  "bridge.ready": "PRONTO",
+  "bridge.noFuel": "SENZA CARBURANTE",
+  "nav.starMap": "MAPPA STELLARE",
+  "nav.warpEngaged": "CURVATURA INSERITA",
+  "nav.ftlJump": "SALTO FTL VERSO {sector} (-{cost} NUCLEI)",
+  "nav.selectPlanet": "[ SELEZIONA UN PIANETA DA SCANSIONARE ]",
+  "starmap.pause": "FERMA ORBITE",
+  "starmap.resume": "RIPRENDI ORBITE",
+  "starmap.resetView": "VISTA INIZIALE",
+  "starmap.moons": "{count} LUNE",
+  "starmap.hint": "ROTELLA: ZOOM // TRASCINA: SPOSTA // {prev}/{next}: CAMBIA PIANETA // {pause}: FERMA ORBITE",
+  "nav.galaxyMap": "MAPPA GALATTICA",
+  "nav.systemView": "SISTEMA",
+  "nav.galaxyView": "GALASSIA",
+  "nav.selectSector": "[ SELEZIONA UN SETTORE PER TRACCIARE UNA ROTTA ]",
+  "nav.visited": "VISITATO",
+  "nav.unexplored": "INESPLORATO",
+  "nav.jumps": "SALTI",
+  "nav.routeCost": "COSTO ROTTA",
+  "nav.cores": "{count} NUCLEI",
+  "planet.seed": "Seed del pianeta",
+  "planet.gravity": "GRAVITÀ",
+  "planet.threat": "MINACCIA",
+  "planet.threatLevel": "LIV {level}",
+  "planet.biome": "BIOMA",
+  "planet.climate": "CLIMA",
+  "planet.cores": "NUCLEI ENERGETICI",
+  "planet.weather": "METEO",
+  "planet.volatility": "TEMPESTE",
+  "planet.vegetation": "VEGETAZIONE",
+  "planet.rareLoot": "BOTTINO RARO",
+  "planet.hazards": "PERICOLI",
+  "scan.low": "BASSA",
+  "scan.moderate": "MEDIA",
+  "scan.high": "ALTA",
+  "scan.none": "NESSUNO RILEVATO",
+  "scan.probe": "LANCIA SONDA DI SCANSIONE (-{cost} NUCLEI)",
+  "scan.probeHint": "Una sonda fornisce letture esatte, depositi sepolti e informazioni su élite e guardiano.",
+  "scan.deepTitle": "SCANSIONE PROFONDA",
+  "scan.caches": "DEPOSITI SEPOLTI",
+  "scan.elites": "GUARDIE ÉLITE",
+  "scan.guardian": "GUARDIANO",
+  "scan.guardianStats": "{hp} PS // {phases} FASI",
+  "scan.attacks": "ATTACCHI",
+  "hazardType.lava": "LAVA",
+  "hazardType.acid": "ACIDO",
+  "hazardType.spikes": "PUNTE",
+  "hazardType.ice": "GHIACCIO",
+  "hazardType.geyser": "GEYSER",
+  "hazardType.electric": "CAMPI ELETTRICI",
+  "enemy.crawler": "STRISCIANTE",
+  "enemy.spore": "SPORA",
+  "enemy.sandworm": "VERME DELLE SABBIE",
+  "enemy.shielder": "SCUDIERO",
+  "enemy.hornet": "CALABRONE",
+  "enemy.sentinel": "SENTINELLA",
+  "enemy.dasher": "CARICATORE",
+  "enemy.neutral": "CREATURA",
+  "enemy.guardian": "GUARDIANO",
+  "attack.spread": "COLPO A VENTAGLIO",
+  "attack.ring": "ANELLO DI PROIETTILI",
+  "attack.slam": "SCHIANTO AL SUOLO",
+  "attack.summon": "EVOCAZIONE",
+  "planet.launch": "LANCIA NAVETTA [ >>> ]",
+  "engineering.title": "OFFICINA",
+  "engineering.level": "LIV {level}",
+  "engineering.buy": "POTENZIA ({cost}N)",
+  "upgrade.hull.name": "PLACCATURA AL TITANIO",
+  "upgrade.hull.desc": "Aumenta i PS massimi",
+  "upgrade.hull.stat": "+25 PS",
+  "upgrade.weapon.name": "BOBINA AL PLASMA",
+  "upgrade.weapon.desc": "Aumenta i danni inflitti",
+  "upgrade.weapon.stat": "+20% DANNI",
+  "upgrade.thrusters.name": "GETTI IONICI",
+  "upgrade.thrusters.desc": "Aumenta l'altezza del salto",
+  "upgrade.thrusters.stat": "+SALTO",
+  "upgrade.speed.name": "SERVOMOTORI",
+  "upgrade.speed.desc": "Aumenta la velocità di movimento",
+  "upgrade.speed.stat": "+VELOCITÀ",
+  "armory.title": "ARMERIA",
+  "armory.hint": "Armi e mod trovate in missione restano tue se completi l'estrazione.",
+  "armory.equip": "EQUIPAGGIA",
+  "armory.equipped": "EQUIPAGGIATA",
+  "armory.locked": "NON TROVATA",
+  "armory.emptySlot": "VUOTO",
+  "armory.install": "INSTALLA",
+  "armory.remove": "RIMUOVI",
+  "armory.inStorage": "IN DEPOSITO: {count}",
+  "armory.shop": "FABBRICATORE DI MOD",
+  "armory.buy": "COMPRA ({cost}C)",
+  "armory.explosive": "ESPLOSIVO",
+  "armory.arcing": "PARABOLICO",
+  "armory.inflicts": "{chance}% {status}",
+  "modSlot.barrel": "CANNA",
+  "modSlot.magazine": "CARICATORE",
+  "modSlot.payload": "CARICO",
+  "mod.choke": "STROZZATORE",
+  "mod.wideBore": "CANNA LARGA",
+  "mod.rifling": "RIGATURA",
+  "mod.hairTrigger": "GRILLETTO SENSIBILE",
+  "mod.heavyRounds": "PROIETTILI PESANTI",
+  "mod.stabilizer": "STABILIZZATORE",
+  "mod.explosive": "CARICO ESPLOSIVO",
+  "mod.mortar": "GRANATE DA MORTAIO",
+  "mod.sabot": "PROIETTILI SABOT",
+  "mod.incendiary": "PROIETTILI INCENDIARI",
+  "mod.cryo": "PROIETTILI CRIOGENICI",
+  "mod.arc": "PROIETTILI AD ARCO",
+  "stat.damageMult": "DANNO",
+  "stat.fireRate": "RITARDO DI FUOCO",
+  "stat.speed": "VELOCITÀ",
+  "stat.count": "COLPI",
+  "stat.spread": "DISPERSIONE",
+  "stat.recoil": "RINCULO",
+  "stat.pierce": "PERFORAZIONE",
+  "stat.knockback": "SPINTA",
+
+  // --- Planet descriptions (generated) ---
+  "biome.dunes": "DUNE",
+  "biome.crags": "FALESIE",
+  "biome.spire": "GUGLIE",
+  "biome.plateau": "ALTOPIANO",
+  "climate.volcanic": "VULCANICO",
+  "climate.toxic": "TOSSICO",
+  "climate.ice": "GHIACCIATO",
+  "climate.desert": "ARIDO",
+  "climate.void": "VUOTO",
+  "planetDesc.volcanic": "Attività sismica rilevata. Temperature superficiali estreme.",
+  "planetDesc.toxic": "Atmosfera corrosiva. Presenza di gas nocivi.",
+  "planetDesc.ice": "Zero assoluto vicino. Superficie a basso attrito.",
+  "planetDesc.desert": "Venti sabbiosi ad alta velocità. Risorse idriche assenti.",
+  "planetDesc.void": "Anomalia gravitazionale. Il pianeta sembra svanire nell'oscurità.",
+  "planetDesc.dunes": "Rilevate zone dunali.",
+  "planetDesc.spires": "Formazioni a guglia instabili.",
+  "planetDesc.noBiosphere": "Biosfera assente.",
+  "planetDesc.denseFlora": "Rilevata densa vegetazione aliena.",
+  "planetDesc.storms": "ALLERTA: Tempeste imprevedibili e frequenti.",
+  "planetDesc.stable": "Clima stabile.",
+  "planetDesc.fallback": "Connessione al database galattico fallita. Generazione protocollo di emergenza.",
+
+  // --- Mission HUD ---
+  "hud.suit": "TUTA LV{level}",
+  "hud.fuel": "CARBURANTE",
+  "hud.cores": "NUCLEI: {cores} / {total}",
+  "hud.score": "PUNTI: {score}",
+  "hud.weapon": "ARMA: {weapon}",
+  "hud.ammo": "MUNIZ. {ammo}",
+  "hud.emptySlot": "SLOT VUOTO",
+  "hud.takeWeapon": "[{key}] PRENDI {weapon}",
+  "objective.initializing": "INIZIALIZZAZIONE...",
+  "objective.recoverCores": "MISSIONE: RECUPERA I NUCLEI",
+  "objective.destroyGuardian": "PERICOLO: DISTRUGGI IL GUARDIANO",
+  "boss.guardian": "GUARDIANO PLANETARIO",
+  "boss.magma": "GUARDIANO DI MAGMA",
+  "boss.cryo": "CRIOGUARDIANO",
+  "boss.blight": "GUARDIANO PESTILENTE",
+  "boss.dune": "GUARDIANO DELLE DUNE",
+  "boss.phase": "FASE {phase}/{total}",
+  "intro.missionStart": "INIZIO MISSIONE",
+  "intro.detected": "RILEVATI: {count} NUCLEI ENERGETICI",
+  "intro.collect": "RACCOGLILI PER FUGGIRE",
+  "touch.jump": "SALTO",
+  "touch.swap": "CAMBIA",
+  "radio.incoming": "TRASMISSIONE IN ARRIVO...",
+
+  // --- Radio messages ---
+  "radio.landing": "Atterraggio confermato su {planet}.",
+  "radio.coresDetected": "Rilevati {count} Nuclei Energetici. Recuperali.",
+  "radio.firstCore": "Ottimo lavoro. Procedi verso il segnale successivo.",
+  "radio.halfCores": "Livelli energia al 50%. Rilevata attività nemica in aumento.",
+  "radio.seismic": "ATTENZIONE: SEGNALE SISMICO MASSICCIO.",
+  "radio.guardian": "GUARDIANO PLANETARIO RILEVATO. ELIMINARE.",
+  "radio.guardianShell": "Lo scudo del guardiano cede. Colpisci il nucleo mentre carica.",
+  "radio.guardianEnraged": "Il guardiano è fuori controllo. Finiscilo!",
+  "radio.weather": "RILEVATA PERTURBAZIONE ATMOSFERICA: {weather}",
+  "weather.clear": "SERENO",
+  "weather.rain": "PIOGGIA",
+  "weather.acid_rain": "PIOGGIA ACIDA",
+  "weather.snow": "NEVE",
+  "weather.ash": "CENERE",
+  "weather.sandstorm": "TEMPESTA DI SABBIA",
+
+  // --- Floating combat text ---
+  "float.alert": "!",
+  "float.score": "+{score}",
+  "float.damage": "{amount}",
+  "float.hpLoss": "-{amount} PS",
+  "float.hpGain": "+{amount} PS",
+  "float.hazard": "-{amount} {hazard}",
+  "float.status": "-{amount} {status}",
+  "float.block": "BLOCCATO",
+  "float.boom": "BOOM!",
+  "float.coreAcquired": "NUCLEO ACQUISITO",
+  "float.weapon": "{weapon}",
+  "float.mod": "MOD: {mod}",
+  "float.cacheUnearthed": "DEPOSITO DISSEPOLTO",
+  "float.ammo": "+MUNIZIONI",
+  "float.noAmmoGun": "NESSUN'ARMA DA CARICARE",
+  "float.outOfAmmo": "MUNIZIONI FINITE",
+  "float.shieldUp": "SCUDO ATTIVO",
+  "float.shieldDown": "SCUDO GIÙ",
+  "float.summoning": "EVOCAZIONE",
+  "float.bossPhase": "FASE {phase}",
+  "float.weakPoint": "PUNTO DEBOLE!",
+  "hazard.spike": "PUNTE",
+  "hazard.steam": "VAPORE",
+  "status.burning": "IN FIAMME",
+  "status.corroded": "CORROSO",
+  "status.shocked": "FOLGORATO",
+  "status.frozen": "CONGELATO",
+  "status.slowed": "RALLENTATO",
+
+  // --- Mission end ---
+  "end.suitSignal": "Segnale vitale tuta: 0%.",
+  "end.recovered": "Recupero: {count} nuclei.",
+  "end.noneSaved": "Nessun nucleo salvato.",
+  "end.victory": "Missione compiuta. +{bonus} nuclei bonus.",
+  "end.titleVictory": "MISSIONE COMPIUTA",
+  "end.titleFailed": "SEGNALE PERSO",
+  "end.score": "PUNTEGGIO",
+  "end.totalCores": "NUCLEI TOTALI",
+  "end.watchReplay": "GUARDA REPLAY",
+  "end.exportReplay": "ESPORTA REPLAY",
+  "end.returnToOrbit": "RITORNA IN ORBITA",
+
+  // --- Replay playback ---
+  "replay.label": "REPLAY",
+  "replay.complete": "MISSIONE COMPIUTA",
+  "replay.lost": "SEGNALE PERSO",
+  "replay.end": "FINE REGISTRAZIONE",
+  "replay.play": "PLAY",
+  "replay.pause": "PAUSA",
+  "replay.exit": "ESCI",
+
+  // --- Pause menu ---
+  "pause.title": "PAUSA",
+  "pause.resume": "RIPRENDI",
+  "pause.audio": "AUDIO",
+  "pause.controls": "COMANDI",
+  "pause.accessibility": "ACCESSIBILITÀ",
+  "pause.abort": "ABBANDONA MISSIONE",
+  "abort.title": "ABBANDONARE LA MISSIONE?",
+  "abort.body": "La navetta rientrerà in orbita.",
+  "abort.recovery": "Recupero: {saved} di {collected} nuclei raccolti.",
+  "abort.noRecovery": "Nessun nucleo verrà salvato.",
+  "abort.confirm": "CONFERMA RIENTRO",
+  "accessibility.shake": "SCOSSE CAMERA",
+  "accessibility.reduceFlashing": "RIDUCI LAMPEGGIAMENTI",
+  "pause.graphics": "GRAFICA",
+  "graphics.quality": "QUALITÀ",
+  "graphics.low": "BASSA",
+  "graphics.medium": "MEDIA",
+  "graphics.high": "ALTA",
+  "graphics.showPoolStats": "MOSTRA CONTATORE OGGETTI",
+  "debug.poolRow": "{name} {live}/{cap} LIBERI {free}",
+  "debug.particles": "PARTICELLE",
+  "debug.weather": "METEO",
+  "debug.texts": "TESTI",
+  "debug.projectiles": "COLPI",
+
+  // --- Audio settings ---
+  "audio.master": "GENERALE",
+  "audio.bus.sfx": "EFFETTI",
+  "audio.bus.ui": "INTERFACCIA / RADIO",
+  "audio.bus.ambience": "AMBIENTE",
+  "audio.bus.music": "MUSICA",
+
+  // --- Controls settings ---
+  "controls.title": "COMANDI",
+  "controls.gamepadConnected": "GAMEPAD: {name}",
+  "controls.noGamepad": "NESSUN GAMEPAD",
+  "controls.keyboardMouse": "TASTIERA / MOUSE",
+  "controls.gamepad": "GAMEPAD",
+  "controls.aim": "MIRA",
+  "controls.aimMouse": "MOUSE",
+  "controls.aimStick": "STICK DESTRO (SPARA)",
+  "controls.deadZone": "ZONA MORTA STICK",
+  "controls.listenKey": "Premi un tasto o un pulsante del mouse (ESC annulla)",
+  "controls.listenButton": "Premi un pulsante del gamepad (ESC annulla)",
+  "controls.hint": "Clicca uno slot per riassegnarlo. Lo stick sinistro muove e guarda in basso.",
+  "controls.defaults": "PREDEFINITI",
+  "action.moveLeft": "MUOVI SINISTRA",
+  "action.moveRight": "MUOVI DESTRA",
+  "action.jump": "SALTO",
+  "action.jetpack": "JETPACK",
+  "action.fire": "FUOCO",
+  "action.lookDown": "GUARDA GIÙ",
+  "action.pause": "PAUSA",
+  "action.swapWeapon": "CAMBIA ARMA",
+  "key.space": "SPAZIO",
+  "key.shiftLeft": "SHIFT SX",
+  "key.shiftRight": "SHIFT DX",
+  "key.controlLeft": "CTRL SX",
+  "key.controlRight": "CTRL DX",
+  "key.altLeft": "ALT SX",
+  "key.altRight": "ALT DX",
+  "key.escape": "ESC",
+  "key.enter": "INVIO",
+  "key.tab": "TAB",
+  "key.mouseLeft": "MOUSE SX",
+  "key.mouseMiddle": "MOUSE CENTRO",
+  "key.mouseRight": "MOUSE DX",
+  "key.mouse": "MOUSE {button}",
+  "key.button": "TASTO {button}",
+};
@@ -0,0 +1,126 @@
+import { MusicContext } from "../types";
+import { getAudioContext, getBusNode } from "./audioService";
+import { Rng, createRng, randomSeed } from "./rng";
+
+// --- Procedural Music ---
+// A small step sequencer on the shared Web Audio context, playing into the music bus.
+// Each context is a profile (tempo, scale, chord loop, layer densities); phrases are drawn
+// from a seeded RNG per context, so a loop keeps its character while still varying bar to bar.
+
+interface MusicProfile {
+  bpm: number;
+  root: number; // Hz of the bass root
+  scale: number[]; // Semitones above the root
+  chords: number[]; // Scale degrees, one chord per bar
+  padWave: OscillatorType;
+  padCutoff: number; // Hz, lower is darker
+  bassSteps: number[]; // 16th steps of a bar that play the bass
+  arpDensity: number; // Chance per 16th of an arpeggio note
+  kickSteps: number[];
+  hatDensity: number; // Chance per off-beat 16th of a hi-hat
+  level: number; // Layer gain
+}
+
+const MUSIC_PROFILES: Record<Exclude<MusicContext, 'silence'>, MusicProfile> = {
+  hangar: { bpm: 70, root: 110, scale: [0, 3, 5, 7, 10], chords: [0, 3, 1, 4], padWave: 'sine', padCutoff: 900, bassSteps: [0, 10], arpDensity: 0.18, kickSteps: [], hatDensity: 0, level: 0.5 },
+  exploration: { bpm: 96, root: 98, scale: [0, 2, 3, 5, 7, 9, 10], chords: [0, 5, 3, 4], padWave: 'triangle', padCutoff: 1400, bassSteps: [0, 6, 8, 14], arpDensity: 0.35, kickSteps: [0, 8], hatDensity: 0.4, level: 0.45 },
+  weather: { bpm: 84, root: 92.5, scale: [0, 1, 3, 5, 7, 8, 10], chords: [0, 1, 0, 6], padWave: 'sawtooth', padCutoff: 600, bassSteps: [0, 3, 8], arpDensity: 0.2, kickSteps: [0, 10], hatDensity: 0.15, level: 0.45 },
+  boss: { bpm: 138, root: 82.4, scale: [0, 2, 3, 5, 7, 8, 11], chords: [0, 5, 6, 4], padWave: 'sawtooth', padCutoff: 2200, bassSteps: [0, 2, 4, 6, 8, 10, 12, 14], arpDensity: 0.8, kickSteps: [0, 4, 8, 12], hatDensity: 0.9, level: 0.5 },
+};
+
+const STEPS_PER_BAR = 16;
+const LOOKAHEAD_MS = 25; // Scheduler wake-up period
+const SCHEDULE_AHEAD = 0.12; // Seconds of notes queued ahead of the audio clock
+const CROSSFADE = 1.5; // Seconds
+
+let currentContext: MusicContext = 'silence';
+let profile: MusicProfile | null = null;
+let layer: GainNode | null = null; // Gain of the profile playing now, faded on context changes
+let rng: Rng = createRng(randomSeed());
+let timer: ReturnType<typeof setInterval> | null = null;
+let nextNoteTime = 0;
+let step = 0;
+let bar = 0;
+
+const noteFreq = (p: MusicProfile, degree: number, octave: number = 0) => {
+  const len = p.scale.length; const wrapped = ((degree % len) + len) % len;
+  const octaves = octave + Math.floor(degree / len);
+  return p.root * Math.pow(2, (p.scale[wrapped] + octaves * 12) / 12);
+};
+
+const playTone = (ctx: AudioContext, out: AudioNode, freq: number, time: number, duration: number, wave: OscillatorType, level: number, cutoff: number = 4000) => {
+  const osc = ctx.createOscillator(); const gain = ctx.createGain(); const filter = ctx.createBiquadFilter();
+  osc.type = wave; osc.frequency.setValueAtTime(freq, time);
+  filter.type = 'lowpass'; filter.frequency.setValueAtTime(cutoff, time);
+  gain.gain.setValueAtTime(0.0001, time);
+  gain.gain.exponentialRampToValueAtTime(level, time + Math.min(0.05, duration * 0.3));
+  gain.gain.exponentialRampToValueAtTime(0.0001, time + duration);
+  osc.connect(filter); filter.connect(gain); gain.connect(out);
+  osc.start(time); osc.stop(time + duration + 0.05);
+};
+
+const playNoise = (ctx: AudioContext, out: AudioNode, time: number, duration: number, level: number, highpass: number) => {
+  const buffer = ctx.createBuffer(1, Math.floor(ctx.sampleRate * duration), ctx.sampleRate);
+  const data = buffer.getChannelData(0); for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+  const src = ctx.createBufferSource(); const filter = ctx.createBiquadFilter(); const gain = ctx.createGain();
+  src.buffer = buffer; filter.type = 'highpass'; filter.frequency.setValueAtTime(highpass, time);
+  gain.gain.setValueAtTime(level, time); gain.gain.exponentialRampToValueAtTime(0.0001, time + duration);
+  src.connect(filter); filter.connect(gain); gain.connect(out); src.start(time);
+};
+
+const playKick = (ctx: AudioContext, out: AudioNode, time: number) => {
+  const osc = ctx.createOscillator(); const gain = ctx.createGain();
+  osc.type = 'sine'; osc.frequency.setValueAtTime(120, time); osc.frequency.exponentialRampToValueAtTime(40, time + 0.15);
+  gain.gain.setValueAtTime(0.6, time); gain.gain.exponentialRampToValueAtTime(0.001, time + 0.2);
+  osc.connect(gain); gain.connect(out); osc.start(time); osc.stop(time + 0.25);
+};
+
+const scheduleStep = (ctx: AudioContext, p: MusicProfile, out: AudioNode, time: number) => {
+  const stepLength = 60 / p.bpm / 4;
+  const chord = p.chords[bar % p.chords.length];
+  if (step === 0) {
+    // Pad: triad held for the whole bar
+    const barLength = stepLength * STEPS_PER_BAR;
+    [0, 2, 4].forEach(interval => playTone(ctx, out, noteFreq(p, chord + interval, 1), time, barLength, p.padWave, 0.05, p.padCutoff));
+  }
+  if (p.bassSteps.includes(step)) playTone(ctx, out, noteFreq(p, chord + (step >= 8 && rng.chance(0.3) ? 4 : 0)), time, stepLength * 1.8, 'triangle', 0.22, 600);
+  if (rng.chance(p.arpDensity)) playTone(ctx, out, noteFreq(p, chord + rng.pick([0, 2, 4, 7]), 2), time, stepLength * 0.9, 'square', 0.04, 2500);
+  if (p.kickSteps.includes(step)) playKick(ctx, out, time);
+  if (step % 2 === 1 && rng.chance(p.hatDensity)) playNoise(ctx, out, time, 0.04, 0.08, 7000);
+};
+
+const runScheduler = () => {
+  const ctx = getAudioContext(); const bus = getBusNode('music');
+  if (!ctx || !bus || !profile) return;
+  if (!layer) { layer = ctx.createGain(); layer.gain.setValueAtTime(0.0001, ctx.currentTime); layer.gain.exponentialRampToValueAtTime(profile.level, ctx.currentTime + CROSSFADE); layer.connect(bus); }
+  if (nextNoteTime < ctx.currentTime) nextNoteTime = ctx.currentTime + 0.05; // Resumed after a stall: do not burst the backlog
+  while (nextNoteTime < ctx.currentTime + SCHEDULE_AHEAD) {
+    scheduleStep(ctx, profile, layer, nextNoteTime);
+    nextNoteTime += 60 / profile.bpm / 4;
+    step = (step + 1) % STEPS_PER_BAR; if (step === 0) bar++;
+  }
+};
+
+// Fades the current layer out and lets it be collected once silent
+const releaseLayer = () => {
+  const ctx = getAudioContext(); const old = layer; layer = null;
+  if (!ctx || !old) return;
+  old.gain.cancelScheduledValues(ctx.currentTime); old.gain.setTargetAtTime(0.0001, ctx.currentTime, CROSSFADE / 4);
+  setTimeout(() => old.disconnect(), CROSSFADE * 1000 + 200);
+};
+
+// Safe to call every frame: only a change of context restarts the sequencer
+export const setMusicContext = (context: MusicContext) => {
+  if (context === currentContext) return;
+  currentContext = context;
+  releaseLayer();
+  if (context === 'silence') {
+    profile = null;
+    if (timer) { clearInterval(timer); timer = null; }
+    return;
+  }
+  profile = MUSIC_PROFILES[context]; rng = createRng(randomSeed()); step = 0; bar = 0; nextNoteTime = 0;
+  if (!timer) timer = setInterval(runScheduler, LOOKAHEAD_MS);
+};
+
+export const getMusicContext = () => currentContext;
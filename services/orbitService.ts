@@ -0,0 +1,70 @@
+import { STARMAP } from "../constants";
+import { PlanetData, Vector2 } from "../types";
+import { createRng, deriveSeed } from "./rng";
+
+// --- Orbits ---
+// One model for where everything in a system is at a given orbit time (ms): the starmap draws and hit-tests with it.
+// Positions are in map units with the star at (0, 0). Moons and belts are decoration, derived from the planet seeds.
+
+export interface PlanetOrbit { radius: number; speed: number; phase: number; size: number; }
+export interface MoonOrbit { planet: number; radius: number; speed: number; phase: number; size: number; } // Around its planet
+export interface AsteroidRock { angle: number; offset: number; size: number; }
+export interface AsteroidBelt { radius: number; speed: number; rocks: AsteroidRock[]; }
+
+export interface SystemLayout {
+  orbits: PlanetOrbit[]; // Same order as the planets
+  moons: MoonOrbit[];
+  belts: AsteroidBelt[];
+  extent: number; // Outermost distance from the star
+}
+
+const orbitOf = (planet: PlanetData, index: number): PlanetOrbit => ({ radius: planet.orbitRadius || 50, speed: planet.orbitSpeed || 0.001, phase: index * 2, size: planet.size || 10 });
+
+const generateMoons = (planet: PlanetData, index: number, orbit: PlanetOrbit): MoonOrbit[] => {
+  const rng = createRng(deriveSeed(planet.seed, "moons"));
+  const moons: MoonOrbit[] = [];
+  for (let i = rng.int(0, STARMAP.MAX_MOONS); i > 0; i--) moons.push({ planet: index, radius: orbit.size / 2 + 5 + moons.length * 5, speed: rng.range(0.002, 0.004) * rng.pick([1, -1]), phase: rng.range(0, Math.PI * 2), size: rng.range(1.5, 3) });
+  return moons;
+};
+
+// Systems are laid out in orbit order, so the belt seed comes from the outermost planet
+const generateBelts = (planets: PlanetData[], orbits: PlanetOrbit[]): AsteroidBelt[] => {
+  if (planets.length === 0) return [];
+  const rng = createRng(deriveSeed(planets[planets.length - 1].seed, "belt"));
+  if (!rng.chance(STARMAP.BELT_CHANCE)) return [];
+  const rocks: AsteroidRock[] = [];
+  for (let i = 0; i < STARMAP.BELT_ROCKS; i++) rocks.push({ angle: rng.range(0, Math.PI * 2), offset: rng.range(-6, 6), size: rng.range(0.5, 1.8) });
+  return [{ radius: Math.max(...orbits.map(o => o.radius)) + STARMAP.BELT_GAP, speed: 0.0002, rocks }];
+};
+
+export const getSystemLayout = (planets: PlanetData[]): SystemLayout => {
+  const orbits = planets.map(orbitOf);
+  const moons = planets.flatMap((planet, i) => generateMoons(planet, i, orbits[i]));
+  const belts = generateBelts(planets, orbits);
+  const extent = Math.max(0, ...orbits.map(o => o.radius + o.size), ...belts.map(b => b.radius + 6));
+  return { orbits, moons, belts, extent };
+};
+
+const circle = (radius: number, angle: number): Vector2 => ({ x: Math.cos(angle) * radius, y: Math.sin(angle) * radius });
+
+export const getPlanetPosition = (orbit: PlanetOrbit, time: number) => circle(orbit.radius, time * orbit.speed + orbit.phase);
+
+export const getMoonPosition = (layout: SystemLayout, moon: MoonOrbit, time: number): Vector2 => {
+  const center = getPlanetPosition(layout.orbits[moon.planet], time); const offset = circle(moon.radius, time * moon.speed + moon.phase);
+  return { x: center.x + offset.x, y: center.y + offset.y };
+};
+
+export const getRockPosition = (belt: AsteroidBelt, rock: AsteroidRock, time: number) => circle(belt.radius + rock.offset, rock.angle + time * belt.speed);
+
+// Nearest planet within `pickRadius` map units of the point (or its own disc, if larger), null if none
+export const findPlanetAt = (layout: SystemLayout, time: number, point: Vector2, pickRadius: number): number | null => {
+  let best: number | null = null; let bestDist = Infinity;
+  layout.orbits.forEach((orbit, i) => {
+    const pos = getPlanetPosition(orbit, time); const dist = Math.hypot(pos.x - point.x, pos.y - point.y);
+    if (dist < Math.max(pickRadius, orbit.size / 2) && dist < bestDist) { best = i; bestDist = dist; }
+  });
+  return best;
+};
+
+// Next or previous planet by index (planets are generated innermost first), wrapping around
+export const cyclePlanet = (count: number, current: number | null, step: 1 | -1) => (current === null ? (step > 0 ? 0 : count - 1) : (current + step + count) % count);
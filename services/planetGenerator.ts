@@ -1,6 +1,10 @@
 
 
-import { PlanetData, BiomeStyle, WeatherType } from "../types";
+import { PLANET_LIMITS } from "../constants";
+import { PlanetData, PlanetClimate, BiomeStyle, WeatherType } from "../types";
+import { Rng, createRng, deriveSeed, randomSeed } from "./rng";
+import { t } from "./i18n";
+import { en, StringKey } from "./locales/en";
 
 // --- Data Lists ---
 const PREFIXES = ["Xen", "Kry", "Vor", "Zan", "Glar", "Iso", "Neo", "Proxi", "Vex", "Tar"];
@@ -8,12 +12,12 @@ const SUFFIXES = ["os", "on", "ia", "us", "prime", "terra", "9", "IV", "X", "V"]
 const GREEK = ["Alpha", "Beta", "Gamma", "Delta", "Epsilon", "Zeta", "Omega", "Sigma"];
 
 interface BiomeTemplate {
-  type: string;
+  climate: PlanetClimate;
   atmosphere: string[];
   ground: string[];
   enemy: string;
   flora: string[]; // Potential vegetation colors
-  description: string;
+  descriptionKey: StringKey;
   allowedStyles: BiomeStyle[];
   probableWeather: WeatherType[];
   baseVegDensity: number; // 0 to 1
@@ -22,60 +26,60 @@ interface BiomeTemplate {
 
 const BIOMES: BiomeTemplate[] = [
   {
-    type: "Volcanic",
+    climate: "volcanic",
     atmosphere: ["#330000", "#550000", "#2a1a1a"],
     ground: ["#441111", "#220000", "#552200"],
     enemy: "#ffaa00",
     flora: ["#880000", "#333333", "#ff5500"], // Burnt, ash, or ember colors
-    description: "Attività sismica rilevata. Temperature superficiali estreme.",
+    descriptionKey: "planetDesc.volcanic",
     allowedStyles: ["crags", "plateau"],
     probableWeather: ["ash", "clear"],
     baseVegDensity: 0.1,
     baseWeatherVol: 0.7
   },
   {
-    type: "Toxic",
+    climate: "toxic",
     atmosphere: ["#0a2a0a", "#001100", "#1a331a"],
     ground: ["#2a4a2a", "#1a2a1a", "#335533"],
     enemy: "#00ff00",
     flora: ["#ccff00", "#aa00ff", "#00ffcc"], // Neon, mutant colors
-    description: "Atmosfera corrosiva. Presenza di gas nocivi.",
+    descriptionKey: "planetDesc.toxic",
     allowedStyles: ["plateau", "spire", "dunes"],
     probableWeather: ["acid_rain", "clear"],
     baseVegDensity: 0.4,
     baseWeatherVol: 0.6
   },
   {
-    type: "Ice",
+    climate: "ice",
     atmosphere: ["#001133", "#002244", "#aaeeff"],
     ground: ["#ccffff", "#aaddff", "#eeffff"],
     enemy: "#0099ff",
     flora: ["#ffffff", "#aaddff", "#88aaff"], // Crystal/pale colors
-    description: "Zero assoluto vicino. Superficie a basso attrito.",
+    descriptionKey: "planetDesc.ice",
     allowedStyles: ["spire", "crags", "plateau"],
     probableWeather: ["snow", "clear"],
     baseVegDensity: 0.2,
     baseWeatherVol: 0.5
   },
   {
-    type: "Desert",
+    climate: "desert",
     atmosphere: ["#443311", "#664422", "#ffeecc"],
     ground: ["#ccaa66", "#aa8844", "#eedd99"],
     enemy: "#aa4400",
     flora: ["#665533", "#446622", "#aa8822"], // Dry scrub colors
-    description: "Venti sabbiosi ad alta velocità. Risorse idriche assenti.",
+    descriptionKey: "planetDesc.desert",
     allowedStyles: ["dunes", "plateau", "crags"],
     probableWeather: ["sandstorm", "clear"],
     baseVegDensity: 0.15,
     baseWeatherVol: 0.4
   },
   {
-    type: "Void",
+    climate: "void",
     atmosphere: ["#000000", "#110022", "#220033"],
     ground: ["#333333", "#222222", "#440044"],
     enemy: "#ff00ff",
     flora: ["#4400aa", "#222222", "#ff0088"], // Dark, mysterious colors
-    description: "Anomalia gravitazionale. Il pianeta sembra svanire nell'oscurità.",
+    descriptionKey: "planetDesc.void",
     allowedStyles: ["spire", "plateau"],
     probableWeather: ["rain", "clear"],
     baseVegDensity: 0.3,
@@ -84,64 +88,67 @@ const BIOMES: BiomeTemplate[] = [
 ];
 
 // --- Helper Functions ---
-const randInt = (min: number, max: number) => Math.floor(Math.random() * (max - min + 1)) + min;
-const pick = <T>(arr: T[]): T => arr[Math.floor(Math.random() * arr.length)];
 const clamp = (num: number, min: number, max: number) => Math.min(Math.max(num, min), max);
 
 // Generate a cool sector name
-export const generateSectorName = (): string => {
-    return `${pick(PREFIXES)}-${randInt(100, 999)} ${pick(GREEK)}`;
+export const generateSectorName = (rng: Rng = createRng(randomSeed())): string => {
+    return `${rng.pick(PREFIXES)}-${rng.int(100, 999)} ${rng.pick(GREEK)}`;
 };
 
-// Renamed to be an internal helper, not the main export if using systems
-const generateSinglePlanet = (indexInSystem: number): PlanetData => {
+// Every planet is fully described by (seed, indexInSystem): regenerate it anywhere to revisit it
+export const generatePlanetFromSeed = (seed: number, indexInSystem: number): PlanetData => {
+  const rng = createRng(seed);
+
   // 1. Generate Name
-  const name = `${pick(PREFIXES)}${pick(SUFFIXES).toLowerCase()} ${pick(["Alpha", "Beta", "Gamma", "Omicron", ""])}`.trim();
+  const name = `${rng.pick(PREFIXES)}${rng.pick(SUFFIXES).toLowerCase()} ${rng.pick(["Alpha", "Beta", "Gamma", "Omicron", ""])}`.trim();
 
   // 2. Select Biome Template based on some "distance from star" logic logic or random
   // Hotter biomes closer (index 0), Colder further (index 4)
   let validTemplates = BIOMES;
-  if (indexInSystem === 0) validTemplates = BIOMES.filter(b => b.type === 'Volcanic' || b.type === 'Desert');
-  else if (indexInSystem > 2) validTemplates = BIOMES.filter(b => b.type === 'Ice' || b.type === 'Void');
+  if (indexInSystem === 0) validTemplates = BIOMES.filter(b => b.climate === 'volcanic' || b.climate === 'desert');
+  else if (indexInSystem > 2) validTemplates = BIOMES.filter(b => b.climate === 'ice' || b.climate === 'void');
   
   if (validTemplates.length === 0) validTemplates = BIOMES;
-  const template = pick(validTemplates);
+  const template = rng.pick(validTemplates);
 
   // 3. Stats
-  const gravity = parseFloat((Math.random() * 0.55 + 0.85).toFixed(2));
-  const enemyDensity = randInt(2, 9);
-  const rareLootChance = parseFloat(Math.random().toFixed(2));
+  const gravity = parseFloat((rng.next() * 0.55 + 0.85).toFixed(2));
+  const enemyDensity = rng.int(2, 9);
+  const rareLootChance = parseFloat(rng.next().toFixed(2));
 
   // 4. Randomized Environmental Factors
-  let vegDensity = template.baseVegDensity + (Math.random() * 0.4 - 0.2);
+  let vegDensity = template.baseVegDensity + (rng.next() * 0.4 - 0.2);
   vegDensity = clamp(vegDensity, 0, 1.0);
-  if (Math.random() < 0.15) vegDensity = Math.min(1.0, vegDensity + 0.5);
+  if (rng.chance(0.15)) vegDensity = Math.min(1.0, vegDensity + 0.5);
 
-  let weatherVol = template.baseWeatherVol + (Math.random() * 0.4 - 0.2);
+  let weatherVol = template.baseWeatherVol + (rng.next() * 0.4 - 0.2);
   weatherVol = clamp(weatherVol, 0, 1.0);
-  if (Math.random() < 0.2) weatherVol = 0; 
+  if (rng.chance(0.2)) weatherVol = 0; 
 
-  // 5. Construct Description
-  let desc = template.description;
-  if (template.allowedStyles.includes('dunes')) desc += " Rilevate zone dunali.";
-  if (template.allowedStyles.includes('spire')) desc += " Formazioni a guglia instabili.";
-  if (vegDensity < 0.1) desc += " Biosfera assente.";
-  else if (vegDensity > 0.7) desc += " Rilevata densa vegetazione aliena.";
+  // 5. Construct Description (as string keys, rendered in the player's language)
+  const descKeys: StringKey[] = [template.descriptionKey];
+  if (template.allowedStyles.includes('dunes')) descKeys.push("planetDesc.dunes");
+  if (template.allowedStyles.includes('spire')) descKeys.push("planetDesc.spires");
+  if (vegDensity < 0.1) descKeys.push("planetDesc.noBiosphere");
+  else if (vegDensity > 0.7) descKeys.push("planetDesc.denseFlora");
 
   const weatherTraits: WeatherType[] = [...template.probableWeather];
-  if (Math.random() < 0.3) weatherTraits.push('clear');
+  if (rng.chance(0.3)) weatherTraits.push('clear');
   
-  if (weatherVol > 0.7) desc += " ALLERTA: Tempeste imprevedibili e frequenti.";
-  else if (weatherVol < 0.1) desc += " Clima stabile.";
+  if (weatherVol > 0.7) descKeys.push("planetDesc.storms");
+  else if (weatherVol < 0.1) descKeys.push("planetDesc.stable");
 
   return {
+    seed: seed,
     name: name,
-    description: desc,
+    description: descKeys.map(key => en[key]).join(" "),
+    descriptionKeys: descKeys,
+    climate: template.climate,
     gravity: gravity,
-    atmosphereColor: pick(template.atmosphere),
-    groundColor: pick(template.ground),
+    atmosphereColor: rng.pick(template.atmosphere),
+    groundColor: rng.pick(template.ground),
     enemyColor: template.enemy,
-    floraColor: pick(template.flora),
+    floraColor: rng.pick(template.flora),
     enemyDensity: enemyDensity,
     rareLootChance: rareLootChance,
     allowedBiomes: template.allowedStyles,
@@ -150,24 +157,56 @@ const generateSinglePlanet = (indexInSystem: number): PlanetData => {
     weatherVolatility: parseFloat(weatherVol.toFixed(2)),
     // Navigation Props
     orbitRadius: 60 + (indexInSystem * 40), // Base distance
-    orbitSpeed: 0.0005 + (Math.random() * 0.001) - (indexInSystem * 0.0001),
-    size: 10 + Math.random() * 10
+    orbitSpeed: 0.0005 + (rng.next() * 0.001) - (indexInSystem * 0.0001),
+    size: 10 + rng.next() * 10
   };
 };
 
-export const generateStarSystem = async (): Promise<PlanetData[]> => {
+export const BIOME_LABELS: Record<BiomeStyle, StringKey> = {
+  dunes: "biome.dunes",
+  crags: "biome.crags",
+  spire: "biome.spire",
+  plateau: "biome.plateau",
+};
+
+export const CLIMATE_LABELS: Record<PlanetClimate, StringKey> = {
+  volcanic: "climate.volcanic",
+  toxic: "climate.toxic",
+  ice: "climate.ice",
+  desert: "climate.desert",
+  void: "climate.void",
+};
+
+export const isClimate = (value: unknown): value is PlanetClimate => typeof value === "string" && value in CLIMATE_LABELS;
+
+// Planets stored before the climate was recorded: each template has its own enemy color (then ground palette).
+// Anything else (custom planets) counts as void.
+export const inferClimate = (planet: Pick<PlanetData, "enemyColor" | "groundColor">): PlanetClimate => {
+  const enemy = String(planet.enemyColor).toLowerCase(); const ground = String(planet.groundColor).toLowerCase();
+  return (BIOMES.find(b => b.enemy === enemy) || BIOMES.find(b => b.ground.includes(ground)))?.climate ?? "void";
+};
+
+// Generated planets are described in the active language, anything else falls back to its literal text
+export const describePlanet = (planet: PlanetData): string =>
+  planet.descriptionKeys ? planet.descriptionKeys.map(key => t(key)).join(" ") : planet.description;
+
+// Planets in the system of that seed, whichever provider fills it
+export const getSystemSize = (systemSeed: number) => createRng(systemSeed).int(PLANET_LIMITS.MIN_PLANETS, PLANET_LIMITS.MAX_PLANETS);
+
+// Same systemSeed -> same planets. Each planet gets its own derived seed so it can be revisited alone.
+export const generateStarSystem = async (systemSeed: number = randomSeed()): Promise<PlanetData[]> => {
     // Simulate Scan Time
     await new Promise(resolve => setTimeout(resolve, 800));
     
-    const count = randInt(3, 5);
+    const count = getSystemSize(systemSeed);
     const system: PlanetData[] = [];
     for(let i=0; i<count; i++) {
-        system.push(generateSinglePlanet(i));
+        system.push(generatePlanetFromSeed(deriveSeed(systemSeed, i), i));
     }
     return system;
 };
 
 // Keep compatibility if App still calls this directly
-export const generatePlanet = async (): Promise<PlanetData> => {
-    return generateSinglePlanet(randInt(0, 4));
+export const generatePlanet = async (seed: number = randomSeed()): Promise<PlanetData> => {
+    return generatePlanetFromSeed(seed, createRng(deriveSeed(seed, "orbit")).int(0, 4));
 };
\ No newline at end of file
@@ -0,0 +1,37 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PLANET_PROVIDER } from '../constants';
+import { clearPlanetCache, generateSystem } from './planetProvider';
+import { generateStarSystem } from './planetGenerator';
+
+// A Gemini request that never answers, so only the timeout can end it
+const geminiCalls = vi.hoisted(() => ({ count: 0 }));
+vi.mock('./geminiService', () => ({
+  geminiProvider: { id: 'gemini', generateSystem: () => { geminiCalls.count++; return new Promise(() => {}); } },
+}));
+
+const SYSTEM_SEED = 4242;
+
+describe('generateSystem', () => {
+  beforeEach(() => { vi.useFakeTimers(); vi.spyOn(console, 'warn').mockImplementation(() => {}); clearPlanetCache(); geminiCalls.count = 0; });
+  afterEach(() => { vi.useRealTimers(); vi.restoreAllMocks(); });
+
+  it('falls back to procedural planets when the provider times out', async () => {
+    const request = generateSystem('gemini', SYSTEM_SEED);
+    await vi.advanceTimersByTimeAsync(PLANET_PROVIDER.TIMEOUT_MS + 1000); // Timeout, then the procedural scan delay
+    const expected = generateStarSystem(SYSTEM_SEED);
+    await vi.runAllTimersAsync();
+    expect(await request).toEqual(await expected);
+  });
+
+  it('does not cache a timed-out system', async () => {
+    const first = generateSystem('gemini', SYSTEM_SEED);
+    await vi.runAllTimersAsync(); await first;
+    generateSystem('gemini', SYSTEM_SEED);
+    expect(geminiCalls.count).toBe(2);
+  });
+
+  it('reuses a cached system', async () => {
+    const first = generateSystem('mock', SYSTEM_SEED);
+    expect(generateSystem('mock', SYSTEM_SEED)).toBe(first);
+  });
+});
@@ -0,0 +1,68 @@
+import { PLANET_PROVIDER } from "../constants";
+import { PlanetClimate, PlanetData, PlanetProvider, PlanetProviderId } from "../types";
+import { geminiProvider } from "./geminiService";
+import { deriveSeed } from "./rng";
+import { generateStarSystem, getSystemSize } from "./planetGenerator";
+import { sanitizePlanet } from "./planetSchema";
+
+// --- Planet Providers ---
+// Every star system is filled by one provider, picked in the settings. Results are cached per session;
+// a provider that fails or times out is replaced by the procedural generator for that system.
+
+export const proceduralProvider: PlanetProvider = { id: 'procedural', generateSystem: generateStarSystem };
+
+// Instant and network-free: one fixed planet per climate, in order, for tests and offline play
+const MOCK_PLANETS: Record<PlanetClimate, Partial<PlanetData>> = {
+  volcanic: { name: "Mock Cinder", description: "Test world: lava pools and ash.", groundColor: "#3a1a10", enemyColor: "#ff5500", allowedBiomes: ['crags'], weatherTraits: ['ash', 'clear'] },
+  toxic: { name: "Mock Miasma", description: "Test world: acid pools and rain.", groundColor: "#1f3a1a", enemyColor: "#66ff33", allowedBiomes: ['crags'], weatherTraits: ['acid_rain', 'clear'] },
+  ice: { name: "Mock Rime", description: "Test world: ice spires and snow.", groundColor: "#9ab8d8", enemyColor: "#66ccff", allowedBiomes: ['spire'], weatherTraits: ['snow', 'clear'] },
+  desert: { name: "Mock Dune", description: "Test world: dunes and sandstorms.", groundColor: "#c2a060", enemyColor: "#ffcc33", allowedBiomes: ['dunes'], weatherTraits: ['sandstorm', 'clear'] },
+  void: { name: "Mock Null", description: "Test world: no pools, no weather.", groundColor: "#222233", enemyColor: "#aa66ff", allowedBiomes: ['plateau'], weatherTraits: ['clear'] },
+};
+const MOCK_CLIMATES = Object.keys(MOCK_PLANETS) as PlanetClimate[];
+
+export const mockProvider: PlanetProvider = {
+  id: 'mock',
+  generateSystem: async (systemSeed) => {
+    const count = getSystemSize(systemSeed);
+    const system: PlanetData[] = [];
+    for (let i = 0; i < count; i++) {
+      const climate = MOCK_CLIMATES[i % MOCK_CLIMATES.length];
+      system.push(sanitizePlanet({ ...MOCK_PLANETS[climate], climate }, deriveSeed(systemSeed, i), i));
+    }
+    return system;
+  },
+};
+
+const PROVIDERS: Record<PlanetProviderId, PlanetProvider> = { procedural: proceduralProvider, gemini: geminiProvider, mock: mockProvider };
+
+export const PLANET_PROVIDER_IDS = Object.keys(PROVIDERS) as PlanetProviderId[];
+
+export const isPlanetProviderId = (value: unknown): value is PlanetProviderId => typeof value === 'string' && value in PROVIDERS;
+
+const withTimeout = <T>(promise: Promise<T>, ms: number) => new Promise<T>((resolve, reject) => {
+  const timer = setTimeout(() => reject(new Error(`Timed out after ${ms}ms`)), ms);
+  promise.then(value => { clearTimeout(timer); resolve(value); }, error => { clearTimeout(timer); reject(error); });
+});
+
+// Keyed by provider and seed; oldest systems are dropped past CACHE_SIZE
+const cache = new Map<string, Promise<PlanetData[]>>();
+
+export const clearPlanetCache = () => cache.clear();
+
+export const generateSystem = (id: PlanetProviderId, systemSeed: number): Promise<PlanetData[]> => {
+  const key = `${id}:${systemSeed}`;
+  const cached = cache.get(key);
+  if (cached) return cached;
+
+  const provider = PROVIDERS[id] || proceduralProvider;
+  const request = withTimeout(provider.generateSystem(systemSeed), PLANET_PROVIDER.TIMEOUT_MS).catch(error => {
+    // Failures are not cached, so the next scan of this system tries the provider again
+    console.warn(`Planet provider "${provider.id}" failed, using procedural planets:`, error);
+    cache.delete(key);
+    return provider === proceduralProvider ? Promise.reject(error) : proceduralProvider.generateSystem(systemSeed);
+  });
+  cache.set(key, request);
+  if (cache.size > PLANET_PROVIDER.CACHE_SIZE) cache.delete(cache.keys().next().value!);
+  return request;
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { PLANET_LIMITS } from '../constants';
+import { generatePlanetFromSeed } from './planetGenerator';
+import { sanitizePlanet } from './planetSchema';
+
+const SEED = 777;
+
+describe('sanitizePlanet', () => {
+  it('clamps numbers into the planet limits', () => {
+    const planet = sanitizePlanet({ gravity: 9, enemyDensity: -4, rareLootChance: 3, vegetationDensity: -1, weatherVolatility: 12 }, SEED, 0);
+    expect(planet.gravity).toBe(PLANET_LIMITS.GRAVITY[1]);
+    expect(planet.enemyDensity).toBe(PLANET_LIMITS.ENEMY_DENSITY[0]);
+    expect(planet.rareLootChance).toBe(1);
+    expect(planet.vegetationDensity).toBe(0);
+    expect(planet.weatherVolatility).toBe(1);
+  });
+
+  it('keeps the procedural values for missing or non-finite numbers', () => {
+    const base = generatePlanetFromSeed(SEED, 0);
+    const planet = sanitizePlanet({ gravity: Number.NaN, enemyDensity: '7', rareLootChance: Infinity }, SEED, 0);
+    expect(planet.gravity).toBe(base.gravity);
+    expect(planet.enemyDensity).toBe(base.enemyDensity);
+    expect(planet.rareLootChance).toBe(base.rareLootChance);
+  });
+
+  it('drops unknown biomes and weather types', () => {
+    const planet = sanitizePlanet({ allowedBiomes: ['dunes', 'swamp', 'dunes', 3], weatherTraits: ['snow', 'meteor_shower'] }, SEED, 0);
+    expect(planet.allowedBiomes).toEqual(['dunes']);
+    expect(planet.weatherTraits).toEqual(['snow']);
+  });
+
+  it('falls back to the procedural lists when nothing known is left', () => {
+    const base = generatePlanetFromSeed(SEED, 0);
+    const planet = sanitizePlanet({ allowedBiomes: ['swamp'], weatherTraits: 'rain' }, SEED, 0);
+    expect(planet.allowedBiomes).toEqual(base.allowedBiomes);
+    expect(planet.weatherTraits).toEqual(base.weatherTraits);
+  });
+
+  it('returns the procedural planet for input that is not an object', () => {
+    const base = generatePlanetFromSeed(SEED, 2);
+    [null, undefined, 'planet', 42, ['name']].forEach(raw => expect(sanitizePlanet(raw, SEED, 2)).toEqual(base));
+  });
+
+  it('never takes placement from the input', () => {
+    const planet = sanitizePlanet({ seed: 1, indexInSystem: 9 }, SEED, 1);
+    expect(planet.seed).toBe(generatePlanetFromSeed(SEED, 1).seed);
+  });
+});
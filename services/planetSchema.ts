@@ -0,0 +1,56 @@
+import { PLANET_LIMITS } from "../constants";
+import { BiomeStyle, PlanetData, WeatherType } from "../types";
+import { isFiniteNumber, isRecord } from "./guards";
+import { en, StringKey } from "./locales/en";
+import { BIOME_LABELS, generatePlanetFromSeed, inferClimate, isClimate } from "./planetGenerator";
+
+// --- Planet Validation ---
+// Planets from outside the procedural generator (Gemini, mock data) are checked field by field: numbers are clamped,
+// unknown biomes and weather are dropped, and anything unusable falls back to the procedural planet of the same seed.
+
+export const BIOME_STYLES = Object.keys(BIOME_LABELS) as BiomeStyle[];
+export const WEATHER_TYPES: WeatherType[] = ['clear', 'rain', 'acid_rain', 'snow', 'ash', 'sandstorm'];
+
+const isColor = (value: unknown): value is string => typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+
+const clampNumber = (value: unknown, [min, max]: number[], fallback: number) => (isFiniteNumber(value) ? Math.min(max, Math.max(min, value)) : fallback);
+
+const cleanText = (value: unknown, maxLength: number) => (typeof value === 'string' && value.trim() ? value.trim().slice(0, maxLength) : null);
+
+// Known entries only, without duplicates; an empty result keeps the fallback
+const pickKnown = <T extends string>(value: unknown, known: readonly T[], fallback: T[]): T[] => {
+  const list = Array.isArray(value) ? Array.from(new Set(value.filter((item): item is T => (known as readonly unknown[]).includes(item)))) : [];
+  return list.length > 0 ? list : fallback;
+};
+
+const isStringKey = (value: unknown): value is StringKey => typeof value === 'string' && value in en;
+
+// `seed` and `indexInSystem` place the planet (terrain, starmap orbit); those are never taken from `raw`
+export const sanitizePlanet = (raw: unknown, seed: number, indexInSystem: number): PlanetData => {
+  const base = generatePlanetFromSeed(seed, indexInSystem);
+  const data: Record<string, unknown> = isRecord(raw) ? raw : {};
+  const description = cleanText(data.description, PLANET_LIMITS.DESCRIPTION_LENGTH);
+  const keys = data.descriptionKeys;
+  const descriptionKeys = Array.isArray(keys) && keys.length > 0 && keys.every(isStringKey) ? [...keys] : undefined;
+  const enemyColor = isColor(data.enemyColor) ? data.enemyColor : base.enemyColor; const groundColor = isColor(data.groundColor) ? data.groundColor : base.groundColor;
+  const hasPalette = isColor(data.enemyColor) || isColor(data.groundColor);
+
+  return {
+    ...base,
+    name: cleanText(data.name, PLANET_LIMITS.NAME_LENGTH) ?? base.name,
+    description: description ?? base.description,
+    descriptionKeys: description ? descriptionKeys : base.descriptionKeys,
+    climate: isClimate(data.climate) ? data.climate : hasPalette ? inferClimate({ enemyColor, groundColor }) : base.climate,
+    gravity: Math.round(clampNumber(data.gravity, PLANET_LIMITS.GRAVITY, base.gravity) * 100) / 100,
+    atmosphereColor: isColor(data.atmosphereColor) ? data.atmosphereColor : base.atmosphereColor,
+    groundColor,
+    enemyColor,
+    floraColor: isColor(data.floraColor) ? data.floraColor : base.floraColor,
+    enemyDensity: Math.round(clampNumber(data.enemyDensity, PLANET_LIMITS.ENEMY_DENSITY, base.enemyDensity)),
+    rareLootChance: clampNumber(data.rareLootChance, [0, 1], base.rareLootChance),
+    allowedBiomes: pickKnown(data.allowedBiomes, BIOME_STYLES, base.allowedBiomes),
+    weatherTraits: pickKnown(data.weatherTraits, WEATHER_TYPES, base.weatherTraits),
+    vegetationDensity: clampNumber(data.vegetationDensity, [0, 1], base.vegetationDensity),
+    weatherVolatility: clampNumber(data.weatherVolatility, [0, 1], base.weatherVolatility),
+  };
+};
@@ -0,0 +1,96 @@
+import { InputSnapshot, PlanetData, PlayerUpgrades, ReplayData, ReplayInputRun, WeaponLoadout } from "../types";
+import { isLoadout } from "./armoryService";
+import { isClimate } from "./planetGenerator";
+import { formatSeed } from "./rng";
+
+export const REPLAY_VERSION = 7; // 2: weapon slots and ammo, 3: craters and buried caches, 4: platforms, 5: streamed chunks, 6: planet climates, 7: dropped chunks lose their craters, one spatial hash per step (older recordings would desync)
+
+// --- Input Encoding ---
+// Inputs are quantized before they reach the simulation, so a recorded run replays bit-for-bit.
+const FLAG_JUMP = 1;
+const FLAG_JETPACK = 2;
+const FLAG_JUMP_JETPACK = 4;
+const FLAG_FIRE = 8;
+const FLAG_LOOK_DOWN = 16;
+const FLAG_SWAP = 32;
+
+const encodeInput = (input: InputSnapshot): ReplayInputRun => {
+  const flags = (input.jump ? FLAG_JUMP : 0) | (input.jetpack ? FLAG_JETPACK : 0) | (input.jumpTriggersJetpack ? FLAG_JUMP_JETPACK : 0) | (input.fire ? FLAG_FIRE : 0) | (input.lookDown ? FLAG_LOOK_DOWN : 0) | (input.swap ? FLAG_SWAP : 0);
+  return [1, Math.round(input.moveX * 100), flags, Math.round(input.aimAngle * 1000), Math.round(input.lookY)];
+};
+
+const decodeInput = (run: ReplayInputRun): InputSnapshot => {
+  const [, moveX, flags, aim, lookY] = run;
+  return {
+    moveX: moveX / 100,
+    jump: (flags & FLAG_JUMP) !== 0,
+    jetpack: (flags & FLAG_JETPACK) !== 0,
+    jumpTriggersJetpack: (flags & FLAG_JUMP_JETPACK) !== 0,
+    fire: (flags & FLAG_FIRE) !== 0,
+    swap: (flags & FLAG_SWAP) !== 0,
+    aimAngle: aim / 1000,
+    lookDown: (flags & FLAG_LOOK_DOWN) !== 0,
+    lookY
+  };
+};
+
+const sameInput = (a: ReplayInputRun, b: ReplayInputRun) => a[1] === b[1] && a[2] === b[2] && a[3] === b[3] && a[4] === b[4];
+
+// --- Recording ---
+export const createReplayRecorder = (planet: PlanetData, upgrades: PlayerUpgrades, missionSeed: number, loadout: WeaponLoadout) => {
+  const replay: ReplayData = { version: REPLAY_VERSION, recordedAt: Date.now(), planet, upgrades: { ...upgrades }, loadout, missionSeed, steps: 0, outcome: null, score: 0, viewports: [], inputs: [] };
+  return {
+    // Returns the quantized input: feed that to the simulation, not the raw one
+    record: (input: InputSnapshot): InputSnapshot => {
+      const run = encodeInput(input);
+      const last = replay.inputs[replay.inputs.length - 1];
+      if (last && sameInput(last, run)) last[0]++; else replay.inputs.push(run);
+      replay.steps++;
+      return decodeInput(run);
+    },
+    recordViewport: (width: number, height: number) => {
+      const last = replay.viewports[replay.viewports.length - 1];
+      if (last && last.step === replay.steps) { last.width = width; last.height = height; }
+      else replay.viewports.push({ step: replay.steps, width, height });
+    },
+    finish: (outcome: ReplayData['outcome'], score: number): ReplayData => ({ ...replay, outcome, score, inputs: replay.inputs.map(r => [...r] as ReplayInputRun), viewports: [...replay.viewports] }),
+  };
+};
+
+export type ReplayRecorder = ReturnType<typeof createReplayRecorder>;
+
+// --- Playback ---
+// Expands the run-length encoded stream into one snapshot per step (cheap random access for scrubbing)
+export const expandReplayInputs = (replay: ReplayData): InputSnapshot[] => {
+  const frames: InputSnapshot[] = [];
+  replay.inputs.forEach(run => { const input = decodeInput(run); for (let i = 0; i < run[0]; i++) frames.push(input); });
+  return frames;
+};
+
+// Viewport in effect at a given step
+export const getReplayViewport = (replay: ReplayData, step: number) => {
+  let current = replay.viewports[0];
+  for (const v of replay.viewports) { if (v.step <= step) current = v; else break; }
+  return current;
+};
+
+// --- File Format ---
+export const serializeReplay = (replay: ReplayData) => JSON.stringify(replay);
+
+export const parseReplay = (text: string): ReplayData => {
+  const data = JSON.parse(text);
+  if (!data || typeof data !== 'object') throw new Error('Replay file is empty or malformed');
+  if (data.version !== REPLAY_VERSION) throw new Error(`Unsupported replay version ${data.version} (expected ${REPLAY_VERSION})`);
+  if (!data.planet || typeof data.planet.seed !== 'number' || !isClimate(data.planet.climate)) throw new Error('Replay is missing planet data');
+  if (typeof data.missionSeed !== 'number' || !data.upgrades) throw new Error('Replay is missing mission seed or upgrades');
+  if (data.loadout !== undefined && !isLoadout(data.loadout)) throw new Error('Replay weapon loadout is corrupted');
+  if (!Array.isArray(data.inputs) || !data.inputs.every((r: unknown) => Array.isArray(r) && r.length === 5 && r.every(n => typeof n === 'number'))) throw new Error('Replay input stream is corrupted');
+  if (!Array.isArray(data.viewports) || data.viewports.length === 0) throw new Error('Replay is missing viewport data');
+  const steps = data.inputs.reduce((sum: number, r: ReplayInputRun) => sum + r[0], 0);
+  return { ...data, steps } as ReplayData;
+};
+
+export const getReplayFileName = (replay: ReplayData) => {
+  const slug = replay.planet.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `cosmic-drifter-${slug || 'landing'}-${formatSeed(replay.missionSeed)}.replay.json`;
+};
@@ -0,0 +1,62 @@
+// Seedable pseudo-random number generator (mulberry32).
+// Everything that shapes a world must draw from one of these instead of Math.random(),
+// so the same seed always rebuilds the same planet.
+
+export interface Rng {
+  readonly seed: number;
+  next: () => number; // Float in [0, 1)
+  range: (min: number, max: number) => number; // Float in [min, max)
+  int: (min: number, max: number) => number; // Integer in [min, max]
+  pick: <T>(arr: readonly T[]) => T;
+  chance: (probability: number) => boolean;
+}
+
+// Normalise any number to an unsigned 32-bit seed
+const toSeed = (value: number) => (Math.floor(value) >>> 0);
+
+export const createRng = (seed: number): Rng => {
+  const initial = toSeed(seed);
+  let s = initial;
+
+  const next = () => {
+    s = (s + 0x6D2B79F5) >>> 0;
+    let t = s;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    seed: initial,
+    next,
+    range: (min, max) => min + next() * (max - min),
+    int: (min, max) => Math.floor(next() * (max - min + 1)) + min,
+    pick: (arr) => arr[Math.floor(next() * arr.length)],
+    chance: (probability) => next() < probability,
+  };
+};
+
+// The only place allowed to touch Math.random(): picks a fresh seed for a new run
+export const randomSeed = (): number => toSeed(Math.random() * 4294967296);
+
+// Derive an independent sub-seed (e.g. planet #2 of a system, or the "terrain" stream of a planet)
+export const deriveSeed = (seed: number, salt: number | string): number => {
+  let h = toSeed(seed) ^ 0x9E3779B9;
+  const text = String(salt);
+  for (let i = 0; i < text.length; i++) {
+    h = Math.imul(h ^ text.charCodeAt(i), 0x85EBCA6B);
+    h ^= h >>> 13;
+  }
+  h = Math.imul(h ^ (h >>> 16), 0xC2B2AE35);
+  return (h ^ (h >>> 16)) >>> 0;
+};
+
+// Seeds are shared as short base-36 codes ("play this planet" links, bug reports)
+export const formatSeed = (seed: number): string => toSeed(seed).toString(36).toUpperCase();
+
+export const parseSeed = (code: string): number | null => {
+  const trimmed = code.trim().toLowerCase();
+  if (!/^[0-9a-z]{1,7}$/.test(trimmed)) return null;
+  const value = parseInt(trimmed, 36);
+  return value <= 0xFFFFFFFF ? value : null;
+};
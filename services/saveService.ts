@@ -0,0 +1,160 @@
+import { INITIAL_UPGRADES, STARTING_CORES } from "../constants";
+import { PlayerUpgrades, SaveData, SaveSlotSummary, VisitedPlanet } from "../types";
+import { createArmory, sanitizeArmory } from "./armoryService";
+import { adoptSystem, generateGalaxy, getCurrentSector, isGalaxy } from "./galaxyService";
+import { isFiniteNumber, isRecord } from "./guards";
+import { inferClimate } from "./planetGenerator";
+
+// --- Storage Backend ---
+// Minimal subset of the Web Storage API, so tests (or other platforms) can swap it out.
+export interface StorageAdapter {
+  getItem: (key: string) => string | null;
+  setItem: (key: string, value: string) => void;
+  removeItem: (key: string) => void;
+}
+
+export const createMemoryStorage = (): StorageAdapter => {
+  const data = new Map<string, string>();
+  return {
+    getItem: (key) => data.has(key) ? data.get(key)! : null,
+    setItem: (key, value) => { data.set(key, value); },
+    removeItem: (key) => { data.delete(key); },
+  };
+};
+
+// Falls back to memory when localStorage is unavailable (private mode, Node, sandboxed iframe)
+const getDefaultStorage = (): StorageAdapter => {
+  try {
+    if (typeof window !== 'undefined' && window.localStorage) return window.localStorage;
+  } catch (e) {
+    console.warn("localStorage unavailable, saves will not persist:", e);
+  }
+  return createMemoryStorage();
+};
+
+let storage: StorageAdapter | null = null;
+export const getStorage = () => { if (!storage) storage = getDefaultStorage(); return storage; };
+
+export const setStorageAdapter = (adapter: StorageAdapter) => { storage = adapter; };
+
+// --- Save Format ---
+export const SAVE_VERSION = 5;
+export const SAVE_SLOT_COUNT = 3;
+
+const SLOT_KEY_PREFIX = 'cosmic-drifter:save:';
+const LAST_SLOT_KEY = 'cosmic-drifter:last-slot';
+const slotKey = (slot: number) => `${SLOT_KEY_PREFIX}${slot}`;
+
+export const createNewSave = (): SaveData => ({
+  version: SAVE_VERSION,
+  savedAt: Date.now(),
+  totalCores: STARTING_CORES,
+  upgrades: { ...INITIAL_UPGRADES },
+  galaxy: generateGalaxy(),
+  visitedPlanets: [],
+  armory: createArmory(),
+  probedPlanets: []
+});
+
+const colorOf = (value: unknown) => (typeof value === 'string' ? value : '');
+
+// Shapes are left as found: whatever is still broken afterwards fails isGalaxy and gets a fresh galaxy
+const addPlanetClimate = (planet: unknown) => (isRecord(planet) ? { ...planet, climate: inferClimate({ enemyColor: colorOf(planet.enemyColor), groundColor: colorOf(planet.groundColor) }) } : planet);
+const addSectorClimates = (sector: unknown) => (isRecord(sector) && Array.isArray(sector.planets) ? { ...sector, planets: sector.planets.map(addPlanetClimate) } : sector);
+const addClimates = (galaxy: unknown) => (isRecord(galaxy) && Array.isArray(galaxy.sectors) ? { ...galaxy, sectors: galaxy.sectors.map(addSectorClimates) } : galaxy);
+
+// Each entry upgrades a save FROM that version to the next one.
+// Never edit an existing step: add a new one and bump SAVE_VERSION.
+type SaveMigration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+const MIGRATIONS: Record<number, SaveMigration> = {
+  // v0: unversioned data, same shape as v1
+  0: (data) => ({ ...data, version: 1 }),
+  // v1 -> v2: armory added, start with an empty one
+  1: (data) => ({ ...data, armory: createArmory(), version: 2 }),
+  // v2 -> v3: the single star system becomes the starting sector of a galaxy
+  2: ({ currentSector, starSystem, ...data }) => ({ ...data, galaxy: adoptSystem(generateGalaxy(), String(currentSector), Array.isArray(starSystem) ? starSystem : []), version: 3 }),
+  // v3 -> v4: planets record their climate; stored ones get it back from their palette
+  3: (data) => ({ ...data, galaxy: addClimates(data.galaxy), version: 4 }),
+  // v4 -> v5: deep-scan probes, none launched yet
+  4: (data) => ({ ...data, probedPlanets: [], version: 5 }),
+};
+
+const isVisitedPlanet = (value: unknown): value is VisitedPlanet => isRecord(value) && isFiniteNumber(value.seed) && typeof value.name === 'string' && typeof value.sector === 'string'
+  && (value.outcome === 'victory' || value.outcome === 'failed') && isFiniteNumber(value.score) && isFiniteNumber(value.visitedAt);
+
+// Stored levels that are not numbers keep the default
+const mergeUpgrades = (raw: unknown, defaults: PlayerUpgrades): PlayerUpgrades => {
+  const upgrades = { ...defaults };
+  if (isRecord(raw)) (Object.keys(upgrades) as (keyof PlayerUpgrades)[]).forEach(key => { const level = raw[key]; if (isFiniteNumber(level)) upgrades[key] = level; });
+  return upgrades;
+};
+
+export const migrateSave = (raw: unknown): SaveData => {
+  if (!isRecord(raw)) throw new Error("Save data is not an object");
+  let data: Record<string, unknown> = { ...raw };
+  let version = typeof data.version === 'number' ? data.version : 0;
+  if (version > SAVE_VERSION) throw new Error(`Save version ${version} is newer than supported (${SAVE_VERSION})`);
+  while (version < SAVE_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) throw new Error(`No migration from save version ${version}`);
+    data = step(data);
+    version = data.version as number; // Every step sets the next version
+  }
+
+  // Fill any field missing from older/partial saves with defaults
+  const defaults = createNewSave();
+  return {
+    savedAt: isFiniteNumber(data.savedAt) ? data.savedAt : defaults.savedAt,
+    totalCores: isFiniteNumber(data.totalCores) ? data.totalCores : defaults.totalCores,
+    upgrades: mergeUpgrades(data.upgrades, defaults.upgrades),
+    galaxy: isGalaxy(data.galaxy) ? data.galaxy : defaults.galaxy,
+    visitedPlanets: Array.isArray(data.visitedPlanets) ? data.visitedPlanets.filter(isVisitedPlanet) : [],
+    armory: sanitizeArmory(data.armory),
+    probedPlanets: Array.isArray(data.probedPlanets) ? data.probedPlanets.filter((seed): seed is number => Number.isInteger(seed)) : [],
+    version: SAVE_VERSION
+  };
+};
+
+// --- Slot API ---
+export const loadGame = (slot: number): SaveData | null => {
+  const text = getStorage().getItem(slotKey(slot));
+  if (!text) return null;
+  try {
+    return migrateSave(JSON.parse(text));
+  } catch (error) {
+    console.error(`Corrupted save in slot ${slot}:`, error);
+    return null;
+  }
+};
+
+export const saveGame = (slot: number, data: SaveData) => {
+  const payload: SaveData = { ...data, version: SAVE_VERSION, savedAt: Date.now() };
+  try {
+    getStorage().setItem(slotKey(slot), JSON.stringify(payload));
+    getStorage().setItem(LAST_SLOT_KEY, String(slot));
+  } catch (error) {
+    console.error(`Failed to write save slot ${slot}:`, error);
+  }
+};
+
+export const deleteSave = (slot: number) => {
+  getStorage().removeItem(slotKey(slot));
+  if (getLastSlot() === slot) getStorage().removeItem(LAST_SLOT_KEY);
+};
+
+export const getLastSlot = (): number | null => {
+  const value = getStorage().getItem(LAST_SLOT_KEY);
+  if (value === null) return null;
+  const slot = parseInt(value, 10);
+  return Number.isInteger(slot) && slot >= 0 && slot < SAVE_SLOT_COUNT ? slot : null;
+};
+
+export const listSaveSlots = (): (SaveSlotSummary | null)[] => {
+  const slots: (SaveSlotSummary | null)[] = [];
+  for (let slot = 0; slot < SAVE_SLOT_COUNT; slot++) {
+    const data = loadGame(slot);
+    slots.push(data ? { slot, savedAt: data.savedAt, currentSector: getCurrentSector(data.galaxy).name, totalCores: data.totalCores, planetsVisited: data.visitedPlanets.length } : null);
+  }
+  return slots;
+};
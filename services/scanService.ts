@@ -0,0 +1,79 @@
+import { SCAN } from "../constants";
+import { getArchetype } from "../engine/archetypes";
+import { GUARDIAN_PHASES } from "../engine/archetypes/guardian";
+import { GuardianVariant, getGuardianVariant } from "../engine/boss/variants";
+import { BiomeStyle, BossAttackId, EnemyArchetype, HazardType, PlanetData, WeatherType } from "../types";
+import { generateChunk, generateLevel, getCoreCount, getExpectedHazards } from "./levelGenerator";
+
+// --- Planetary Scans ---
+// The orbital scan reads the planet data as rough bands. A deep-scan probe builds the actual level
+// (generation is a pure function of the planet) and reports exact counts and the guardian waiting at the end.
+
+export type ScanBand = 'low' | 'moderate' | 'high';
+
+export interface ScanReport {
+  biomes: BiomeStyle[];
+  weatherTraits: WeatherType[];
+  volatility: ScanBand;
+  vegetation: ScanBand;
+  rareLoot: ScanBand;
+  hazards: HazardType[]; // Types that can appear, not a count
+  coreCount: number;
+}
+
+export interface DeepScanReport {
+  weatherVolatility: number;
+  vegetationDensity: number;
+  rareLootChance: number;
+  hazards: { type: HazardType; count: number }[]; // Segments of each type across the whole level
+  biomes: { biome: BiomeStyle; chunks: number }[];
+  caches: number; // Buried loot
+  elites: { archetype: EnemyArchetype; count: number }[]; // Core guards
+  guardian: { variant: GuardianVariant; hp: number; phases: number; attacks: BossAttackId[] };
+}
+
+export const getScanBand = (value: number): ScanBand => (value < SCAN.LOW ? 'low' : value < SCAN.HIGH ? 'moderate' : 'high');
+
+export const isProbed = (probedPlanets: number[], planet: PlanetData) => probedPlanets.includes(planet.seed);
+
+export const launchProbe = (probedPlanets: number[], planet: PlanetData) => (isProbed(probedPlanets, planet) ? probedPlanets : [...probedPlanets, planet.seed]);
+
+export const scanPlanet = (planet: PlanetData): ScanReport => ({
+  biomes: [...planet.allowedBiomes],
+  weatherTraits: [...planet.weatherTraits],
+  volatility: getScanBand(planet.weatherVolatility),
+  vegetation: getScanBand(planet.vegetationDensity),
+  rareLoot: getScanBand(planet.rareLootChance),
+  hazards: getExpectedHazards(planet),
+  coreCount: getCoreCount(planet),
+});
+
+// Tally of keys in first-seen order
+const tally = <T>(items: T[]) => {
+  const counts = new Map<T, number>();
+  items.forEach(item => counts.set(item, (counts.get(item) || 0) + 1));
+  return Array.from(counts);
+};
+
+export const deepScanPlanet = (planet: PlanetData): DeepScanReport => {
+  const level = generateLevel(planet);
+  const hazards: HazardType[] = []; const biomes: BiomeStyle[] = []; let caches = 0;
+  for (let index = 0, height = level.startHeight; index < level.chunkCount; index++) {
+    const chunk = generateChunk(planet, level, index, height);
+    chunk.hazards.forEach(h => hazards.push(h.type)); biomes.push(chunk.biome); caches += chunk.caches.length;
+    height = chunk.endHeight;
+  }
+  const variant = getGuardianVariant(planet);
+  const attacks = Array.from(new Set(Object.values(variant.rotation).flat()));
+
+  return {
+    weatherVolatility: planet.weatherVolatility,
+    vegetationDensity: planet.vegetationDensity,
+    rareLootChance: planet.rareLootChance,
+    hazards: tally(hazards).map(([type, count]) => ({ type, count })),
+    biomes: tally(biomes).map(([biome, chunks]) => ({ biome, chunks })),
+    caches,
+    elites: tally(level.guards.map(g => g.archetype!)).map(([archetype, count]) => ({ archetype, count })),
+    guardian: { variant, hp: getArchetype('guardian').stats.hp, phases: GUARDIAN_PHASES, attacks },
+  };
+};
@@ -0,0 +1,136 @@
+import { DEFAULT_ACCESSIBILITY, DEFAULT_AUDIO, DEFAULT_CONTROLS, DEFAULT_GRAPHICS, DEFAULT_PLANET_PROVIDER, QUALITY_PRESETS } from "../constants";
+import { AccessibilitySettings, AudioBus, AudioSettings, ControlSettings, GameSettings, GraphicsSettings, InputAction, QualityPreset } from "../types";
+import { getStorage } from "./saveService";
+import { isFiniteNumber, isRecord } from "./guards";
+import { detectLanguage, isLanguage } from "./i18n";
+import { isPlanetProviderId } from "./planetProvider";
+
+// --- Settings Format ---
+// Settings are per device, not per campaign: they live outside the save slots.
+export const SETTINGS_VERSION = 2;
+
+const SETTINGS_KEY = 'cosmic-drifter:settings';
+
+export const cloneControls = (controls: ControlSettings): ControlSettings => ({
+  keyboard: Object.fromEntries(Object.entries(controls.keyboard).map(([action, codes]) => [action, [...codes]])) as ControlSettings['keyboard'],
+  gamepad: Object.fromEntries(Object.entries(controls.gamepad).map(([action, buttons]) => [action, [...buttons]])) as ControlSettings['gamepad'],
+  deadZone: controls.deadZone,
+});
+
+const cloneAudio = (audio: AudioSettings): AudioSettings => ({
+  ...audio,
+  buses: Object.fromEntries(Object.entries(audio.buses).map(([bus, channel]) => [bus, { ...channel }])) as AudioSettings['buses'],
+});
+
+export const createDefaultSettings = (): GameSettings => ({
+  version: SETTINGS_VERSION,
+  language: detectLanguage(),
+  controls: cloneControls(DEFAULT_CONTROLS),
+  audio: cloneAudio(DEFAULT_AUDIO),
+  accessibility: { ...DEFAULT_ACCESSIBILITY },
+  graphics: { ...DEFAULT_GRAPHICS },
+  planetProvider: DEFAULT_PLANET_PROVIDER,
+});
+
+// Each entry upgrades settings FROM that version to the next one (same rules as save migrations)
+type SettingsMigration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+const MIGRATIONS: Record<number, SettingsMigration> = {
+  // v1: one master volume (raw gain, 0.3 by default) -> master slider plus per-bus mixer
+  1: (data) => {
+    const { volume, muted } = isRecord(data.audio) ? data.audio : {};
+    return { ...data, audio: { master: isFiniteNumber(volume) ? Math.min(1, volume / 0.3) : 1, muted: !!muted }, version: 2 };
+  },
+};
+
+const migrateSettings = (raw: unknown) => {
+  if (!isRecord(raw)) throw new Error("Settings are not an object");
+  let data: Record<string, unknown> = { ...raw };
+  let version = typeof data.version === 'number' ? data.version : 1;
+  while (version < SETTINGS_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) throw new Error(`No migration from settings version ${version}`);
+    data = step(data);
+    version = data.version as number; // Every step sets the next version
+  }
+  return data;
+};
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+const mergeAudio = (raw: unknown): AudioSettings => {
+  const audio = cloneAudio(DEFAULT_AUDIO);
+  if (!isRecord(raw)) return audio;
+  if (isFiniteNumber(raw.master)) audio.master = clamp01(raw.master);
+  audio.muted = !!raw.muted;
+  const buses = isRecord(raw.buses) ? raw.buses : {};
+  (Object.keys(audio.buses) as AudioBus[]).forEach(bus => {
+    const channel = buses[bus];
+    if (!isRecord(channel)) return;
+    if (isFiniteNumber(channel.volume)) audio.buses[bus].volume = clamp01(channel.volume);
+    if (typeof channel.muted === 'boolean') audio.buses[bus].muted = channel.muted;
+  });
+  return audio;
+};
+
+const isQualityPreset = (value: unknown): value is QualityPreset => typeof value === 'string' && value in QUALITY_PRESETS;
+
+const mergeGraphics = (raw: unknown): GraphicsSettings => {
+  const graphics = isRecord(raw) ? raw : {};
+  return {
+    quality: isQualityPreset(graphics.quality) ? graphics.quality : DEFAULT_GRAPHICS.quality,
+    showPoolStats: typeof graphics.showPoolStats === 'boolean' ? graphics.showPoolStats : DEFAULT_GRAPHICS.showPoolStats,
+  };
+};
+
+const mergeAccessibility = (raw: unknown): AccessibilitySettings => {
+  const accessibility = isRecord(raw) ? raw : {};
+  return {
+    screenShake: isFiniteNumber(accessibility.screenShake) ? clamp01(accessibility.screenShake) : DEFAULT_ACCESSIBILITY.screenShake,
+    reduceFlashing: typeof accessibility.reduceFlashing === 'boolean' ? accessibility.reduceFlashing : DEFAULT_ACCESSIBILITY.reduceFlashing,
+  };
+};
+
+// Keeps stored bindings for known actions and falls back to defaults for anything missing or malformed
+const mergeControls = (raw: unknown): ControlSettings => {
+  const controls = cloneControls(DEFAULT_CONTROLS);
+  if (!isRecord(raw)) return controls;
+  const keyboard = isRecord(raw.keyboard) ? raw.keyboard : {}; const gamepad = isRecord(raw.gamepad) ? raw.gamepad : {};
+  (Object.keys(controls.keyboard) as InputAction[]).forEach(action => {
+    const codes = keyboard[action];
+    if (Array.isArray(codes) && codes.every((c): c is string => typeof c === 'string')) controls.keyboard[action] = [...codes];
+    const buttons = gamepad[action];
+    if (Array.isArray(buttons) && buttons.every((b): b is number => Number.isInteger(b))) controls.gamepad[action] = [...buttons];
+  });
+  if (isFiniteNumber(raw.deadZone) && raw.deadZone >= 0 && raw.deadZone < 1) controls.deadZone = raw.deadZone;
+  return controls;
+};
+
+export const loadSettings = (): GameSettings => {
+  const text = getStorage().getItem(SETTINGS_KEY);
+  if (!text) return createDefaultSettings();
+  try {
+    const raw = migrateSettings(JSON.parse(text));
+    const defaults = createDefaultSettings();
+    return {
+      language: isLanguage(raw.language) ? raw.language : defaults.language,
+      controls: mergeControls(raw.controls),
+      audio: mergeAudio(raw.audio),
+      accessibility: mergeAccessibility(raw.accessibility),
+      graphics: mergeGraphics(raw.graphics),
+      planetProvider: isPlanetProviderId(raw.planetProvider) ? raw.planetProvider : defaults.planetProvider,
+      version: SETTINGS_VERSION
+    };
+  } catch (error) {
+    console.error("Corrupted settings, using defaults:", error);
+    return createDefaultSettings();
+  }
+};
+
+export const saveSettings = (settings: GameSettings) => {
+  try {
+    getStorage().setItem(SETTINGS_KEY, JSON.stringify({ ...settings, version: SETTINGS_VERSION }));
+  } catch (error) {
+    console.error("Failed to write settings:", error);
+  }
+};
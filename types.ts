@@ -1,22 +1,40 @@
+import type { StringKey } from './services/locales/en';
+import type { EnemyArchetype } from './engine/archetypes';
+
+export type { EnemyArchetype };
+
 export enum GameStatus {
   MENU = 'MENU',
   HANGAR = 'HANGAR',
   LOADING_PLANET = 'LOADING_PLANET',
   PLAYING = 'PLAYING',
   GAME_OVER = 'GAME_OVER',
-  VICTORY = 'VICTORY'
+  VICTORY = 'VICTORY',
+  REPLAY = 'REPLAY'
 }
 
 export type BiomeStyle = 'dunes' | 'crags' | 'spire' | 'plateau';
 
-export type EnemyArchetype = 'crawler' | 'sentinel' | 'dasher' | 'hornet' | 'guardian' | 'neutral' | 'sandworm' | 'shielder' | 'spore';
 
 export type WeaponType = 'blaster' | 'scatter' | 'rapid' | 'sniper' | 'launcher';
 
+export type LootType = 'core' | 'weapon' | 'health' | 'mod' | 'ammo';
+
 export type HazardType = 'lava' | 'acid' | 'spikes' | 'ice' | 'geyser' | 'electric' | 'none';
 
 export type WeatherType = 'clear' | 'rain' | 'acid_rain' | 'snow' | 'ash' | 'sandstorm';
 
+// Climate template a planet was generated from; drives its environment whatever its colors
+export type PlanetClimate = 'volcanic' | 'toxic' | 'ice' | 'desert' | 'void';
+
+export type SkyType = 'hot' | 'cold' | 'toxic' | 'neutral';
+
+export interface ClimateDef {
+  poolHazard: HazardType; // Sunken hazard used when the terrain style rolls none ('none' leaves the dip empty)
+  icySpires: boolean; // Spire ground freezes over
+  sky: SkyType; // Kinds of celestial bodies in the background
+}
+
 export interface WeaponStats {
   name: string;
   damageMult: number;
@@ -30,6 +48,68 @@ export interface WeaponStats {
   gravity?: number; // If defined, projectile arcs
   pierce?: number; // How many enemies it can hit
   knockback: number; // New: Force applied to enemies
+  ammo?: number; // Rounds in a full gun; undefined = unlimited (blaster)
+  statusEffect?: StatusEffectId; // Inflicted on enemies hit (or caught in the blast)
+  statusChance?: number; // Per hit, default 1
+}
+
+// --- Status Effects ---
+export type StatusEffectId = 'burning' | 'corroded' | 'shocked' | 'frozen' | 'slowed';
+
+export interface StatusEffectDef {
+  duration: number; // Ticks, refreshed on every reapplication
+  maxStacks: number; // 1 = reapplying only refreshes the duration
+  tickEvery: number; // Ticks between damage ticks; the first lands when applied
+  damage: number; // Per stack per damage tick
+  speedMult?: number; // Movement multiplier while active
+  damageTakenMult?: number; // Extra damage taken per stack (corrosion eats armor)
+  stun?: boolean; // No firing, jumping or AI while active
+  cancels?: StatusEffectId[]; // Removed when this one is applied (fire thaws ice)
+  color: string;
+}
+
+// One active effect on an entity
+export interface StatusEffect {
+  id: StatusEffectId;
+  ticks: number; // Remaining
+  age: number; // Ticks since first applied, drives the damage cadence
+  stacks: number;
+}
+
+// --- Weapon Mods ---
+export type ModSlot = 'barrel' | 'magazine' | 'payload';
+export type WeaponModId = 'choke' | 'wideBore' | 'rifling' | 'hairTrigger' | 'heavyRounds' | 'stabilizer' | 'explosive' | 'mortar' | 'sabot' | 'incendiary' | 'cryo' | 'arc';
+export type ModdableStat = 'damageMult' | 'fireRate' | 'speed' | 'count' | 'spread' | 'recoil' | 'pierce' | 'knockback';
+
+export interface WeaponModDef {
+  slot: ModSlot;
+  cost: number; // Cores in the armory shop
+  color: string;
+  mult?: Partial<Record<ModdableStat, number>>; // Applied first
+  add?: Partial<Record<ModdableStat, number>>;
+  set?: Partial<Pick<WeaponStats, 'isExplosive' | 'gravity' | 'statusEffect' | 'statusChance'>>;
+}
+
+export type WeaponModSlots = Partial<Record<ModSlot, WeaponModId>>;
+
+// What the player lands with: the starting gun plus the mods installed on every gun they own
+export interface WeaponLoadout {
+  weapon: WeaponType;
+  mods: Partial<Record<WeaponType, WeaponModSlots>>;
+}
+
+// Hangar storage, persisted in the save
+export interface ArmoryData {
+  weapons: WeaponType[]; // Owned guns, the blaster is always among them
+  equipped: WeaponType;
+  installed: Partial<Record<WeaponType, WeaponModSlots>>;
+  mods: Partial<Record<WeaponModId, number>>; // Spare mods in storage
+}
+
+// Gear picked up during a landing, kept on a successful extraction
+export interface MissionSalvage {
+  weapons: WeaponType[];
+  mods: WeaponModId[];
 }
 
 export interface PlayerUpgrades {
@@ -40,8 +120,11 @@ export interface PlayerUpgrades {
 }
 
 export interface PlanetData {
+  seed: number; // Drives all procedural generation for this planet (terrain, hazards, flora, sky)
   name: string;
-  description: string;
+  description: string; // Literal text (save files, external sources); shown when descriptionKeys is missing
+  descriptionKeys?: StringKey[]; // Localized sentences of a generated description, joined with a space
+  climate: PlanetClimate;
   gravity: number; // 1.0 is normal, 0.5 low, 1.5 high
   atmosphereColor: string;
   groundColor: string;
@@ -60,6 +143,14 @@ export interface PlanetData {
   size?: number; // Visual size in Starmap
 }
 
+// Backend that fills a star system with planets (see services/planetProvider.ts)
+export type PlanetProviderId = 'procedural' | 'gemini' | 'mock';
+
+export interface PlanetProvider {
+  id: PlanetProviderId;
+  generateSystem: (systemSeed: number) => Promise<PlanetData[]>; // Planet i gets seed deriveSeed(systemSeed, i)
+}
+
 export interface Vector2 {
   x: number;
   y: number;
@@ -71,9 +162,15 @@ export interface Hazard {
   type: HazardType;
 }
 
+// States of the enemy AI machines (engine/ai); archetypes without a machine use a subset directly
+export type AiStateId = 'idle' | 'alert' | 'chase' | 'flank' | 'flee' | 'charge' | 'phase1' | 'phase2' | 'phase3';
+
+export type BossAttackId = 'spread' | 'ring' | 'slam' | 'summon';
+
 export interface Entity {
   id: string;
   pos: Vector2;
+  prevPos?: Vector2; // Position at the previous tick, for render interpolation
   vel: Vector2;
   size: Vector2;
   color: string;
@@ -91,11 +188,14 @@ export interface Entity {
   // Player Specifics
   fuel?: number;
   maxFuel?: number;
-  coyoteTimer?: number; // Frames allowing jump after leaving ground
+  coyoteTimer?: number; // Ticks allowing jump after leaving ground
 
   // AI & Behavior
   archetype?: EnemyArchetype;
-  aiState?: 'idle' | 'alert' | 'chase' | 'attack' | 'flee' | 'charge' | 'phase1' | 'phase2';
+  aiState?: AiStateId;
+  aiActiveState?: AiStateId; // State whose enter hook has run; differs from aiState right after an outside change
+  stateTimer?: number; // Ticks spent in the current AI state
+  flankSide?: -1 | 1; // Side of the player a flanker circles to
   attackTimer?: number; // Cooldown for shooting/dashing
   alertTimer?: number; // Time spent in "!" state before attacking
   targetPos?: Vector2; // For dash aiming or patrolling
@@ -104,13 +204,25 @@ export interface Entity {
   // New AI Props
   isBurrowed?: boolean; // Used for Sandworm (invulnerable state)
   shieldHp?: number;
+  bossAttack?: BossAttackId; // Guardian attack being telegraphed
+  telegraphTimer?: number; // Ticks left in the guardian's wind-up (its core is exposed meanwhile)
+  attackIndex?: number; // Position in the guardian's scripted attack rotation
   
   // Weapon/Loot specifics
-  lootType?: 'core' | 'weapon' | 'health';
+  lootType?: LootType;
   coreTier?: number; // 1: Common, 2: Rare, 3: Critical (Final)
   weaponType?: WeaponType; // For loot or current projectile type
+  modId?: WeaponModId; // For mod loot
   pierceCount?: number;
   isExplosive?: boolean;
+  isShockwave?: boolean; // Enemy projectile that rolls along the ground and breaks on steep rises
+  buried?: boolean; // Loot under the ground until a crater uncovers it
+  platformId?: string; // Platform stood on after the last tick; moving ones carry what rides them
+
+  // Platform specifics
+  platformKind?: PlatformKind;
+  path?: PlatformPath; // Moving platforms only
+  statusEffects?: StatusEffect[]; // Player and enemies
 }
 
 export interface Particle {
@@ -130,7 +242,7 @@ export interface FloatingText {
   id: string;
   x: number;
   y: number;
-  text: string;
+  text: TextRef;
   color: string;
   life: number;
   velY: number;
@@ -171,4 +283,261 @@ export interface Vegetation {
   isTitan: boolean; // Is this a giant plant?
   
   currentBend: number; // New: Physics bending state
-}
\ No newline at end of file
+}
+
+export interface BackgroundLayer {
+  distance: number; // 0 to 1 (1 is far away)
+  speed: number;    // Parallax factor
+  color: string;
+  points: { x: number; y: number }[];
+}
+
+export interface Decoration {
+  x: number;
+  y: number;
+  type: number;
+  size: number;
+}
+
+export interface Star {
+  x: number;
+  y: number;
+  size: number;
+  speed: number;
+  alpha: number;
+}
+
+// Level-wide data generated on landing. Pure function of the planet (and its seed); the ground itself streams in as LevelChunks.
+export interface LevelData {
+  backgroundLayers: BackgroundLayer[];
+  celestialBodies: CelestialBody[];
+  stars: Star[];
+  cores: Entity[]; // Planned along the route; each is set on the ground when its chunk is generated
+  guards: Entity[];
+  totalCoresNeeded: number;
+  chunkCount: number;
+  startHeight: number; // Ground height the first chunk starts from
+}
+
+// One biome's run of WORLD.CHUNK_LENGTH segments and everything on it. Also a pure function of the planet and the chunk index.
+export interface LevelChunk {
+  index: number;
+  biome: BiomeStyle;
+  terrain: number[]; // Heights from segment index * WORLD.CHUNK_LENGTH on
+  endHeight: number; // Where the next chunk's ground picks up
+  hazards: Hazard[];
+  decorations: Decoration[];
+  vegetation: Vegetation[];
+  platforms: Entity[];
+  caches: Entity[]; // Buried loot, uncovered by craters
+  cores: Entity[];
+  guards: Entity[];
+}
+
+// --- Level Geometry ---
+// Platforms sit on top of the heightmap: ledges, floating shards, mesas and cave roofs.
+// One-way platforms only catch what falls onto them; solid ones also block from below and the sides.
+export type PlatformKind = 'oneWay' | 'solid';
+
+// Oscillation around the platform's origin: offset = (dx, dy) * sin(2π * tick / period + phase)
+export interface PlatformPath {
+  originX: number;
+  originY: number;
+  dx: number;
+  dy: number;
+  period: number; // Ticks per full swing
+  phase: number;
+}
+
+// Ground of the live chunks only: heights for the segments from `first` on, carved in place by craters
+export interface Heightmap {
+  first: number; // Segment index of heights[0]
+  heights: number[];
+  hazards: (Hazard | null)[]; // Per segment, so lookups don't scan the hazard list
+}
+
+// Blast scar left on the ground, drawn over the carved terrain
+export interface Crater {
+  x: number;
+  radius: number;
+}
+
+// --- Campaign Persistence ---
+export interface VisitedPlanet {
+  seed: number;
+  name: string;
+  sector: string;
+  outcome: 'victory' | 'failed';
+  score: number;
+  visitedAt: number; // Epoch ms
+}
+
+// --- Galaxy ---
+export interface GalaxySector {
+  id: number; // Index in GalaxyData.sectors
+  name: string;
+  seed: number; // System seed (same seed -> same planets)
+  x: number; // Galaxy map position
+  y: number;
+  planets: PlanetData[] | null; // Kept from the first scan so the system is the same on return; null until scanned
+  visited: boolean;
+}
+
+export interface JumpLane {
+  from: number; // Sector ids, from < to
+  to: number;
+}
+
+export interface GalaxyData {
+  seed: number;
+  sectors: GalaxySector[];
+  lanes: JumpLane[];
+  current: number; // Sector the ship is in
+}
+
+export interface SaveData {
+  version: number;
+  savedAt: number; // Epoch ms
+  totalCores: number;
+  upgrades: PlayerUpgrades;
+  galaxy: GalaxyData;
+  visitedPlanets: VisitedPlanet[];
+  armory: ArmoryData;
+  probedPlanets: number[]; // Seeds of planets a deep-scan probe was launched at
+}
+
+export interface SaveSlotSummary {
+  slot: number;
+  savedAt: number;
+  currentSector: string;
+  totalCores: number;
+  planetsVisited: number;
+}
+
+// --- Simulation I/O ---
+// Everything the simulation needs from the player for one step. Pure data: recordable and replayable.
+export interface InputSnapshot {
+  moveX: number; // -1 (left) to 1 (right)
+  jump: boolean;
+  jetpack: boolean;
+  jumpTriggersJetpack: boolean; // Touch: the jump button also fires the jetpack while airborne
+  fire: boolean;
+  swap: boolean; // Swap weapon slots, or take the weapon drop underfoot when both are full
+  aimAngle: number; // Radians, world space
+  lookDown: boolean;
+  lookY: number; // Vertical camera bias in logical px
+}
+
+// Emitted by the simulation instead of side effects. The view layer turns them into audio, UI and callbacks.
+export type SimEvent =
+  | { type: 'shoot'; weapon: WeaponType; x: number; y: number }
+  | { type: 'enemyShoot'; x: number; y: number }
+  | { type: 'jump'; x: number; y: number }
+  | { type: 'thrust'; x: number; y: number }
+  | { type: 'touchdown'; x: number; y: number }
+  | { type: 'damage'; target: 'player' | 'enemy'; amount: number; x: number; y: number }
+  | { type: 'block'; x: number; y: number }
+  | { type: 'shieldToggle'; up: boolean; x: number; y: number }
+  | { type: 'explosion'; x: number; y: number }
+  | { type: 'death'; target: 'player' | 'enemy'; archetype?: EnemyArchetype; score: number; x: number; y: number }
+  | { type: 'pickup'; lootType: LootType; weaponType?: WeaponType; x: number; y: number }
+  | { type: 'coreProximity'; x: number; y: number }
+  | { type: 'bossSpawn'; x: number; y: number }
+  | { type: 'bossPhase'; phase: number; x: number; y: number }
+  | { type: 'bossTelegraph'; attack: BossAttackId; x: number; y: number }
+  | { type: 'slam'; x: number; y: number }
+  | { type: 'weaponSwap'; weapon: WeaponType }
+  | { type: 'radio'; text: TextRef }
+  | { type: 'gameOver'; reason: TextRef }
+  | { type: 'victory' };
+
+// --- Replays ---
+// One run of identical ticks: [tickCount, moveX * 100, flag bits, aimAngle * 1000, lookY]
+export type ReplayInputRun = [number, number, number, number, number];
+
+export interface ReplayViewport {
+  step: number; // Applied before this step
+  width: number;
+  height: number;
+}
+
+export interface ReplayData {
+  version: number;
+  recordedAt: number;
+  planet: PlanetData; // Full data: AI-generated planets cannot be rebuilt from the seed alone
+  upgrades: PlayerUpgrades;
+  loadout?: WeaponLoadout; // Missing in replays recorded before the armory: plain blaster
+  missionSeed: number;
+  steps: number;
+  outcome: 'victory' | 'failed' | null;
+  score: number;
+  viewports: ReplayViewport[]; // The visible area feeds gameplay (spawn distance, despawns), so it is part of the input
+  inputs: ReplayInputRun[];
+}
+
+// --- Controls & Settings ---
+export type InputAction = 'moveLeft' | 'moveRight' | 'jump' | 'jetpack' | 'fire' | 'lookDown' | 'pause' | 'swapWeapon';
+
+export type KeyBindings = Record<InputAction, string[]>; // KeyboardEvent.code values, 'Mouse0'/'Mouse2' for mouse buttons
+export type GamepadBindings = Record<InputAction, number[]>; // Button indices of the standard gamepad mapping
+
+export interface ControlSettings {
+  keyboard: KeyBindings;
+  gamepad: GamepadBindings;
+  deadZone: number; // 0..1, applied radially to both sticks
+}
+
+export type AudioBus = 'sfx' | 'ui' | 'ambience' | 'music';
+
+export interface AudioChannelSettings {
+  volume: number; // 0..1
+  muted: boolean;
+}
+
+export interface AudioSettings {
+  master: number; // 0..1
+  muted: boolean;
+  buses: Record<AudioBus, AudioChannelSettings>;
+}
+
+// Which procedural music layer is playing
+export type MusicContext = 'silence' | 'hangar' | 'exploration' | 'weather' | 'boss';
+
+export interface AccessibilitySettings {
+  screenShake: number; // 0..1 multiplier on the rendered camera shake
+  reduceFlashing: boolean; // Disables the white hit blink on the player and enemies
+}
+
+// Caps on cosmetic objects (particles, weather, floating text) and the costlier render passes
+export type QualityPreset = 'low' | 'medium' | 'high';
+
+export interface QualitySettings {
+  particles: number;
+  weatherParticles: number;
+  texts: number;
+  lighting: boolean; // Additive glow pass
+}
+
+export interface GraphicsSettings {
+  quality: QualityPreset;
+  showPoolStats: boolean; // Debug counter of live/pooled objects
+}
+
+// --- Localization ---
+export type Language = 'en' | 'it';
+
+// A localizable string: resolved with the active language only when displayed
+export interface TextRef {
+  key: StringKey;
+  params?: Record<string, string | number | TextRef>;
+}
+
+export interface GameSettings {
+  version: number;
+  language: Language;
+  controls: ControlSettings;
+  audio: AudioSettings;
+  accessibility: AccessibilitySettings;
+  graphics: GraphicsSettings;
+  planetProvider: PlanetProviderId;
+}